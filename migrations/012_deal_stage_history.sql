@@ -0,0 +1,31 @@
+-- ============================================================================
+-- NexusCRM: Deal stage history
+--
+-- Records every stage a deal passes through so pipeline velocity can be
+-- reported. The open row for a deal (exited_at IS NULL) is its current stage.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.deal_stage_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  deal_id UUID NOT NULL REFERENCES nexuscrm.deals(id) ON DELETE CASCADE,
+  from_stage VARCHAR(100),
+  stage VARCHAR(100) NOT NULL,
+  probability NUMERIC(5, 2),
+  entered_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  exited_at TIMESTAMPTZ,
+  duration_seconds INTEGER,
+  changed_by UUID,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_deal
+  ON nexuscrm.deal_stage_history (deal_id, entered_at);
+
+CREATE INDEX IF NOT EXISTS idx_deal_stage_history_org_stage
+  ON nexuscrm.deal_stage_history (organization_id, stage);
+
+ALTER TABLE nexuscrm.deal_stage_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY deal_stage_history_org_isolation ON nexuscrm.deal_stage_history
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
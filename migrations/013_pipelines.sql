@@ -0,0 +1,59 @@
+-- ============================================================================
+-- NexusCRM: Sales pipelines and stage definitions
+--
+-- Each organization can run several pipelines (new business, renewals,
+-- partner, ...). A pipeline owns an ordered list of stages; deals reference
+-- the pipeline they belong to and store the stage key in deals.stage.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.pipelines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by UUID,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  deleted_at TIMESTAMPTZ
+);
+
+-- Only one default pipeline per organization
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pipelines_org_default
+  ON nexuscrm.pipelines (organization_id)
+  WHERE is_default AND deleted_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS nexuscrm.pipeline_stages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline_id UUID NOT NULL REFERENCES nexuscrm.pipelines(id) ON DELETE CASCADE,
+  key VARCHAR(100) NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  position INTEGER NOT NULL,
+  default_probability NUMERIC(5, 2),
+  required_fields TEXT[] NOT NULL DEFAULT '{}',
+  is_won BOOLEAN NOT NULL DEFAULT FALSE,
+  is_lost BOOLEAN NOT NULL DEFAULT FALSE,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (pipeline_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_stages_pipeline
+  ON nexuscrm.pipeline_stages (pipeline_id, position);
+
+ALTER TABLE nexuscrm.deals
+  ADD COLUMN IF NOT EXISTS pipeline_id UUID REFERENCES nexuscrm.pipelines(id);
+
+CREATE INDEX IF NOT EXISTS idx_deals_pipeline_stage
+  ON nexuscrm.deals (pipeline_id, stage)
+  WHERE deleted_at IS NULL;
+
+ALTER TABLE nexuscrm.pipelines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nexuscrm.pipeline_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY pipelines_org_isolation ON nexuscrm.pipelines
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
+
+CREATE POLICY pipeline_stages_org_isolation ON nexuscrm.pipeline_stages
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
@@ -0,0 +1,47 @@
+-- ============================================================================
+-- NexusCRM: Contact segments
+--
+-- A segment is a saved filter over contacts. Dynamic segments re-evaluate the
+-- filter every time they are read; static segments snapshot the matching
+-- contacts into segment_members when created or refreshed.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.segments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  mode VARCHAR(20) NOT NULL DEFAULT 'dynamic' CHECK (mode IN ('static', 'dynamic')),
+  filter JSONB NOT NULL DEFAULT '{}',
+  contact_count INTEGER NOT NULL DEFAULT 0,
+  last_evaluated_at TIMESTAMPTZ,
+  tags TEXT[] DEFAULT '{}',
+  created_by UUID,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_segments_org
+  ON nexuscrm.segments (organization_id)
+  WHERE deleted_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS nexuscrm.segment_members (
+  segment_id UUID NOT NULL REFERENCES nexuscrm.segments(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES nexuscrm.contacts(id) ON DELETE CASCADE,
+  added_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  organization_id UUID NOT NULL,
+  PRIMARY KEY (segment_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_segment_members_contact
+  ON nexuscrm.segment_members (contact_id);
+
+ALTER TABLE nexuscrm.segments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nexuscrm.segment_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY segments_org_isolation ON nexuscrm.segments
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
+
+CREATE POLICY segment_members_org_isolation ON nexuscrm.segment_members
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
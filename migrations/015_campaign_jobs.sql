@@ -0,0 +1,38 @@
+-- ============================================================================
+-- NexusCRM: Campaign send jobs
+--
+-- One row per recipient per channel, created when a campaign is launched.
+-- The campaign engine claims pending rows in batches; a row's status is the
+-- source of truth for whether that recipient has been contacted.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.campaign_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES nexuscrm.campaigns(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES nexuscrm.contacts(id) ON DELETE CASCADE,
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'sms', 'voice', 'whatsapp')),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'sent', 'delivered', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  external_id VARCHAR(255),
+  error TEXT,
+  started_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (campaign_id, contact_id, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_campaign_jobs_pending
+  ON nexuscrm.campaign_jobs (campaign_id, created_at)
+  WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_campaign_jobs_external
+  ON nexuscrm.campaign_jobs (channel, external_id)
+  WHERE external_id IS NOT NULL;
+
+ALTER TABLE nexuscrm.campaign_jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY campaign_jobs_org_isolation ON nexuscrm.campaign_jobs
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- NexusCRM: Organization voice settings
+--
+-- One row per organization. Selects the voice platform (Vapi or Twilio) used
+-- for calls that do not request one explicitly; organizations without a row
+-- use the VOICE_PLATFORM default.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.voice_settings (
+  organization_id UUID PRIMARY KEY,
+  default_platform VARCHAR(20) NOT NULL DEFAULT 'vapi'
+    CHECK (default_platform IN ('vapi', 'twilio')),
+  from_number VARCHAR(50),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE nexuscrm.voice_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY voice_settings_org_isolation ON nexuscrm.voice_settings
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
@@ -0,0 +1,49 @@
+-- ============================================================================
+-- NexusCRM: Inbound calls
+--
+-- voice_numbers: phone numbers that accept inbound calls, with the routing
+--   strategy for each (contact owner, round-robin group or AI assistant)
+-- voice_agents: the phone each user takes forwarded calls on
+-- ============================================================================
+
+ALTER TABLE nexuscrm.voice_calls
+  ADD COLUMN IF NOT EXISTS direction VARCHAR(10) NOT NULL DEFAULT 'outbound'
+    CHECK (direction IN ('inbound', 'outbound'));
+
+CREATE TABLE IF NOT EXISTS nexuscrm.voice_numbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  phone_number VARCHAR(50) NOT NULL UNIQUE,
+  platform VARCHAR(20) NOT NULL CHECK (platform IN ('vapi', 'twilio')),
+  label VARCHAR(255),
+  routing_strategy VARCHAR(20) NOT NULL DEFAULT 'assistant'
+    CHECK (routing_strategy IN ('owner', 'round_robin', 'assistant')),
+  round_robin_user_ids UUID[] NOT NULL DEFAULT '{}',
+  round_robin_cursor INTEGER NOT NULL DEFAULT 0,
+  ring_timeout_seconds INTEGER NOT NULL DEFAULT 20,
+  assistant_config JSONB NOT NULL DEFAULT '{}',
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_voice_numbers_org
+  ON nexuscrm.voice_numbers (organization_id);
+
+CREATE TABLE IF NOT EXISTS nexuscrm.voice_agents (
+  user_id UUID NOT NULL,
+  phone_number VARCHAR(50) NOT NULL,
+  available BOOLEAN NOT NULL DEFAULT true,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (organization_id, user_id)
+);
+
+ALTER TABLE nexuscrm.voice_numbers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nexuscrm.voice_agents ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY voice_numbers_org_isolation ON nexuscrm.voice_numbers
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
+
+CREATE POLICY voice_agents_org_isolation ON nexuscrm.voice_agents
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
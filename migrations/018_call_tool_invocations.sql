@@ -0,0 +1,27 @@
+-- ============================================================================
+-- NexusCRM: In-call tool invocations
+--
+-- call_tool_invocations: every CRM tool the voice assistant ran during a call,
+--   with its parameters and the result it was given back
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.call_tool_invocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  voice_call_id UUID NOT NULL REFERENCES nexuscrm.voice_calls(id) ON DELETE CASCADE,
+  tool_name VARCHAR(100) NOT NULL,
+  parameters JSONB NOT NULL DEFAULT '{}',
+  result JSONB NOT NULL DEFAULT '{}',
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  duration_ms INTEGER,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_tool_invocations_call
+  ON nexuscrm.call_tool_invocations (voice_call_id, created_at);
+
+ALTER TABLE nexuscrm.call_tool_invocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY call_tool_invocations_org_isolation ON nexuscrm.call_tool_invocations
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
@@ -0,0 +1,66 @@
+-- ============================================================================
+-- NexusCRM: Outbound call compliance
+--
+-- voice_settings: calling window (local to the contact) and the daily attempt
+--   cap per number
+-- dnc_numbers: the organization's Do-Not-Call list
+-- call_compliance_events: every outbound call the compliance gate blocked,
+--   and every block an admin overrode
+-- ============================================================================
+
+ALTER TABLE nexuscrm.voice_settings
+  ADD COLUMN IF NOT EXISTS calling_hours_start TIME NOT NULL DEFAULT '09:00',
+  ADD COLUMN IF NOT EXISTS calling_hours_end TIME NOT NULL DEFAULT '20:00',
+  -- ISO weekdays: 1 = Monday ... 7 = Sunday
+  ADD COLUMN IF NOT EXISTS calling_days SMALLINT[] NOT NULL DEFAULT '{1,2,3,4,5}',
+  ADD COLUMN IF NOT EXISTS default_timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  ADD COLUMN IF NOT EXISTS max_daily_attempts INTEGER NOT NULL DEFAULT 3;
+
+CREATE TABLE IF NOT EXISTS nexuscrm.dnc_numbers (
+  -- Digits only, see normalizePhoneNumber()
+  phone_number VARCHAR(50) NOT NULL,
+  reason TEXT,
+  source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('manual', 'import')),
+  added_by UUID,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  PRIMARY KEY (organization_id, phone_number)
+);
+
+CREATE TABLE IF NOT EXISTS nexuscrm.call_compliance_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id UUID,
+  to_number VARCHAR(50) NOT NULL,
+  reason VARCHAR(40) NOT NULL CHECK (
+    reason IN (
+      'contact_do_not_call',
+      'contact_unsubscribed',
+      'dnc_list',
+      'outside_calling_hours',
+      'daily_attempt_limit'
+    )
+  ),
+  message TEXT NOT NULL,
+  overridden BOOLEAN NOT NULL DEFAULT false,
+  override_reason TEXT,
+  user_id UUID,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_compliance_events_org
+  ON nexuscrm.call_compliance_events (organization_id, created_at DESC);
+
+-- Daily attempt counts
+CREATE INDEX IF NOT EXISTS idx_voice_calls_outbound_number
+  ON nexuscrm.voice_calls (organization_id, (regexp_replace(to_number, '\D', '', 'g')), created_at)
+  WHERE direction = 'outbound';
+
+ALTER TABLE nexuscrm.dnc_numbers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nexuscrm.call_compliance_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY dnc_numbers_org_isolation ON nexuscrm.dnc_numbers
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
+
+CREATE POLICY call_compliance_events_org_isolation ON nexuscrm.call_compliance_events
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
@@ -0,0 +1,16 @@
+-- ============================================================================
+-- NexusCRM: Answering machine detection and voicemail drop
+--
+-- campaigns.voicemail_config: what a voice campaign does when a call reaches
+--   voicemail ({"action": "message" | "hangup", "message", "audioUrl"})
+-- campaigns.voicemail_count: calls that reached voicemail
+-- campaign_jobs.call_outcome: how a voice job's call ended (completed,
+--   voicemail, no-answer, busy, failed), so retries can tell them apart
+-- ============================================================================
+
+ALTER TABLE nexuscrm.campaigns
+  ADD COLUMN IF NOT EXISTS voicemail_config JSONB,
+  ADD COLUMN IF NOT EXISTS voicemail_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE nexuscrm.campaign_jobs
+  ADD COLUMN IF NOT EXISTS call_outcome VARCHAR(20);
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- NexusCRM: Power dialer for voice campaigns
+--
+-- campaigns.dialer_config: runs a voice-outbound campaign as a call queue
+--   ({"lines", "maxAttempts", "retryDelayMinutes", "budgetUsd"}); campaigns
+--   without it dial in plain batches
+-- campaigns.total_cost_usd: accrues the cost of each campaign call as it ends
+-- campaign_jobs.next_attempt_at: when a busy/no-answer job may be redialed
+-- ============================================================================
+
+ALTER TABLE nexuscrm.campaigns
+  ADD COLUMN IF NOT EXISTS dialer_config JSONB,
+  ADD COLUMN IF NOT EXISTS total_cost_usd NUMERIC(12, 4) NOT NULL DEFAULT 0;
+
+ALTER TABLE nexuscrm.campaign_jobs
+  ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMPTZ;
+
+-- Lines in use: voice jobs whose call has not ended yet
+CREATE INDEX IF NOT EXISTS idx_campaign_jobs_live_calls
+  ON nexuscrm.campaign_jobs (campaign_id)
+  WHERE channel = 'voice' AND status IN ('sent', 'delivered') AND call_outcome IS NULL;
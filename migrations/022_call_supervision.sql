@@ -0,0 +1,27 @@
+-- ============================================================================
+-- NexusCRM: Supervisor monitoring of live calls
+--
+-- call_supervisor_actions: audit trail of every supervisor action on a call
+--   (monitor, whisper, barge, transfer), including attempts that were denied
+--   or that the voice platform rejected
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.call_supervisor_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  voice_call_id UUID NOT NULL REFERENCES nexuscrm.voice_calls(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  action VARCHAR(20) NOT NULL CHECK (action IN ('monitor', 'whisper', 'barge', 'transfer')),
+  details JSONB NOT NULL DEFAULT '{}',
+  success BOOLEAN NOT NULL,
+  error TEXT,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_call_supervisor_actions_call
+  ON nexuscrm.call_supervisor_actions (voice_call_id, created_at);
+
+ALTER TABLE nexuscrm.call_supervisor_actions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY call_supervisor_actions_org_isolation ON nexuscrm.call_supervisor_actions
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
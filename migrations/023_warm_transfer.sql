@@ -0,0 +1,16 @@
+-- ============================================================================
+-- NexusCRM: Warm transfer from the voice assistant to a rep
+--
+-- voice_settings.transfer_config: who takes a handoff and when
+--   ({"enabled", "targets", "onCallUserIds", "hoursStart", "hoursEnd", "days",
+--   "fallback", "fallbackNumber"}); no config means the assistant never
+--   transfers
+-- voice_calls.transfers: the handoffs made on a call, in order, each with the
+--   reason, the summary spoken to the rep and who took the call
+-- ============================================================================
+
+ALTER TABLE nexuscrm.voice_settings
+  ADD COLUMN IF NOT EXISTS transfer_config JSONB;
+
+ALTER TABLE nexuscrm.voice_calls
+  ADD COLUMN IF NOT EXISTS transfers JSONB NOT NULL DEFAULT '[]';
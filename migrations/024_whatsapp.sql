@@ -0,0 +1,16 @@
+-- ============================================================================
+-- NexusCRM: WhatsApp Business messaging
+--
+-- campaigns.whatsapp_template: the approved template a whatsapp campaign
+--   sends ({"name", "language", "variables", "headerMedia"}); campaigns
+--   without one send smsMessage as a session message, which only reaches
+--   contacts who wrote in during the last 24 hours
+-- ============================================================================
+
+ALTER TABLE nexuscrm.campaigns
+  ADD COLUMN IF NOT EXISTS whatsapp_template JSONB;
+
+-- Session window lookups: a contact's latest inbound WhatsApp message
+CREATE INDEX IF NOT EXISTS idx_activities_whatsapp_inbound
+  ON nexuscrm.activities (contact_id, created_at DESC)
+  WHERE type = 'whatsapp' AND direction = 'inbound' AND deleted_at IS NULL;
@@ -0,0 +1,35 @@
+-- ============================================================================
+-- NexusCRM: Omnichannel inbox
+--
+-- inbox_threads: per-contact conversation state layered over the activity
+--   stream (email, sms, whatsapp and call activities); a contact's thread
+--   exists once they have written or called in, and this row only holds what
+--   reps change:
+--   - assigned_to: overrides the contact's owner as the thread's assignee
+--   - last_read_at: inbound messages after it are unread
+--   - snoozed_until / snoozed_at: hidden until then, or until the contact
+--     writes again after snoozed_at
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.inbox_threads (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  contact_id UUID NOT NULL REFERENCES nexuscrm.contacts(id) ON DELETE CASCADE,
+  assigned_to UUID,
+  last_read_at TIMESTAMPTZ,
+  snoozed_until TIMESTAMPTZ,
+  snoozed_at TIMESTAMPTZ,
+  organization_id UUID NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (organization_id, contact_id)
+);
+
+ALTER TABLE nexuscrm.inbox_threads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY inbox_threads_org_isolation ON nexuscrm.inbox_threads
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
+
+-- Thread listing: each contact's inbound messages, newest first
+CREATE INDEX IF NOT EXISTS idx_activities_inbox_inbound
+  ON nexuscrm.activities (contact_id, created_at DESC)
+  WHERE direction = 'inbound' AND type IN ('email', 'sms', 'whatsapp', 'call') AND deleted_at IS NULL;
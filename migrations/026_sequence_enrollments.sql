@@ -0,0 +1,41 @@
+-- ============================================================================
+-- NexusCRM: Drip sequence enrollments
+--
+-- sequence_enrollments: one row per contact enrolled in a sequence campaign
+--   (an email-drip or multi-channel campaign with workflowConfig.sequence)
+--   - current_step_id / next_run_at: the step the contact is on and when it
+--     runs; the campaign engine claims due rows
+--   - history: what each step did ([{stepId, type, at, externalId,
+--     activityId, nextStepId, error}]), which branches read back
+--   - exit_reason: why an enrollment ended early (replied, converted,
+--     unsubscribed)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS nexuscrm.sequence_enrollments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES nexuscrm.campaigns(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES nexuscrm.contacts(id) ON DELETE CASCADE,
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'completed', 'exited', 'failed', 'cancelled')),
+  current_step_id VARCHAR(100),
+  next_run_at TIMESTAMPTZ,
+  history JSONB NOT NULL DEFAULT '[]',
+  exit_reason VARCHAR(20) CHECK (exit_reason IN ('replied', 'converted', 'unsubscribed')),
+  error TEXT,
+  locked_at TIMESTAMPTZ,
+  organization_id UUID NOT NULL,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  UNIQUE (campaign_id, contact_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sequence_enrollments_due
+  ON nexuscrm.sequence_enrollments (campaign_id, next_run_at)
+  WHERE status = 'active';
+
+ALTER TABLE nexuscrm.sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY sequence_enrollments_org_isolation ON nexuscrm.sequence_enrollments
+  USING (organization_id = current_setting('app.current_organization_id')::uuid);
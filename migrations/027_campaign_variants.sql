@@ -0,0 +1,35 @@
+-- ============================================================================
+-- NexusCRM: A/B and multivariate campaign content
+--
+-- campaigns.variants: alternative content ([{"id", "name", "weight",
+--   "emailSubject", "emailBodyHtml", "emailBodyText", "smsMessage",
+--   "voiceScript"}]); contacts are split across them at launch
+-- campaigns.ab_test_config: {"testPercent", "testWindowHours", "winnerMetric"};
+--   only testPercent of the audience gets a variant at launch, the rest waits
+--   for the winner
+-- campaigns.ab_winner_variant_id / ab_winner_selected_at: the winning variant
+--   and when it was picked
+-- campaign_jobs.variant_id: the variant a job sends
+-- campaign_jobs.status 'held': held back until the winner is picked
+-- ============================================================================
+
+ALTER TABLE nexuscrm.campaigns
+  ADD COLUMN IF NOT EXISTS variants JSONB,
+  ADD COLUMN IF NOT EXISTS ab_test_config JSONB,
+  ADD COLUMN IF NOT EXISTS ab_winner_variant_id VARCHAR(50),
+  ADD COLUMN IF NOT EXISTS ab_winner_selected_at TIMESTAMPTZ;
+
+ALTER TABLE nexuscrm.campaign_jobs
+  ADD COLUMN IF NOT EXISTS variant_id VARCHAR(50);
+
+ALTER TABLE nexuscrm.campaign_jobs
+  DROP CONSTRAINT IF EXISTS campaign_jobs_status_check;
+
+ALTER TABLE nexuscrm.campaign_jobs
+  ADD CONSTRAINT campaign_jobs_status_check
+    CHECK (status IN ('pending', 'held', 'running', 'sent', 'delivered', 'failed', 'cancelled'));
+
+-- Per-variant metrics
+CREATE INDEX IF NOT EXISTS idx_campaign_jobs_variant
+  ON nexuscrm.campaign_jobs (campaign_id, variant_id)
+  WHERE variant_id IS NOT NULL;
@@ -0,0 +1,403 @@
+import { PoolClient } from 'pg';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { broadcastInboxMessage } from '../websocket/manager';
+import { ColumnMap, mapRow } from '../utils/rows';
+import { Activity, InboxChannel, LogActivityInput, UpdateActivityInput } from '../types';
+
+/**
+ * Activity Manager
+ *
+ * Records CRM activities (notes, tasks, meetings, emails, calls, messages):
+ * - Validates type-specific fields before saving
+ * - Creates, updates, completes and soft-deletes activities
+ * - Bumps the contact's last_contacted_at for contact-facing activities
+ * - Pushes inbound messages to the organization's inbox as `inbox:message`
+ */
+
+// Input field -> activities column
+const ACTIVITY_COLUMNS: Record<keyof LogActivityInput, string> = {
+  type: 'type',
+  subject: 'subject',
+  body: 'body',
+  direction: 'direction',
+  contactId: 'contact_id',
+  companyId: 'company_id',
+  dealId: 'deal_id',
+  fromNumber: 'from_number',
+  toNumber: 'to_number',
+  durationSeconds: 'duration_seconds',
+  callStatus: 'call_status',
+  fromEmail: 'from_email',
+  toEmails: 'to_emails',
+  ccEmails: 'cc_emails',
+  bccEmails: 'bcc_emails',
+  meetingStartTime: 'meeting_start_time',
+  meetingEndTime: 'meeting_end_time',
+  meetingLocation: 'meeting_location',
+  meetingAttendees: 'meeting_attendees',
+  meetingUrl: 'meeting_url',
+  taskStatus: 'task_status',
+  taskPriority: 'task_priority',
+  taskDueDate: 'task_due_date',
+  externalId: 'external_id',
+  metadata: 'metadata',
+  tags: 'tags',
+  assignedTo: 'assigned_to',
+};
+
+// Activity field -> activities column, for reading rows back
+const ACTIVITY_ROW_COLUMNS: ColumnMap<Activity> = {
+  ...ACTIVITY_COLUMNS,
+  id: 'id',
+  recordingUrl: 'recording_url',
+  transcript: 'transcript',
+  transcriptSegments: 'transcript_segments',
+  sentiment: 'sentiment',
+  sentimentScore: 'sentiment_score',
+  sentimentAnalysis: 'sentiment_analysis',
+  keywordsDetected: 'keywords_detected',
+  entitiesMentioned: 'entities_mentioned',
+  aiSummary: 'ai_summary',
+  actionItems: 'action_items',
+  objectionsRaised: 'objections_raised',
+  buyingSignals: 'buying_signals',
+  emailOpened: 'email_opened',
+  emailOpenedAt: 'email_opened_at',
+  emailClicked: 'email_clicked',
+  emailClickedAt: 'email_clicked_at',
+  emailBounced: 'email_bounced',
+  emailBouncedReason: 'email_bounced_reason',
+  taskCompletedAt: 'task_completed_at',
+  costUsd: 'cost_usd',
+  createdBy: 'created_by',
+  organizationId: 'organization_id',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  completedAt: 'completed_at',
+  deletedAt: 'deleted_at',
+};
+
+// JSONB columns holding arrays must be serialized, or pg sends a Postgres array
+const JSON_ARRAY_FIELDS: Array<keyof LogActivityInput> = ['meetingAttendees'];
+
+// Activity types that count as reaching out to (or hearing from) the contact
+const CONTACT_TOUCH_TYPES: Array<Activity['type']> = [
+  'call',
+  'email',
+  'meeting',
+  'sms',
+  'whatsapp',
+  'linkedin-message',
+];
+
+// Activity types that make up inbox conversations
+export const INBOX_CHANNELS: InboxChannel[] = ['email', 'sms', 'whatsapp', 'call'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class ActivityManager {
+  /**
+   * Log a new activity
+   *
+   * Example:
+   * ```typescript
+   * await activityManager.logActivity(organizationId, userId, {
+   *   type: 'task',
+   *   subject: 'Send pricing proposal',
+   *   contactId: 'contact_123',
+   *   taskDueDate: new Date('2026-11-01'),
+   *   taskPriority: 'high',
+   * });
+   * ```
+   */
+  async logActivity(
+    organizationId: string,
+    userId: string | null,
+    input: LogActivityInput
+  ): Promise<Activity> {
+    const values: LogActivityInput = {
+      ...input,
+      direction: input.direction || this.defaultDirection(input.type),
+      taskStatus: input.type === 'task' ? input.taskStatus || 'pending' : input.taskStatus,
+    };
+
+    this.validate(values);
+
+    const row: Record<string, any> = {
+      assigned_to: userId,
+      created_by: userId,
+      organization_id: organizationId,
+    };
+
+    for (const [field, column] of Object.entries(ACTIVITY_COLUMNS)) {
+      const value = values[field as keyof LogActivityInput];
+      if (value !== undefined) {
+        row[column] = this.toColumnValue(field as keyof LogActivityInput, value);
+      }
+    }
+
+    const columns = Object.keys(row);
+    const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+    const activity = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      const result = await client.query<Activity>(
+        `
+          INSERT INTO nexuscrm.activities (${columns.join(', ')})
+          VALUES (${placeholders.join(', ')})
+          RETURNING *
+        `,
+        Object.values(row)
+      );
+
+      if (values.contactId && CONTACT_TOUCH_TYPES.includes(values.type)) {
+        await this.touchContact(client, values.contactId);
+      }
+
+      return mapActivity(result.rows[0]);
+    });
+
+    logger.info('Activity logged', {
+      activityId: activity.id,
+      type: values.type,
+      contactId: values.contactId,
+    });
+
+    if (
+      values.direction === 'inbound' &&
+      values.contactId &&
+      INBOX_CHANNELS.includes(values.type as InboxChannel)
+    ) {
+      broadcastInboxMessage(organizationId, activity);
+    }
+
+    return activity;
+  }
+
+  /**
+   * Update an existing activity
+   *
+   * The merged result is re-validated against the activity's type.
+   */
+  async updateActivity(
+    organizationId: string,
+    activityId: string,
+    input: UpdateActivityInput
+  ): Promise<Activity> {
+    const activity = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      const current = await client.query<Activity>(
+        `SELECT * FROM nexuscrm.activities WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+        [activityId]
+      );
+
+      if (current.rows.length === 0) {
+        throw new Error('Activity not found');
+      }
+
+      const existing = mapActivity(current.rows[0]);
+      this.validate({ ...(existing as LogActivityInput), ...input, type: existing.type });
+
+      const updates: string[] = [];
+      const params: any[] = [];
+      let paramIndex = 1;
+
+      for (const [field, column] of Object.entries(ACTIVITY_COLUMNS)) {
+        if (field === 'type') {
+          continue;
+        }
+        const value = input[field as keyof UpdateActivityInput];
+        if (value !== undefined) {
+          updates.push(`${column} = $${paramIndex++}`);
+          params.push(this.toColumnValue(field as keyof LogActivityInput, value));
+        }
+      }
+
+      params.push(activityId);
+
+      const result = await client.query<Activity>(
+        `
+          UPDATE nexuscrm.activities
+          SET ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+          WHERE id = $${paramIndex++}
+          RETURNING *
+        `,
+        params
+      );
+
+      const updated = mapActivity(result.rows[0]);
+      const contactId = input.contactId || existing.contactId;
+
+      if (contactId && CONTACT_TOUCH_TYPES.includes(existing.type)) {
+        await this.touchContact(client, contactId);
+      }
+
+      return updated;
+    });
+
+    logger.info('Activity updated', { activityId });
+
+    return activity;
+  }
+
+  /**
+   * Mark a task activity as completed
+   */
+  async completeTask(organizationId: string, activityId: string): Promise<Activity> {
+    const result = await db.queryWithContext<Activity>(
+      organizationId,
+      `
+        UPDATE nexuscrm.activities
+        SET
+          task_status = 'completed',
+          task_completed_at = CURRENT_TIMESTAMP,
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND type = 'task' AND deleted_at IS NULL
+        RETURNING *
+      `,
+      [activityId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Task not found');
+    }
+
+    logger.info('Task completed', { activityId });
+
+    return mapActivity(result.rows[0]);
+  }
+
+  /**
+   * Soft delete an activity
+   */
+  async deleteActivity(organizationId: string, activityId: string): Promise<boolean> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `UPDATE nexuscrm.activities SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL`,
+      [activityId]
+    );
+
+    logger.info('Activity deleted', { activityId });
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Validate type-specific required fields
+   */
+  private validate(input: LogActivityInput): void {
+    if (!input.contactId && !input.companyId && !input.dealId) {
+      throw new Error('Activity must be linked to a contact, company or deal');
+    }
+
+    switch (input.type) {
+      case 'task':
+        if (!input.taskDueDate) {
+          throw new Error('Task requires taskDueDate');
+        }
+        if (!input.taskPriority) {
+          throw new Error('Task requires taskPriority');
+        }
+        break;
+
+      case 'meeting':
+        if (!input.meetingStartTime || !input.meetingEndTime) {
+          throw new Error('Meeting requires meetingStartTime and meetingEndTime');
+        }
+        if (new Date(input.meetingEndTime) <= new Date(input.meetingStartTime)) {
+          throw new Error('Meeting end time must be after start time');
+        }
+        break;
+
+      case 'email': {
+        if (!input.fromEmail) {
+          throw new Error('Email requires fromEmail');
+        }
+        if (!input.toEmails || input.toEmails.length === 0) {
+          throw new Error('Email requires at least one address in toEmails');
+        }
+        const addresses = [
+          input.fromEmail,
+          ...input.toEmails,
+          ...(input.ccEmails || []),
+          ...(input.bccEmails || []),
+        ];
+        const invalid = addresses.filter((address) => !EMAIL_PATTERN.test(address));
+        if (invalid.length > 0) {
+          throw new Error(`Invalid email address: ${invalid.join(', ')}`);
+        }
+        break;
+      }
+
+      case 'call':
+        if (!input.fromNumber && !input.toNumber) {
+          throw new Error('Call requires fromNumber or toNumber');
+        }
+        break;
+
+      case 'sms':
+      case 'whatsapp':
+        if (!input.body) {
+          throw new Error(`${input.type} activity requires body`);
+        }
+        if (!input.fromNumber && !input.toNumber) {
+          throw new Error(`${input.type} activity requires fromNumber or toNumber`);
+        }
+        break;
+
+      case 'note':
+      case 'linkedin-message':
+        if (!input.body) {
+          throw new Error(`${input.type} activity requires body`);
+        }
+        break;
+
+      default:
+        throw new Error(`Unknown activity type: ${input.type}`);
+    }
+  }
+
+  /**
+   * Notes and tasks are internal; everything else defaults to outbound
+   */
+  private defaultDirection(type: Activity['type']): Activity['direction'] {
+    return type === 'note' || type === 'task' ? 'internal' : 'outbound';
+  }
+
+  /**
+   * Convert an input value to what the pg driver should receive
+   */
+  private toColumnValue(field: keyof LogActivityInput, value: any): any {
+    return JSON_ARRAY_FIELDS.includes(field) ? JSON.stringify(value) : value;
+  }
+
+  /**
+   * Record that the contact was just contacted
+   */
+  private async touchContact(client: PoolClient, contactId: string): Promise<void> {
+    await client.query(
+      `
+        UPDATE nexuscrm.contacts
+        SET last_contacted_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND deleted_at IS NULL
+      `,
+      [contactId]
+    );
+  }
+}
+
+/**
+ * Map an activities row to an Activity
+ */
+export function mapActivity(row: Record<string, any>): Activity {
+  return mapRow<Activity>(row, ACTIVITY_ROW_COLUMNS);
+}
+
+// Export singleton instance
+export const activityManager = new ActivityManager();
+
+export default activityManager;
@@ -0,0 +1,14 @@
+/**
+ * Activities Module
+ *
+ * Logging API for the CRM activity timeline:
+ * - Notes, tasks, meetings, emails, calls and messages
+ * - Type-specific validation
+ * - Contact last-contacted tracking
+ * - Inbox push for inbound messages
+ *
+ * Components:
+ * - ActivityManager: Activity create/update/complete/delete
+ */
+
+export { activityManager, ActivityManager, INBOX_CHANNELS, mapActivity } from './activity-manager';
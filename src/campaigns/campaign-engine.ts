@@ -0,0 +1,1427 @@
+import { PoolClient } from 'pg';
+import { db } from '../utils/database';
+import { mapContact } from '../utils/rows';
+import { logger } from '../utils/logger';
+import { config } from '../config';
+import { orchestrationClient } from '../clients';
+import { callManager } from '../voice/call-manager';
+import { emailService, renderMergeFields, buildMergeValues } from '../email';
+import { smsService } from '../sms';
+import { whatsappService } from '../whatsapp';
+import { segmentManager } from '../segments';
+import { jobQueue, QUEUES, CampaignRunJobData } from '../queue';
+import { broadcastCampaignProgress } from '../websocket/manager';
+import { campaignManager, mapCampaign } from './campaign-manager';
+import { getSequence, sequenceChannels } from './sequence-definition';
+import { sequenceRunner, REPLY_TYPES } from './sequence-runner';
+import { applyVariant, assignVariant, getVariants, pickWinner } from './campaign-variants';
+import {
+  Campaign,
+  CampaignChannel,
+  CampaignJob,
+  CampaignLaunchResult,
+  CampaignVariant,
+  CampaignVariantMetrics,
+  Contact,
+  DialerConfig,
+  DialerProgress,
+  SequenceDefinition,
+  VoicemailConfig,
+} from '../types';
+
+/**
+ * Campaign Engine
+ *
+ * Executes launched campaigns:
+ * - Resolves the target segment and drops suppressed contacts
+ * - Creates one send job per recipient per channel
+ * - Works through pending jobs one batch per campaign-run queue job, under
+ *   per-channel concurrency and rate limits
+ * - Stops between sends when a campaign is paused or cancelled
+ * - Keeps sent/delivered/failed counters on the campaign row current
+ * - Records how each voice call ended, so voicemail is told apart from no-answer
+ * - Runs voice campaigns with a dialerConfig as a power dialer: a fixed number
+ *   of lines, scheduled redials of busy/no-answer numbers, a stop at the
+ *   budget cap, and queue state streamed as `campaign:progress`
+ * - Runs campaigns with a workflowConfig.sequence as drip sequences: each
+ *   contact is enrolled and stepped through by the SequenceRunner, and runs
+ *   are queued for when the next enrollment comes due
+ * - Splits campaigns with variants across their content by contact, holds
+ *   back the rest of an A/B test's audience, and once the test window ends
+ *   sends the best-performing variant to the held-back contacts
+ *
+ * Channels without a registered sender are handed to the OrchestrationAgent
+ * one recipient at a time.
+ */
+
+export interface CampaignSendContext {
+  organizationId: string;
+  campaign: Campaign;
+  contact: Contact;
+  job: CampaignJob;
+}
+
+export interface CampaignSendResult {
+  externalId?: string;
+  delivered?: boolean;
+}
+
+export type CampaignChannelSender = (context: CampaignSendContext) => Promise<CampaignSendResult>;
+
+// Contacts that may not be reached on each channel
+const CHANNEL_ELIGIBILITY: Record<CampaignChannel, string> = {
+  email: `c.email IS NOT NULL AND c.do_not_email IS NOT TRUE AND c.unsubscribed IS NOT TRUE AND c.bounced IS NOT TRUE`,
+  voice: `COALESCE(c.mobile, c.phone) IS NOT NULL AND c.do_not_call IS NOT TRUE AND c.unsubscribed IS NOT TRUE`,
+  sms: `COALESCE(c.mobile, c.phone) IS NOT NULL AND c.unsubscribed IS NOT TRUE`,
+  whatsapp: `COALESCE(c.mobile, c.phone) IS NOT NULL AND c.unsubscribed IS NOT TRUE`,
+};
+
+// Final voice call statuses kept on the job
+const CALL_OUTCOMES: Array<NonNullable<CampaignJob['callOutcome']>> = [
+  'completed',
+  'voicemail',
+  'no-answer',
+  'busy',
+  'failed',
+];
+
+// Call outcomes the dialer redials
+const RETRY_OUTCOMES: Array<NonNullable<CampaignJob['callOutcome']>> = ['busy', 'no-answer'];
+
+const DIALER_DEFAULTS: Required<Pick<DialerConfig, 'maxAttempts' | 'retryDelayMinutes'>> = {
+  maxAttempts: 3,
+  retryDelayMinutes: 30,
+};
+
+// A dialed call with no final status after this long no longer holds a line
+const LIVE_CALL_MINUTES = 60;
+
+// Feature flag that must be on for each channel to launch
+const CHANNEL_FEATURES: Record<CampaignChannel, keyof typeof config.features> = {
+  email: 'enableEmailCampaigns',
+  sms: 'enableSmsCampaigns',
+  voice: 'enableVoiceCalling',
+  whatsapp: 'enableWhatsapp',
+};
+
+const LAUNCHABLE_STATUSES: Array<Campaign['status']> = ['draft', 'scheduled'];
+
+// Statuses in which an A/B test's winner is picked; a completed campaign
+// (one with no held-back contacts) only records it
+const WINNER_STATUSES: Array<Campaign['status']> = ['active', 'paused', 'completed'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// How long a batch trusts its last read of the campaign status
+const STATUS_CHECK_INTERVAL_MS = 2000;
+
+// Claimed jobs left running this long were orphaned by a dead worker
+const STALE_JOB_MINUTES = 15;
+
+const JOB_COLUMNS = `
+  id,
+  campaign_id AS "campaignId",
+  contact_id AS "contactId",
+  channel,
+  status,
+  attempts,
+  variant_id AS "variantId",
+  external_id AS "externalId",
+  error,
+  call_outcome AS "callOutcome",
+  next_attempt_at AS "nextAttemptAt",
+  started_at AS "startedAt",
+  completed_at AS "completedAt",
+  organization_id AS "organizationId",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+// Claims up to $2 jobs that are due: pending (and past any redial time) or
+// orphaned while running
+const CLAIM_JOBS_SQL = `
+  UPDATE nexuscrm.campaign_jobs
+  SET
+    status = 'running',
+    attempts = attempts + 1,
+    started_at = CURRENT_TIMESTAMP,
+    updated_at = CURRENT_TIMESTAMP
+  WHERE id IN (
+    SELECT id FROM nexuscrm.campaign_jobs
+    WHERE campaign_id = $1
+      AND (
+        (status = 'pending' AND (next_attempt_at IS NULL OR next_attempt_at <= CURRENT_TIMESTAMP))
+        OR (status = 'running' AND started_at < CURRENT_TIMESTAMP - make_interval(mins => $3))
+      )
+    ORDER BY created_at
+    LIMIT $2
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING ${JOB_COLUMNS}
+`;
+
+/**
+ * Caps in-flight sends and spaces send starts for one channel
+ */
+class ChannelLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+  private nextStartAt = 0;
+
+  constructor(private concurrency: number, private ratePerSecond: number) {}
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      await this.throttle();
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    // Hand the slot straight to the next waiter rather than freeing it
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  private async throttle(): Promise<void> {
+    if (this.ratePerSecond <= 0) {
+      return;
+    }
+
+    const now = Date.now();
+    const startAt = Math.max(now, this.nextStartAt);
+    this.nextStartAt = startAt + 1000 / this.ratePerSecond;
+
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now));
+    }
+  }
+}
+
+export class CampaignEngine {
+  private senders = new Map<CampaignChannel, CampaignChannelSender>();
+  private limiters: Record<CampaignChannel, ChannelLimiter>;
+
+  constructor() {
+    const { concurrency, ratePerSecond } = config.campaigns;
+
+    this.limiters = {
+      email: new ChannelLimiter(concurrency.email, ratePerSecond.email),
+      sms: new ChannelLimiter(concurrency.sms, ratePerSecond.sms),
+      voice: new ChannelLimiter(concurrency.voice, ratePerSecond.voice),
+      whatsapp: new ChannelLimiter(concurrency.whatsapp, ratePerSecond.whatsapp),
+    };
+
+    this.registerSender('email', (context) => this.sendEmail(context));
+    this.registerSender('sms', (context) => this.sendSms(context));
+    this.registerSender('whatsapp', (context) => this.sendWhatsapp(context));
+    this.registerSender('voice', (context) => this.sendVoice(context));
+  }
+
+  /**
+   * Register the sender used for a channel
+   */
+  registerSender(channel: CampaignChannel, sender: CampaignChannelSender): void {
+    this.senders.set(channel, sender);
+  }
+
+  /**
+   * Channels a campaign sends on, based on its type and content
+   */
+  getChannels(campaign: Campaign): CampaignChannel[] {
+    const sequence = getSequence(campaign);
+
+    if (sequence) {
+      return sequenceChannels(sequence);
+    }
+
+    switch (campaign.type) {
+      case 'email-drip':
+        return ['email'];
+      case 'voice-outbound':
+        return ['voice'];
+      case 'sms-blast':
+        return ['sms'];
+      case 'whatsapp-campaign':
+        return ['whatsapp'];
+      case 'multi-channel': {
+        const channels: CampaignChannel[] = [];
+        if (campaign.emailSubject && (campaign.emailBodyHtml || campaign.emailBodyText)) {
+          channels.push('email');
+        }
+        if (campaign.smsMessage) {
+          channels.push('sms');
+        }
+        if (campaign.voiceScript) {
+          channels.push('voice');
+        }
+        return channels;
+      }
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Launch a campaign against a segment
+   *
+   * Creates the send jobs and starts working through them in the background.
+   */
+  async launch(
+    organizationId: string,
+    campaignId: string,
+    segmentId: string
+  ): Promise<CampaignLaunchResult> {
+    const campaign = await campaignManager.getCampaign(organizationId, campaignId);
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    if (!LAUNCHABLE_STATUSES.includes(campaign.status)) {
+      throw new Error(`Campaign is already ${campaign.status}`);
+    }
+
+    campaignManager.validateContent(campaign);
+
+    const channels = this.getChannels(campaign);
+
+    const disabled = channels.filter((channel) => !config.features[CHANNEL_FEATURES[channel]]);
+    if (disabled.length > 0) {
+      throw new Error(`Campaign channels are disabled: ${disabled.join(', ')}`);
+    }
+
+    // Static segments are launched against their snapshot, dynamic ones as of
+    // now. $3 is reserved for the channel (or a sequence's first step), bound
+    // per insert below.
+    const audience = await segmentManager.buildAudienceFilter(
+      organizationId,
+      { segmentId },
+      [campaign.id, organizationId, null]
+    );
+
+    const sequence = getSequence(campaign);
+    const variants = getVariants(campaign);
+
+    const launched = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      const jobIds: string[] = [];
+      const enrollmentIds: string[] = [];
+
+      // Sequence steps check each channel as they run; only opted-out
+      // contacts are left out up front
+      if (sequence) {
+        const inserted = await client.query<{ id: string }>(
+          `
+            INSERT INTO nexuscrm.sequence_enrollments
+              (campaign_id, contact_id, current_step_id, next_run_at, organization_id)
+            SELECT $1, c.id, $3, CURRENT_TIMESTAMP, $2
+            FROM nexuscrm.contacts c
+            WHERE c.deleted_at IS NULL
+              AND c.unsubscribed IS NOT TRUE
+              AND ${audience.where}
+            ON CONFLICT (campaign_id, contact_id) DO NOTHING
+            RETURNING id
+          `,
+          [campaign.id, organizationId, sequence.steps[0].id, ...audience.params.slice(3)]
+        );
+
+        enrollmentIds.push(...inserted.rows.map((row) => row.id));
+      } else {
+        for (const channel of channels) {
+          const inserted = await client.query<{ id: string }>(
+            `
+              INSERT INTO nexuscrm.campaign_jobs (campaign_id, contact_id, channel, organization_id)
+              SELECT $1, c.id, $3, $2
+              FROM nexuscrm.contacts c
+              WHERE c.deleted_at IS NULL
+                AND ${CHANNEL_ELIGIBILITY[channel]}
+                AND ${audience.where}
+              ON CONFLICT (campaign_id, contact_id, channel) DO NOTHING
+              RETURNING id
+            `,
+            [campaign.id, organizationId, channel, ...audience.params.slice(3)]
+          );
+
+          jobIds.push(...inserted.rows.map((row) => row.id));
+        }
+
+        if (variants) {
+          await this.assignVariants(client, campaign, variants);
+        }
+      }
+
+      if (jobIds.length === 0 && enrollmentIds.length === 0) {
+        throw new Error('Segment has no contacts that can be reached on this campaign\'s channels');
+      }
+
+      const recipients = await client.query<{ count: string }>(
+        sequence
+          ? `SELECT COUNT(*) AS count FROM nexuscrm.sequence_enrollments WHERE campaign_id = $1`
+          : `SELECT COUNT(DISTINCT contact_id) AS count FROM nexuscrm.campaign_jobs WHERE campaign_id = $1`,
+        [campaign.id]
+      );
+
+      await client.query(
+        `
+          UPDATE nexuscrm.campaigns
+          SET
+            status = 'active',
+            target_segment_id = $1,
+            target_count = $2,
+            launched_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $3
+        `,
+        [segmentId, parseInt(recipients.rows[0].count, 10), campaign.id]
+      );
+
+      return { jobIds, enrollmentIds };
+    });
+
+    logger.info('Campaign launched', {
+      campaignId,
+      segmentId,
+      channels,
+      jobsCreated: launched.jobIds.length,
+      enrollmentsCreated: sequence ? launched.enrollmentIds.length : undefined,
+      variants: variants?.length,
+    });
+
+    if (variants && campaign.abTestConfig) {
+      await jobQueue.add<CampaignRunJobData>(
+        QUEUES.CAMPAIGN_AB_TEST,
+        { organizationId, campaignId },
+        { runAt: new Date(Date.now() + campaign.abTestConfig.testWindowHours * HOUR_MS) }
+      );
+    }
+
+    await this.scheduleBatch(organizationId, campaignId);
+
+    return {
+      campaignId,
+      jobsCreated: launched.jobIds.length,
+      jobs: launched.jobIds,
+      enrollmentsCreated: sequence ? launched.enrollmentIds.length : undefined,
+    };
+  }
+
+  /**
+   * Launch a scheduled campaign against its target segment
+   *
+   * Runs on the campaign-launch queue at the campaign's scheduledAt. A job
+   * left over from an earlier schedule finds the campaign launched, edited
+   * back out of scheduled, or rescheduled for later, and does nothing.
+   */
+  async launchScheduled(organizationId: string, campaignId: string): Promise<void> {
+    const campaign = await campaignManager.getCampaign(organizationId, campaignId);
+
+    if (
+      campaign?.status !== 'scheduled' ||
+      !campaign.scheduledAt ||
+      new Date(campaign.scheduledAt).getTime() > Date.now()
+    ) {
+      return;
+    }
+
+    if (!campaign.targetSegmentId) {
+      throw new Error('Scheduled campaign has no targetSegmentId');
+    }
+
+    await this.launch(organizationId, campaignId, campaign.targetSegmentId);
+  }
+
+  /**
+   * Pause an active campaign
+   *
+   * Sends already in flight finish; everything else stays pending.
+   */
+  async pause(organizationId: string, campaignId: string): Promise<Campaign> {
+    const campaign = await this.transitionStatus(organizationId, campaignId, ['active'], 'paused');
+
+    logger.info('Campaign paused', { campaignId });
+
+    return campaign;
+  }
+
+  /**
+   * Resume a paused campaign from where it stopped
+   */
+  async resume(organizationId: string, campaignId: string): Promise<Campaign> {
+    const campaign = await this.transitionStatus(organizationId, campaignId, ['paused'], 'active');
+
+    await this.scheduleBatch(organizationId, campaignId);
+
+    logger.info('Campaign resumed', { campaignId });
+
+    return campaign;
+  }
+
+  /**
+   * Cancel a campaign; jobs that have not been sent (including those held for
+   * an A/B test winner) are cancelled
+   */
+  async cancel(organizationId: string, campaignId: string): Promise<Campaign> {
+    const campaign = await this.transitionStatus(
+      organizationId,
+      campaignId,
+      ['draft', 'scheduled', 'active', 'paused'],
+      'cancelled'
+    );
+
+    await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.campaign_jobs
+        SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE campaign_id = $1 AND status IN ('pending', 'held')
+      `,
+      [campaignId]
+    );
+
+    await sequenceRunner.cancelEnrollments(organizationId, campaignId);
+
+    logger.info('Campaign cancelled', { campaignId });
+
+    return campaign;
+  }
+
+  /**
+   * Record that a sent message or call reached the recipient
+   *
+   * Called from provider webhooks, which identify the send by the provider's ID.
+   */
+  async recordDelivery(channel: CampaignChannel, externalId: string): Promise<void> {
+    await db.transaction(async (client) => {
+      const result = await client.query<{ campaign_id: string }>(
+        `
+          UPDATE nexuscrm.campaign_jobs
+          SET status = 'delivered', updated_at = CURRENT_TIMESTAMP
+          WHERE channel = $1 AND external_id = $2 AND status = 'sent'
+          RETURNING campaign_id
+        `,
+        [channel, externalId]
+      );
+
+      if (result.rows.length === 0) {
+        return;
+      }
+
+      await client.query(
+        `
+          UPDATE nexuscrm.campaigns
+          SET delivered_count = delivered_count + 1, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `,
+        [result.rows[0].campaign_id]
+      );
+    });
+  }
+
+  /**
+   * Record how a campaign call ended
+   *
+   * Called from voice webhooks with the call's final status. The first final
+   * status wins, so a call marked voicemail stays voicemail when it hangs up.
+   * The call's cost is added to the campaign's total. On a dialer campaign a
+   * busy/no-answer job goes back in the queue for a later redial, and the
+   * freed line is refilled.
+   */
+  async recordCallOutcome(externalId: string, status: string): Promise<void> {
+    const outcome = status as NonNullable<CampaignJob['callOutcome']>;
+
+    if (!CALL_OUTCOMES.includes(outcome)) {
+      return;
+    }
+
+    const job = await db.transaction(async (client) => {
+      const result = await client.query<{
+        id: string;
+        campaign_id: string;
+        organization_id: string;
+        attempts: number;
+        dialer_config: DialerConfig | null;
+      }>(
+        `
+          UPDATE nexuscrm.campaign_jobs j
+          SET call_outcome = $1, updated_at = CURRENT_TIMESTAMP
+          FROM nexuscrm.campaigns c
+          WHERE c.id = j.campaign_id
+            AND j.channel = 'voice' AND j.external_id = $2 AND j.call_outcome IS NULL
+          RETURNING j.id, j.campaign_id, j.organization_id, j.attempts, c.dialer_config
+        `,
+        [outcome, externalId]
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      const ended = result.rows[0];
+
+      await client.query(
+        `
+          UPDATE nexuscrm.campaigns
+          SET
+            voicemail_count = voicemail_count + $2,
+            total_cost_usd = total_cost_usd + COALESCE(
+              (SELECT cost_usd FROM nexuscrm.voice_calls WHERE external_call_id = $3), 0
+            ),
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `,
+        [ended.campaign_id, outcome === 'voicemail' ? 1 : 0, externalId]
+      );
+
+      const dialer = ended.dialer_config;
+
+      if (
+        dialer &&
+        RETRY_OUTCOMES.includes(outcome) &&
+        ended.attempts < (dialer.maxAttempts ?? DIALER_DEFAULTS.maxAttempts)
+      ) {
+        await client.query(
+          `
+            UPDATE nexuscrm.campaign_jobs
+            SET
+              status = 'pending',
+              next_attempt_at = CURRENT_TIMESTAMP + make_interval(mins => $2),
+              updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+          `,
+          [ended.id, dialer.retryDelayMinutes ?? DIALER_DEFAULTS.retryDelayMinutes]
+        );
+      }
+
+      return ended;
+    });
+
+    if (job?.dialer_config) {
+      await this.scheduleBatch(job.organization_id, job.campaign_id);
+    }
+  }
+
+  /**
+   * Send the next batch of a campaign's jobs, then queue the batch after it
+   *
+   * Runs on the campaign-run queue. The chain ends once the campaign is no
+   * longer active or has nothing left to send.
+   */
+  async executeBatch(organizationId: string, campaignId: string): Promise<void> {
+    const campaign = await campaignManager.getCampaign(organizationId, campaignId);
+
+    if (!campaign || campaign.status !== 'active') {
+      return;
+    }
+
+    if (campaign.dialerConfig) {
+      await this.dialNext(organizationId, campaign);
+      return;
+    }
+
+    const sequence = getSequence(campaign);
+
+    if (sequence) {
+      await this.stepSequence(organizationId, campaign, sequence);
+      return;
+    }
+
+    const jobs = await this.claimJobs(organizationId, campaignId);
+
+    if (jobs.length === 0) {
+      await this.complete(organizationId, campaignId);
+      return;
+    }
+
+    await this.sendJobs(organizationId, campaign, jobs);
+
+    await this.scheduleBatch(organizationId, campaignId);
+  }
+
+  /**
+   * Queue state of a dialer campaign
+   */
+  async getDialerProgress(organizationId: string, campaignId: string): Promise<DialerProgress> {
+    const result = await db.queryWithContext<Record<string, any>>(
+      organizationId,
+      `
+        SELECT
+          c.status,
+          c.dialer_config,
+          c.total_cost_usd,
+          COUNT(j.id) FILTER (WHERE j.status = 'pending' AND j.call_outcome IS NULL) AS pending,
+          COUNT(j.id) FILTER (
+            WHERE j.status = 'running'
+              OR (
+                j.status IN ('sent', 'delivered') AND j.call_outcome IS NULL
+                AND j.started_at > CURRENT_TIMESTAMP - make_interval(mins => $2)
+              )
+          ) AS dialing,
+          COUNT(j.id) FILTER (WHERE j.status = 'pending' AND j.call_outcome IS NOT NULL) AS retrying,
+          COUNT(j.id) FILTER (WHERE j.status <> 'pending' AND j.call_outcome = 'completed') AS completed,
+          COUNT(j.id) FILTER (WHERE j.status <> 'pending' AND j.call_outcome = 'voicemail') AS voicemail,
+          COUNT(j.id) FILTER (
+            WHERE j.status <> 'pending' AND j.call_outcome IN ('busy', 'no-answer')
+          ) AS unreached,
+          COUNT(j.id) FILTER (WHERE j.status = 'failed' OR j.call_outcome = 'failed') AS failed
+        FROM nexuscrm.campaigns c
+        LEFT JOIN nexuscrm.campaign_jobs j ON j.campaign_id = c.id AND j.channel = 'voice'
+        WHERE c.id = $1
+        GROUP BY c.id
+      `,
+      [campaignId, LIVE_CALL_MINUTES]
+    );
+
+    const row = result.rows[0];
+
+    if (!row) {
+      throw new Error('Campaign not found');
+    }
+
+    return {
+      campaignId,
+      status: row.status,
+      lines: row.dialer_config?.lines ?? 0,
+      pending: parseInt(row.pending, 10),
+      dialing: parseInt(row.dialing, 10),
+      retrying: parseInt(row.retrying, 10),
+      completed: parseInt(row.completed, 10),
+      voicemail: parseInt(row.voicemail, 10),
+      unreached: parseInt(row.unreached, 10),
+      failed: parseInt(row.failed, 10),
+      totalCostUsd: parseFloat(row.total_cost_usd),
+      budgetUsd: row.dialer_config?.budgetUsd,
+    };
+  }
+
+  /**
+   * How each of a campaign's variants performed
+   *
+   * Replies and conversions count contacts reached by the variant who wrote or
+   * called in, or converted, after it was sent.
+   */
+  async getVariantMetrics(organizationId: string, campaignId: string): Promise<CampaignVariantMetrics[]> {
+    const campaign = await campaignManager.getCampaign(organizationId, campaignId);
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    const variants = getVariants(campaign);
+
+    if (!variants) {
+      return [];
+    }
+
+    const result = await db.queryWithContext<Record<string, any>>(
+      organizationId,
+      `
+        WITH sends AS (
+          SELECT
+            j.variant_id,
+            COUNT(DISTINCT j.contact_id) AS recipients,
+            COUNT(*) FILTER (WHERE j.status IN ('sent', 'delivered')) AS sent,
+            COUNT(*) FILTER (WHERE j.status = 'delivered') AS delivered,
+            COUNT(*) FILTER (WHERE j.status = 'failed') AS failed,
+            COUNT(*) FILTER (WHERE j.channel = 'email' AND j.status IN ('sent', 'delivered')) AS emails,
+            COUNT(a.id) FILTER (WHERE a.email_opened IS TRUE) AS opened,
+            COUNT(a.id) FILTER (WHERE a.email_clicked IS TRUE) AS clicked
+          FROM nexuscrm.campaign_jobs j
+          LEFT JOIN nexuscrm.activities a
+            ON j.channel = 'email' AND a.external_id = j.external_id
+            AND a.type = 'email' AND a.direction = 'outbound'
+          WHERE j.campaign_id = $1 AND j.variant_id IS NOT NULL
+          GROUP BY j.variant_id
+        ),
+        reached AS (
+          SELECT variant_id, contact_id, MIN(completed_at) AS sent_at
+          FROM nexuscrm.campaign_jobs
+          WHERE campaign_id = $1 AND variant_id IS NOT NULL AND status IN ('sent', 'delivered')
+          GROUP BY variant_id, contact_id
+        ),
+        responses AS (
+          SELECT
+            r.variant_id,
+            COUNT(*) AS reached,
+            COUNT(*) FILTER (
+              WHERE EXISTS (
+                SELECT 1 FROM nexuscrm.activities a
+                WHERE a.contact_id = r.contact_id AND a.direction = 'inbound' AND a.type = ANY($2)
+                  AND a.created_at > r.sent_at AND a.deleted_at IS NULL
+              )
+            ) AS replied,
+            COUNT(*) FILTER (
+              WHERE c.lead_status = 'customer'
+                OR c.lifecycle_stage = 'customer'
+                OR EXISTS (
+                  SELECT 1 FROM nexuscrm.deals d
+                  WHERE d.primary_contact_id = r.contact_id AND d.created_at > r.sent_at
+                    AND d.deleted_at IS NULL
+                )
+            ) AS converted
+          FROM reached r
+          JOIN nexuscrm.contacts c ON c.id = r.contact_id
+          GROUP BY r.variant_id
+        )
+        SELECT s.*, COALESCE(p.reached, 0) AS reached, COALESCE(p.replied, 0) AS replied,
+          COALESCE(p.converted, 0) AS converted
+        FROM sends s
+        LEFT JOIN responses p ON p.variant_id = s.variant_id
+      `,
+      [campaignId, REPLY_TYPES]
+    );
+
+    const rowsByVariant = new Map(result.rows.map((row) => [row.variant_id, row]));
+    const rate = (count: number, total: number) => (total > 0 ? count / total : 0);
+
+    return variants.map((variant) => {
+      const row = rowsByVariant.get(variant.id) || {};
+      const count = (column: string) => parseInt(row[column] ?? '0', 10);
+
+      return {
+        variantId: variant.id,
+        name: variant.name,
+        recipients: count('recipients'),
+        sent: count('sent'),
+        delivered: count('delivered'),
+        failed: count('failed'),
+        opened: count('opened'),
+        clicked: count('clicked'),
+        replied: count('replied'),
+        converted: count('converted'),
+        openRate: rate(count('opened'), count('emails')),
+        clickRate: rate(count('clicked'), count('emails')),
+        replyRate: rate(count('replied'), count('reached')),
+        conversionRate: rate(count('converted'), count('reached')),
+        isWinner: variant.id === campaign.abWinnerVariantId,
+      };
+    });
+  }
+
+  /**
+   * Pick an A/B test's winner and send it to the held-back contacts
+   *
+   * Runs on the campaign-ab-test queue once the test window ends. A campaign
+   * that already has a winner, or was cancelled, is left alone; a paused one
+   * sends the winner when it is resumed.
+   */
+  async selectWinner(organizationId: string, campaignId: string): Promise<void> {
+    const campaign = await campaignManager.getCampaign(organizationId, campaignId);
+
+    if (!campaign?.abTestConfig || campaign.abWinnerVariantId || !WINNER_STATUSES.includes(campaign.status)) {
+      return;
+    }
+
+    const metrics = await this.getVariantMetrics(organizationId, campaignId);
+    const winner = pickWinner(metrics, campaign.abTestConfig.winnerMetric);
+
+    if (!winner) {
+      return;
+    }
+
+    const rolledOut = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      const selected = await client.query(
+        `
+          UPDATE nexuscrm.campaigns
+          SET ab_winner_variant_id = $2, ab_winner_selected_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1 AND ab_winner_variant_id IS NULL
+        `,
+        [campaignId, winner]
+      );
+
+      if ((selected.rowCount ?? 0) === 0) {
+        return null;
+      }
+
+      const released = await client.query(
+        `
+          UPDATE nexuscrm.campaign_jobs
+          SET status = 'pending', variant_id = $2, updated_at = CURRENT_TIMESTAMP
+          WHERE campaign_id = $1 AND status = 'held'
+        `,
+        [campaignId, winner]
+      );
+
+      return released.rowCount ?? 0;
+    });
+
+    if (rolledOut === null) {
+      return;
+    }
+
+    logger.info('Campaign A/B test winner selected', {
+      campaignId,
+      variantId: winner,
+      winnerMetric: campaign.abTestConfig.winnerMetric,
+      jobsReleased: rolledOut,
+    });
+
+    if (campaign.status === 'active') {
+      await this.scheduleBatch(organizationId, campaignId);
+    }
+  }
+
+  /**
+   * Fill a dialer campaign's free lines, then stream its queue state
+   *
+   * Every ended call queues another run, so lines are refilled as they free
+   * up. Once nothing is live, redials that are not due yet get a delayed run.
+   */
+  private async dialNext(organizationId: string, campaign: Campaign): Promise<void> {
+    const dialer = campaign.dialerConfig as DialerConfig;
+    const before = await this.getDialerProgress(organizationId, campaign.id);
+
+    if (dialer.budgetUsd !== undefined && before.totalCostUsd >= dialer.budgetUsd) {
+      await this.stopAtBudget(organizationId, before);
+      return;
+    }
+
+    const jobs = await this.claimDialerJobs(organizationId, campaign.id, dialer.lines);
+
+    if (jobs.length > 0) {
+      await this.sendJobs(organizationId, campaign, jobs);
+      // Dial failures free their lines straight away
+      await this.scheduleBatch(organizationId, campaign.id);
+    } else if (before.dialing === 0) {
+      const nextAttemptAt = await this.nextRedialAt(organizationId, campaign.id);
+
+      if (nextAttemptAt) {
+        await jobQueue.add<CampaignRunJobData>(
+          QUEUES.CAMPAIGN_RUN,
+          { organizationId, campaignId: campaign.id },
+          { runAt: nextAttemptAt }
+        );
+      } else {
+        await this.complete(organizationId, campaign.id);
+      }
+    }
+
+    broadcastCampaignProgress(organizationId, await this.getDialerProgress(organizationId, campaign.id));
+  }
+
+  /**
+   * Run a sequence campaign's due enrollments
+   *
+   * Keeps going while enrollments are due; once none are, the next run is
+   * queued for when the earliest waiting one comes due.
+   */
+  private async stepSequence(
+    organizationId: string,
+    campaign: Campaign,
+    sequence: SequenceDefinition
+  ): Promise<void> {
+    const { processed, nextRunAt } = await sequenceRunner.runDue(organizationId, campaign, sequence);
+
+    if (processed > 0) {
+      await this.scheduleBatch(organizationId, campaign.id);
+    } else if (nextRunAt) {
+      await jobQueue.add<CampaignRunJobData>(
+        QUEUES.CAMPAIGN_RUN,
+        { organizationId, campaignId: campaign.id },
+        { runAt: nextRunAt }
+      );
+    } else {
+      await this.complete(organizationId, campaign.id);
+    }
+  }
+
+  /**
+   * Pause a dialer campaign whose calls have used up its budget
+   */
+  private async stopAtBudget(organizationId: string, progress: DialerProgress): Promise<void> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.campaigns
+        SET status = 'paused', updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'active'
+      `,
+      [progress.campaignId]
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      return;
+    }
+
+    logger.warn('Campaign paused at budget cap', {
+      campaignId: progress.campaignId,
+      totalCostUsd: progress.totalCostUsd,
+      budgetUsd: progress.budgetUsd,
+    });
+
+    broadcastCampaignProgress(organizationId, { ...progress, status: 'paused' });
+  }
+
+  /**
+   * Send claimed jobs under the channel limits, stopping if the campaign does
+   */
+  private async sendJobs(organizationId: string, campaign: Campaign, jobs: CampaignJob[]): Promise<void> {
+    const contacts = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = ANY($1)`,
+      [jobs.map((job) => job.contactId)]
+    );
+    const contactsById = new Map(contacts.rows.map((row) => [row.id, mapContact(row)]));
+    const currentStatus = this.watchStatus(organizationId, campaign.id);
+
+    await Promise.all(
+      jobs.map((job) =>
+        this.limiters[job.channel].run(async () => {
+          const status = await currentStatus();
+
+          if (status !== 'active') {
+            await this.releaseJob(organizationId, job, status === 'cancelled');
+            return;
+          }
+
+          await this.processJob(organizationId, campaign, contactsById.get(job.contactId), job);
+        })
+      )
+    );
+  }
+
+  /**
+   * Give each launched contact's jobs the contact's variant
+   *
+   * Contacts outside an A/B test's test group are held back with no variant.
+   */
+  private async assignVariants(
+    client: PoolClient,
+    campaign: Campaign,
+    variants: CampaignVariant[]
+  ): Promise<void> {
+    const contacts = await client.query<{ contact_id: string }>(
+      `SELECT DISTINCT contact_id FROM nexuscrm.campaign_jobs WHERE campaign_id = $1`,
+      [campaign.id]
+    );
+
+    const contactIds = contacts.rows.map((row) => row.contact_id);
+    const variantIds = contactIds.map((contactId) =>
+      assignVariant(campaign.id, contactId, variants, campaign.abTestConfig?.testPercent)
+    );
+
+    await client.query(
+      `
+        UPDATE nexuscrm.campaign_jobs j
+        SET
+          variant_id = v.variant_id,
+          status = CASE WHEN v.variant_id IS NULL THEN 'held' ELSE j.status END,
+          updated_at = CURRENT_TIMESTAMP
+        FROM unnest($2::uuid[], $3::text[]) AS v (contact_id, variant_id)
+        WHERE j.campaign_id = $1 AND j.contact_id = v.contact_id
+      `,
+      [campaign.id, contactIds, variantIds]
+    );
+  }
+
+  /**
+   * Queue the next batch for a campaign
+   */
+  private async scheduleBatch(organizationId: string, campaignId: string): Promise<void> {
+    await jobQueue.add<CampaignRunJobData>(QUEUES.CAMPAIGN_RUN, { organizationId, campaignId });
+  }
+
+  /**
+   * Read a campaign's status, re-checking at most every few seconds
+   */
+  private watchStatus(
+    organizationId: string,
+    campaignId: string
+  ): () => Promise<Campaign['status'] | undefined> {
+    let checkedAt = 0;
+    let status: Promise<Campaign['status'] | undefined> = Promise.resolve(undefined);
+
+    return () => {
+      if (Date.now() - checkedAt >= STATUS_CHECK_INTERVAL_MS) {
+        checkedAt = Date.now();
+        status = db
+          .queryWithContext<{ status: Campaign['status'] }>(
+            organizationId,
+            `SELECT status FROM nexuscrm.campaigns WHERE id = $1`,
+            [campaignId]
+          )
+          .then((result) => result.rows[0]?.status);
+      }
+      return status;
+    };
+  }
+
+  /**
+   * Claim the next batch of pending jobs
+   */
+  private async claimJobs(organizationId: string, campaignId: string): Promise<CampaignJob[]> {
+    const result = await db.queryWithContext<CampaignJob>(
+      organizationId,
+      CLAIM_JOBS_SQL,
+      [campaignId, config.campaigns.batchSize, STALE_JOB_MINUTES]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Claim as many due jobs as a dialer campaign has free lines
+   *
+   * The campaign row is locked so concurrent runs cannot both fill the same
+   * free lines.
+   */
+  private async claimDialerJobs(
+    organizationId: string,
+    campaignId: string,
+    lines: number
+  ): Promise<CampaignJob[]> {
+    return db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      await client.query(`SELECT id FROM nexuscrm.campaigns WHERE id = $1 FOR UPDATE`, [campaignId]);
+
+      const live = await client.query<{ count: string }>(
+        `
+          SELECT COUNT(*) AS count FROM nexuscrm.campaign_jobs
+          WHERE campaign_id = $1
+            AND (
+              status = 'running'
+              OR (
+                status IN ('sent', 'delivered') AND call_outcome IS NULL
+                AND started_at > CURRENT_TIMESTAMP - make_interval(mins => $2)
+              )
+            )
+        `,
+        [campaignId, LIVE_CALL_MINUTES]
+      );
+
+      const freeLines = Math.min(lines - parseInt(live.rows[0].count, 10), config.campaigns.batchSize);
+
+      if (freeLines <= 0) {
+        return [];
+      }
+
+      const result = await client.query<CampaignJob>(CLAIM_JOBS_SQL, [
+        campaignId,
+        freeLines,
+        STALE_JOB_MINUTES,
+      ]);
+
+      return result.rows;
+    });
+  }
+
+  /**
+   * When the earliest busy/no-answer redial of a campaign comes due
+   */
+  private async nextRedialAt(organizationId: string, campaignId: string): Promise<Date | null> {
+    const result = await db.queryWithContext<{ next_attempt_at: Date | null }>(
+      organizationId,
+      `
+        SELECT MIN(next_attempt_at) AS next_attempt_at FROM nexuscrm.campaign_jobs
+        WHERE campaign_id = $1 AND status = 'pending' AND next_attempt_at > CURRENT_TIMESTAMP
+      `,
+      [campaignId]
+    );
+
+    return result.rows[0]?.next_attempt_at || null;
+  }
+
+  /**
+   * Send one job and record the outcome
+   */
+  private async processJob(
+    organizationId: string,
+    campaign: Campaign,
+    contact: Contact | undefined,
+    job: CampaignJob
+  ): Promise<void> {
+    try {
+      if (!contact) {
+        throw new Error('Contact no longer exists');
+      }
+
+      const sender = this.senders.get(job.channel) || ((context) => this.delegateToOrchestration(context));
+      const result = await sender({
+        organizationId,
+        campaign: applyVariant(campaign, job.variantId),
+        contact,
+        job,
+      });
+
+      await this.recordOutcome(organizationId, job, {
+        status: result.delivered ? 'delivered' : 'sent',
+        externalId: result.externalId,
+      });
+    } catch (error: any) {
+      logger.warn('Campaign send failed', {
+        error: error.message,
+        campaignId: job.campaignId,
+        jobId: job.id,
+        channel: job.channel,
+      });
+
+      await this.recordOutcome(organizationId, job, { status: 'failed', error: error.message });
+    }
+  }
+
+  /**
+   * Store a job's result and bump the campaign counters to match
+   */
+  private async recordOutcome(
+    organizationId: string,
+    job: CampaignJob,
+    outcome: { status: 'sent' | 'delivered' | 'failed'; externalId?: string; error?: string }
+  ): Promise<void> {
+    // A redial reaches a recipient who was already counted as sent
+    const redial = !!job.callOutcome;
+    const sent = outcome.status === 'failed' || redial ? 0 : 1;
+    const delivered = outcome.status === 'delivered' ? 1 : 0;
+    const failed = outcome.status === 'failed' ? 1 : 0;
+
+    await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      await client.query(
+        `
+          UPDATE nexuscrm.campaign_jobs
+          SET
+            status = $1,
+            external_id = $2,
+            error = $3,
+            call_outcome = NULL,
+            next_attempt_at = NULL,
+            completed_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $4
+        `,
+        [outcome.status, outcome.externalId, outcome.error, job.id]
+      );
+
+      await client.query(
+        `
+          UPDATE nexuscrm.campaigns
+          SET
+            sent_count = sent_count + $1,
+            delivered_count = delivered_count + $2,
+            failed_count = failed_count + $3,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $4
+        `,
+        [sent, delivered, failed, job.campaignId]
+      );
+    });
+  }
+
+  /**
+   * Put back a claimed job that was not sent because the campaign stopped
+   */
+  private async releaseJob(
+    organizationId: string,
+    job: CampaignJob,
+    cancelled: boolean
+  ): Promise<void> {
+    await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.campaign_jobs
+        SET
+          status = $1,
+          attempts = attempts - 1,
+          completed_at = CASE WHEN $1 = 'cancelled' THEN CURRENT_TIMESTAMP END,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2 AND status = 'running'
+      `,
+      [cancelled ? 'cancelled' : 'pending', job.id]
+    );
+  }
+
+  /**
+   * Mark an active campaign completed once no jobs or enrollments are left
+   *
+   * Jobs held for an A/B test winner keep the campaign open until the winner
+   * has been sent.
+   */
+  private async complete(organizationId: string, campaignId: string): Promise<void> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.campaigns
+        SET status = 'completed', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND status = 'active'
+          AND NOT EXISTS (
+            SELECT 1 FROM nexuscrm.campaign_jobs
+            WHERE campaign_id = $1 AND status IN ('pending', 'held', 'running')
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM nexuscrm.sequence_enrollments
+            WHERE campaign_id = $1 AND status = 'active'
+          )
+      `,
+      [campaignId]
+    );
+
+    if ((result.rowCount ?? 0) > 0) {
+      logger.info('Campaign completed', { campaignId });
+    }
+  }
+
+  /**
+   * Move a campaign between lifecycle states
+   */
+  private async transitionStatus(
+    organizationId: string,
+    campaignId: string,
+    from: Array<Campaign['status']>,
+    to: Campaign['status']
+  ): Promise<Campaign> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.campaigns
+        SET
+          status = $1,
+          completed_at = CASE WHEN $1 = 'cancelled' THEN CURRENT_TIMESTAMP ELSE completed_at END,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2 AND status = ANY($3) AND deleted_at IS NULL
+        RETURNING *
+      `,
+      [to, campaignId, from]
+    );
+
+    if (result.rows.length === 0) {
+      const campaign = await campaignManager.getCampaign(organizationId, campaignId);
+
+      if (!campaign) {
+        throw new Error('Campaign not found');
+      }
+
+      throw new Error(`Campaign is ${campaign.status}`);
+    }
+
+    return mapCampaign(result.rows[0]);
+  }
+
+  /**
+   * Send the campaign email to one recipient
+   */
+  private async sendEmail({
+    organizationId,
+    campaign,
+    contact,
+    job,
+  }: CampaignSendContext): Promise<CampaignSendResult> {
+    const result = await emailService.sendCampaignEmail(organizationId, campaign, contact, job.id);
+
+    return { externalId: result.messageId };
+  }
+
+  /**
+   * Send the campaign SMS to one recipient
+   */
+  private async sendSms({
+    organizationId,
+    campaign,
+    contact,
+    job,
+  }: CampaignSendContext): Promise<CampaignSendResult> {
+    const result = await smsService.sendCampaignSms(organizationId, campaign, contact, job.id);
+
+    return { externalId: result.messageId };
+  }
+
+  /**
+   * Send the campaign's WhatsApp template or session message to one recipient
+   */
+  private async sendWhatsapp({
+    organizationId,
+    campaign,
+    contact,
+    job,
+  }: CampaignSendContext): Promise<CampaignSendResult> {
+    const result = await whatsappService.sendCampaignMessage(organizationId, campaign, contact, job.id);
+
+    return { externalId: result.messageId };
+  }
+
+  /**
+   * Place an outbound call for a voice campaign recipient
+   */
+  private async sendVoice({
+    organizationId,
+    campaign,
+    contact,
+  }: CampaignSendContext): Promise<CampaignSendResult> {
+    const assistantConfig = campaign.voiceAssistantConfig || {};
+
+    const call = await callManager.makeCall(
+      {
+        contactId: contact.id,
+        toNumber: (contact.mobile || contact.phone) as string,
+        script: campaign.voiceScript as string,
+        language: assistantConfig.language,
+        voiceId: assistantConfig.voiceId,
+        model: assistantConfig.model,
+        voicemail: this.renderVoicemail(campaign, contact),
+      },
+      organizationId,
+      campaign.createdBy as string
+    );
+
+    return { externalId: call.externalCallId };
+  }
+
+  /**
+   * The campaign's voicemail config with merge fields filled in for a contact
+   */
+  private renderVoicemail(campaign: Campaign, contact: Contact): VoicemailConfig | undefined {
+    const voicemail = campaign.voicemailConfig;
+
+    if (!voicemail?.message) {
+      return voicemail;
+    }
+
+    return { ...voicemail, message: renderMergeFields(voicemail.message, buildMergeValues(contact)) };
+  }
+
+  /**
+   * Hand a single recipient to the OrchestrationAgent
+   */
+  private async delegateToOrchestration({
+    organizationId,
+    campaign,
+    contact,
+    job,
+  }: CampaignSendContext): Promise<CampaignSendResult> {
+    const result = await orchestrationClient.execute({
+      goal: campaign.workflowGoal || `Send ${job.channel} message for campaign: ${campaign.name}`,
+      metadata: {
+        campaignId: campaign.id,
+        jobId: job.id,
+        contactId: contact.id,
+        channel: job.channel,
+        organizationId,
+      },
+    });
+
+    return { externalId: result.executionId };
+  }
+}
+
+// Export singleton instance
+export const campaignEngine = new CampaignEngine();
+
+export default campaignEngine;
@@ -0,0 +1,493 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { ColumnMap, mapRow } from '../utils/rows';
+import { jobQueue, QUEUES, CampaignRunJobData } from '../queue';
+import { validateSequence } from './sequence-definition';
+import { getVariants, isEmailMetric, validateAbTestConfig, validateVariants } from './campaign-variants';
+import { Campaign, CreateCampaignInput, UpdateCampaignInput } from '../types';
+
+/**
+ * Campaign Manager
+ *
+ * Handles campaign authoring:
+ * - Creates, edits and clones campaigns
+ * - Schedules campaigns for a future launch
+ * - Validates channel content per campaign type, or the multi-step sequence
+ *   in workflowConfig.sequence
+ * - Validates A/B content variants and the winner selection settings
+ *
+ * Drafts may be saved incomplete; content is validated once a campaign is
+ * scheduled or launched. Only draft and scheduled campaigns can be edited.
+ */
+
+// Input field -> campaigns column
+const CAMPAIGN_COLUMNS: Record<keyof CreateCampaignInput, string> = {
+  name: 'name',
+  description: 'description',
+  type: 'type',
+  workflowGoal: 'workflow_goal',
+  workflowConfig: 'workflow_config',
+  targetSegmentId: 'target_segment_id',
+  emailSubject: 'email_subject',
+  emailBodyHtml: 'email_body_html',
+  emailBodyText: 'email_body_text',
+  emailFromName: 'email_from_name',
+  emailFromEmail: 'email_from_email',
+  emailReplyTo: 'email_reply_to',
+  smsMessage: 'sms_message',
+  voiceScript: 'voice_script',
+  voiceAssistantConfig: 'voice_assistant_config',
+  voicemailConfig: 'voicemail_config',
+  dialerConfig: 'dialer_config',
+  whatsappTemplate: 'whatsapp_template',
+  variants: 'variants',
+  abTestConfig: 'ab_test_config',
+  tags: 'tags',
+  customFields: 'custom_fields',
+};
+
+// Campaign field -> campaigns column, for reading rows back
+const CAMPAIGN_ROW_COLUMNS: ColumnMap<Campaign> = {
+  ...CAMPAIGN_COLUMNS,
+  id: 'id',
+  status: 'status',
+  orchestrationExecutionId: 'orchestration_execution_id',
+  targetCount: 'target_count',
+  scheduledAt: 'scheduled_at',
+  launchedAt: 'launched_at',
+  completedAt: 'completed_at',
+  abWinnerVariantId: 'ab_winner_variant_id',
+  abWinnerSelectedAt: 'ab_winner_selected_at',
+  sentCount: 'sent_count',
+  deliveredCount: 'delivered_count',
+  openedCount: 'opened_count',
+  clickedCount: 'clicked_count',
+  repliedCount: 'replied_count',
+  convertedCount: 'converted_count',
+  bouncedCount: 'bounced_count',
+  unsubscribedCount: 'unsubscribed_count',
+  failedCount: 'failed_count',
+  voicemailCount: 'voicemail_count',
+  openRate: 'open_rate',
+  clickRate: 'click_rate',
+  conversionRate: 'conversion_rate',
+  totalCostUsd: 'total_cost_usd',
+  createdBy: 'created_by',
+  organizationId: 'organization_id',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  deletedAt: 'deleted_at',
+};
+
+// JSONB columns holding arrays, which pg would otherwise bind as Postgres arrays
+const JSON_ARRAY_FIELDS: Array<keyof CreateCampaignInput> = ['variants'];
+
+const EDITABLE_STATUSES: Array<Campaign['status']> = ['draft', 'scheduled'];
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Longest message carriers will deliver as a concatenated SMS
+const SMS_MAX_LENGTH = 1600;
+
+// Most concurrent calls one dialer campaign may hold open
+const MAX_DIALER_LINES = 50;
+
+// WhatsApp template names are lowercase letters, digits and underscores
+const WHATSAPP_TEMPLATE_NAME_PATTERN = /^[a-z0-9_]{1,512}$/;
+
+const WHATSAPP_MEDIA_TYPES = ['image', 'video', 'audio', 'document'];
+
+export class CampaignManager {
+  /**
+   * Get a campaign by ID
+   */
+  async getCampaign(organizationId: string, campaignId: string): Promise<Campaign | null> {
+    const result = await db.queryWithContext<Campaign>(
+      organizationId,
+      `SELECT * FROM nexuscrm.campaigns WHERE id = $1 AND deleted_at IS NULL`,
+      [campaignId]
+    );
+
+    return result.rows[0] ? mapCampaign(result.rows[0]) : null;
+  }
+
+  /**
+   * Create a draft campaign
+   */
+  async createCampaign(
+    organizationId: string,
+    userId: string,
+    input: CreateCampaignInput
+  ): Promise<Campaign> {
+    this.validateFormat(input);
+
+    const row: Record<string, any> = {
+      status: 'draft',
+      created_by: userId,
+      organization_id: organizationId,
+    };
+
+    for (const [field, column] of Object.entries(CAMPAIGN_COLUMNS)) {
+      const value = input[field as keyof CreateCampaignInput];
+      if (value !== undefined) {
+        row[column] = this.toColumnValue(field as keyof CreateCampaignInput, value);
+      }
+    }
+
+    const columns = Object.keys(row);
+    const placeholders = columns.map((_, index) => `$${index + 1}`);
+
+    const result = await db.queryWithContext<Campaign>(
+      organizationId,
+      `
+        INSERT INTO nexuscrm.campaigns (${columns.join(', ')})
+        VALUES (${placeholders.join(', ')})
+        RETURNING *
+      `,
+      Object.values(row)
+    );
+
+    const campaign = mapCampaign(result.rows[0]);
+
+    logger.info('Campaign created', { campaignId: campaign.id, type: input.type });
+
+    return campaign;
+  }
+
+  /**
+   * Update a draft or scheduled campaign
+   *
+   * Scheduled campaigns are re-validated so an edit cannot leave a campaign
+   * queued for launch without the content its type needs.
+   */
+  async updateCampaign(
+    organizationId: string,
+    campaignId: string,
+    input: UpdateCampaignInput
+  ): Promise<Campaign> {
+    const current = await this.getEditableCampaign(organizationId, campaignId);
+
+    this.validateFormat(input);
+
+    if (current.status === 'scheduled') {
+      this.validateContent({ ...current, ...input });
+    }
+
+    const updates: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    for (const [field, column] of Object.entries(CAMPAIGN_COLUMNS)) {
+      if (field === 'type') {
+        continue;
+      }
+      const value = input[field as keyof UpdateCampaignInput];
+      if (value !== undefined) {
+        updates.push(`${column} = $${paramIndex++}`);
+        params.push(this.toColumnValue(field as keyof CreateCampaignInput, value));
+      }
+    }
+
+    params.push(campaignId);
+
+    const result = await db.queryWithContext<Campaign>(
+      organizationId,
+      `
+        UPDATE nexuscrm.campaigns
+        SET ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+        WHERE id = $${paramIndex++} AND status = ANY($${paramIndex++}) AND deleted_at IS NULL
+        RETURNING *
+      `,
+      [...params, EDITABLE_STATUSES]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Campaign is no longer editable');
+    }
+
+    logger.info('Campaign updated', { campaignId });
+
+    return mapCampaign(result.rows[0]);
+  }
+
+  /**
+   * Clone a campaign into a new draft
+   *
+   * Copies content, targeting and configuration; counters, schedule and
+   * execution state start fresh.
+   */
+  async cloneCampaign(
+    organizationId: string,
+    userId: string,
+    campaignId: string,
+    name?: string
+  ): Promise<Campaign> {
+    const source = await this.getCampaign(organizationId, campaignId);
+
+    if (!source) {
+      throw new Error('Campaign not found');
+    }
+
+    const input: CreateCampaignInput = {
+      name: name || `${source.name} (copy)`,
+      type: source.type,
+    };
+
+    for (const field of Object.keys(CAMPAIGN_COLUMNS) as Array<keyof CreateCampaignInput>) {
+      if (field === 'name' || field === 'type') {
+        continue;
+      }
+      const value = (source as Record<string, any>)[field];
+      if (value !== undefined && value !== null) {
+        (input as Record<string, any>)[field] = value;
+      }
+    }
+
+    const clone = await this.createCampaign(organizationId, userId, input);
+
+    logger.info('Campaign cloned', { sourceCampaignId: campaignId, campaignId: clone.id });
+
+    return clone;
+  }
+
+  /**
+   * Schedule a campaign for launch at a future time
+   *
+   * Queues a campaign-launch job for scheduledAt that launches the campaign
+   * against its target segment. Rescheduling queues another job; the engine
+   * skips jobs that no longer match the campaign's schedule.
+   */
+  async scheduleCampaign(
+    organizationId: string,
+    campaignId: string,
+    scheduledAt: Date
+  ): Promise<Campaign> {
+    const current = await this.getEditableCampaign(organizationId, campaignId);
+
+    if (new Date(scheduledAt).getTime() <= Date.now()) {
+      throw new Error('scheduledAt must be in the future');
+    }
+
+    if (!current.targetSegmentId) {
+      throw new Error('Scheduled campaign requires targetSegmentId');
+    }
+
+    this.validateContent(current);
+
+    const result = await db.queryWithContext<Campaign>(
+      organizationId,
+      `
+        UPDATE nexuscrm.campaigns
+        SET status = 'scheduled', scheduled_at = $1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2 AND status = ANY($3) AND deleted_at IS NULL
+        RETURNING *
+      `,
+      [scheduledAt, campaignId, EDITABLE_STATUSES]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Campaign is no longer editable');
+    }
+
+    await jobQueue.add<CampaignRunJobData>(
+      QUEUES.CAMPAIGN_LAUNCH,
+      { organizationId, campaignId },
+      { runAt: new Date(scheduledAt) }
+    );
+
+    logger.info('Campaign scheduled', { campaignId, scheduledAt });
+
+    return mapCampaign(result.rows[0]);
+  }
+
+  /**
+   * Check that a campaign has the content its type needs to launch
+   */
+  validateContent(campaign: Partial<Campaign> & Pick<Campaign, 'type'>): void {
+    const hasEmail = !!campaign.emailSubject && !!(campaign.emailBodyHtml || campaign.emailBodyText);
+    const hasSms = !!campaign.smsMessage;
+    const hasVoice = !!campaign.voiceScript;
+
+    if (campaign.dialerConfig && campaign.type !== 'voice-outbound') {
+      throw new Error('dialerConfig only applies to voice-outbound campaigns');
+    }
+
+    if (campaign.whatsappTemplate && campaign.type !== 'whatsapp-campaign') {
+      throw new Error('whatsappTemplate only applies to whatsapp-campaign campaigns');
+    }
+
+    const variants = getVariants(campaign);
+
+    if (variants) {
+      if (campaign.workflowConfig?.sequence !== undefined) {
+        throw new Error('Sequence campaigns cannot have variants; vary the sequence steps instead');
+      }
+      validateVariants(variants, campaign.type);
+    }
+
+    if (campaign.abTestConfig) {
+      if (!variants) {
+        throw new Error('abTestConfig requires campaign variants');
+      }
+      if (isEmailMetric(campaign.abTestConfig.winnerMetric) && !hasEmail) {
+        throw new Error(`abTestConfig winnerMetric ${campaign.abTestConfig.winnerMetric} requires an email campaign`);
+      }
+    }
+
+    // A sequence carries its own content in place of the single message fields
+    if (campaign.workflowConfig?.sequence !== undefined) {
+      validateSequence(campaign.workflowConfig.sequence, campaign.type);
+      return;
+    }
+
+    switch (campaign.type) {
+      case 'email-drip':
+        if (!campaign.emailSubject) {
+          throw new Error('Email campaign requires emailSubject');
+        }
+        if (!campaign.emailBodyHtml && !campaign.emailBodyText) {
+          throw new Error('Email campaign requires emailBodyHtml or emailBodyText');
+        }
+        break;
+
+      case 'voice-outbound':
+        if (!hasVoice) {
+          throw new Error('Voice campaign requires voiceScript');
+        }
+        break;
+
+      case 'sms-blast':
+        if (!hasSms) {
+          throw new Error('SMS campaign requires smsMessage');
+        }
+        break;
+
+      case 'whatsapp-campaign':
+        // A template can open a conversation; smsMessage alone only reaches open sessions
+        if (!campaign.whatsappTemplate && !hasSms) {
+          throw new Error('WhatsApp campaign requires whatsappTemplate or smsMessage');
+        }
+        break;
+
+      case 'multi-channel':
+        if (!hasEmail && !hasSms && !hasVoice) {
+          throw new Error('Multi-channel campaign requires content for at least one channel');
+        }
+        break;
+
+      default:
+        throw new Error(`Unknown campaign type: ${campaign.type}`);
+    }
+  }
+
+  /**
+   * Validate field formats that apply regardless of campaign type
+   */
+  private validateFormat(input: UpdateCampaignInput): void {
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new Error('Campaign name cannot be empty');
+    }
+    if (input.emailFromEmail && !EMAIL_PATTERN.test(input.emailFromEmail)) {
+      throw new Error(`Invalid emailFromEmail: ${input.emailFromEmail}`);
+    }
+    if (input.emailReplyTo && !EMAIL_PATTERN.test(input.emailReplyTo)) {
+      throw new Error(`Invalid emailReplyTo: ${input.emailReplyTo}`);
+    }
+    if (input.smsMessage && input.smsMessage.length > SMS_MAX_LENGTH) {
+      throw new Error(`smsMessage exceeds ${SMS_MAX_LENGTH} characters`);
+    }
+    if (input.voicemailConfig) {
+      const { action, message, audioUrl } = input.voicemailConfig;
+
+      if (action !== 'message' && action !== 'hangup') {
+        throw new Error(`Invalid voicemailConfig action: ${action}`);
+      }
+      if (action === 'message' && !message && !audioUrl) {
+        throw new Error('voicemailConfig needs a message or audioUrl to leave a voicemail');
+      }
+    }
+    if (input.dialerConfig) {
+      const { lines, maxAttempts, retryDelayMinutes, budgetUsd } = input.dialerConfig;
+
+      if (!Number.isInteger(lines) || lines < 1 || lines > MAX_DIALER_LINES) {
+        throw new Error(`dialerConfig lines must be between 1 and ${MAX_DIALER_LINES}`);
+      }
+      if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+        throw new Error('dialerConfig maxAttempts must be at least 1');
+      }
+      if (retryDelayMinutes !== undefined && (!Number.isInteger(retryDelayMinutes) || retryDelayMinutes < 1)) {
+        throw new Error('dialerConfig retryDelayMinutes must be at least 1');
+      }
+      if (budgetUsd !== undefined && !(budgetUsd > 0)) {
+        throw new Error('dialerConfig budgetUsd must be positive');
+      }
+    }
+    if (input.variants) {
+      validateVariants(input.variants);
+
+      for (const variant of input.variants) {
+        if (variant.smsMessage && variant.smsMessage.length > SMS_MAX_LENGTH) {
+          throw new Error(`Variant ${variant.id} smsMessage exceeds ${SMS_MAX_LENGTH} characters`);
+        }
+      }
+    }
+    if (input.abTestConfig) {
+      validateAbTestConfig(input.abTestConfig);
+    }
+    if (input.whatsappTemplate) {
+      const { name, language, variables, headerMedia } = input.whatsappTemplate;
+
+      if (!WHATSAPP_TEMPLATE_NAME_PATTERN.test(name || '')) {
+        throw new Error(`Invalid whatsappTemplate name: ${name}`);
+      }
+      if (!language) {
+        throw new Error('whatsappTemplate requires a language');
+      }
+      if (variables && !variables.every((variable) => typeof variable === 'string')) {
+        throw new Error('whatsappTemplate variables must be strings');
+      }
+      if (headerMedia && (!WHATSAPP_MEDIA_TYPES.includes(headerMedia.type) || !headerMedia.url)) {
+        throw new Error('whatsappTemplate headerMedia needs a media type and url');
+      }
+    }
+  }
+
+  /**
+   * The value bound for a campaign column
+   */
+  private toColumnValue(field: keyof CreateCampaignInput, value: any): any {
+    return JSON_ARRAY_FIELDS.includes(field) && value !== null ? JSON.stringify(value) : value;
+  }
+
+  /**
+   * Load a campaign and ensure it can still be edited
+   */
+  private async getEditableCampaign(
+    organizationId: string,
+    campaignId: string
+  ): Promise<Campaign> {
+    const campaign = await this.getCampaign(organizationId, campaignId);
+
+    if (!campaign) {
+      throw new Error('Campaign not found');
+    }
+
+    if (!EDITABLE_STATUSES.includes(campaign.status)) {
+      throw new Error(`Campaign is ${campaign.status}; only draft and scheduled campaigns can be edited`);
+    }
+
+    return campaign;
+  }
+}
+
+/**
+ * Map a campaigns row to a Campaign
+ */
+export function mapCampaign(row: Record<string, any>): Campaign {
+  return mapRow<Campaign>(row, CAMPAIGN_ROW_COLUMNS);
+}
+
+// Export singleton instance
+export const campaignManager = new CampaignManager();
+
+export default campaignManager;
@@ -0,0 +1,199 @@
+import crypto from 'crypto';
+import {
+  AbTestConfig,
+  AbTestMetric,
+  Campaign,
+  CampaignVariant,
+  CampaignVariantMetrics,
+} from '../types';
+
+/**
+ * Campaign Variants
+ *
+ * A/B and multivariate content for single-message campaigns. Each variant
+ * replaces some of the campaign's subject, body, SMS text or voice script.
+ * Contacts are split across variants by a hash of the campaign and contact
+ * IDs, so a contact always lands in the same variant; with an abTestConfig
+ * only `testPercent` of the audience is split and the rest waits for the
+ * winner.
+ */
+
+type VariantField = Exclude<keyof CampaignVariant, 'id' | 'name' | 'weight'>;
+
+const VARIANT_FIELDS: VariantField[] = [
+  'emailSubject',
+  'emailBodyHtml',
+  'emailBodyText',
+  'smsMessage',
+  'voiceScript',
+];
+
+// Campaign type -> content a variant may replace
+const TYPE_VARIANT_FIELDS: Record<Campaign['type'], VariantField[]> = {
+  'email-drip': ['emailSubject', 'emailBodyHtml', 'emailBodyText'],
+  'sms-blast': ['smsMessage'],
+  // Session messages; templates are approved up front and cannot vary
+  'whatsapp-campaign': ['smsMessage'],
+  'voice-outbound': ['voiceScript'],
+  'multi-channel': VARIANT_FIELDS,
+};
+
+// Metric -> CampaignVariantMetrics rate it compares
+const METRIC_RATES: Record<AbTestMetric, keyof CampaignVariantMetrics> = {
+  open_rate: 'openRate',
+  click_rate: 'clickRate',
+  reply_rate: 'replyRate',
+  conversion_rate: 'conversionRate',
+};
+
+// Metrics only email sends report
+const EMAIL_METRICS: AbTestMetric[] = ['open_rate', 'click_rate'];
+
+const VARIANT_ID_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+
+const MIN_VARIANTS = 2;
+const MAX_VARIANTS = 10;
+
+/**
+ * A campaign's variants, or null when everyone gets the same content
+ */
+export function getVariants(campaign: Partial<Pick<Campaign, 'variants'>>): CampaignVariant[] | null {
+  const variants = campaign.variants;
+  return Array.isArray(variants) && variants.length > 0 ? variants : null;
+}
+
+/**
+ * Whether a winner metric needs the campaign to send email
+ */
+export function isEmailMetric(metric: AbTestMetric): boolean {
+  return EMAIL_METRICS.includes(metric);
+}
+
+/**
+ * Pick a contact's variant
+ *
+ * Returns null for contacts outside the `testPercent` test group, who are
+ * held back for the winner. Within the group, variants get contacts in
+ * proportion to their weights.
+ */
+export function assignVariant(
+  campaignId: string,
+  contactId: string,
+  variants: CampaignVariant[],
+  testPercent: number = 100
+): string | null {
+  const hash = crypto.createHash('md5').update(`${campaignId}:${contactId}`).digest();
+  const bucket = hash.readUInt32BE(0) / 0x100000000;
+  const testShare = testPercent / 100;
+
+  if (bucket >= testShare) {
+    return null;
+  }
+
+  const totalWeight = variants.reduce((total, variant) => total + (variant.weight ?? 1), 0);
+  let point = (bucket / testShare) * totalWeight;
+
+  for (const variant of variants) {
+    point -= variant.weight ?? 1;
+    if (point < 0) {
+      return variant.id;
+    }
+  }
+
+  return variants[variants.length - 1].id;
+}
+
+/**
+ * The campaign as sent to contacts in a variant
+ */
+export function applyVariant(campaign: Campaign, variantId: string | null | undefined): Campaign {
+  const variant = variantId ? getVariants(campaign)?.find((candidate) => candidate.id === variantId) : undefined;
+
+  if (!variant) {
+    return campaign;
+  }
+
+  const applied = { ...campaign };
+
+  for (const field of VARIANT_FIELDS) {
+    if (variant[field] !== undefined && variant[field] !== null) {
+      applied[field] = variant[field];
+    }
+  }
+
+  return applied;
+}
+
+/**
+ * The best variant on a metric; ties go to the variant listed first
+ */
+export function pickWinner(metrics: CampaignVariantMetrics[], metric: AbTestMetric): string | null {
+  const rate = METRIC_RATES[metric];
+  let winner: CampaignVariantMetrics | null = null;
+
+  for (const candidate of metrics) {
+    if (!winner || (candidate[rate] as number) > (winner[rate] as number)) {
+      winner = candidate;
+    }
+  }
+
+  return winner?.variantId ?? null;
+}
+
+/**
+ * Check variant structure, and with a campaign type, that each variant only
+ * replaces content the type sends
+ */
+export function validateVariants(variants: any, campaignType?: Campaign['type']): void {
+  if (!Array.isArray(variants) || variants.length < MIN_VARIANTS) {
+    throw new Error(`Campaign variants require at least ${MIN_VARIANTS} variants`);
+  }
+  if (variants.length > MAX_VARIANTS) {
+    throw new Error(`Campaign cannot have more than ${MAX_VARIANTS} variants`);
+  }
+
+  const allowed = campaignType ? TYPE_VARIANT_FIELDS[campaignType] : VARIANT_FIELDS;
+  const ids = new Set<string>();
+
+  for (const variant of variants as CampaignVariant[]) {
+    if (!VARIANT_ID_PATTERN.test(variant?.id || '')) {
+      throw new Error(`Invalid variant id: ${variant?.id}`);
+    }
+    if (ids.has(variant.id)) {
+      throw new Error(`Duplicate variant id: ${variant.id}`);
+    }
+    ids.add(variant.id);
+
+    if (variant.weight !== undefined && !(typeof variant.weight === 'number' && variant.weight > 0)) {
+      throw new Error(`Variant ${variant.id} weight must be positive`);
+    }
+
+    const fields = VARIANT_FIELDS.filter((field) => variant[field] !== undefined && variant[field] !== null);
+
+    if (fields.length === 0) {
+      throw new Error(`Variant ${variant.id} does not change any content`);
+    }
+
+    const disallowed = fields.find((field) => !allowed.includes(field));
+    if (disallowed) {
+      throw new Error(`${campaignType} campaign variants cannot set ${disallowed}`);
+    }
+  }
+}
+
+/**
+ * Check an abTestConfig's values
+ */
+export function validateAbTestConfig(abTestConfig: AbTestConfig): void {
+  const { testPercent, testWindowHours, winnerMetric } = abTestConfig;
+
+  if (!Number.isInteger(testPercent) || testPercent < 1 || testPercent > 100) {
+    throw new Error('abTestConfig testPercent must be between 1 and 100');
+  }
+  if (!(typeof testWindowHours === 'number' && testWindowHours > 0)) {
+    throw new Error('abTestConfig testWindowHours must be positive');
+  }
+  if (!METRIC_RATES[winnerMetric]) {
+    throw new Error(`Invalid abTestConfig winnerMetric: ${winnerMetric}`);
+  }
+}
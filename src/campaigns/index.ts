@@ -0,0 +1,27 @@
+/**
+ * Campaigns Module
+ *
+ * Campaign authoring and lifecycle:
+ * - Create, edit, clone and schedule campaigns
+ * - Per-type content validation (email, SMS, voice, WhatsApp, multi-channel)
+ * - Per-recipient execution with suppression, rate limits and pause/resume
+ * - Multi-step drip sequences with waits, branches and per-contact enrollments
+ * - A/B and multivariate content variants with automatic winner rollout
+ *
+ * Components:
+ * - CampaignManager: Campaign authoring and validation
+ * - CampaignEngine: Send job fan-out and execution
+ * - SequenceRunner: Steps sequence enrollments and ends them on reply or conversion
+ */
+
+export { campaignManager, CampaignManager, mapCampaign } from './campaign-manager';
+export {
+  campaignEngine,
+  CampaignEngine,
+  CampaignChannelSender,
+  CampaignSendContext,
+  CampaignSendResult,
+} from './campaign-engine';
+export { sequenceRunner, SequenceRunner, SequenceEnrollmentQuery } from './sequence-runner';
+export { getSequence, validateSequence } from './sequence-definition';
+export { getVariants, assignVariant, applyVariant, validateVariants } from './campaign-variants';
@@ -0,0 +1,229 @@
+import {
+  Campaign,
+  CampaignChannel,
+  SequenceDefinition,
+  SequenceStep,
+  SequenceStepType,
+} from '../types';
+
+/**
+ * Sequence Definitions
+ *
+ * Reads and validates the multi-step sequences email-drip and multi-channel
+ * campaigns keep in `workflowConfig.sequence`. A campaign with a sequence
+ * sends its steps instead of its single email/SMS/voice body.
+ */
+
+const STEP_TYPES: SequenceStepType[] = ['email', 'sms', 'call', 'task', 'wait', 'wait_until', 'branch'];
+
+// Step type -> channel it sends on
+const STEP_CHANNELS: Partial<Record<SequenceStepType, CampaignChannel>> = {
+  email: 'email',
+  sms: 'sms',
+  call: 'voice',
+};
+
+// Campaign types that can run a sequence, and the send steps each allows
+const SEQUENCE_SEND_STEPS: Partial<Record<Campaign['type'], SequenceStepType[]>> = {
+  'email-drip': ['email'],
+  'multi-channel': ['email', 'sms', 'call'],
+};
+
+// Branch condition -> step types it can look back at
+const BRANCH_STEP_TYPES: Record<string, SequenceStepType[]> = {
+  opened: ['email'],
+  clicked: ['email'],
+  replied: ['email', 'sms', 'call'],
+  call_outcome: ['call'],
+};
+
+const CALL_OUTCOMES = ['completed', 'voicemail', 'no-answer', 'busy', 'failed'];
+
+const STEP_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const MAX_STEPS = 50;
+
+/**
+ * A campaign's sequence, or null when it sends a single message
+ */
+export function getSequence(campaign: Partial<Pick<Campaign, 'workflowConfig'>>): SequenceDefinition | null {
+  const sequence = campaign.workflowConfig?.sequence;
+  return sequence && Array.isArray(sequence.steps) ? sequence : null;
+}
+
+/**
+ * Channels a sequence sends on
+ */
+export function sequenceChannels(sequence: SequenceDefinition): CampaignChannel[] {
+  const channels = sequence.steps
+    .map((step) => STEP_CHANNELS[step.type])
+    .filter((channel): channel is CampaignChannel => !!channel);
+
+  return [...new Set(channels)];
+}
+
+/**
+ * Whether a step sends a message or places a call
+ */
+export function isSendStep(step: Pick<SequenceStep, 'type'>): boolean {
+  return !!STEP_CHANNELS[step.type];
+}
+
+/**
+ * The step that runs after `step` when it does not branch
+ */
+export function followingStepId(sequence: SequenceDefinition, step: SequenceStep): string | undefined {
+  if (step.next) {
+    return step.next;
+  }
+
+  const index = sequence.steps.findIndex((candidate) => candidate.id === step.id);
+  return sequence.steps[index + 1]?.id;
+}
+
+/**
+ * Step types a branch condition can look back at
+ */
+export function branchStepTypes(condition: string): SequenceStepType[] {
+  return BRANCH_STEP_TYPES[condition] || [];
+}
+
+/**
+ * Check a sequence's structure and step content
+ *
+ * With a campaign type, also checks that the type can run a sequence and
+ * that every send step is on a channel the type allows.
+ */
+export function validateSequence(sequence: any, campaignType?: Campaign['type']): void {
+  if (!sequence || !Array.isArray(sequence.steps) || sequence.steps.length === 0) {
+    throw new Error('Sequence requires at least one step');
+  }
+  if (sequence.steps.length > MAX_STEPS) {
+    throw new Error(`Sequence cannot have more than ${MAX_STEPS} steps`);
+  }
+  for (const flag of ['exitOnReply', 'exitOnConversion']) {
+    if (sequence[flag] !== undefined && typeof sequence[flag] !== 'boolean') {
+      throw new Error(`Sequence ${flag} must be a boolean`);
+    }
+  }
+
+  const allowedSends = campaignType ? SEQUENCE_SEND_STEPS[campaignType] : undefined;
+
+  if (campaignType && !allowedSends) {
+    throw new Error('Only email-drip and multi-channel campaigns can run a sequence');
+  }
+
+  const steps: SequenceStep[] = sequence.steps;
+  const stepsById = new Map<string, SequenceStep>();
+
+  for (const step of steps) {
+    if (!STEP_ID_PATTERN.test(step?.id || '')) {
+      throw new Error(`Invalid sequence step id: ${step?.id}`);
+    }
+    if (stepsById.has(step.id)) {
+      throw new Error(`Duplicate sequence step id: ${step.id}`);
+    }
+    stepsById.set(step.id, step);
+  }
+
+  const requireStep = (id: string | undefined, from: SequenceStep, field: string) => {
+    if (!id || !stepsById.has(id)) {
+      throw new Error(`Step ${from.id} ${field} refers to unknown step: ${id}`);
+    }
+  };
+
+  for (const step of steps) {
+    if (!STEP_TYPES.includes(step.type)) {
+      throw new Error(`Step ${step.id} has unknown type: ${step.type}`);
+    }
+    if (allowedSends && isSendStep(step) && !allowedSends.includes(step.type)) {
+      throw new Error(`${campaignType} sequences cannot have ${step.type} steps`);
+    }
+    if (step.next !== undefined) {
+      requireStep(step.next, step, 'next');
+    }
+
+    switch (step.type) {
+      case 'email':
+        if (!step.emailSubject || !(step.emailBodyHtml || step.emailBodyText)) {
+          throw new Error(`Email step ${step.id} requires emailSubject and emailBodyHtml or emailBodyText`);
+        }
+        break;
+
+      case 'sms':
+        if (!step.smsMessage) {
+          throw new Error(`SMS step ${step.id} requires smsMessage`);
+        }
+        break;
+
+      case 'call':
+        if (!step.voiceScript) {
+          throw new Error(`Call step ${step.id} requires voiceScript`);
+        }
+        break;
+
+      case 'task':
+        if (!step.taskSubject) {
+          throw new Error(`Task step ${step.id} requires taskSubject`);
+        }
+        if (step.taskDueDays !== undefined && !(Number.isInteger(step.taskDueDays) && step.taskDueDays >= 0)) {
+          throw new Error(`Task step ${step.id} taskDueDays must be a whole number of days`);
+        }
+        break;
+
+      case 'wait': {
+        const days = step.days ?? 0;
+        const hours = step.hours ?? 0;
+
+        if (!(days >= 0 && hours >= 0) || days + hours <= 0) {
+          throw new Error(`Wait step ${step.id} requires a positive number of days or hours`);
+        }
+        break;
+      }
+
+      case 'wait_until': {
+        const { weekdays, time } = step.waitUntil || {};
+
+        if (!weekdays && !time) {
+          throw new Error(`Wait step ${step.id} requires waitUntil weekdays or time`);
+        }
+        if (
+          weekdays &&
+          (weekdays.length === 0 || !weekdays.every((day) => Number.isInteger(day) && day >= 1 && day <= 7))
+        ) {
+          throw new Error(`Wait step ${step.id} weekdays must be 1 (Monday) to 7 (Sunday)`);
+        }
+        if (time && !TIME_PATTERN.test(time)) {
+          throw new Error(`Wait step ${step.id} time must be HH:MM`);
+        }
+        break;
+      }
+
+      case 'branch': {
+        const branch = step.branch;
+
+        if (!branch || !BRANCH_STEP_TYPES[branch.condition]) {
+          throw new Error(`Branch step ${step.id} requires a condition of opened, clicked, replied or call_outcome`);
+        }
+        requireStep(branch.then, step, 'then');
+        requireStep(branch.else, step, 'else');
+
+        if (branch.stepId !== undefined) {
+          requireStep(branch.stepId, step, 'stepId');
+
+          if (!BRANCH_STEP_TYPES[branch.condition].includes(stepsById.get(branch.stepId)!.type)) {
+            throw new Error(`Branch step ${step.id} cannot check ${branch.condition} on step ${branch.stepId}`);
+          }
+        }
+        if (branch.condition === 'call_outcome') {
+          if (!branch.outcomes?.length || !branch.outcomes.every((outcome) => CALL_OUTCOMES.includes(outcome))) {
+            throw new Error(`Branch step ${step.id} requires call outcomes to match`);
+          }
+        }
+        break;
+      }
+    }
+  }
+}
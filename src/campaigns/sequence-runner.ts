@@ -0,0 +1,660 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact } from '../utils/rows';
+import { config } from '../config';
+import { activityManager } from '../activities';
+import { callManager } from '../voice/call-manager';
+import { isValidTimezone, localTimeIn } from '../voice/voice-settings';
+import { emailService, renderMergeFields, buildMergeValues } from '../email';
+import { smsService } from '../sms';
+import { branchStepTypes, followingStepId, isSendStep } from './sequence-definition';
+import {
+  Campaign,
+  Contact,
+  SequenceDefinition,
+  SequenceEnrollment,
+  SequenceStep,
+  SequenceStepResult,
+  SequenceWaitUntil,
+} from '../types';
+
+/**
+ * Sequence Runner
+ *
+ * Moves contacts through a sequence campaign's steps:
+ * - Each enrolled contact has its own current step and next run time
+ * - Send and task steps run back to back until a wait step, which sets when
+ *   the enrollment is next due
+ * - Branches read back what an earlier step did (opened, clicked, replied,
+ *   how a call ended)
+ * - Before each run, enrollments of contacts who replied, converted or
+ *   unsubscribed since enrolling are ended
+ *
+ * The CampaignEngine calls runDue from the campaign-run queue and schedules
+ * the next run for when the earliest enrollment comes due.
+ */
+
+export interface SequenceRunResult {
+  processed: number;
+  // When the earliest waiting enrollment comes due; null when none are left
+  nextRunAt: Date | null;
+}
+
+export interface SequenceEnrollmentQuery {
+  status?: SequenceEnrollment['status'];
+  limit?: number;
+  offset?: number;
+}
+
+const ENROLLMENT_COLUMNS = `
+  id,
+  campaign_id AS "campaignId",
+  contact_id AS "contactId",
+  status,
+  current_step_id AS "currentStepId",
+  next_run_at AS "nextRunAt",
+  history,
+  exit_reason AS "exitReason",
+  error,
+  organization_id AS "organizationId",
+  started_at AS "startedAt",
+  completed_at AS "completedAt",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+// Claimed enrollments left locked this long were orphaned by a dead worker
+const STALE_LOCK_MINUTES = 15;
+
+// Steps one run may take without reaching a wait; more means a branch loop
+const MAX_STEPS_PER_RUN = 50;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const DEFAULT_TASK_DUE_DAYS = 1;
+
+// Activity types that count as the contact answering
+export const REPLY_TYPES = ['email', 'sms', 'whatsapp', 'call'];
+
+interface EnrollmentChange {
+  status: SequenceEnrollment['status'];
+  currentStepId?: string;
+  nextRunAt?: Date;
+  history: SequenceStepResult[];
+  exitReason?: SequenceEnrollment['exitReason'];
+  error?: string;
+  // Sends made by this run, for the campaign counters
+  sent?: number;
+  failed?: number;
+}
+
+interface ContactState {
+  unsubscribed: boolean;
+  replied: boolean;
+  converted: boolean;
+  emailBlocked: boolean;
+}
+
+export class SequenceRunner {
+  /**
+   * Run every enrollment of a campaign that is due, one batch at a time
+   *
+   * Enrollments in a batch run one after another, so a batch never sends
+   * faster than the providers answer.
+   */
+  async runDue(organizationId: string, campaign: Campaign, sequence: SequenceDefinition): Promise<SequenceRunResult> {
+    const enrollments = await this.claimDue(organizationId, campaign.id);
+
+    if (enrollments.length === 0) {
+      return { processed: 0, nextRunAt: await this.nextRunAt(organizationId, campaign.id) };
+    }
+
+    const contacts = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = ANY($1) AND deleted_at IS NULL`,
+      [enrollments.map((enrollment) => enrollment.contactId)]
+    );
+    const contactsById = new Map(contacts.rows.map((row) => [row.id, mapContact(row)]));
+
+    for (const enrollment of enrollments) {
+      await this.advance(organizationId, campaign, sequence, enrollment, contactsById.get(enrollment.contactId));
+    }
+
+    return { processed: enrollments.length, nextRunAt: null };
+  }
+
+  /**
+   * A campaign's enrollments, most recently started first
+   */
+  async listEnrollments(
+    organizationId: string,
+    campaignId: string,
+    query: SequenceEnrollmentQuery = {}
+  ): Promise<SequenceEnrollment[]> {
+    const result = await db.queryWithContext<SequenceEnrollment>(
+      organizationId,
+      `
+        SELECT ${ENROLLMENT_COLUMNS}
+        FROM nexuscrm.sequence_enrollments
+        WHERE campaign_id = $1 AND ($2::text IS NULL OR status = $2)
+        ORDER BY started_at DESC
+        LIMIT $3 OFFSET $4
+      `,
+      [campaignId, query.status || null, Math.min(query.limit || 50, 200), query.offset || 0]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Cancel the enrollments of a campaign that have not finished
+   */
+  async cancelEnrollments(organizationId: string, campaignId: string): Promise<void> {
+    await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.sequence_enrollments
+        SET
+          status = 'cancelled',
+          locked_at = NULL,
+          completed_at = CURRENT_TIMESTAMP,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE campaign_id = $1 AND status = 'active'
+      `,
+      [campaignId]
+    );
+  }
+
+  /**
+   * Run one enrollment's steps from its current step up to the next wait
+   */
+  private async advance(
+    organizationId: string,
+    campaign: Campaign,
+    sequence: SequenceDefinition,
+    enrollment: SequenceEnrollment,
+    contact: Contact | undefined
+  ): Promise<void> {
+    const history = [...(enrollment.history || [])];
+    let sent = 0;
+    let failed = 0;
+
+    try {
+      if (!contact) {
+        throw new Error('Contact no longer exists');
+      }
+
+      const state = await this.getContactState(organizationId, contact.id, enrollment.startedAt);
+      const exitReason = this.exitReason(sequence, state);
+
+      if (exitReason) {
+        await this.save(organizationId, campaign.id, enrollment.id, { status: 'exited', history, exitReason });
+        logger.info('Sequence enrollment exited', { campaignId: campaign.id, contactId: contact.id, exitReason });
+        return;
+      }
+
+      let stepId = enrollment.currentStepId;
+
+      for (let taken = 0; stepId; taken++) {
+        if (taken >= MAX_STEPS_PER_RUN) {
+          throw new Error(`Ran ${MAX_STEPS_PER_RUN} steps without reaching a wait; check the sequence for loops`);
+        }
+
+        const step = sequence.steps.find((candidate) => candidate.id === stepId);
+
+        if (!step) {
+          throw new Error(`Sequence has no step ${stepId}`);
+        }
+
+        if (step.type === 'wait' || step.type === 'wait_until') {
+          history.push({ stepId: step.id, type: step.type, at: new Date() });
+
+          await this.save(organizationId, campaign.id, enrollment.id, {
+            status: 'active',
+            currentStepId: followingStepId(sequence, step),
+            nextRunAt: this.waitEnd(step, contact),
+            history,
+            sent,
+            failed,
+          });
+          return;
+        }
+
+        if (step.type === 'branch') {
+          const nextStepId = await this.evaluateBranch(organizationId, step, history, contact);
+
+          history.push({ stepId: step.id, type: step.type, at: new Date(), nextStepId });
+          stepId = nextStepId;
+          continue;
+        }
+
+        const result = await this.runStep(organizationId, campaign, step, contact, state);
+
+        if (isSendStep(step) && result.error) {
+          failed++;
+        } else if (isSendStep(step)) {
+          sent++;
+        }
+
+        history.push(result);
+        stepId = followingStepId(sequence, step);
+      }
+
+      await this.save(organizationId, campaign.id, enrollment.id, { status: 'completed', history, sent, failed });
+    } catch (error: any) {
+      logger.warn('Sequence enrollment failed', {
+        error: error.message,
+        campaignId: campaign.id,
+        enrollmentId: enrollment.id,
+      });
+
+      await this.save(organizationId, campaign.id, enrollment.id, {
+        status: 'failed',
+        history,
+        error: error.message,
+        sent,
+        failed,
+      });
+    }
+  }
+
+  /**
+   * Run a send or task step; a failed send is recorded and the sequence moves on
+   */
+  private async runStep(
+    organizationId: string,
+    campaign: Campaign,
+    step: SequenceStep,
+    contact: Contact,
+    state: ContactState
+  ): Promise<SequenceStepResult> {
+    const result: SequenceStepResult = { stepId: step.id, type: step.type, at: new Date() };
+
+    try {
+      switch (step.type) {
+        case 'email': {
+          if (state.emailBlocked) {
+            throw new Error('Contact cannot be emailed');
+          }
+
+          const sent = await emailService.sendCampaignEmail(
+            organizationId,
+            {
+              ...campaign,
+              emailSubject: step.emailSubject,
+              emailBodyHtml: step.emailBodyHtml,
+              emailBodyText: step.emailBodyText,
+            },
+            contact
+          );
+
+          result.externalId = sent.messageId;
+          result.activityId = sent.activityId;
+          break;
+        }
+
+        case 'sms': {
+          const sent = await smsService.sendCampaignSms(
+            organizationId,
+            { ...campaign, smsMessage: step.smsMessage },
+            contact
+          );
+
+          result.externalId = sent.messageId;
+          result.activityId = sent.activityId;
+          break;
+        }
+
+        case 'call': {
+          const toNumber = contact.mobile || contact.phone;
+
+          if (!toNumber) {
+            throw new Error('Contact has no phone number');
+          }
+
+          const assistantConfig = campaign.voiceAssistantConfig || {};
+          const voicemail = campaign.voicemailConfig;
+
+          const call = await callManager.makeCall(
+            {
+              contactId: contact.id,
+              toNumber,
+              script: renderMergeFields(step.voiceScript || '', buildMergeValues(contact)),
+              language: assistantConfig.language,
+              voiceId: assistantConfig.voiceId,
+              model: assistantConfig.model,
+              voicemail: voicemail?.message
+                ? { ...voicemail, message: renderMergeFields(voicemail.message, buildMergeValues(contact)) }
+                : voicemail,
+            },
+            organizationId,
+            campaign.createdBy as string
+          );
+
+          result.externalId = call.externalCallId;
+          break;
+        }
+
+        case 'task': {
+          const values = buildMergeValues(contact);
+          const task = await activityManager.logActivity(organizationId, campaign.createdBy || null, {
+            type: 'task',
+            subject: renderMergeFields(step.taskSubject || '', values),
+            body: step.taskBody ? renderMergeFields(step.taskBody, values) : undefined,
+            contactId: contact.id,
+            companyId: contact.companyId,
+            taskDueDate: new Date(Date.now() + (step.taskDueDays ?? DEFAULT_TASK_DUE_DAYS) * DAY_MS),
+            assignedTo: contact.ownerId || campaign.createdBy,
+            metadata: { campaignId: campaign.id, sequenceStepId: step.id },
+          });
+
+          result.activityId = task.id;
+          break;
+        }
+      }
+    } catch (error: any) {
+      logger.warn('Sequence step failed', {
+        error: error.message,
+        campaignId: campaign.id,
+        contactId: contact.id,
+        stepId: step.id,
+      });
+
+      result.error = error.message;
+    }
+
+    return result;
+  }
+
+  /**
+   * The step a branch leads to
+   */
+  private async evaluateBranch(
+    organizationId: string,
+    step: SequenceStep,
+    history: SequenceStepResult[],
+    contact: Contact
+  ): Promise<string> {
+    const branch = step.branch!;
+    const sourceTypes = branchStepTypes(branch.condition);
+    const source = [...history]
+      .reverse()
+      .find((result) =>
+        branch.stepId ? result.stepId === branch.stepId : isSendStep(result) && sourceTypes.includes(result.type)
+      );
+
+    if (!source || source.error) {
+      return branch.else;
+    }
+
+    let matched = false;
+
+    switch (branch.condition) {
+      case 'opened':
+      case 'clicked': {
+        if (!source.activityId) {
+          break;
+        }
+
+        const result = await db.queryWithContext<{ opened: boolean; clicked: boolean }>(
+          organizationId,
+          `
+            SELECT email_opened IS TRUE AS opened, email_clicked IS TRUE AS clicked
+            FROM nexuscrm.activities
+            WHERE id = $1
+          `,
+          [source.activityId]
+        );
+
+        matched = !!result.rows[0]?.[branch.condition];
+        break;
+      }
+
+      case 'replied': {
+        const result = await db.queryWithContext(
+          organizationId,
+          `
+            SELECT 1 FROM nexuscrm.activities
+            WHERE contact_id = $1 AND direction = 'inbound' AND type = ANY($2)
+              AND created_at > $3 AND deleted_at IS NULL
+            LIMIT 1
+          `,
+          [contact.id, REPLY_TYPES, source.at]
+        );
+
+        matched = result.rows.length > 0;
+        break;
+      }
+
+      case 'call_outcome': {
+        if (!source.externalId) {
+          break;
+        }
+
+        const result = await db.queryWithContext<{ status: string }>(
+          organizationId,
+          `SELECT status FROM nexuscrm.voice_calls WHERE external_call_id = $1`,
+          [source.externalId]
+        );
+
+        const status = result.rows[0]?.status as any;
+        matched = !!status && (branch.outcomes || []).includes(status);
+        break;
+      }
+    }
+
+    return matched ? branch.then : branch.else;
+  }
+
+  /**
+   * When a wait step ends for a contact
+   */
+  private waitEnd(step: SequenceStep, contact: Contact): Date {
+    if (step.type === 'wait') {
+      return new Date(Date.now() + ((step.days ?? 0) * 24 + (step.hours ?? 0)) * HOUR_MS);
+    }
+
+    const timezone = contact.timezone && isValidTimezone(contact.timezone) ? contact.timezone : 'UTC';
+    return nextLocalTime(step.waitUntil || {}, timezone);
+  }
+
+  /**
+   * Why an enrollment should end before its next step, if it should
+   */
+  private exitReason(
+    sequence: SequenceDefinition,
+    state: ContactState
+  ): SequenceEnrollment['exitReason'] | null {
+    if (state.unsubscribed) {
+      return 'unsubscribed';
+    }
+    if (sequence.exitOnReply !== false && state.replied) {
+      return 'replied';
+    }
+    if (sequence.exitOnConversion !== false && state.converted) {
+      return 'converted';
+    }
+    return null;
+  }
+
+  /**
+   * What the contact has done since enrolling
+   */
+  private async getContactState(
+    organizationId: string,
+    contactId: string,
+    since: Date
+  ): Promise<ContactState> {
+    const result = await db.queryWithContext<ContactState>(
+      organizationId,
+      `
+        SELECT
+          c.unsubscribed IS TRUE AS unsubscribed,
+          EXISTS (
+            SELECT 1 FROM nexuscrm.activities a
+            WHERE a.contact_id = c.id AND a.direction = 'inbound' AND a.type = ANY($3)
+              AND a.created_at > $2 AND a.deleted_at IS NULL
+          ) AS replied,
+          (
+            c.lead_status = 'customer'
+            OR c.lifecycle_stage = 'customer'
+            OR EXISTS (
+              SELECT 1 FROM nexuscrm.deals d
+              WHERE d.primary_contact_id = c.id AND d.created_at > $2 AND d.deleted_at IS NULL
+            )
+          ) AS converted,
+          (c.do_not_email IS TRUE OR c.bounced IS TRUE) AS "emailBlocked"
+        FROM nexuscrm.contacts c
+        WHERE c.id = $1
+      `,
+      [contactId, since, REPLY_TYPES]
+    );
+
+    if (!result.rows[0]) {
+      throw new Error('Contact no longer exists');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Claim due enrollments so concurrent runs do not step the same contact
+   */
+  private async claimDue(organizationId: string, campaignId: string): Promise<SequenceEnrollment[]> {
+    const result = await db.queryWithContext<SequenceEnrollment>(
+      organizationId,
+      `
+        UPDATE nexuscrm.sequence_enrollments
+        SET locked_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+        WHERE id IN (
+          SELECT id FROM nexuscrm.sequence_enrollments
+          WHERE campaign_id = $1 AND status = 'active' AND next_run_at <= CURRENT_TIMESTAMP
+            AND (locked_at IS NULL OR locked_at < CURRENT_TIMESTAMP - make_interval(mins => $3))
+          ORDER BY next_run_at
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        )
+        RETURNING ${ENROLLMENT_COLUMNS}
+      `,
+      [campaignId, config.campaigns.batchSize, STALE_LOCK_MINUTES]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * When the earliest unclaimed enrollment comes due
+   */
+  private async nextRunAt(organizationId: string, campaignId: string): Promise<Date | null> {
+    const result = await db.queryWithContext<{ next_run_at: Date | null }>(
+      organizationId,
+      `
+        SELECT MIN(next_run_at) AS next_run_at FROM nexuscrm.sequence_enrollments
+        WHERE campaign_id = $1 AND status = 'active' AND locked_at IS NULL
+      `,
+      [campaignId]
+    );
+
+    return result.rows[0]?.next_run_at || null;
+  }
+
+  /**
+   * Store an enrollment's progress, release it, and count what it sent
+   */
+  private async save(
+    organizationId: string,
+    campaignId: string,
+    enrollmentId: string,
+    change: EnrollmentChange
+  ): Promise<void> {
+    await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      await client.query(
+        `
+          UPDATE nexuscrm.sequence_enrollments
+          SET
+            status = $2,
+            current_step_id = $3,
+            next_run_at = $4,
+            history = $5::jsonb,
+            exit_reason = $6,
+            error = $7,
+            locked_at = NULL,
+            completed_at = CASE WHEN $2 = 'active' THEN NULL ELSE CURRENT_TIMESTAMP END,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `,
+        [
+          enrollmentId,
+          change.status,
+          change.status === 'active' ? change.currentStepId || null : null,
+          change.status === 'active' ? change.nextRunAt || null : null,
+          JSON.stringify(change.history),
+          change.exitReason || null,
+          change.error || null,
+        ]
+      );
+
+      await client.query(
+        `
+          UPDATE nexuscrm.campaigns
+          SET
+            sent_count = sent_count + $2,
+            failed_count = failed_count + $3,
+            replied_count = replied_count + $4,
+            converted_count = converted_count + $5,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `,
+        [
+          campaignId,
+          change.sent || 0,
+          change.failed || 0,
+          change.exitReason === 'replied' ? 1 : 0,
+          change.exitReason === 'converted' ? 1 : 0,
+        ]
+      );
+    });
+  }
+}
+
+/**
+ * The next moment it is one of `weekdays` at `time` in a timezone
+ *
+ * Without a time, today counts if it is one of the weekdays; otherwise the
+ * wait ends at the start of the next one.
+ */
+export function nextLocalTime(waitUntil: SequenceWaitUntil, timezone: string, from: Date = new Date()): Date {
+  const [hours, minutes] = (waitUntil.time || '00:00').split(':').map((part) => parseInt(part, 10));
+  const target = hours * 60 + minutes;
+
+  for (let offset = 0; offset <= 7; offset++) {
+    const day = new Date(from.getTime() + offset * DAY_MS);
+    const local = localTimeIn(timezone, day);
+
+    if (waitUntil.weekdays && !waitUntil.weekdays.includes(local.weekday)) {
+      continue;
+    }
+
+    if (!waitUntil.time && offset === 0) {
+      return from;
+    }
+
+    const candidate = new Date(day.getTime() + (target - local.minutes) * 60 * 1000);
+    candidate.setUTCSeconds(0, 0);
+
+    if (candidate > from) {
+      return candidate;
+    }
+  }
+
+  // Unreachable for valid weekdays; retry in a day rather than never
+  return new Date(from.getTime() + DAY_MS);
+}
+
+// Export singleton instance
+export const sequenceRunner = new SequenceRunner();
+
+export default sequenceRunner;
@@ -275,6 +275,36 @@ export class GraphRAGClient {
     }
   }
 
+  /**
+   * Enrich company data using GraphRAG knowledge
+   *
+   * Uses semantic search and graph traversal to find firmographic
+   * details about a company from its domain, contacts, and past interactions.
+   */
+  async enrichCompany(companyId: string): Promise<{
+    enrichmentData: Record<string, any>;
+    sources: string[];
+    confidence: number;
+  }> {
+    try {
+      const response = await this.client.post('/api/enrich/company', {
+        companyId,
+      });
+
+      return {
+        enrichmentData: response.data.enrichmentData,
+        sources: response.data.sources,
+        confidence: response.data.confidence,
+      };
+    } catch (error: any) {
+      logger.error('Failed to enrich company', {
+        error: error.message,
+        companyId,
+      });
+      throw new Error(`Failed to enrich company: ${error.message}`);
+    }
+  }
+
   /**
    * Create knowledge graph relationship
    *
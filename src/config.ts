@@ -30,6 +30,17 @@ interface Config {
     password: string;
   };
 
+  // Background Job Queue
+  queue: {
+    driver: 'redis' | 'memory';
+    prefix: string;
+    inlineWorker: boolean;
+    pollIntervalMs: number;
+    leaseMs: number;
+    defaultMaxAttempts: number;
+    defaultBackoffMs: number;
+  };
+
   // Existing Nexus Services (REUSE)
   services: {
     orchestrationAgent: string;
@@ -53,6 +64,9 @@ interface Config {
     twilioAccountSid: string;
     twilioAuthToken: string;
     twilioPhoneNumber: string;
+    twilioWebhookBaseUrl: string;
+    twilioMediaStreamUrl: string;
+    defaultPlatform: 'vapi' | 'twilio';
     deepgramApiKey: string;
     elevenLabsApiKey: string;
   };
@@ -66,6 +80,31 @@ interface Config {
     awsSesAccessKeyId: string;
     awsSesSecretAccessKey: string;
     awsSesFromEmail: string;
+    emailProvider: '' | 'sendgrid' | 'ses' | 'smtp' | 'file';
+    smtpHost: string;
+    smtpPort: number;
+    emailSinkDir: string;
+    unsubscribeUrl: string;
+    sendgridWebhookPublicKey: string;
+    sesWebhookTopicArn: string;
+    sendgridInboundParseToken: string;
+    smsProvider: '' | 'twilio' | 'file';
+    smsFromNumber: string;
+    smsSinkDir: string;
+    whatsappProvider: '' | 'cloud' | 'file';
+    whatsappAccessToken: string;
+    whatsappPhoneNumberId: string;
+    whatsappApiVersion: string;
+    whatsappAppSecret: string;
+    whatsappVerifyToken: string;
+    whatsappSinkDir: string;
+  };
+
+  // Campaign Execution
+  campaigns: {
+    batchSize: number;
+    concurrency: { email: number; sms: number; voice: number; whatsapp: number };
+    ratePerSecond: { email: number; sms: number; voice: number; whatsapp: number };
   };
 
   // Rate Limiting
@@ -133,6 +172,46 @@ function getEnvBoolean(key: string, defaultValue: boolean): boolean {
   return value.toLowerCase() === 'true' || value === '1';
 }
 
+function getEnvQueueDriver(key: string, defaultValue: 'redis' | 'memory'): 'redis' | 'memory' {
+  const value = getEnv(key, defaultValue);
+  if (value !== 'redis' && value !== 'memory') {
+    throw new Error(`Environment variable ${key} must be "redis" or "memory"`);
+  }
+  return value;
+}
+
+function getEnvEmailProvider(key: string): Config['communication']['emailProvider'] {
+  const value = getEnv(key, '');
+  if (!['', 'sendgrid', 'ses', 'smtp', 'file'].includes(value)) {
+    throw new Error(`Environment variable ${key} must be one of sendgrid, ses, smtp, file`);
+  }
+  return value as Config['communication']['emailProvider'];
+}
+
+function getEnvSmsProvider(key: string): Config['communication']['smsProvider'] {
+  const value = getEnv(key, '');
+  if (!['', 'twilio', 'file'].includes(value)) {
+    throw new Error(`Environment variable ${key} must be one of twilio, file`);
+  }
+  return value as Config['communication']['smsProvider'];
+}
+
+function getEnvWhatsAppProvider(key: string): Config['communication']['whatsappProvider'] {
+  const value = getEnv(key, '');
+  if (!['', 'cloud', 'file'].includes(value)) {
+    throw new Error(`Environment variable ${key} must be one of cloud, file`);
+  }
+  return value as Config['communication']['whatsappProvider'];
+}
+
+function getEnvVoicePlatform(key: string, defaultValue: 'vapi' | 'twilio'): 'vapi' | 'twilio' {
+  const value = getEnv(key, defaultValue);
+  if (value !== 'vapi' && value !== 'twilio') {
+    throw new Error(`Environment variable ${key} must be "vapi" or "twilio"`);
+  }
+  return value;
+}
+
 export const config: Config = {
   // Service
   nodeEnv: getEnv('NODE_ENV', 'development'),
@@ -159,6 +238,17 @@ export const config: Config = {
     password: getEnv('REDIS_PASSWORD', ''),
   },
 
+  // Background Job Queue
+  queue: {
+    driver: getEnvQueueDriver('QUEUE_DRIVER', 'redis'),
+    prefix: getEnv('QUEUE_PREFIX', 'nexuscrm:queue'),
+    inlineWorker: getEnvBoolean('QUEUE_INLINE_WORKER', false),
+    pollIntervalMs: getEnvNumber('QUEUE_POLL_INTERVAL_MS', 1000),
+    leaseMs: getEnvNumber('QUEUE_LEASE_MS', 300000),
+    defaultMaxAttempts: getEnvNumber('QUEUE_MAX_ATTEMPTS', 5),
+    defaultBackoffMs: getEnvNumber('QUEUE_BACKOFF_MS', 5000),
+  },
+
   // Existing Nexus Services (REUSE)
   services: {
     orchestrationAgent: getEnv('ORCHESTRATION_AGENT_URL', 'http://nexus-orchestration:9109'),
@@ -182,6 +272,9 @@ export const config: Config = {
     twilioAccountSid: getEnv('TWILIO_ACCOUNT_SID', ''),
     twilioAuthToken: getEnv('TWILIO_AUTH_TOKEN', ''),
     twilioPhoneNumber: getEnv('TWILIO_PHONE_NUMBER', ''),
+    twilioWebhookBaseUrl: getEnv('TWILIO_WEBHOOK_BASE_URL', ''),
+    twilioMediaStreamUrl: getEnv('TWILIO_MEDIA_STREAM_URL', ''),
+    defaultPlatform: getEnvVoicePlatform('VOICE_PLATFORM', 'vapi'),
     deepgramApiKey: getEnv('DEEPGRAM_API_KEY', ''),
     elevenLabsApiKey: getEnv('ELEVENLABS_API_KEY', ''),
   },
@@ -195,6 +288,41 @@ export const config: Config = {
     awsSesAccessKeyId: getEnv('AWS_SES_ACCESS_KEY_ID', ''),
     awsSesSecretAccessKey: getEnv('AWS_SES_SECRET_ACCESS_KEY', ''),
     awsSesFromEmail: getEnv('AWS_SES_FROM_EMAIL', ''),
+    emailProvider: getEnvEmailProvider('EMAIL_PROVIDER'),
+    smtpHost: getEnv('SMTP_HOST', 'localhost'),
+    smtpPort: getEnvNumber('SMTP_PORT', 1025),
+    emailSinkDir: getEnv('EMAIL_SINK_DIR', path.resolve(__dirname, '../tmp/emails')),
+    unsubscribeUrl: getEnv('EMAIL_UNSUBSCRIBE_URL', 'http://localhost:9125/email/unsubscribe'),
+    sendgridWebhookPublicKey: getEnv('SENDGRID_WEBHOOK_PUBLIC_KEY', ''),
+    sesWebhookTopicArn: getEnv('AWS_SES_WEBHOOK_TOPIC_ARN', ''),
+    sendgridInboundParseToken: getEnv('SENDGRID_INBOUND_PARSE_TOKEN', ''),
+    smsProvider: getEnvSmsProvider('SMS_PROVIDER'),
+    smsFromNumber: getEnv('SMS_FROM_NUMBER', ''),
+    smsSinkDir: getEnv('SMS_SINK_DIR', path.resolve(__dirname, '../tmp/sms')),
+    whatsappProvider: getEnvWhatsAppProvider('WHATSAPP_PROVIDER'),
+    whatsappAccessToken: getEnv('WHATSAPP_ACCESS_TOKEN', ''),
+    whatsappPhoneNumberId: getEnv('WHATSAPP_PHONE_NUMBER_ID', ''),
+    whatsappApiVersion: getEnv('WHATSAPP_API_VERSION', 'v21.0'),
+    whatsappAppSecret: getEnv('WHATSAPP_APP_SECRET', ''),
+    whatsappVerifyToken: getEnv('WHATSAPP_VERIFY_TOKEN', ''),
+    whatsappSinkDir: getEnv('WHATSAPP_SINK_DIR', path.resolve(__dirname, '../tmp/whatsapp')),
+  },
+
+  // Campaign Execution
+  campaigns: {
+    batchSize: getEnvNumber('CAMPAIGN_BATCH_SIZE', 100),
+    concurrency: {
+      email: getEnvNumber('CAMPAIGN_EMAIL_CONCURRENCY', 10),
+      sms: getEnvNumber('CAMPAIGN_SMS_CONCURRENCY', 5),
+      voice: getEnvNumber('CAMPAIGN_VOICE_CONCURRENCY', 2),
+      whatsapp: getEnvNumber('CAMPAIGN_WHATSAPP_CONCURRENCY', 5),
+    },
+    ratePerSecond: {
+      email: getEnvNumber('CAMPAIGN_EMAIL_RATE_PER_SECOND', 20),
+      sms: getEnvNumber('CAMPAIGN_SMS_RATE_PER_SECOND', 1),
+      voice: getEnvNumber('CAMPAIGN_VOICE_RATE_PER_SECOND', 1),
+      whatsapp: getEnvNumber('CAMPAIGN_WHATSAPP_RATE_PER_SECOND', 10),
+    },
   },
 
   // Rate Limiting
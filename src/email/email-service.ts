@@ -0,0 +1,280 @@
+import config from '../config';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { activityManager } from '../activities';
+import { Activity, Campaign, Contact } from '../types';
+import { FileSinkProvider } from './file-provider';
+import { SendGridProvider } from './sendgrid-provider';
+import { SesProvider } from './ses-provider';
+import { SmtpProvider } from './smtp-provider';
+import { buildMergeValues, renderMergeFields } from './template';
+import { buildUnsubscribeUrl } from './unsubscribe';
+import { EmailMessage, EmailProvider, EmailProviderName, EmailSendResult } from './types';
+
+/**
+ * Email Service
+ *
+ * Sends email through the configured provider:
+ * - Renders campaign subject and bodies with the contact's merge fields
+ * - Adds List-Unsubscribe / one-click unsubscribe headers
+ * - Records every send as an outbound email activity keyed by the
+ *   provider's message ID
+ * - Sends rep replies threaded under the contact's original message
+ *
+ * Provider selection: EMAIL_PROVIDER if set, otherwise SendGrid when an API
+ * key is configured, then SES, then the local file sink.
+ */
+
+export interface CampaignEmailResult extends EmailSendResult {
+  activityId?: string;
+}
+
+export class EmailService {
+  private provider: EmailProvider | null = null;
+
+  /**
+   * Provider used for outgoing mail
+   */
+  getProvider(): EmailProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider(this.resolveProviderName());
+      logger.info('Email provider selected', { provider: this.provider.name });
+    }
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider (e.g. with a file sink in tests)
+   */
+  setProvider(provider: EmailProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Send a fully rendered message
+   */
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    return this.getProvider().send(message);
+  }
+
+  /**
+   * Send a campaign's email to one contact and log it as an activity
+   */
+  async sendCampaignEmail(
+    organizationId: string,
+    campaign: Campaign,
+    contact: Contact,
+    campaignJobId?: string
+  ): Promise<CampaignEmailResult> {
+    if (!config.features.enableEmailCampaigns) {
+      throw new Error('Email campaigns are disabled');
+    }
+
+    if (!contact.email) {
+      throw new Error('Contact has no email address');
+    }
+
+    const provider = this.getProvider();
+    const fromEmail = campaign.emailFromEmail || this.defaultFromEmail(provider.name);
+
+    if (!fromEmail) {
+      throw new Error('No from address configured for campaign email');
+    }
+
+    const unsubscribeUrl = buildUnsubscribeUrl({
+      organizationId,
+      contactId: contact.id,
+      campaignId: campaign.id,
+    });
+    const values = buildMergeValues(contact, { unsubscribeUrl });
+
+    const subject = renderMergeFields(campaign.emailSubject || '', values);
+    const html = campaign.emailBodyHtml
+      ? renderMergeFields(campaign.emailBodyHtml, values, { escapeHtml: true })
+      : undefined;
+    const text = campaign.emailBodyText
+      ? renderMergeFields(campaign.emailBodyText, values)
+      : undefined;
+
+    const metadata: Record<string, string> = {
+      organizationId,
+      campaignId: campaign.id,
+      contactId: contact.id,
+    };
+    if (campaignJobId) {
+      metadata.campaignJobId = campaignJobId;
+    }
+
+    const result = await provider.send({
+      from: {
+        email: fromEmail,
+        name: campaign.emailFromName || config.communication.sendgridFromName,
+      },
+      to: [{ email: contact.email, name: values.fullName || undefined }],
+      replyTo: campaign.emailReplyTo ? { email: campaign.emailReplyTo } : undefined,
+      subject,
+      html,
+      text,
+      headers: {
+        'List-Unsubscribe': `<${unsubscribeUrl}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+      },
+      metadata,
+    });
+
+    // The email is already out; a logging failure must not turn this into a failed send
+    let activity: Activity | undefined;
+    try {
+      activity = await activityManager.logActivity(organizationId, campaign.createdBy || null, {
+        type: 'email',
+        direction: 'outbound',
+        subject,
+        body: text || html,
+        contactId: contact.id,
+        companyId: contact.companyId,
+        fromEmail,
+        toEmails: [contact.email],
+        externalId: result.messageId,
+        metadata: { ...metadata, provider: result.provider },
+      });
+    } catch (error: any) {
+      logger.error('Failed to log email activity', {
+        error: error.message,
+        campaignId: campaign.id,
+        messageId: result.messageId,
+      });
+    }
+
+    return { ...result, activityId: activity?.id };
+  }
+
+  /**
+   * Reply to an email a contact sent, threaded under their message
+   *
+   * Goes out from the address they wrote to, with In-Reply-To / References
+   * pointing at their Message-ID, and is logged as an outbound email activity.
+   */
+  async sendReply(
+    organizationId: string,
+    userId: string,
+    original: Pick<Activity, 'id' | 'contactId' | 'companyId' | 'subject' | 'fromEmail' | 'toEmails' | 'externalId'>,
+    text: string
+  ): Promise<Activity> {
+    if (!original.fromEmail) {
+      throw new Error('Original email has no sender address');
+    }
+
+    const provider = this.getProvider();
+    const fromEmail = original.toEmails?.[0] || this.defaultFromEmail(provider.name);
+
+    if (!fromEmail) {
+      throw new Error('No from address configured for email replies');
+    }
+
+    const originalSubject = original.subject || '';
+    const subject = /^re:/i.test(originalSubject) ? originalSubject : `Re: ${originalSubject}`.trim();
+    const headers: Record<string, string> = {};
+
+    if (original.externalId) {
+      const messageId = original.externalId.startsWith('<') ? original.externalId : `<${original.externalId}>`;
+      headers['In-Reply-To'] = messageId;
+      headers.References = messageId;
+    }
+
+    const result = await provider.send({
+      from: { email: fromEmail, name: config.communication.sendgridFromName },
+      to: [{ email: original.fromEmail }],
+      subject,
+      text,
+      headers,
+      metadata: original.contactId ? { organizationId, contactId: original.contactId } : { organizationId },
+    });
+
+    return activityManager.logActivity(organizationId, userId, {
+      type: 'email',
+      direction: 'outbound',
+      subject,
+      body: text,
+      contactId: original.contactId,
+      companyId: original.companyId,
+      fromEmail,
+      toEmails: [original.fromEmail],
+      externalId: result.messageId,
+      metadata: { provider: result.provider, inReplyTo: original.id },
+    });
+  }
+
+  /**
+   * Unsubscribe a contact from email, crediting the campaign that prompted it
+   */
+  async markUnsubscribed(
+    organizationId: string,
+    contactId: string,
+    campaignId?: string
+  ): Promise<void> {
+    await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      const result = await client.query(
+        `
+          UPDATE nexuscrm.contacts
+          SET unsubscribed = true, unsubscribed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1 AND unsubscribed IS NOT TRUE
+        `,
+        [contactId]
+      );
+
+      if ((result.rowCount ?? 0) > 0 && campaignId) {
+        await client.query(
+          `
+            UPDATE nexuscrm.campaigns
+            SET unsubscribed_count = unsubscribed_count + 1, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+          `,
+          [campaignId]
+        );
+      }
+    });
+
+    logger.info('Contact unsubscribed', { contactId, campaignId });
+  }
+
+  private resolveProviderName(): EmailProviderName {
+    const { emailProvider, sendgridApiKey, awsSesAccessKeyId, awsSesSecretAccessKey } =
+      config.communication;
+
+    if (emailProvider) {
+      return emailProvider;
+    }
+    if (sendgridApiKey) {
+      return 'sendgrid';
+    }
+    if (awsSesAccessKeyId && awsSesSecretAccessKey) {
+      return 'ses';
+    }
+    return 'file';
+  }
+
+  private createProvider(name: EmailProviderName): EmailProvider {
+    switch (name) {
+      case 'sendgrid':
+        return new SendGridProvider();
+      case 'ses':
+        return new SesProvider();
+      case 'smtp':
+        return new SmtpProvider();
+      case 'file':
+        return new FileSinkProvider();
+    }
+  }
+
+  private defaultFromEmail(provider: EmailProviderName): string {
+    const { sendgridFromEmail, awsSesFromEmail } = config.communication;
+    return provider === 'ses' ? awsSesFromEmail : sendgridFromEmail || awsSesFromEmail;
+  }
+}
+
+// Export singleton instance
+export const emailService = new EmailService();
+
+export default emailService;
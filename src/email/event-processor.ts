@@ -0,0 +1,373 @@
+import { PoolClient } from 'pg';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact } from '../utils/rows';
+import { activityManager, mapActivity } from '../activities';
+import { campaignEngine } from '../campaigns/campaign-engine';
+import { Activity, Contact } from '../types';
+import { emailService } from './email-service';
+import { EmailEvent, InboundEmail } from './types';
+
+/**
+ * Email Event Processor
+ *
+ * Applies provider delivery events to the CRM:
+ * - Matches each event to its outbound email activity by message ID
+ * - Flags the activity as opened / clicked / bounced
+ * - Suppresses hard-bounced and complaining contacts
+ * - Increments the sending campaign's counters
+ *
+ * Counters move only on the first event of each kind per email, so repeat
+ * opens and provider retries never inflate campaign metrics.
+ *
+ * Inbound email is logged as an inbound email activity on the sender's
+ * timeline, threaded to the outbound email it answers. It is tied to an
+ * organization through that email: the message it names in In-Reply-To or
+ * References or, failing that, the last email we sent to the sender.
+ */
+
+interface EmailActivityRef {
+  id: string;
+  organizationId: string;
+  contactId?: string;
+  campaignId?: string;
+}
+
+type ActivityFlag = 'email_opened' | 'email_clicked' | 'email_bounced';
+
+type CampaignCounter = 'opened_count' | 'clicked_count' | 'bounced_count';
+
+export class EmailEventProcessor {
+  /**
+   * Apply one provider event; returns false when no matching email is found
+   */
+  async processEvent(event: EmailEvent): Promise<boolean> {
+    if (event.type === 'delivered') {
+      await campaignEngine.recordDelivery('email', event.messageId);
+    }
+
+    const activity = await this.findActivity(event.messageId);
+
+    if (!activity) {
+      logger.debug('No email activity for event', {
+        provider: event.provider,
+        type: event.type,
+        messageId: event.messageId,
+      });
+      return false;
+    }
+
+    switch (event.type) {
+      case 'opened':
+        await this.recordOpen(activity, event);
+        break;
+
+      case 'clicked':
+        await this.recordClick(activity, event);
+        break;
+
+      case 'bounced':
+        await this.recordBounce(activity, event);
+        break;
+
+      case 'complained':
+      case 'unsubscribed':
+        await this.recordOptOut(activity, event);
+        break;
+    }
+
+    logger.debug('Email event processed', {
+      provider: event.provider,
+      type: event.type,
+      activityId: activity.id,
+    });
+
+    return true;
+  }
+
+  /**
+   * Log an inbound email on the sender's timeline; returns null when the
+   * sender cannot be tied to an organization or contact
+   */
+  async processInbound(message: InboundEmail): Promise<Activity | null> {
+    const thread = await this.findThread(message);
+
+    if (!thread) {
+      logger.info('Inbound email answers no email we sent', { messageId: message.messageId });
+      return null;
+    }
+
+    // SendGrid retries deliveries that are not acknowledged in time
+    const existing = await db.queryWithContext(
+      thread.organizationId,
+      `SELECT * FROM nexuscrm.activities WHERE external_id = $1 AND type = 'email' AND direction = 'inbound'`,
+      [message.messageId]
+    );
+    if (existing.rows[0]) {
+      return mapActivity(existing.rows[0]);
+    }
+
+    const contact = thread.contactId
+      ? await this.getContact(thread.organizationId, thread.contactId)
+      : await this.findContact(thread.organizationId, message.from.email);
+
+    // Activities must belong to a record; email from unknown senders is dropped
+    if (!contact) {
+      logger.info('Inbound email from an unknown sender', { messageId: message.messageId });
+      return null;
+    }
+
+    return activityManager.logActivity(thread.organizationId, contact.ownerId || null, {
+      type: 'email',
+      direction: 'inbound',
+      subject: message.subject,
+      body: message.text || message.html,
+      contactId: contact.id,
+      companyId: contact.companyId,
+      fromEmail: message.from.email,
+      toEmails: message.to,
+      externalId: message.messageId,
+      metadata: {
+        provider: message.provider,
+        inReplyTo: thread.id,
+        campaignId: thread.campaignId,
+      },
+    });
+  }
+
+  private async recordOpen(activity: EmailActivityRef, event: EmailEvent): Promise<void> {
+    await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, activity.organizationId);
+      await this.markOpened(client, activity, event.occurredAt);
+    });
+  }
+
+  private async recordClick(activity: EmailActivityRef, event: EmailEvent): Promise<void> {
+    await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, activity.organizationId);
+
+      // Image blocking hides many opens; a click proves the email was opened
+      await this.markOpened(client, activity, event.occurredAt);
+
+      const clicked = await this.flagOnce(
+        client,
+        activity.id,
+        'email_clicked',
+        'email_clicked = true, email_clicked_at = $2',
+        [event.occurredAt]
+      );
+
+      if (clicked) {
+        await this.incrementCounter(client, activity.campaignId, 'clicked_count');
+      }
+    });
+  }
+
+  private async recordBounce(activity: EmailActivityRef, event: EmailEvent): Promise<void> {
+    await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, activity.organizationId);
+
+      const bounced = await this.flagOnce(
+        client,
+        activity.id,
+        'email_bounced',
+        'email_bounced = true, email_bounced_reason = $2',
+        [event.reason || null]
+      );
+
+      if (bounced) {
+        await this.incrementCounter(client, activity.campaignId, 'bounced_count');
+      }
+
+      // Soft bounces (full mailbox, greylisting) are recorded but the address stays usable
+      if (event.permanent && activity.contactId) {
+        await client.query(
+          `
+            UPDATE nexuscrm.contacts
+            SET bounced = true, bounced_at = $2, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1 AND bounced IS NOT TRUE
+          `,
+          [activity.contactId, event.occurredAt]
+        );
+      }
+    });
+
+    if (event.permanent) {
+      logger.info('Contact hard bounced', {
+        contactId: activity.contactId,
+        campaignId: activity.campaignId,
+      });
+    }
+  }
+
+  private async recordOptOut(activity: EmailActivityRef, event: EmailEvent): Promise<void> {
+    if (!activity.contactId) {
+      return;
+    }
+
+    await emailService.markUnsubscribed(
+      activity.organizationId,
+      activity.contactId,
+      activity.campaignId
+    );
+
+    // A spam complaint is a stronger signal than an unsubscribe: stop all email
+    if (event.type === 'complained') {
+      await db.queryWithContext(
+        activity.organizationId,
+        `
+          UPDATE nexuscrm.contacts
+          SET do_not_email = true, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `,
+        [activity.contactId]
+      );
+    }
+  }
+
+  private async markOpened(client: PoolClient, activity: EmailActivityRef, at: Date): Promise<void> {
+    const opened = await this.flagOnce(
+      client,
+      activity.id,
+      'email_opened',
+      'email_opened = true, email_opened_at = $2',
+      [at]
+    );
+
+    if (opened) {
+      await this.incrementCounter(client, activity.campaignId, 'opened_count');
+    }
+  }
+
+  /**
+   * Set an activity flag; true only for the update that first set it
+   */
+  private async flagOnce(
+    client: PoolClient,
+    activityId: string,
+    flag: ActivityFlag,
+    assignments: string,
+    params: any[]
+  ): Promise<boolean> {
+    const result = await client.query(
+      `
+        UPDATE nexuscrm.activities
+        SET ${assignments}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1 AND ${flag} IS NOT TRUE
+      `,
+      [activityId, ...params]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  private async incrementCounter(
+    client: PoolClient,
+    campaignId: string | undefined,
+    counter: CampaignCounter
+  ): Promise<void> {
+    if (!campaignId) {
+      return;
+    }
+
+    await client.query(
+      `
+        UPDATE nexuscrm.campaigns
+        SET ${counter} = ${counter} + 1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `,
+      [campaignId]
+    );
+  }
+
+  /**
+   * Webhooks carry no organization context, so the lookup is by message ID alone
+   */
+  private async findActivity(messageId: string): Promise<EmailActivityRef | null> {
+    const result = await db.query(
+      `
+        SELECT
+          id,
+          organization_id,
+          contact_id,
+          metadata->>'campaignId' AS campaign_id
+        FROM nexuscrm.activities
+        WHERE external_id = $1 AND type = 'email' AND direction = 'outbound' AND deleted_at IS NULL
+        LIMIT 1
+      `,
+      [messageId]
+    );
+
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    return this.toRef(result.rows[0]);
+  }
+
+  /**
+   * The outbound email an inbound one answers: the message it references,
+   * else the latest email we sent to the sender
+   */
+  private async findThread(message: InboundEmail): Promise<EmailActivityRef | null> {
+    const result = await db.query(
+      `
+        SELECT
+          id,
+          organization_id,
+          contact_id,
+          metadata->>'campaignId' AS campaign_id
+        FROM nexuscrm.activities
+        WHERE type = 'email' AND direction = 'outbound' AND deleted_at IS NULL
+          AND (
+            external_id = ANY($1)
+            OR EXISTS (SELECT 1 FROM unnest(to_emails) AS recipient WHERE lower(recipient) = $2)
+          )
+        ORDER BY external_id = ANY($1) DESC, created_at DESC
+        LIMIT 1
+      `,
+      [message.references, message.from.email.toLowerCase()]
+    );
+
+    return result.rows[0] ? this.toRef(result.rows[0]) : null;
+  }
+
+  private async getContact(organizationId: string, contactId: string): Promise<Contact | null> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [contactId]
+    );
+
+    return result.rows[0] ? mapContact(result.rows[0]) : null;
+  }
+
+  private async findContact(organizationId: string, email: string): Promise<Contact | null> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT * FROM nexuscrm.contacts
+        WHERE deleted_at IS NULL AND lower(email) = $1
+        ORDER BY last_contacted_at DESC NULLS LAST, created_at DESC
+        LIMIT 1
+      `,
+      [email.toLowerCase()]
+    );
+
+    return result.rows[0] ? mapContact(result.rows[0]) : null;
+  }
+
+  private toRef(row: any): EmailActivityRef {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      contactId: row.contact_id || undefined,
+      campaignId: row.campaign_id || undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const emailEventProcessor = new EmailEventProcessor();
+
+export default emailEventProcessor;
@@ -0,0 +1,34 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { buildMimeMessage } from './mime';
+import { EmailMessage, EmailProvider, EmailSendResult } from './types';
+
+/**
+ * File Sink Email Provider
+ *
+ * Writes each message as an .eml file instead of sending it. The default
+ * when no email provider is configured, so development never mails real
+ * contacts.
+ */
+export class FileSinkProvider implements EmailProvider {
+  readonly name = 'file' as const;
+
+  constructor(private directory: string = config.communication.emailSinkDir) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `${uuidv4()}@nexuscrm.local`;
+    const file = path.join(this.directory, `${Date.now()}-${messageId}.eml`);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, buildMimeMessage(message, messageId), 'utf8');
+
+    logger.info('Email written to file sink', { file, to: message.to.map((address) => address.email) });
+
+    return { messageId, provider: this.name };
+  }
+}
+
+export default FileSinkProvider;
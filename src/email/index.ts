@@ -0,0 +1,46 @@
+/**
+ * Email Module
+ *
+ * Outbound email for campaigns and one-off sends:
+ * - Provider abstraction over SendGrid, Amazon SES, local SMTP and a file sink
+ * - Merge field rendering from contact data
+ * - Signed List-Unsubscribe links with one-click support
+ * - Activity logging for every send
+ * - Open, click, bounce and complaint tracking from provider webhooks
+ * - Contact replies from SendGrid Inbound Parse, logged as inbound email
+ *
+ * Components:
+ * - EmailService: Provider selection, rendering and activity logging
+ * - SendGridProvider / SesProvider / SmtpProvider / FileSinkProvider: Delivery backends
+ * - showUnsubscribePage / handleUnsubscribe: Express handlers for unsubscribe links
+ * - EmailEventProcessor: Applies provider events to activities, contacts and campaigns,
+ *   and logs inbound replies
+ *
+ * The event processor and webhook handlers depend on the campaign engine, which
+ * depends on this module; import them from their files, not from this index.
+ */
+
+export { emailService, EmailService, CampaignEmailResult } from './email-service';
+export { SendGridProvider } from './sendgrid-provider';
+export { SesProvider } from './ses-provider';
+export { SmtpProvider } from './smtp-provider';
+export { FileSinkProvider } from './file-provider';
+export { renderMergeFields, buildMergeValues, MergeValues } from './template';
+export {
+  showUnsubscribePage,
+  handleUnsubscribe,
+  buildUnsubscribeUrl,
+  createUnsubscribeToken,
+  verifyUnsubscribeToken,
+  UnsubscribePayload,
+} from './unsubscribe';
+export {
+  EmailAddress,
+  EmailMessage,
+  EmailProvider,
+  EmailProviderName,
+  EmailSendResult,
+  EmailEvent,
+  EmailEventType,
+  InboundEmail,
+} from './types';
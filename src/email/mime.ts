@@ -0,0 +1,80 @@
+import { v4 as uuidv4 } from 'uuid';
+import { EmailAddress, EmailMessage } from './types';
+
+/**
+ * MIME Message Builder
+ *
+ * Builds an RFC 5322 message for providers that take raw mail (SMTP, file
+ * sink). Bodies are base64 encoded so no line needs SMTP dot-stuffing.
+ */
+
+export function formatAddress(address: EmailAddress): string {
+  if (!address.name) {
+    return address.email;
+  }
+  return `${encodeHeader(address.name)} <${address.email}>`;
+}
+
+/**
+ * Encode a header value as an RFC 2047 encoded-word when it is not plain ASCII
+ */
+export function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return /[",<>@]/.test(value) ? `"${value.replace(/["\\]/g, '\\$&')}"` : value;
+  }
+  return `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+export function buildMimeMessage(
+  message: EmailMessage,
+  messageId: string = `${uuidv4()}@nexuscrm`
+): string {
+  const boundary = `nexuscrm-${uuidv4()}`;
+
+  const headers: Record<string, string> = {
+    From: formatAddress(message.from),
+    To: message.to.map(formatAddress).join(', '),
+    Subject: encodeHeader(message.subject),
+    Date: new Date().toUTCString(),
+    'Message-ID': `<${messageId}>`,
+    'MIME-Version': '1.0',
+  };
+
+  if (message.replyTo) {
+    headers['Reply-To'] = formatAddress(message.replyTo);
+  }
+
+  Object.assign(headers, message.headers || {});
+
+  const parts: string[] = [];
+
+  if (message.text) {
+    parts.push(bodyPart('text/plain', message.text));
+  }
+  if (message.html) {
+    parts.push(bodyPart('text/html', message.html));
+  }
+
+  headers['Content-Type'] = `multipart/alternative; boundary="${boundary}"`;
+
+  const head = Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join('\r\n');
+
+  const body = parts.map((part) => `--${boundary}\r\n${part}`).join('\r\n');
+
+  return `${head}\r\n\r\n${body}\r\n--${boundary}--\r\n`;
+}
+
+function bodyPart(contentType: string, content: string): string {
+  const encoded = Buffer.from(content, 'utf8')
+    .toString('base64')
+    .replace(/.{76}/g, '$&\r\n');
+
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: base64',
+    '',
+    encoded,
+  ].join('\r\n');
+}
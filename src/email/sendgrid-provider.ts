@@ -0,0 +1,71 @@
+import axios, { AxiosInstance } from 'axios';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { EmailAddress, EmailMessage, EmailProvider, EmailSendResult } from './types';
+
+/**
+ * SendGrid Email Provider
+ *
+ * Sends through the v3 Mail Send API. The returned message ID is the
+ * `X-Message-Id` header, which prefixes `sg_message_id` in event webhooks.
+ */
+export class SendGridProvider implements EmailProvider {
+  readonly name = 'sendgrid' as const;
+  private client: AxiosInstance;
+
+  constructor(apiKey: string = config.communication.sendgridApiKey) {
+    this.client = axios.create({
+      baseURL: 'https://api.sendgrid.com',
+      timeout: 15000,
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const content: Array<{ type: string; value: string }> = [];
+
+    if (message.text) {
+      content.push({ type: 'text/plain', value: message.text });
+    }
+    if (message.html) {
+      content.push({ type: 'text/html', value: message.html });
+    }
+
+    try {
+      const response = await this.client.post('/v3/mail/send', {
+        personalizations: [
+          {
+            to: message.to.map(toSendGridAddress),
+            custom_args: message.metadata,
+          },
+        ],
+        from: toSendGridAddress(message.from),
+        reply_to: message.replyTo ? toSendGridAddress(message.replyTo) : undefined,
+        subject: message.subject,
+        content,
+        headers: message.headers,
+      });
+
+      const messageId = response.headers['x-message-id'];
+
+      if (!messageId) {
+        throw new Error('SendGrid response did not include X-Message-Id');
+      }
+
+      return { messageId, provider: this.name };
+    } catch (error: any) {
+      const detail = error.response?.data?.errors?.[0]?.message || error.message;
+      logger.error('SendGrid send failed', { error: detail });
+      throw new Error(`SendGrid send failed: ${detail}`);
+    }
+  }
+}
+
+function toSendGridAddress(address: EmailAddress): { email: string; name?: string } {
+  return address.name ? { email: address.email, name: address.name } : { email: address.email };
+}
+
+export default SendGridProvider;
@@ -0,0 +1,110 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { formatAddress } from './mime';
+import { EmailMessage, EmailProvider, EmailSendResult } from './types';
+
+/**
+ * Amazon SES Email Provider
+ *
+ * Calls the SES v2 SendEmail API directly with SigV4-signed requests.
+ * Message metadata is attached as SES message tags so it comes back on
+ * SNS event notifications.
+ */
+export class SesProvider implements EmailProvider {
+  readonly name = 'ses' as const;
+
+  constructor(
+    private region: string = config.communication.awsSesRegion,
+    private accessKeyId: string = config.communication.awsSesAccessKeyId,
+    private secretAccessKey: string = config.communication.awsSesSecretAccessKey
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const url = `https://email.${this.region}.amazonaws.com/v2/email/outbound-emails`;
+
+    const body = JSON.stringify({
+      FromEmailAddress: formatAddress(message.from),
+      Destination: { ToAddresses: message.to.map(formatAddress) },
+      ReplyToAddresses: message.replyTo ? [formatAddress(message.replyTo)] : undefined,
+      Content: {
+        Simple: {
+          Subject: { Data: message.subject, Charset: 'UTF-8' },
+          Body: {
+            Html: message.html ? { Data: message.html, Charset: 'UTF-8' } : undefined,
+            Text: message.text ? { Data: message.text, Charset: 'UTF-8' } : undefined,
+          },
+          Headers: Object.entries(message.headers || {}).map(([Name, Value]) => ({ Name, Value })),
+        },
+      },
+      EmailTags: Object.entries(message.metadata || {}).map(([Name, Value]) => ({
+        Name,
+        Value: toTagValue(Value),
+      })),
+    });
+
+    try {
+      const response = await axios.post(url, body, {
+        timeout: 15000,
+        headers: this.sign('POST', url, body),
+      });
+
+      return { messageId: response.data.MessageId, provider: this.name };
+    } catch (error: any) {
+      const detail = error.response?.data?.message || error.message;
+      logger.error('SES send failed', { error: detail });
+      throw new Error(`SES send failed: ${detail}`);
+    }
+  }
+
+  /**
+   * AWS Signature Version 4 headers for a JSON request
+   */
+  private sign(method: string, url: string, body: string): Record<string, string> {
+    const { host, pathname } = new URL(url);
+    const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const dateStamp = amzDate.slice(0, 8);
+    const scope = `${dateStamp}/${this.region}/ses/aws4_request`;
+    const signedHeaders = 'content-type;host;x-amz-date';
+
+    const canonicalRequest = [
+      method,
+      pathname,
+      '',
+      `content-type:application/json\nhost:${host}\nx-amz-date:${amzDate}\n`,
+      signedHeaders,
+      sha256(body),
+    ].join('\n');
+
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+    const signingKey = [dateStamp, this.region, 'ses', 'aws4_request'].reduce<Buffer | string>(
+      (key, part) => hmac(key, part),
+      `AWS4${this.secretAccessKey}`
+    );
+
+    const signature = hmac(signingKey, stringToSign).toString('hex');
+
+    return {
+      'Content-Type': 'application/json',
+      'X-Amz-Date': amzDate,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${this.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    };
+  }
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value, 'utf8').digest('hex');
+}
+
+function hmac(key: Buffer | string, value: string): Buffer {
+  return crypto.createHmac('sha256', key).update(value, 'utf8').digest();
+}
+
+// SES tag values allow only ASCII letters, digits, '_', '-', '.' and '@'
+function toTagValue(value: string): string {
+  return value.replace(/[^A-Za-z0-9_.@-]/g, '_').slice(0, 256);
+}
+
+export default SesProvider;
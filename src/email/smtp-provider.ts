@@ -0,0 +1,136 @@
+import net from 'net';
+import os from 'os';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { buildMimeMessage } from './mime';
+import { EmailMessage, EmailProvider, EmailSendResult } from './types';
+
+/**
+ * SMTP Email Provider
+ *
+ * Plain, unauthenticated SMTP for local mail catchers (Mailpit, MailHog).
+ * Not intended for production delivery: no TLS, no AUTH.
+ */
+
+const SMTP_TIMEOUT_MS = 10000;
+
+export class SmtpProvider implements EmailProvider {
+  readonly name = 'smtp' as const;
+
+  constructor(
+    private host: string = config.communication.smtpHost,
+    private port: number = config.communication.smtpPort
+  ) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const messageId = `${uuidv4()}@${os.hostname()}`;
+    const data = buildMimeMessage(message, messageId);
+
+    const connection = await SmtpConnection.open(this.host, this.port);
+
+    try {
+      await connection.expect(220);
+      await connection.command(`EHLO ${os.hostname()}`, 250);
+      await connection.command(`MAIL FROM:<${message.from.email}>`, 250);
+      for (const recipient of message.to) {
+        await connection.command(`RCPT TO:<${recipient.email}>`, 250);
+      }
+      await connection.command('DATA', 354);
+      await connection.command(`${data}\r\n.`, 250);
+      await connection.command('QUIT', 221);
+    } finally {
+      connection.close();
+    }
+
+    return { messageId, provider: this.name };
+  }
+}
+
+/**
+ * Minimal SMTP command/response channel
+ */
+class SmtpConnection {
+  private buffer = '';
+  private waiting: { resolve: (response: string) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  private constructor(private socket: net.Socket) {
+    socket.setEncoding('utf8');
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error('SMTP connection timed out')));
+    socket.on('data', (chunk: string) => {
+      this.buffer += chunk;
+      this.flush();
+    });
+    socket.on('error', (error: Error) => {
+      this.failure = error;
+      this.waiting?.reject(error);
+      this.waiting = null;
+    });
+  }
+
+  static open(host: string, port: number): Promise<SmtpConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection({ host, port }, () => {
+        socket.off('error', reject);
+        resolve(new SmtpConnection(socket));
+      });
+      socket.once('error', reject);
+    });
+  }
+
+  async command(line: string, expectedCode: number): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expectedCode);
+  }
+
+  async expect(expectedCode: number): Promise<string> {
+    const response = await this.read();
+    const code = parseInt(response.slice(0, 3), 10);
+
+    if (code !== expectedCode && !(expectedCode === 250 && code === 251)) {
+      throw new Error(`SMTP error: ${response.trim()}`);
+    }
+
+    return response;
+  }
+
+  close(): void {
+    this.socket.end();
+  }
+
+  private read(): Promise<string> {
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.flush();
+    });
+  }
+
+  /**
+   * Resolve the pending read once a complete (possibly multi-line) reply arrived
+   */
+  private flush(): void {
+    if (!this.waiting) {
+      return;
+    }
+
+    const lines = this.buffer.split('\r\n');
+    const lastIndex = lines.findIndex((line) => /^\d{3}( |$)/.test(line));
+
+    if (lastIndex === -1 || lastIndex === lines.length - 1) {
+      return;
+    }
+
+    const response = lines.slice(0, lastIndex + 1).join('\r\n');
+    this.buffer = lines.slice(lastIndex + 1).join('\r\n');
+
+    const { resolve } = this.waiting;
+    this.waiting = null;
+    resolve(response);
+  }
+}
+
+export default SmtpProvider;
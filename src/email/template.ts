@@ -0,0 +1,59 @@
+import { Contact } from '../types';
+
+/**
+ * Merge Field Rendering
+ *
+ * Replaces `{{field}}` placeholders with values for the recipient. A fallback
+ * can follow a pipe: `Hi {{firstName | there}}`. Custom fields are addressed
+ * as `{{customFields.key}}`. Unknown or empty fields render as the fallback
+ * (or nothing).
+ */
+
+const MERGE_FIELD_PATTERN = /\{\{\s*([A-Za-z0-9_.]+)\s*(?:\|\s*([^}]*?)\s*)?\}\}/g;
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export type MergeValues = Record<string, any>;
+
+/**
+ * Collect the values available to a template for one contact
+ */
+export function buildMergeValues(contact: Contact, extra: MergeValues = {}): MergeValues {
+  return {
+    firstName: contact.firstName,
+    lastName: contact.lastName,
+    fullName: contact.fullName || [contact.firstName, contact.lastName].filter(Boolean).join(' '),
+    email: contact.email,
+    phone: contact.phone,
+    jobTitle: contact.jobTitle,
+    department: contact.department,
+    customFields: contact.customFields || {},
+    ...extra,
+  };
+}
+
+export function renderMergeFields(
+  template: string,
+  values: MergeValues,
+  options: { escapeHtml?: boolean } = {}
+): string {
+  return template.replace(MERGE_FIELD_PATTERN, (_, field: string, fallback?: string) => {
+    const value = field
+      .split('.')
+      .reduce<any>((current, key) => (current == null ? undefined : current[key]), values);
+
+    const text = value === undefined || value === null || value === '' ? fallback || '' : String(value);
+
+    return options.escapeHtml ? escapeHtml(text) : text;
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+}
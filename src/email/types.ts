@@ -0,0 +1,71 @@
+/**
+ * Email Types
+ */
+
+export interface EmailAddress {
+  email: string;
+  name?: string;
+}
+
+export interface EmailMessage {
+  from: EmailAddress;
+  to: EmailAddress[];
+  replyTo?: EmailAddress;
+  subject: string;
+  html?: string;
+  text?: string;
+  headers?: Record<string, string>;
+  // Echoed back by provider webhooks (SendGrid custom_args, SES message tags)
+  metadata?: Record<string, string>;
+}
+
+export interface EmailSendResult {
+  messageId: string;
+  provider: EmailProviderName;
+}
+
+export type EmailProviderName = 'sendgrid' | 'ses' | 'smtp' | 'file';
+
+export interface EmailProvider {
+  readonly name: EmailProviderName;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export type EmailEventType =
+  | 'delivered'
+  | 'opened'
+  | 'clicked'
+  | 'bounced'
+  | 'complained'
+  | 'unsubscribed';
+
+/**
+ * Provider webhook event, normalized across SendGrid and SES
+ */
+export interface EmailEvent {
+  provider: EmailProviderName;
+  type: EmailEventType;
+  messageId: string;
+  occurredAt: Date;
+  // Bounces only: hard bounces suppress the address, soft bounces do not
+  permanent?: boolean;
+  reason?: string;
+  url?: string;
+}
+
+/**
+ * An email a contact sent to one of our addresses
+ */
+export interface InboundEmail {
+  provider: EmailProviderName;
+  // The Message-ID header, without angle brackets
+  messageId: string;
+  from: EmailAddress;
+  to: string[];
+  subject: string;
+  text?: string;
+  html?: string;
+  // Message IDs from In-Reply-To and References, nearest first
+  references: string[];
+  receivedAt: Date;
+}
@@ -0,0 +1,108 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { emailService } from './email-service';
+
+/**
+ * Email Unsubscribe Links
+ *
+ * Tokens are signed so a link can only unsubscribe the contact it was sent
+ * to. Opening the link (GET) only shows a confirmation page, since mail
+ * scanners and link previews follow links on their own; the unsubscribe
+ * happens on POST, from that page's form or from RFC 8058 one-click
+ * unsubscribe in mail clients.
+ */
+
+export interface UnsubscribePayload {
+  organizationId: string;
+  contactId: string;
+  campaignId?: string;
+}
+
+export function createUnsubscribeToken(payload: UnsubscribePayload): string {
+  const encoded = Buffer.from(
+    [payload.organizationId, payload.contactId, payload.campaignId || ''].join('.')
+  ).toString('base64url');
+
+  return `${encoded}.${sign(encoded)}`;
+}
+
+export function verifyUnsubscribeToken(token: string): UnsubscribePayload | null {
+  const [encoded, signature] = token.split('.');
+
+  if (!encoded || !signature) {
+    return null;
+  }
+
+  const expected = sign(encoded);
+  if (
+    signature.length !== expected.length ||
+    !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  ) {
+    return null;
+  }
+
+  const [organizationId, contactId, campaignId] = Buffer.from(encoded, 'base64url')
+    .toString('utf8')
+    .split('.');
+
+  if (!organizationId || !contactId) {
+    return null;
+  }
+
+  return { organizationId, contactId, campaignId: campaignId || undefined };
+}
+
+export function buildUnsubscribeUrl(payload: UnsubscribePayload): string {
+  return `${config.communication.unsubscribeUrl}?token=${createUnsubscribeToken(payload)}`;
+}
+
+/**
+ * Express handler for GET /email/unsubscribe
+ */
+export async function showUnsubscribePage(req: Request, res: Response): Promise<void> {
+  const token = String(req.query.token || '');
+
+  if (!verifyUnsubscribeToken(token)) {
+    res.status(400).send('This unsubscribe link is invalid.');
+    return;
+  }
+
+  // Signed tokens are base64url segments joined by '.', so safe to embed
+  res.status(200).type('html').send(`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><title>Unsubscribe</title></head>
+<body>
+  <p>Do you want to stop receiving these emails?</p>
+  <form method="POST" action="?token=${token}">
+    <button type="submit">Unsubscribe</button>
+  </form>
+</body>
+</html>`);
+}
+
+/**
+ * Express handler for POST /email/unsubscribe
+ */
+export async function handleUnsubscribe(req: Request, res: Response): Promise<void> {
+  const token = String(req.query.token || req.body?.token || '');
+  const payload = verifyUnsubscribeToken(token);
+
+  if (!payload) {
+    res.status(400).send('This unsubscribe link is invalid.');
+    return;
+  }
+
+  try {
+    await emailService.markUnsubscribed(payload.organizationId, payload.contactId, payload.campaignId);
+    res.status(200).send('You have been unsubscribed.');
+  } catch (error: any) {
+    logger.error('Failed to process unsubscribe', { error: error.message, contactId: payload.contactId });
+    res.status(500).send('We could not process your request. Please try again later.');
+  }
+}
+
+function sign(value: string): string {
+  return crypto.createHmac('sha256', config.jwt.secret).update(value).digest('base64url');
+}
@@ -0,0 +1,561 @@
+import { Request, Response, NextFunction } from 'express';
+import axios from 'axios';
+import crypto from 'crypto';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { emailEventProcessor } from './event-processor';
+import { EmailEvent, EmailEventType, InboundEmail } from './types';
+
+/**
+ * Email Event Webhook Handlers
+ *
+ * Receives delivery events from the email providers:
+ * - SendGrid Event Webhook (POST /webhooks/sendgrid): JSON array of events,
+ *   signed with ECDSA when Signed Event Webhook Requests is enabled
+ * - Amazon SES via SNS (POST /webhooks/ses): one SNS notification per event,
+ *   signed with the SNS signing certificate
+ *
+ * Events are normalized and handed to the EmailEventProcessor, which matches
+ * them to outbound email activities by message ID.
+ *
+ * Contact replies arrive through SendGrid Inbound Parse
+ * (POST /webhooks/sendgrid/inbound): one multipart form per email. Inbound
+ * Parse requests are not signed, so the URL carries a shared token.
+ */
+
+// ============================================================================
+// SendGrid
+// ============================================================================
+
+export interface SendGridEvent {
+  event: string;
+  email: string;
+  timestamp: number;
+  sg_message_id?: string;
+  sg_event_id?: string;
+  reason?: string;
+  type?: string;
+  url?: string;
+  [customArg: string]: any;
+}
+
+const SENDGRID_EVENT_TYPES: Record<string, EmailEventType> = {
+  delivered: 'delivered',
+  open: 'opened',
+  click: 'clicked',
+  bounce: 'bounced',
+  spamreport: 'complained',
+  unsubscribe: 'unsubscribed',
+  group_unsubscribe: 'unsubscribed',
+};
+
+/**
+ * Verify a SendGrid signed event webhook
+ *
+ * SendGrid signs the timestamp header followed by the raw request body with
+ * ECDSA (P-256, SHA-256). The verification key is shown base64-encoded in
+ * the Event Webhook settings.
+ */
+function verifySendGridSignature(
+  payload: Buffer,
+  timestamp: string,
+  signature: string,
+  publicKey: string
+): boolean {
+  try {
+    const key = crypto.createPublicKey({
+      key: Buffer.from(publicKey, 'base64'),
+      format: 'der',
+      type: 'spki',
+    });
+
+    return crypto.verify(
+      'sha256',
+      Buffer.concat([Buffer.from(timestamp), payload]),
+      key,
+      Buffer.from(signature, 'base64')
+    );
+  } catch (error: any) {
+    logger.error('Failed to verify SendGrid webhook signature', { error: error.message });
+    return false;
+  }
+}
+
+/**
+ * SendGrid signature verification middleware
+ */
+export function verifySendGridMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const publicKey = config.communication.sendgridWebhookPublicKey;
+
+  if (!publicKey) {
+    logger.warn('SendGrid webhook public key not configured - skipping signature verification');
+    return next();
+  }
+
+  const signature = req.headers['x-twilio-email-event-webhook-signature'] as string;
+  const timestamp = req.headers['x-twilio-email-event-webhook-timestamp'] as string;
+
+  if (!signature || !timestamp) {
+    logger.warn('SendGrid webhook signature missing');
+    res.status(401).json({ error: 'Signature required' });
+    return;
+  }
+
+  // The signature covers the exact bytes sent, captured before JSON parsing
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+
+  if (!rawBody || !verifySendGridSignature(rawBody, timestamp, signature, publicKey)) {
+    logger.warn('Invalid SendGrid webhook signature');
+    res.status(401).json({ error: 'Invalid signature' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * SendGrid Event Webhook handler
+ */
+export async function handleSendGridWebhook(req: Request, res: Response): Promise<void> {
+  const events: SendGridEvent[] = Array.isArray(req.body) ? req.body : [];
+
+  logger.info('Received SendGrid webhook', { events: events.length });
+
+  let processed = 0;
+
+  for (const raw of events) {
+    const event = normalizeSendGridEvent(raw);
+
+    if (!event) {
+      logger.debug('Unhandled SendGrid event type', { type: raw.event });
+      continue;
+    }
+
+    try {
+      if (await emailEventProcessor.processEvent(event)) {
+        processed++;
+      }
+    } catch (error: any) {
+      logger.error('Failed to process SendGrid event', {
+        error: error.message,
+        type: raw.event,
+        eventId: raw.sg_event_id,
+      });
+    }
+  }
+
+  // Always respond 200 so SendGrid does not redeliver the whole batch
+  res.status(200).json({ received: true, processed });
+}
+
+function normalizeSendGridEvent(raw: SendGridEvent): EmailEvent | null {
+  const type = SENDGRID_EVENT_TYPES[raw.event];
+
+  if (!type || !raw.sg_message_id) {
+    return null;
+  }
+
+  return {
+    provider: 'sendgrid',
+    type,
+    // sg_message_id is the X-Message-Id returned at send time plus a per-recipient suffix
+    messageId: raw.sg_message_id.split('.')[0],
+    occurredAt: raw.timestamp ? new Date(raw.timestamp * 1000) : new Date(),
+    // "blocked" is SendGrid's soft bounce; "bounce" is a hard rejection
+    permanent: type === 'bounced' ? raw.type !== 'blocked' : undefined,
+    reason: raw.reason,
+    url: raw.url,
+  };
+}
+
+// ============================================================================
+// SendGrid Inbound Parse
+// ============================================================================
+
+/**
+ * SendGrid Inbound Parse token middleware
+ *
+ * The Inbound Parse URL is configured as
+ * /webhooks/sendgrid/inbound?token=SENDGRID_INBOUND_PARSE_TOKEN. Without a
+ * token configured, nothing is accepted.
+ */
+export function verifySendGridInboundMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const token = config.communication.sendgridInboundParseToken;
+
+  if (!token) {
+    logger.warn('SendGrid inbound parse token not configured - rejecting inbound email');
+    res.status(403).json({ error: 'Inbound email not configured' });
+    return;
+  }
+
+  const provided = typeof req.query.token === 'string' ? req.query.token : '';
+
+  if (
+    provided.length !== token.length ||
+    !crypto.timingSafeEqual(Buffer.from(provided), Buffer.from(token))
+  ) {
+    logger.warn('Invalid SendGrid inbound parse token');
+    res.status(401).json({ error: 'Invalid token' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * SendGrid Inbound Parse handler
+ *
+ * The route keeps the multipart body raw; only the text fields are read and
+ * attachments are dropped.
+ */
+export async function handleSendGridInboundParse(req: Request, res: Response): Promise<void> {
+  try {
+    const fields: Record<string, string> = Buffer.isBuffer(req.body)
+      ? parseFormFields(req.body, req.headers['content-type'] || '')
+      : req.body || {};
+    const message = normalizeSendGridInbound(fields);
+
+    if (message) {
+      logger.info('Received SendGrid inbound email', { messageId: message.messageId });
+      await emailEventProcessor.processInbound(message);
+    } else {
+      logger.warn('Inbound email without sender or Message-ID');
+    }
+  } catch (error: any) {
+    logger.error('Failed to handle SendGrid inbound email', { error: error.message });
+  }
+
+  // SendGrid retries anything but a 2xx for up to three days
+  res.status(200).json({ received: true });
+}
+
+function normalizeSendGridInbound(fields: Record<string, string>): InboundEmail | null {
+  const headers = fields.headers || '';
+  const messageId = messageIds(headerValue(headers, 'Message-ID'))[0];
+  const from = parseAddresses(fields.from || '')[0];
+
+  if (!messageId || !from) {
+    return null;
+  }
+
+  const references = [
+    ...messageIds(headerValue(headers, 'In-Reply-To')),
+    // References lists the thread oldest first
+    ...messageIds(headerValue(headers, 'References')).reverse(),
+  ];
+
+  return {
+    provider: 'sendgrid',
+    messageId,
+    from,
+    to: parseAddresses(fields.to || '').map((address) => address.email),
+    subject: fields.subject || '',
+    text: fields.text || undefined,
+    html: fields.html || undefined,
+    references: Array.from(new Set(references)),
+    receivedAt: new Date(),
+  };
+}
+
+/**
+ * A header from a raw header block, with folded lines joined
+ */
+function headerValue(headers: string, name: string): string {
+  const unfolded = headers.replace(/\r?\n[ \t]+/g, ' ');
+  const match = new RegExp(`^${name}:[ \\t]*(.*)$`, 'im').exec(unfolded);
+  return match ? match[1].trim() : '';
+}
+
+function messageIds(value: string): string[] {
+  return (value.match(/<[^<>\s]+>/g) || []).map((id) => id.slice(1, -1));
+}
+
+/**
+ * Addresses in a header such as `"Rivera, Sam" <sam@example.com>, ops@example.com`
+ */
+function parseAddresses(value: string): Array<{ email: string; name?: string }> {
+  const addresses: Array<{ email: string; name?: string }> = [];
+  const pattern = /(?:"([^"]*)"|([^",<]*?))\s*<([^<>\s]+@[^<>\s]+)>|([^\s<>,"]+@[^\s<>,"]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(value))) {
+    const email = (match[3] || match[4]).toLowerCase();
+    const name = (match[1] ?? match[2] ?? '').trim();
+    addresses.push(name ? { email, name } : { email });
+  }
+
+  return addresses;
+}
+
+/**
+ * Minimal multipart/form-data reader: the text fields of a form, skipping
+ * file parts. Fields are decoded as UTF-8, which SendGrid uses by default.
+ */
+function parseFormFields(body: Buffer, contentType: string): Record<string, string> {
+  const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+
+  if (!boundary) {
+    throw new Error('Multipart boundary missing');
+  }
+
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+  const fields: Record<string, string> = {};
+  let start = body.indexOf(delimiter);
+
+  while (start !== -1) {
+    const end = body.indexOf(delimiter, start + delimiter.length);
+    if (end === -1) {
+      break;
+    }
+
+    // Each part sits between the CRLF after one delimiter and the CRLF before the next
+    const part = body.subarray(start + delimiter.length + 2, end - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+
+    if (headerEnd !== -1) {
+      const partHeaders = part.subarray(0, headerEnd).toString('utf8');
+      const name = /;\s*name="([^"]*)"/i.exec(partHeaders)?.[1];
+
+      if (name && !/;\s*filename=/i.test(partHeaders)) {
+        fields[name] = part.subarray(headerEnd + 4).toString('utf8');
+      }
+    }
+
+    start = end;
+  }
+
+  return fields;
+}
+
+// ============================================================================
+// Amazon SES (via SNS)
+// ============================================================================
+
+export interface SnsMessage {
+  Type: 'Notification' | 'SubscriptionConfirmation' | 'UnsubscribeConfirmation';
+  MessageId: string;
+  TopicArn: string;
+  Subject?: string;
+  Message: string;
+  Timestamp: string;
+  SignatureVersion: string;
+  Signature: string;
+  SigningCertURL: string;
+  SubscribeURL?: string;
+  Token?: string;
+}
+
+// Fields covered by the SNS signature, in signing order
+const SNS_NOTIFICATION_FIELDS = ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type'];
+const SNS_SUBSCRIPTION_FIELDS = [
+  'Message',
+  'MessageId',
+  'SubscribeURL',
+  'Timestamp',
+  'Token',
+  'TopicArn',
+  'Type',
+];
+
+const SNS_CERT_HOST = /^sns\.[a-z0-9-]+\.amazonaws\.com(\.cn)?$/;
+
+const signingCertificates = new Map<string, string>();
+
+/**
+ * Download (and cache) an SNS signing certificate
+ *
+ * Only certificates served by SNS itself are accepted; anything else would
+ * let a caller sign their own messages.
+ */
+async function getSigningCertificate(certUrl: string): Promise<string> {
+  const url = new URL(certUrl);
+
+  if (url.protocol !== 'https:' || !SNS_CERT_HOST.test(url.hostname) || !url.pathname.endsWith('.pem')) {
+    throw new Error(`Untrusted SNS signing certificate URL: ${certUrl}`);
+  }
+
+  const cached = signingCertificates.get(certUrl);
+  if (cached) {
+    return cached;
+  }
+
+  const response = await axios.get<string>(certUrl, { responseType: 'text', timeout: 5000 });
+  signingCertificates.set(certUrl, response.data);
+
+  return response.data;
+}
+
+/**
+ * Verify an SNS message signature
+ *
+ * SignatureVersion 1 signs with SHA1withRSA, version 2 with SHA256withRSA.
+ */
+async function verifySnsSignature(message: SnsMessage): Promise<boolean> {
+  try {
+    const fields = message.Type === 'Notification' ? SNS_NOTIFICATION_FIELDS : SNS_SUBSCRIPTION_FIELDS;
+    const stringToSign = fields
+      .filter((field) => (message as any)[field] !== undefined)
+      .map((field) => `${field}\n${(message as any)[field]}\n`)
+      .join('');
+
+    const algorithm = message.SignatureVersion === '2' ? 'RSA-SHA256' : 'RSA-SHA1';
+    const certificate = await getSigningCertificate(message.SigningCertURL);
+
+    return crypto
+      .createVerify(algorithm)
+      .update(stringToSign, 'utf8')
+      .verify(certificate, message.Signature, 'base64');
+  } catch (error: any) {
+    logger.error('Failed to verify SNS signature', { error: error.message });
+    return false;
+  }
+}
+
+/**
+ * SES (SNS) signature verification middleware
+ *
+ * SNS posts with a text/plain content type, so the route parses the body as
+ * text; the parsed message replaces req.body for the handler. Messages are
+ * only accepted from AWS_SES_WEBHOOK_TOPIC_ARN.
+ */
+export async function verifySesMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  let message: SnsMessage;
+
+  try {
+    message = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
+  } catch {
+    res.status(400).json({ error: 'Invalid SNS message' });
+    return;
+  }
+
+  if (!message?.Signature || !message.SigningCertURL) {
+    logger.warn('SNS signature missing');
+    res.status(401).json({ error: 'Signature required' });
+    return;
+  }
+
+  // Anyone can create an SNS topic and subscribe this endpoint to it, and
+  // messages from that topic are validly signed; only the configured topic
+  // is trusted, and without one nothing is (not even subscription requests)
+  const topicArn = config.communication.sesWebhookTopicArn;
+
+  if (!topicArn) {
+    logger.warn('SES webhook topic ARN not configured - rejecting SNS message', {
+      type: message.Type,
+      topicArn: message.TopicArn,
+    });
+    res.status(403).json({ error: 'SES webhook not configured' });
+    return;
+  }
+
+  if (message.TopicArn !== topicArn) {
+    logger.warn('SNS message from unexpected topic', { topicArn: message.TopicArn });
+    res.status(403).json({ error: 'Unexpected topic' });
+    return;
+  }
+
+  if (!(await verifySnsSignature(message))) {
+    logger.warn('Invalid SNS signature');
+    res.status(401).json({ error: 'Invalid signature' });
+    return;
+  }
+
+  req.body = message;
+  next();
+}
+
+/**
+ * SES event handler
+ */
+export async function handleSesWebhook(req: Request, res: Response): Promise<void> {
+  const message: SnsMessage = req.body;
+
+  try {
+    logger.info('Received SES webhook', { type: message.Type, topicArn: message.TopicArn });
+
+    switch (message.Type) {
+      case 'SubscriptionConfirmation':
+        await axios.get(message.SubscribeURL as string, { timeout: 5000 });
+        logger.info('SNS subscription confirmed', { topicArn: message.TopicArn });
+        break;
+
+      case 'Notification': {
+        const event = normalizeSesEvent(JSON.parse(message.Message));
+        if (event) {
+          await emailEventProcessor.processEvent(event);
+        }
+        break;
+      }
+
+      default:
+        logger.debug('Unhandled SNS message type', { type: message.Type });
+    }
+
+    res.status(200).json({ received: true });
+  } catch (error: any) {
+    logger.error('Failed to handle SES webhook', { error: error.message });
+    // Still return 200 to avoid retries for processing errors
+    res.status(200).json({ received: true, error: error.message });
+  }
+}
+
+/**
+ * Normalize an SES event (configuration set event publishing uses
+ * `eventType`; identity notifications use `notificationType`)
+ */
+function normalizeSesEvent(payload: any): EmailEvent | null {
+  const kind: string = payload.eventType || payload.notificationType;
+  const messageId: string | undefined = payload.mail?.messageId;
+
+  if (!messageId) {
+    return null;
+  }
+
+  const event = (type: EmailEventType, timestamp?: string): EmailEvent => ({
+    provider: 'ses',
+    type,
+    messageId,
+    occurredAt: timestamp ? new Date(timestamp) : new Date(),
+  });
+
+  switch (kind) {
+    case 'Delivery':
+      return event('delivered', payload.delivery?.timestamp);
+
+    case 'Open':
+      return event('opened', payload.open?.timestamp);
+
+    case 'Click':
+      return { ...event('clicked', payload.click?.timestamp), url: payload.click?.link };
+
+    case 'Bounce': {
+      const bounce = payload.bounce || {};
+      return {
+        ...event('bounced', bounce.timestamp),
+        permanent: bounce.bounceType === 'Permanent',
+        reason:
+          bounce.bouncedRecipients?.[0]?.diagnosticCode ||
+          [bounce.bounceType, bounce.bounceSubType].filter(Boolean).join('/'),
+      };
+    }
+
+    case 'Complaint':
+      return event('complained', payload.complaint?.timestamp);
+
+    default:
+      logger.debug('Unhandled SES event type', { type: kind });
+      return null;
+  }
+}
@@ -1,26 +1,84 @@
 import { GraphQLScalarType, Kind } from 'graphql';
 import { db } from '../utils/database';
 import { logger } from '../utils/logger';
+import { mapContact, mapDeal } from '../utils/rows';
 import {
-  orchestrationClient,
   mageClient,
   graphRAGClient,
   geoClient,
   authClient,
   healthCheckAll,
 } from '../clients';
+import { pipelineManager, StageTarget } from '../pipelines';
+import { activityManager } from '../activities';
+import { campaignManager, campaignEngine, sequenceRunner, mapCampaign } from '../campaigns';
+import { segmentManager } from '../segments';
+import { smsService } from '../sms';
+import { whatsappService, WhatsAppSession } from '../whatsapp';
+import { inboxManager } from '../inbox';
+import { voiceSettingsManager } from '../voice/voice-settings';
+import { voiceNumberManager } from '../voice/voice-numbers';
+import { callManager } from '../voice/call-manager';
+import { callToolRegistry } from '../voice/call-tools';
+import { callSupervisor } from '../voice/call-supervisor';
+import {
+  callComplianceManager,
+  COMPLIANCE_OVERRIDE_PERMISSION,
+  DncImportResult,
+} from '../voice/call-compliance';
+import { jobQueue, QUEUES, GraphRAGIndexJobData } from '../queue';
 import {
   Contact,
   Company,
   Deal,
+  DealStageHistory,
+  Pipeline,
+  PipelineStage,
   Activity,
   Campaign,
+  Segment,
+  SegmentFilter,
   VoiceCall,
+  CallToolInvocation,
+  CallSupervisorActionRecord,
+  CallBlockReason,
+  CallComplianceEvent,
+  DncNumber,
+  VoiceSettings,
+  VoiceNumber,
+  VoiceAgent,
   CreateContactInput,
   UpdateContactInput,
+  CreateCompanyInput,
+  UpdateCompanyInput,
+  CreateDealInput,
+  UpdateDealInput,
+  CreatePipelineInput,
+  UpdatePipelineInput,
+  PipelineStageInput,
+  UpdatePipelineStageInput,
+  LogActivityInput,
+  UpdateActivityInput,
   ContactFilter,
   MakeCallInput,
+  UpdateVoiceSettingsInput,
+  CreateVoiceNumberInput,
+  UpdateVoiceNumberInput,
+  SetVoiceAgentInput,
+  CreateCampaignInput,
+  UpdateCampaignInput,
+  CreateSegmentInput,
+  UpdateSegmentInput,
   LaunchCampaignInput,
+  CampaignLaunchResult,
+  DialerProgress,
+  CampaignVariantMetrics,
+  WhatsAppMedia,
+  WhatsAppTemplateConfig,
+  InboxChannel,
+  InboxFilter,
+  InboxThread,
+  SequenceEnrollment,
 } from '../types';
 
 /**
@@ -72,6 +130,99 @@ const JSONScalar = new GraphQLScalarType({
   },
 });
 
+// ============================================================================
+// Deal Stage Tracking
+// ============================================================================
+
+/**
+ * Move a deal to a new stage and record the transition
+ *
+ * The transition is validated against the deal's pipeline, then the open
+ * stage-history row is closed (stamping how long the deal spent in it) and a
+ * new one opened, all in a single transaction so history never drifts from
+ * the deal's current stage. Extra fields (close reason, lost reason, etc.)
+ * are written alongside the stage change.
+ */
+async function changeDealStage(
+  organizationId: string,
+  userId: string,
+  dealId: string,
+  target: StageTarget,
+  probability: number | null,
+  fields: Record<string, any> = {}
+): Promise<Deal> {
+  return db.transaction(async (client) => {
+    await db.setOrganizationContext(client, organizationId);
+
+    const current = await client.query<Deal>(
+      `SELECT * FROM nexuscrm.deals WHERE id = $1 AND deleted_at IS NULL FOR UPDATE`,
+      [dealId]
+    );
+
+    if (current.rows.length === 0) {
+      throw new Error('Deal not found');
+    }
+
+    const deal = mapDeal(current.rows[0]);
+    const fromStage = deal.stage;
+    const { stage, definition } = await pipelineManager.resolveTransition(client, deal, target, fields);
+
+    if (fromStage === stage) {
+      throw new Error(`Deal is already in stage ${stage}`);
+    }
+
+    const updates: string[] = [
+      'stage = $1',
+      'stage_changed_at = CURRENT_TIMESTAMP',
+      'probability = COALESCE($2, probability)',
+    ];
+    const params: any[] = [stage, probability ?? definition?.defaultProbability ?? null];
+    let paramIndex = 3;
+
+    for (const [field, value] of Object.entries(fields)) {
+      const column = field.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+      updates.push(`${column} = $${paramIndex++}`);
+      params.push(value);
+    }
+
+    params.push(dealId);
+
+    const updated = await client.query<Deal>(
+      `
+        UPDATE nexuscrm.deals
+        SET ${updates.join(', ')}, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $${paramIndex++}
+        RETURNING *
+      `,
+      params
+    );
+
+    await client.query(
+      `
+        UPDATE nexuscrm.deal_stage_history
+        SET
+          exited_at = CURRENT_TIMESTAMP,
+          duration_seconds = EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - entered_at))::int
+        WHERE deal_id = $1 AND exited_at IS NULL
+      `,
+      [dealId]
+    );
+
+    await client.query(
+      `
+        INSERT INTO nexuscrm.deal_stage_history (
+          deal_id, from_stage, stage, probability, changed_by, organization_id
+        ) VALUES ($1, $2, $3, $4, $5, $6)
+      `,
+      [dealId, fromStage, stage, updated.rows[0].probability ?? null, userId, organizationId]
+    );
+
+    logger.info('Deal stage changed', { dealId, fromStage, toStage: stage });
+
+    return mapDeal(updated.rows[0]);
+  });
+}
+
 // ============================================================================
 // Query Resolvers
 // ============================================================================
@@ -260,7 +411,7 @@ const Query = {
         [id]
       );
 
-      return result.rows[0] || null;
+      return result.rows[0] ? mapDeal(result.rows[0]) : null;
     } catch (error: any) {
       logger.error('Failed to fetch deal', { error: error.message, id });
       throw new Error('Failed to fetch deal');
@@ -271,10 +422,17 @@ const Query = {
     _: any,
     {
       stage,
+      pipelineId,
       ownerId,
       limit = 50,
       offset = 0,
-    }: { stage?: string; ownerId?: string; limit?: number; offset?: number },
+    }: {
+      stage?: string;
+      pipelineId?: string;
+      ownerId?: string;
+      limit?: number;
+      offset?: number;
+    },
     context: any
   ): Promise<Deal[]> => {
     try {
@@ -286,6 +444,10 @@ const Query = {
         conditions.push(`stage = $${paramIndex++}`);
         params.push(stage);
       }
+      if (pipelineId) {
+        conditions.push(`pipeline_id = $${paramIndex++}`);
+        params.push(pipelineId);
+      }
       if (ownerId) {
         conditions.push(`owner_id = $${paramIndex++}`);
         params.push(ownerId);
@@ -306,13 +468,32 @@ const Query = {
         params
       );
 
-      return result.rows;
+      return result.rows.map(mapDeal);
     } catch (error: any) {
       logger.error('Failed to fetch deals', { error: error.message });
       throw new Error('Failed to fetch deals');
     }
   },
 
+  // Pipeline queries
+  pipeline: async (_: any, { id }: { id: string }, context: any): Promise<Pipeline | null> => {
+    try {
+      return await pipelineManager.getPipeline(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to fetch pipeline', { error: error.message, id });
+      throw new Error('Failed to fetch pipeline');
+    }
+  },
+
+  pipelines: async (_: any, __: any, context: any): Promise<Pipeline[]> => {
+    try {
+      return await pipelineManager.listPipelines(context.auth.user.organizationId);
+    } catch (error: any) {
+      logger.error('Failed to fetch pipelines', { error: error.message });
+      throw new Error('Failed to fetch pipelines');
+    }
+  },
+
   // Activity queries
   activity: async (_: any, { id }: { id: string }, context: any): Promise<Activity | null> => {
     try {
@@ -392,6 +573,112 @@ const Query = {
     }
   },
 
+  whatsappSession: async (
+    _: any,
+    { contactId }: { contactId: string },
+    context: any
+  ): Promise<WhatsAppSession> => {
+    try {
+      return await whatsappService.getSession(context.auth.user.organizationId, contactId);
+    } catch (error: any) {
+      logger.error('Failed to fetch WhatsApp session', { error: error.message, contactId });
+      throw new Error(`Failed to fetch WhatsApp session: ${error.message}`);
+    }
+  },
+
+  // Inbox queries
+  inbox: async (
+    _: any,
+    args: { filter?: InboxFilter; channel?: InboxChannel; limit?: number; offset?: number },
+    context: any
+  ): Promise<InboxThread[]> => {
+    try {
+      return await inboxManager.listThreads(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        args
+      );
+    } catch (error: any) {
+      logger.error('Failed to fetch inbox', { error: error.message, filter: args.filter });
+      throw new Error(`Failed to fetch inbox: ${error.message}`);
+    }
+  },
+
+  inboxThread: async (
+    _: any,
+    { contactId }: { contactId: string },
+    context: any
+  ): Promise<InboxThread | null> => {
+    try {
+      return await inboxManager.getThread(context.auth.user.organizationId, contactId);
+    } catch (error: any) {
+      logger.error('Failed to fetch inbox thread', { error: error.message, contactId });
+      throw new Error('Failed to fetch inbox thread');
+    }
+  },
+
+  inboxUnreadCount: async (_: any, __: any, context: any): Promise<number> => {
+    try {
+      return await inboxManager.countUnread(context.auth.user.organizationId);
+    } catch (error: any) {
+      logger.error('Failed to count unread inbox threads', { error: error.message });
+      throw new Error('Failed to count unread inbox threads');
+    }
+  },
+
+  // Segment queries
+  segment: async (_: any, { id }: { id: string }, context: any): Promise<Segment | null> => {
+    try {
+      return await segmentManager.getSegment(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to fetch segment', { error: error.message, id });
+      throw new Error('Failed to fetch segment');
+    }
+  },
+
+  segments: async (_: any, __: any, context: any): Promise<Segment[]> => {
+    try {
+      return await segmentManager.listSegments(context.auth.user.organizationId);
+    } catch (error: any) {
+      logger.error('Failed to fetch segments', { error: error.message });
+      throw new Error('Failed to fetch segments');
+    }
+  },
+
+  // Preview contacts for a saved segment or an unsaved filter
+  previewSegment: async (
+    _: any,
+    { id, filter, limit }: { id?: string; filter?: SegmentFilter; limit?: number },
+    context: any
+  ): Promise<Contact[]> => {
+    try {
+      return await segmentManager.previewSegment(
+        context.auth.user.organizationId,
+        { segmentId: id, filter },
+        limit
+      );
+    } catch (error: any) {
+      logger.error('Failed to preview segment', { error: error.message, id });
+      throw new Error(`Failed to preview segment: ${error.message}`);
+    }
+  },
+
+  segmentSize: async (
+    _: any,
+    { id, filter }: { id?: string; filter?: SegmentFilter },
+    context: any
+  ): Promise<number> => {
+    try {
+      return await segmentManager.countContacts(context.auth.user.organizationId, {
+        segmentId: id,
+        filter,
+      });
+    } catch (error: any) {
+      logger.error('Failed to count segment', { error: error.message, id });
+      throw new Error(`Failed to count segment: ${error.message}`);
+    }
+  },
+
   // Campaign queries
   campaign: async (_: any, { id }: { id: string }, context: any): Promise<Campaign | null> => {
     try {
@@ -401,7 +688,7 @@ const Query = {
         [id]
       );
 
-      return result.rows[0] || null;
+      return result.rows[0] ? mapCampaign(result.rows[0]) : null;
     } catch (error: any) {
       logger.error('Failed to fetch campaign', { error: error.message, id });
       throw new Error('Failed to fetch campaign');
@@ -442,13 +729,54 @@ const Query = {
         params
       );
 
-      return result.rows;
+      return result.rows.map(mapCampaign);
     } catch (error: any) {
       logger.error('Failed to fetch campaigns', { error: error.message });
       throw new Error('Failed to fetch campaigns');
     }
   },
 
+  campaignDialerProgress: async (
+    _: any,
+    { campaignId }: { campaignId: string },
+    context: any
+  ): Promise<DialerProgress> => {
+    try {
+      return await campaignEngine.getDialerProgress(context.auth.user.organizationId, campaignId);
+    } catch (error: any) {
+      logger.error('Failed to fetch dialer progress', { error: error.message, campaignId });
+      throw new Error(`Failed to fetch dialer progress: ${error.message}`);
+    }
+  },
+
+  campaignVariantMetrics: async (
+    _: any,
+    { campaignId }: { campaignId: string },
+    context: any
+  ): Promise<CampaignVariantMetrics[]> => {
+    try {
+      return await campaignEngine.getVariantMetrics(context.auth.user.organizationId, campaignId);
+    } catch (error: any) {
+      logger.error('Failed to fetch variant metrics', { error: error.message, campaignId });
+      throw new Error(`Failed to fetch variant metrics: ${error.message}`);
+    }
+  },
+
+  sequenceEnrollments: async (
+    _: any,
+    args: { campaignId: string; status?: SequenceEnrollment['status']; limit?: number; offset?: number },
+    context: any
+  ): Promise<SequenceEnrollment[]> => {
+    const { campaignId, ...query } = args;
+
+    try {
+      return await sequenceRunner.listEnrollments(context.auth.user.organizationId, campaignId, query);
+    } catch (error: any) {
+      logger.error('Failed to fetch sequence enrollments', { error: error.message, campaignId });
+      throw new Error('Failed to fetch sequence enrollments');
+    }
+  },
+
   // Voice call queries
   voiceCall: async (_: any, { id }: { id: string }, context: any): Promise<VoiceCall | null> => {
     try {
@@ -508,6 +836,82 @@ const Query = {
     }
   },
 
+  // Organization voice settings
+  voiceSettings: async (_: any, __: any, context: any): Promise<VoiceSettings> => {
+    try {
+      return await voiceSettingsManager.getSettings(context.auth.user.organizationId);
+    } catch (error: any) {
+      logger.error('Failed to fetch voice settings', { error: error.message });
+      throw new Error(`Failed to fetch voice settings: ${error.message}`);
+    }
+  },
+
+  // Inbound numbers and their routing
+  voiceNumbers: async (_: any, __: any, context: any): Promise<VoiceNumber[]> => {
+    try {
+      return await voiceNumberManager.listNumbers(context.auth.user.organizationId);
+    } catch (error: any) {
+      logger.error('Failed to fetch voice numbers', { error: error.message });
+      throw new Error(`Failed to fetch voice numbers: ${error.message}`);
+    }
+  },
+
+  // Agent directory for forwarded calls
+  voiceAgents: async (_: any, __: any, context: any): Promise<VoiceAgent[]> => {
+    try {
+      return await voiceNumberManager.listAgents(context.auth.user.organizationId);
+    } catch (error: any) {
+      logger.error('Failed to fetch voice agents', { error: error.message });
+      throw new Error(`Failed to fetch voice agents: ${error.message}`);
+    }
+  },
+
+  // Dry run of the outbound call compliance gate
+  callComplianceCheck: async (
+    _: any,
+    { toNumber, contactId }: { toNumber: string; contactId?: string },
+    context: any
+  ): Promise<{ allowed: boolean; reason?: CallBlockReason; message?: string }> => {
+    try {
+      const block = await callComplianceManager.evaluate(
+        context.auth.user.organizationId,
+        toNumber,
+        contactId
+      );
+
+      return block ? { allowed: false, ...block } : { allowed: true };
+    } catch (error: any) {
+      logger.error('Failed to check call compliance', { error: error.message, contactId });
+      throw new Error(`Failed to check call compliance: ${error.message}`);
+    }
+  },
+
+  callComplianceEvents: async (
+    _: any,
+    args: { contactId?: string; reason?: CallBlockReason; limit?: number; offset?: number },
+    context: any
+  ): Promise<CallComplianceEvent[]> => {
+    try {
+      return await callComplianceManager.listEvents(context.auth.user.organizationId, args);
+    } catch (error: any) {
+      logger.error('Failed to fetch call compliance events', { error: error.message });
+      throw new Error('Failed to fetch call compliance events');
+    }
+  },
+
+  dncNumbers: async (
+    _: any,
+    args: { search?: string; limit?: number; offset?: number },
+    context: any
+  ): Promise<DncNumber[]> => {
+    try {
+      return await callComplianceManager.listDncNumbers(context.auth.user.organizationId, args);
+    } catch (error: any) {
+      logger.error('Failed to fetch DNC numbers', { error: error.message });
+      throw new Error('Failed to fetch DNC numbers');
+    }
+  },
+
   // Health check
   health: async (): Promise<any> => {
     const servicesHealth = await healthCheckAll();
@@ -562,23 +966,23 @@ const Mutation = {
 
       const contact = result.rows[0];
 
-      // Store in GraphRAG for semantic search
+      // Queue for GraphRAG indexing (semantic search)
       if (contact.email || contact.phone) {
-        await graphRAGClient.storeDocument(
-          JSON.stringify({
+        await jobQueue.add<GraphRAGIndexJobData>(QUEUES.GRAPHRAG_INDEX, {
+          content: JSON.stringify({
             name: contact.fullName,
             email: contact.email,
             phone: contact.phone,
             jobTitle: contact.jobTitle,
           }),
-          {
+          metadata: {
             type: 'contact',
             source: 'crm',
             entityType: 'contact',
             entityId: contact.id,
             tags: contact.tags || [],
-          }
-        );
+          },
+        });
       }
 
       logger.info('Contact created', { contactId: contact.id });
@@ -753,223 +1157,1179 @@ const Mutation = {
     }
   },
 
-  // Make voice call
-  makeCall: async (
+  // Create company
+  createCompany: async (
     _: any,
-    { input }: { input: MakeCallInput },
+    { input }: { input: CreateCompanyInput },
     context: any
-  ): Promise<{ callId: string; status: string; message?: string }> => {
+  ): Promise<Company> => {
     try {
-      logger.info('Initiating voice call', {
-        contactId: input.contactId,
-        toNumber: input.toNumber,
-      });
-
-      // Use OrchestrationAgent to execute the call workflow
-      const orchestrationResult = await orchestrationClient.execute({
-        goal: `Make a voice call to ${input.toNumber} using the following script: ${input.script}`,
-        metadata: {
-          contactId: input.contactId,
-          toNumber: input.toNumber,
-          script: input.script,
-          language: input.language || 'en',
-          voiceId: input.voiceId,
-          model: input.model,
-          tools: input.tools || [],
-        },
-      });
-
-      // Create voice call record
-      const callResult = await db.queryWithContext<VoiceCall>(
+      const result = await db.queryWithContext<Company>(
         context.auth.user.organizationId,
         `
-          INSERT INTO nexuscrm.voice_calls (
-            platform, from_number, to_number, status,
-            assistant_config, metadata, organization_id
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+          INSERT INTO nexuscrm.companies (
+            name, domain, industry, size, revenue_range, employee_count,
+            founded_year, description, website, phone, address, social_links,
+            owner_id, tags, custom_fields, organization_id
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16)
           RETURNING *
         `,
         [
-          'vapi',
-          'system', // Will be replaced with actual number from Vapi
-          input.toNumber,
-          'initiated',
-          { script: input.script, language: input.language, voiceId: input.voiceId },
-          { orchestrationExecutionId: orchestrationResult.executionId },
+          input.name,
+          input.domain || null,
+          input.industry || null,
+          input.size || null,
+          input.revenueRange || null,
+          input.employeeCount ?? null,
+          input.foundedYear ?? null,
+          input.description || null,
+          input.website || null,
+          input.phone || null,
+          input.address || null,
+          input.socialLinks || {},
+          input.ownerId || context.auth.user.id,
+          input.tags || [],
+          input.customFields || {},
           context.auth.user.organizationId,
         ]
       );
 
-      const call = callResult.rows[0];
+      const company = result.rows[0];
 
-      // Create activity record
-      if (input.contactId) {
-        await db.queryWithContext(
-          context.auth.user.organizationId,
-          `
-            INSERT INTO nexuscrm.activities (
-              type, direction, contact_id, to_number,
-              call_status, metadata, organization_id, created_by
-            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-          `,
-          [
-            'call',
-            'outbound',
-            input.contactId,
-            input.toNumber,
-            'initiated',
-            { voiceCallId: call.id },
-            context.auth.user.organizationId,
-            context.auth.user.id,
-          ]
-        );
+      // Queue for GraphRAG indexing (semantic search)
+      await jobQueue.add<GraphRAGIndexJobData>(QUEUES.GRAPHRAG_INDEX, {
+        content: JSON.stringify({
+          name: company.name,
+          domain: company.domain,
+          industry: company.industry,
+          description: company.description,
+        }),
+        metadata: {
+          type: 'company',
+          source: 'crm',
+          entityType: 'company',
+          entityId: company.id,
+          tags: company.tags || [],
+        },
+      });
+
+      logger.info('Company created', { companyId: company.id });
+
+      return company;
+    } catch (error: any) {
+      logger.error('Failed to create company', { error: error.message });
+      throw new Error('Failed to create company');
+    }
+  },
+
+  // Update company
+  updateCompany: async (
+    _: any,
+    { id, input }: { id: string; input: UpdateCompanyInput },
+    context: any
+  ): Promise<Company> => {
+    try {
+      const updates: string[] = [];
+      const params: any[] = [];
+      let paramIndex = 1;
+
+      if (input.name !== undefined) {
+        updates.push(`name = $${paramIndex++}`);
+        params.push(input.name);
+      }
+      if (input.domain !== undefined) {
+        updates.push(`domain = $${paramIndex++}`);
+        params.push(input.domain);
+      }
+      if (input.industry !== undefined) {
+        updates.push(`industry = $${paramIndex++}`);
+        params.push(input.industry);
+      }
+      if (input.size !== undefined) {
+        updates.push(`size = $${paramIndex++}`);
+        params.push(input.size);
+      }
+      if (input.revenueRange !== undefined) {
+        updates.push(`revenue_range = $${paramIndex++}`);
+        params.push(input.revenueRange);
+      }
+      if (input.employeeCount !== undefined) {
+        updates.push(`employee_count = $${paramIndex++}`);
+        params.push(input.employeeCount);
+      }
+      if (input.foundedYear !== undefined) {
+        updates.push(`founded_year = $${paramIndex++}`);
+        params.push(input.foundedYear);
+      }
+      if (input.description !== undefined) {
+        updates.push(`description = $${paramIndex++}`);
+        params.push(input.description);
+      }
+      if (input.website !== undefined) {
+        updates.push(`website = $${paramIndex++}`);
+        params.push(input.website);
+      }
+      if (input.phone !== undefined) {
+        updates.push(`phone = $${paramIndex++}`);
+        params.push(input.phone);
+      }
+      if (input.address !== undefined) {
+        updates.push(`address = $${paramIndex++}`);
+        params.push(input.address);
+      }
+      if (input.socialLinks !== undefined) {
+        updates.push(`social_links = $${paramIndex++}`);
+        params.push(input.socialLinks);
+      }
+      if (input.ownerId !== undefined) {
+        updates.push(`owner_id = $${paramIndex++}`);
+        params.push(input.ownerId);
+      }
+      if (input.tags !== undefined) {
+        updates.push(`tags = $${paramIndex++}`);
+        params.push(input.tags);
+      }
+      if (input.customFields !== undefined) {
+        updates.push(`custom_fields = $${paramIndex++}`);
+        params.push(input.customFields);
       }
 
-      logger.info('Voice call initiated', { callId: call.id });
+      params.push(id);
 
-      return {
-        callId: call.id,
-        status: 'initiated',
-        message: 'Call initiated successfully',
-      };
+      const query = `
+        UPDATE nexuscrm.companies
+        SET ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+        WHERE id = $${paramIndex++} AND deleted_at IS NULL
+        RETURNING *
+      `;
+
+      const result = await db.queryWithContext<Company>(
+        context.auth.user.organizationId,
+        query,
+        params
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error('Company not found');
+      }
+
+      logger.info('Company updated', { companyId: id });
+
+      return result.rows[0];
     } catch (error: any) {
-      logger.error('Failed to make call', { error: error.message });
-      throw new Error(`Failed to make call: ${error.message}`);
+      logger.error('Failed to update company', { error: error.message, id });
+      throw new Error('Failed to update company');
     }
   },
 
-  // Cancel voice call
-  cancelCall: async (_: any, { callId }: { callId: string }, context: any): Promise<boolean> => {
+  // Delete company (soft delete)
+  deleteCompany: async (_: any, { id }: { id: string }, context: any): Promise<boolean> => {
     try {
-      // Update call status
       const result = await db.queryWithContext(
         context.auth.user.organizationId,
-        `UPDATE nexuscrm.voice_calls SET status = 'cancelled', ended_at = CURRENT_TIMESTAMP WHERE id = $1`,
-        [callId]
+        `UPDATE nexuscrm.companies SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL`,
+        [id]
       );
 
-      logger.info('Voice call cancelled', { callId });
+      logger.info('Company deleted', { companyId: id });
 
       return (result.rowCount ?? 0) > 0;
     } catch (error: any) {
-      logger.error('Failed to cancel call', { error: error.message, callId });
-      throw new Error('Failed to cancel call');
+      logger.error('Failed to delete company', { error: error.message, id });
+      throw new Error('Failed to delete company');
     }
   },
 
-  // Launch campaign
-  launchCampaign: async (
-    _: any,
-    { input }: { input: LaunchCampaignInput },
-    context: any
-  ): Promise<{ campaignId: string; jobsCreated: number; jobs: string[] }> => {
+  // Enrich company using GraphRAG
+  enrichCompany: async (_: any, { id }: { id: string }, context: any): Promise<Company> => {
     try {
-      // Get campaign
-      const campaignResult = await db.queryWithContext<Campaign>(
+      // Get company
+      const companyResult = await db.queryWithContext<Company>(
         context.auth.user.organizationId,
-        `SELECT * FROM nexuscrm.campaigns WHERE id = $1 AND deleted_at IS NULL`,
-        [input.campaignId]
+        `SELECT * FROM nexuscrm.companies WHERE id = $1 AND deleted_at IS NULL`,
+        [id]
       );
 
-      if (campaignResult.rows.length === 0) {
-        throw new Error('Campaign not found');
+      if (companyResult.rows.length === 0) {
+        throw new Error('Company not found');
       }
 
-      const campaign = campaignResult.rows[0];
+      // Use GraphRAG to enrich company data
+      const enrichment = await graphRAGClient.enrichCompany(id);
 
-      logger.info('Launching campaign', { campaignId: campaign.id, type: campaign.type });
-
-      // Use OrchestrationAgent to execute the campaign workflow
-      const orchestrationResult = await orchestrationClient.execute({
-        goal: campaign.workflowGoal || `Execute ${campaign.type} campaign: ${campaign.name}`,
-        metadata: {
-          campaignId: campaign.id,
-          segmentId: input.segmentId,
-          type: campaign.type,
-          targetCount: campaign.targetCount,
-        },
+      // Update company with enrichment data
+      const updateResult = await db.queryWithContext<Company>(
+        context.auth.user.organizationId,
+        `
+          UPDATE nexuscrm.companies
+          SET
+            enrichment_data = $1,
+            enrichment_source = $2,
+            enrichment_confidence = $3,
+            enriched_at = CURRENT_TIMESTAMP,
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $4
+          RETURNING *
+        `,
+        [enrichment.enrichmentData, enrichment.sources.join(','), enrichment.confidence, id]
+      );
+
+      logger.info('Company enriched', { companyId: id, confidence: enrichment.confidence });
+
+      return updateResult.rows[0];
+    } catch (error: any) {
+      logger.error('Failed to enrich company', { error: error.message, id });
+      throw new Error('Failed to enrich company');
+    }
+  },
+
+  // Create deal
+  createDeal: async (
+    _: any,
+    { input }: { input: CreateDealInput },
+    context: any
+  ): Promise<Deal> => {
+    try {
+      const organizationId = context.auth.user.organizationId;
+
+      // Deals land in the requested pipeline, else the org's default pipeline
+      const pipelineId =
+        input.pipelineId || (await pipelineManager.getDefaultPipeline(organizationId))?.id || null;
+
+      const deal = await db.transaction(async (client) => {
+        await db.setOrganizationContext(client, organizationId);
+
+        const { stage, definition } = await pipelineManager.resolveInitialStage(
+          client,
+          pipelineId,
+          input as Partial<Deal>,
+          input.stage
+        );
+        const probability = input.probability ?? definition?.defaultProbability ?? null;
+
+        const result = await client.query<Deal>(
+          `
+            INSERT INTO nexuscrm.deals (
+              name, company_id, primary_contact_id, amount, currency, pipeline_id,
+              stage, stage_changed_at, probability, expected_close_date, deal_type,
+              mrr, arr, contract_term_months, products_sold, owner_id,
+              tags, custom_fields, organization_id
+            ) VALUES (
+              $1, $2, $3, $4, $5, $6, $7, CURRENT_TIMESTAMP, $8, $9, $10,
+              $11, $12, $13, $14, $15, $16, $17, $18
+            )
+            RETURNING *
+          `,
+          [
+            input.name,
+            input.companyId || null,
+            input.primaryContactId || null,
+            input.amount ?? null,
+            input.currency || 'USD',
+            pipelineId,
+            stage,
+            probability,
+            input.expectedCloseDate || null,
+            input.dealType || null,
+            input.mrr ?? null,
+            input.arr ?? null,
+            input.contractTermMonths ?? null,
+            JSON.stringify(input.productsSold || []),
+            input.ownerId || context.auth.user.id,
+            input.tags || [],
+            input.customFields || {},
+            organizationId,
+          ]
+        );
+
+        const created = result.rows[0];
+
+        // Open the first stage-history entry
+        await client.query(
+          `
+            INSERT INTO nexuscrm.deal_stage_history (
+              deal_id, from_stage, stage, probability, changed_by, organization_id
+            ) VALUES ($1, NULL, $2, $3, $4, $5)
+          `,
+          [created.id, stage, probability, context.auth.user.id, organizationId]
+        );
+
+        return mapDeal(created);
+      });
+
+      logger.info('Deal created', { dealId: deal.id, pipelineId, stage: deal.stage });
+
+      return deal;
+    } catch (error: any) {
+      logger.error('Failed to create deal', { error: error.message });
+      throw new Error('Failed to create deal');
+    }
+  },
+
+  // Update deal (stage changes go through moveDealStage)
+  updateDeal: async (
+    _: any,
+    { id, input }: { id: string; input: UpdateDealInput },
+    context: any
+  ): Promise<Deal> => {
+    try {
+      const updates: string[] = [];
+      const params: any[] = [];
+      let paramIndex = 1;
+
+      if (input.name !== undefined) {
+        updates.push(`name = $${paramIndex++}`);
+        params.push(input.name);
+      }
+      if (input.companyId !== undefined) {
+        updates.push(`company_id = $${paramIndex++}`);
+        params.push(input.companyId);
+      }
+      if (input.primaryContactId !== undefined) {
+        updates.push(`primary_contact_id = $${paramIndex++}`);
+        params.push(input.primaryContactId);
+      }
+      if (input.amount !== undefined) {
+        updates.push(`amount = $${paramIndex++}`);
+        params.push(input.amount);
+      }
+      if (input.currency !== undefined) {
+        updates.push(`currency = $${paramIndex++}`);
+        params.push(input.currency);
+      }
+      if (input.probability !== undefined) {
+        updates.push(`probability = $${paramIndex++}`);
+        params.push(input.probability);
+      }
+      if (input.expectedCloseDate !== undefined) {
+        updates.push(`expected_close_date = $${paramIndex++}`);
+        params.push(input.expectedCloseDate);
+      }
+      if (input.dealType !== undefined) {
+        updates.push(`deal_type = $${paramIndex++}`);
+        params.push(input.dealType);
+      }
+      if (input.mrr !== undefined) {
+        updates.push(`mrr = $${paramIndex++}`);
+        params.push(input.mrr);
+      }
+      if (input.arr !== undefined) {
+        updates.push(`arr = $${paramIndex++}`);
+        params.push(input.arr);
+      }
+      if (input.contractTermMonths !== undefined) {
+        updates.push(`contract_term_months = $${paramIndex++}`);
+        params.push(input.contractTermMonths);
+      }
+      if (input.productsSold !== undefined) {
+        updates.push(`products_sold = $${paramIndex++}`);
+        params.push(JSON.stringify(input.productsSold));
+      }
+      if (input.ownerId !== undefined) {
+        updates.push(`owner_id = $${paramIndex++}`);
+        params.push(input.ownerId);
+      }
+      if (input.tags !== undefined) {
+        updates.push(`tags = $${paramIndex++}`);
+        params.push(input.tags);
+      }
+      if (input.customFields !== undefined) {
+        updates.push(`custom_fields = $${paramIndex++}`);
+        params.push(input.customFields);
+      }
+
+      params.push(id);
+
+      const query = `
+        UPDATE nexuscrm.deals
+        SET ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+        WHERE id = $${paramIndex++} AND deleted_at IS NULL
+        RETURNING *
+      `;
+
+      const result = await db.queryWithContext<Deal>(
+        context.auth.user.organizationId,
+        query,
+        params
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error('Deal not found');
+      }
+
+      logger.info('Deal updated', { dealId: id });
+
+      return mapDeal(result.rows[0]);
+    } catch (error: any) {
+      logger.error('Failed to update deal', { error: error.message, id });
+      throw new Error('Failed to update deal');
+    }
+  },
+
+  // Move deal to another stage
+  moveDealStage: async (
+    _: any,
+    { id, stage, probability }: { id: string; stage: string; probability?: number },
+    context: any
+  ): Promise<Deal> => {
+    try {
+      return await changeDealStage(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        id,
+        { stage },
+        probability ?? null
+      );
+    } catch (error: any) {
+      logger.error('Failed to move deal stage', { error: error.message, id, stage });
+      throw new Error(`Failed to move deal stage: ${error.message}`);
+    }
+  },
+
+  // Close deal as won
+  closeDealWon: async (
+    _: any,
+    {
+      id,
+      closeReason,
+      actualCloseDate,
+    }: { id: string; closeReason?: string; actualCloseDate?: Date },
+    context: any
+  ): Promise<Deal> => {
+    try {
+      const deal = await changeDealStage(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        id,
+        { outcome: 'won' },
+        100,
+        {
+          closeReason: closeReason || null,
+          actualCloseDate: actualCloseDate || new Date(),
+        }
+      );
+
+      logger.info('Deal closed won', { dealId: id, amount: deal.amount });
+
+      return deal;
+    } catch (error: any) {
+      logger.error('Failed to close deal as won', { error: error.message, id });
+      throw new Error(`Failed to close deal as won: ${error.message}`);
+    }
+  },
+
+  // Close deal as lost
+  closeDealLost: async (
+    _: any,
+    {
+      id,
+      lostReason,
+      lostToCompetitor,
+      actualCloseDate,
+    }: { id: string; lostReason: string; lostToCompetitor?: string; actualCloseDate?: Date },
+    context: any
+  ): Promise<Deal> => {
+    try {
+      const deal = await changeDealStage(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        id,
+        { outcome: 'lost' },
+        0,
+        {
+          lostReason,
+          lostToCompetitor: lostToCompetitor || null,
+          actualCloseDate: actualCloseDate || new Date(),
+        }
+      );
+
+      logger.info('Deal closed lost', { dealId: id, lostReason });
+
+      return deal;
+    } catch (error: any) {
+      logger.error('Failed to close deal as lost', { error: error.message, id });
+      throw new Error(`Failed to close deal as lost: ${error.message}`);
+    }
+  },
+
+  // Create pipeline with stages
+  createPipeline: async (
+    _: any,
+    { input }: { input: CreatePipelineInput },
+    context: any
+  ): Promise<Pipeline> => {
+    try {
+      return await pipelineManager.createPipeline(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        input
+      );
+    } catch (error: any) {
+      logger.error('Failed to create pipeline', { error: error.message });
+      throw new Error(`Failed to create pipeline: ${error.message}`);
+    }
+  },
+
+  // Update pipeline
+  updatePipeline: async (
+    _: any,
+    { id, input }: { id: string; input: UpdatePipelineInput },
+    context: any
+  ): Promise<Pipeline> => {
+    try {
+      return await pipelineManager.updatePipeline(context.auth.user.organizationId, id, input);
+    } catch (error: any) {
+      logger.error('Failed to update pipeline', { error: error.message, id });
+      throw new Error(`Failed to update pipeline: ${error.message}`);
+    }
+  },
+
+  // Delete pipeline (soft delete)
+  deletePipeline: async (_: any, { id }: { id: string }, context: any): Promise<boolean> => {
+    try {
+      return await pipelineManager.deletePipeline(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to delete pipeline', { error: error.message, id });
+      throw new Error(`Failed to delete pipeline: ${error.message}`);
+    }
+  },
+
+  // Append stage to pipeline
+  addPipelineStage: async (
+    _: any,
+    { pipelineId, input }: { pipelineId: string; input: PipelineStageInput },
+    context: any
+  ): Promise<PipelineStage> => {
+    try {
+      return await pipelineManager.addStage(context.auth.user.organizationId, pipelineId, input);
+    } catch (error: any) {
+      logger.error('Failed to add pipeline stage', { error: error.message, pipelineId });
+      throw new Error(`Failed to add pipeline stage: ${error.message}`);
+    }
+  },
+
+  // Update stage definition
+  updatePipelineStage: async (
+    _: any,
+    { id, input }: { id: string; input: UpdatePipelineStageInput },
+    context: any
+  ): Promise<PipelineStage> => {
+    try {
+      return await pipelineManager.updateStage(context.auth.user.organizationId, id, input);
+    } catch (error: any) {
+      logger.error('Failed to update pipeline stage', { error: error.message, id });
+      throw new Error(`Failed to update pipeline stage: ${error.message}`);
+    }
+  },
+
+  // Remove stage from pipeline
+  removePipelineStage: async (_: any, { id }: { id: string }, context: any): Promise<boolean> => {
+    try {
+      return await pipelineManager.removeStage(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to remove pipeline stage', { error: error.message, id });
+      throw new Error(`Failed to remove pipeline stage: ${error.message}`);
+    }
+  },
+
+  // Reorder pipeline stages
+  reorderPipelineStages: async (
+    _: any,
+    { pipelineId, stageIds }: { pipelineId: string; stageIds: string[] },
+    context: any
+  ): Promise<PipelineStage[]> => {
+    try {
+      return await pipelineManager.reorderStages(
+        context.auth.user.organizationId,
+        pipelineId,
+        stageIds
+      );
+    } catch (error: any) {
+      logger.error('Failed to reorder pipeline stages', { error: error.message, pipelineId });
+      throw new Error(`Failed to reorder pipeline stages: ${error.message}`);
+    }
+  },
+
+  // Log activity (note, task, meeting, email, call, message)
+  logActivity: async (
+    _: any,
+    { input }: { input: LogActivityInput },
+    context: any
+  ): Promise<Activity> => {
+    try {
+      return await activityManager.logActivity(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        input
+      );
+    } catch (error: any) {
+      logger.error('Failed to log activity', { error: error.message, type: input.type });
+      throw new Error(`Failed to log activity: ${error.message}`);
+    }
+  },
+
+  // Update activity
+  updateActivity: async (
+    _: any,
+    { id, input }: { id: string; input: UpdateActivityInput },
+    context: any
+  ): Promise<Activity> => {
+    try {
+      return await activityManager.updateActivity(context.auth.user.organizationId, id, input);
+    } catch (error: any) {
+      logger.error('Failed to update activity', { error: error.message, id });
+      throw new Error(`Failed to update activity: ${error.message}`);
+    }
+  },
+
+  // Complete task
+  completeTask: async (_: any, { id }: { id: string }, context: any): Promise<Activity> => {
+    try {
+      return await activityManager.completeTask(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to complete task', { error: error.message, id });
+      throw new Error(`Failed to complete task: ${error.message}`);
+    }
+  },
+
+  // Delete activity (soft delete)
+  deleteActivity: async (_: any, { id }: { id: string }, context: any): Promise<boolean> => {
+    try {
+      return await activityManager.deleteActivity(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to delete activity', { error: error.message, id });
+      throw new Error('Failed to delete activity');
+    }
+  },
+
+  // Send a one-off SMS to a contact
+  sendSms: async (
+    _: any,
+    { contactId, body }: { contactId: string; body: string },
+    context: any
+  ): Promise<Activity> => {
+    try {
+      return await smsService.sendToContact(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        contactId,
+        body
+      );
+    } catch (error: any) {
+      logger.error('Failed to send SMS', { error: error.message, contactId });
+      throw new Error(`Failed to send SMS: ${error.message}`);
+    }
+  },
+
+  // Send a WhatsApp session message (text and/or media) to a contact
+  sendWhatsappMessage: async (
+    _: any,
+    { contactId, text, media }: { contactId: string; text?: string; media?: WhatsAppMedia },
+    context: any
+  ): Promise<Activity> => {
+    try {
+      return await whatsappService.sendSessionMessage(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        contactId,
+        { text, media }
+      );
+    } catch (error: any) {
+      logger.error('Failed to send WhatsApp message', { error: error.message, contactId });
+      throw new Error(`Failed to send WhatsApp message: ${error.message}`);
+    }
+  },
+
+  // Send an approved WhatsApp template to a contact
+  sendWhatsappTemplate: async (
+    _: any,
+    { contactId, template }: { contactId: string; template: WhatsAppTemplateConfig },
+    context: any
+  ): Promise<Activity> => {
+    try {
+      return await whatsappService.sendTemplate(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        contactId,
+        template
+      );
+    } catch (error: any) {
+      logger.error('Failed to send WhatsApp template', {
+        error: error.message,
+        contactId,
+        template: template.name,
+      });
+      throw new Error(`Failed to send WhatsApp template: ${error.message}`);
+    }
+  },
+
+  // Inbox mutations
+  markThreadRead: async (
+    _: any,
+    { contactId }: { contactId: string },
+    context: any
+  ): Promise<InboxThread> => {
+    try {
+      return await inboxManager.markRead(context.auth.user.organizationId, contactId);
+    } catch (error: any) {
+      logger.error('Failed to mark thread read', { error: error.message, contactId });
+      throw new Error(`Failed to mark thread read: ${error.message}`);
+    }
+  },
+
+  markThreadUnread: async (
+    _: any,
+    { contactId }: { contactId: string },
+    context: any
+  ): Promise<InboxThread> => {
+    try {
+      return await inboxManager.markUnread(context.auth.user.organizationId, contactId);
+    } catch (error: any) {
+      logger.error('Failed to mark thread unread', { error: error.message, contactId });
+      throw new Error(`Failed to mark thread unread: ${error.message}`);
+    }
+  },
+
+  assignThread: async (
+    _: any,
+    { contactId, userId }: { contactId: string; userId?: string | null },
+    context: any
+  ): Promise<InboxThread> => {
+    try {
+      return await inboxManager.assign(context.auth.user.organizationId, contactId, userId || null);
+    } catch (error: any) {
+      logger.error('Failed to assign thread', { error: error.message, contactId, userId });
+      throw new Error(`Failed to assign thread: ${error.message}`);
+    }
+  },
+
+  snoozeThread: async (
+    _: any,
+    { contactId, until }: { contactId: string; until: Date },
+    context: any
+  ): Promise<InboxThread> => {
+    try {
+      return await inboxManager.snooze(context.auth.user.organizationId, contactId, until);
+    } catch (error: any) {
+      logger.error('Failed to snooze thread', { error: error.message, contactId });
+      throw new Error(`Failed to snooze thread: ${error.message}`);
+    }
+  },
+
+  unsnoozeThread: async (
+    _: any,
+    { contactId }: { contactId: string },
+    context: any
+  ): Promise<InboxThread> => {
+    try {
+      return await inboxManager.unsnooze(context.auth.user.organizationId, contactId);
+    } catch (error: any) {
+      logger.error('Failed to unsnooze thread', { error: error.message, contactId });
+      throw new Error(`Failed to unsnooze thread: ${error.message}`);
+    }
+  },
+
+  // Reply on the channel the contact last wrote in on
+  replyInThread: async (
+    _: any,
+    { contactId, body }: { contactId: string; body: string },
+    context: any
+  ): Promise<Activity> => {
+    try {
+      return await inboxManager.replyInThread(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        contactId,
+        body
+      );
+    } catch (error: any) {
+      logger.error('Failed to reply in thread', { error: error.message, contactId });
+      throw new Error(`Failed to reply in thread: ${error.message}`);
+    }
+  },
+
+  // Create segment
+  createSegment: async (
+    _: any,
+    { input }: { input: CreateSegmentInput },
+    context: any
+  ): Promise<Segment> => {
+    try {
+      return await segmentManager.createSegment(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        input
+      );
+    } catch (error: any) {
+      logger.error('Failed to create segment', { error: error.message });
+      throw new Error(`Failed to create segment: ${error.message}`);
+    }
+  },
+
+  // Update segment
+  updateSegment: async (
+    _: any,
+    { id, input }: { id: string; input: UpdateSegmentInput },
+    context: any
+  ): Promise<Segment> => {
+    try {
+      return await segmentManager.updateSegment(context.auth.user.organizationId, id, input);
+    } catch (error: any) {
+      logger.error('Failed to update segment', { error: error.message, id });
+      throw new Error(`Failed to update segment: ${error.message}`);
+    }
+  },
+
+  // Delete segment (soft delete)
+  deleteSegment: async (_: any, { id }: { id: string }, context: any): Promise<boolean> => {
+    try {
+      return await segmentManager.deleteSegment(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to delete segment', { error: error.message, id });
+      throw new Error(`Failed to delete segment: ${error.message}`);
+    }
+  },
+
+  // Re-evaluate segment (re-snapshots static segments)
+  refreshSegment: async (_: any, { id }: { id: string }, context: any): Promise<Segment> => {
+    try {
+      return await segmentManager.refreshSegment(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to refresh segment', { error: error.message, id });
+      throw new Error(`Failed to refresh segment: ${error.message}`);
+    }
+  },
+
+  // Make voice call
+  makeCall: async (
+    _: any,
+    { input }: { input: MakeCallInput },
+    context: any
+  ): Promise<{ callId: string; status: string; message?: string }> => {
+    try {
+      logger.info('Initiating voice call', {
+        contactId: input.contactId,
+        toNumber: input.toNumber,
       });
 
-      // Update campaign status
-      await db.queryWithContext(
+      if (
+        input.complianceOverride &&
+        !context.auth.user.permissions.includes(COMPLIANCE_OVERRIDE_PERMISSION)
+      ) {
+        throw new Error('Overriding call compliance requires admin permission');
+      }
+
+      const call = await callManager.makeCall(
+        input,
         context.auth.user.organizationId,
-        `
-          UPDATE nexuscrm.campaigns
-          SET
-            status = 'active',
-            orchestration_execution_id = $1,
-            launched_at = CURRENT_TIMESTAMP,
-            updated_at = CURRENT_TIMESTAMP
-          WHERE id = $2
-        `,
-        [orchestrationResult.executionId, campaign.id]
+        context.auth.user.id
       );
 
-      logger.info('Campaign launched', {
-        campaignId: campaign.id,
-        executionId: orchestrationResult.executionId,
-      });
+      logger.info('Voice call initiated', { callId: call.callId, platform: call.platform });
 
       return {
-        campaignId: campaign.id,
-        jobsCreated: 1,
-        jobs: [orchestrationResult.executionId],
+        callId: call.callId,
+        status: call.status,
+        message: 'Call initiated successfully',
       };
     } catch (error: any) {
-      logger.error('Failed to launch campaign', { error: error.message });
-      throw new Error(`Failed to launch campaign: ${error.message}`);
+      logger.error('Failed to make call', { error: error.message });
+      // callManager.makeCall already prefixes its errors
+      throw error;
     }
   },
 
-  // Pause campaign
-  pauseCampaign: async (
+  // Cancel voice call
+  cancelCall: async (_: any, { callId }: { callId: string }, context: any): Promise<boolean> => {
+    try {
+      return await callManager.cancelCall(callId, context.auth.user.organizationId);
+    } catch (error: any) {
+      logger.error('Failed to cancel call', { error: error.message, callId });
+      throw new Error(`Failed to cancel call: ${error.message}`);
+    }
+  },
+
+  // Supervisor actions on a live call; permission checks happen in CallSupervisor
+  whisperToCall: async (
     _: any,
-    { campaignId }: { campaignId: string },
+    { callId, message }: { callId: string; message: string },
     context: any
-  ): Promise<Campaign> => {
+  ): Promise<CallSupervisorActionRecord> => {
     try {
-      const result = await db.queryWithContext<Campaign>(
+      return await callSupervisor.whisper(context.auth.user, callId, message);
+    } catch (error: any) {
+      logger.error('Failed to whisper to call', { error: error.message, callId });
+      throw new Error(`Failed to whisper to call: ${error.message}`);
+    }
+  },
+
+  bargeIntoCall: async (
+    _: any,
+    { callId, phoneNumber }: { callId: string; phoneNumber?: string },
+    context: any
+  ): Promise<CallSupervisorActionRecord> => {
+    try {
+      return await callSupervisor.bargeIn(context.auth.user, callId, phoneNumber);
+    } catch (error: any) {
+      logger.error('Failed to barge into call', { error: error.message, callId });
+      throw new Error(`Failed to barge into call: ${error.message}`);
+    }
+  },
+
+  transferCall: async (
+    _: any,
+    { callId, userId, phoneNumber }: { callId: string; userId?: string; phoneNumber?: string },
+    context: any
+  ): Promise<CallSupervisorActionRecord> => {
+    try {
+      return await callSupervisor.transfer(context.auth.user, callId, { userId, phoneNumber });
+    } catch (error: any) {
+      logger.error('Failed to transfer call', { error: error.message, callId });
+      throw new Error(`Failed to transfer call: ${error.message}`);
+    }
+  },
+
+  // Update organization voice settings
+  updateVoiceSettings: async (
+    _: any,
+    { input }: { input: UpdateVoiceSettingsInput },
+    context: any
+  ): Promise<VoiceSettings> => {
+    try {
+      return await voiceSettingsManager.updateSettings(context.auth.user.organizationId, input);
+    } catch (error: any) {
+      logger.error('Failed to update voice settings', { error: error.message });
+      throw new Error(`Failed to update voice settings: ${error.message}`);
+    }
+  },
+
+  // Register inbound number
+  createVoiceNumber: async (
+    _: any,
+    { input }: { input: CreateVoiceNumberInput },
+    context: any
+  ): Promise<VoiceNumber> => {
+    try {
+      return await voiceNumberManager.createNumber(context.auth.user.organizationId, input);
+    } catch (error: any) {
+      logger.error('Failed to create voice number', { error: error.message });
+      throw new Error(`Failed to create voice number: ${error.message}`);
+    }
+  },
+
+  // Update inbound number routing
+  updateVoiceNumber: async (
+    _: any,
+    { id, input }: { id: string; input: UpdateVoiceNumberInput },
+    context: any
+  ): Promise<VoiceNumber> => {
+    try {
+      return await voiceNumberManager.updateNumber(context.auth.user.organizationId, id, input);
+    } catch (error: any) {
+      logger.error('Failed to update voice number', { error: error.message, id });
+      throw new Error(`Failed to update voice number: ${error.message}`);
+    }
+  },
+
+  // Remove inbound number
+  deleteVoiceNumber: async (_: any, { id }: { id: string }, context: any): Promise<boolean> => {
+    try {
+      return await voiceNumberManager.deleteNumber(context.auth.user.organizationId, id);
+    } catch (error: any) {
+      logger.error('Failed to delete voice number', { error: error.message, id });
+      throw new Error(`Failed to delete voice number: ${error.message}`);
+    }
+  },
+
+  // Set a user's phone for forwarded calls
+  setVoiceAgent: async (
+    _: any,
+    { input }: { input: SetVoiceAgentInput },
+    context: any
+  ): Promise<VoiceAgent> => {
+    try {
+      return await voiceNumberManager.setAgent(context.auth.user.organizationId, input);
+    } catch (error: any) {
+      logger.error('Failed to set voice agent', { error: error.message, userId: input.userId });
+      throw new Error(`Failed to set voice agent: ${error.message}`);
+    }
+  },
+
+  // Remove a user from the agent directory
+  removeVoiceAgent: async (
+    _: any,
+    { userId }: { userId: string },
+    context: any
+  ): Promise<boolean> => {
+    try {
+      return await voiceNumberManager.removeAgent(context.auth.user.organizationId, userId);
+    } catch (error: any) {
+      logger.error('Failed to remove voice agent', { error: error.message, userId });
+      throw new Error(`Failed to remove voice agent: ${error.message}`);
+    }
+  },
+
+  addDncNumber: async (
+    _: any,
+    { phoneNumber, reason }: { phoneNumber: string; reason?: string },
+    context: any
+  ): Promise<DncNumber> => {
+    try {
+      return await callComplianceManager.addDncNumber(
         context.auth.user.organizationId,
-        `UPDATE nexuscrm.campaigns SET status = 'paused', updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
-        [campaignId]
+        phoneNumber,
+        reason,
+        context.auth.user.id
       );
+    } catch (error: any) {
+      logger.error('Failed to add DNC number', { error: error.message });
+      throw new Error(`Failed to add DNC number: ${error.message}`);
+    }
+  },
 
-      if (result.rows.length === 0) {
-        throw new Error('Campaign not found');
-      }
+  removeDncNumber: async (
+    _: any,
+    { phoneNumber }: { phoneNumber: string },
+    context: any
+  ): Promise<boolean> => {
+    try {
+      return await callComplianceManager.removeDncNumber(context.auth.user.organizationId, phoneNumber);
+    } catch (error: any) {
+      logger.error('Failed to remove DNC number', { error: error.message });
+      throw new Error(`Failed to remove DNC number: ${error.message}`);
+    }
+  },
+
+  // Bulk add to the DNC list from CSV text
+  importDncNumbers: async (
+    _: any,
+    { csv }: { csv: string },
+    context: any
+  ): Promise<DncImportResult> => {
+    try {
+      return await callComplianceManager.importDncCsv(
+        context.auth.user.organizationId,
+        csv,
+        context.auth.user.id
+      );
+    } catch (error: any) {
+      logger.error('Failed to import DNC numbers', { error: error.message });
+      throw new Error(`Failed to import DNC numbers: ${error.message}`);
+    }
+  },
 
-      logger.info('Campaign paused', { campaignId });
+  // Create draft campaign
+  createCampaign: async (
+    _: any,
+    { input }: { input: CreateCampaignInput },
+    context: any
+  ): Promise<Campaign> => {
+    try {
+      return await campaignManager.createCampaign(
+        context.auth.user.organizationId,
+        context.auth.user.id,
+        input
+      );
+    } catch (error: any) {
+      logger.error('Failed to create campaign', { error: error.message });
+      throw new Error(`Failed to create campaign: ${error.message}`);
+    }
+  },
 
-      return result.rows[0];
+  // Update draft or scheduled campaign
+  updateCampaign: async (
+    _: any,
+    { id, input }: { id: string; input: UpdateCampaignInput },
+    context: any
+  ): Promise<Campaign> => {
+    try {
+      return await campaignManager.updateCampaign(context.auth.user.organizationId, id, input);
     } catch (error: any) {
-      logger.error('Failed to pause campaign', { error: error.message, campaignId });
-      throw new Error('Failed to pause campaign');
+      logger.error('Failed to update campaign', { error: error.message, id });
+      throw new Error(`Failed to update campaign: ${error.message}`);
     }
   },
 
-  // Resume campaign
-  resumeCampaign: async (
+  // Clone campaign into a new draft
+  cloneCampaign: async (
     _: any,
-    { campaignId }: { campaignId: string },
+    { id, name }: { id: string; name?: string },
     context: any
   ): Promise<Campaign> => {
     try {
-      const result = await db.queryWithContext<Campaign>(
+      return await campaignManager.cloneCampaign(
         context.auth.user.organizationId,
-        `UPDATE nexuscrm.campaigns SET status = 'active', updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
-        [campaignId]
+        context.auth.user.id,
+        id,
+        name
       );
+    } catch (error: any) {
+      logger.error('Failed to clone campaign', { error: error.message, id });
+      throw new Error(`Failed to clone campaign: ${error.message}`);
+    }
+  },
 
-      if (result.rows.length === 0) {
-        throw new Error('Campaign not found');
-      }
+  // Schedule campaign
+  scheduleCampaign: async (
+    _: any,
+    { id, scheduledAt }: { id: string; scheduledAt: Date },
+    context: any
+  ): Promise<Campaign> => {
+    try {
+      return await campaignManager.scheduleCampaign(
+        context.auth.user.organizationId,
+        id,
+        scheduledAt
+      );
+    } catch (error: any) {
+      logger.error('Failed to schedule campaign', { error: error.message, id });
+      throw new Error(`Failed to schedule campaign: ${error.message}`);
+    }
+  },
+
+  // Launch campaign
+  launchCampaign: async (
+    _: any,
+    { input }: { input: LaunchCampaignInput },
+    context: any
+  ): Promise<CampaignLaunchResult> => {
+    try {
+      return await campaignEngine.launch(
+        context.auth.user.organizationId,
+        input.campaignId,
+        input.segmentId
+      );
+    } catch (error: any) {
+      logger.error('Failed to launch campaign', { error: error.message });
+      throw new Error(`Failed to launch campaign: ${error.message}`);
+    }
+  },
 
-      logger.info('Campaign resumed', { campaignId });
+  // Pause campaign
+  pauseCampaign: async (
+    _: any,
+    { campaignId }: { campaignId: string },
+    context: any
+  ): Promise<Campaign> => {
+    try {
+      return await campaignEngine.pause(context.auth.user.organizationId, campaignId);
+    } catch (error: any) {
+      logger.error('Failed to pause campaign', { error: error.message, campaignId });
+      throw new Error(`Failed to pause campaign: ${error.message}`);
+    }
+  },
 
-      return result.rows[0];
+  // Resume campaign
+  resumeCampaign: async (
+    _: any,
+    { campaignId }: { campaignId: string },
+    context: any
+  ): Promise<Campaign> => {
+    try {
+      return await campaignEngine.resume(context.auth.user.organizationId, campaignId);
     } catch (error: any) {
       logger.error('Failed to resume campaign', { error: error.message, campaignId });
-      throw new Error('Failed to resume campaign');
+      throw new Error(`Failed to resume campaign: ${error.message}`);
     }
   },
 
@@ -980,22 +2340,145 @@ const Mutation = {
     context: any
   ): Promise<Campaign> => {
     try {
-      const result = await db.queryWithContext<Campaign>(
+      return await campaignEngine.cancel(context.auth.user.organizationId, campaignId);
+    } catch (error: any) {
+      logger.error('Failed to cancel campaign', { error: error.message, campaignId });
+      throw new Error(`Failed to cancel campaign: ${error.message}`);
+    }
+  },
+};
+
+// ============================================================================
+// Type Resolvers
+// ============================================================================
+
+const DealResolvers = {
+  pipeline: async (deal: Deal, _: any, context: any): Promise<Pipeline | null> => {
+    if (!deal.pipelineId) {
+      return null;
+    }
+    return pipelineManager.getPipeline(context.auth.user.organizationId, deal.pipelineId);
+  },
+
+  // Stage history, oldest first; the open stage reports time spent so far
+  stageHistory: async (deal: Deal, _: any, context: any): Promise<DealStageHistory[]> => {
+    try {
+      const result = await db.queryWithContext<DealStageHistory>(
         context.auth.user.organizationId,
-        `UPDATE nexuscrm.campaigns SET status = 'cancelled', completed_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP WHERE id = $1 RETURNING *`,
-        [campaignId]
+        `
+          SELECT
+            id,
+            deal_id AS "dealId",
+            from_stage AS "fromStage",
+            stage,
+            probability,
+            entered_at AS "enteredAt",
+            exited_at AS "exitedAt",
+            COALESCE(
+              duration_seconds,
+              EXTRACT(EPOCH FROM (CURRENT_TIMESTAMP - entered_at))::int
+            ) AS "durationSeconds",
+            changed_by AS "changedBy",
+            organization_id AS "organizationId",
+            created_at AS "createdAt"
+          FROM nexuscrm.deal_stage_history
+          WHERE deal_id = $1
+          ORDER BY entered_at ASC
+        `,
+        [deal.id]
       );
 
-      if (result.rows.length === 0) {
-        throw new Error('Campaign not found');
-      }
+      return result.rows;
+    } catch (error: any) {
+      logger.error('Failed to fetch deal stage history', { error: error.message, dealId: deal.id });
+      throw new Error('Failed to fetch deal stage history');
+    }
+  },
+};
+
+const VoiceCallResolvers = {
+  toolInvocations: async (call: VoiceCall, _: any, context: any): Promise<CallToolInvocation[]> => {
+    try {
+      return await callToolRegistry.listInvocations(context.auth.user.organizationId, call.id);
+    } catch (error: any) {
+      logger.error('Failed to fetch call tool invocations', { error: error.message, callId: call.id });
+      throw new Error('Failed to fetch call tool invocations');
+    }
+  },
+
+  supervisorActions: async (
+    call: VoiceCall,
+    _: any,
+    context: any
+  ): Promise<CallSupervisorActionRecord[]> => {
+    try {
+      return await callSupervisor.listActions(context.auth.user.organizationId, call.id);
+    } catch (error: any) {
+      logger.error('Failed to fetch call supervisor actions', { error: error.message, callId: call.id });
+      throw new Error('Failed to fetch call supervisor actions');
+    }
+  },
+};
 
-      logger.info('Campaign cancelled', { campaignId });
+const InboxThreadResolvers = {
+  contact: async (thread: InboxThread, _: any, context: any): Promise<Contact | null> => {
+    const result = await db.queryWithContext<Contact>(
+      context.auth.user.organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [thread.contactId]
+    );
 
-      return result.rows[0];
+    return result.rows[0] || null;
+  },
+
+  messages: async (
+    thread: InboxThread,
+    { limit, before }: { limit?: number; before?: Date },
+    context: any
+  ): Promise<Activity[]> => {
+    try {
+      return await inboxManager.getMessages(
+        context.auth.user.organizationId,
+        thread.contactId,
+        limit || undefined,
+        before
+      );
     } catch (error: any) {
-      logger.error('Failed to cancel campaign', { error: error.message, campaignId });
-      throw new Error('Failed to cancel campaign');
+      logger.error('Failed to fetch thread messages', {
+        error: error.message,
+        contactId: thread.contactId,
+      });
+      throw new Error('Failed to fetch thread messages');
+    }
+  },
+};
+
+const SequenceEnrollmentResolvers = {
+  contact: async (
+    enrollment: SequenceEnrollment,
+    _: any,
+    context: any
+  ): Promise<Contact | null> => {
+    const result = await db.queryWithContext(
+      context.auth.user.organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [enrollment.contactId]
+    );
+
+    return result.rows[0] ? mapContact(result.rows[0]) : null;
+  },
+};
+
+const PipelineResolvers = {
+  stages: async (pipeline: Pipeline, _: any, context: any): Promise<PipelineStage[]> => {
+    try {
+      return await pipelineManager.getStages(context.auth.user.organizationId, pipeline.id);
+    } catch (error: any) {
+      logger.error('Failed to fetch pipeline stages', {
+        error: error.message,
+        pipelineId: pipeline.id,
+      });
+      throw new Error('Failed to fetch pipeline stages');
     }
   },
 };
@@ -1007,6 +2490,11 @@ const Mutation = {
 export const resolvers = {
   Query,
   Mutation,
+  Deal: DealResolvers,
+  Pipeline: PipelineResolvers,
+  VoiceCall: VoiceCallResolvers,
+  InboxThread: InboxThreadResolvers,
+  SequenceEnrollment: SequenceEnrollmentResolvers,
   DateTime: DateTimeScalar,
   JSON: JSONScalar,
 };
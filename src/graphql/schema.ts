@@ -97,6 +97,8 @@ export const typeDefs = gql`
     primaryContact: Contact
     amount: Float
     currency: String!
+    pipelineId: ID
+    pipeline: Pipeline
     stage: String!
     stageChangedAt: DateTime
     probability: Float
@@ -118,6 +120,48 @@ export const typeDefs = gql`
     createdAt: DateTime!
     updatedAt: DateTime!
     activities: [Activity!]
+    stageHistory: [DealStageHistory!]!
+  }
+
+  type Pipeline {
+    id: ID!
+    name: String!
+    description: String
+    isDefault: Boolean!
+    stages: [PipelineStage!]!
+    createdBy: ID
+    organizationId: ID!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type PipelineStage {
+    id: ID!
+    pipelineId: ID!
+    key: String!
+    name: String!
+    position: Int!
+    defaultProbability: Float
+    requiredFields: [String!]!
+    isWon: Boolean!
+    isLost: Boolean!
+    organizationId: ID!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type DealStageHistory {
+    id: ID!
+    dealId: ID!
+    fromStage: String
+    stage: String!
+    probability: Float
+    enteredAt: DateTime!
+    exitedAt: DateTime
+    durationSeconds: Int
+    changedBy: ID
+    organizationId: ID!
+    createdAt: DateTime!
   }
 
   type Activity {
@@ -204,6 +248,13 @@ export const typeDefs = gql`
     smsMessage: String
     voiceScript: String
     voiceAssistantConfig: JSON
+    voicemailConfig: VoicemailConfig
+    dialerConfig: DialerConfig
+    whatsappTemplate: WhatsAppTemplateConfig
+    variants: [CampaignVariant!]
+    abTestConfig: AbTestConfig
+    abWinnerVariantId: String
+    abWinnerSelectedAt: DateTime
     sentCount: Int!
     deliveredCount: Int!
     openedCount: Int!
@@ -213,6 +264,7 @@ export const typeDefs = gql`
     bouncedCount: Int!
     unsubscribedCount: Int!
     failedCount: Int!
+    voicemailCount: Int!
     openRate: Float
     clickRate: Float
     conversionRate: Float
@@ -226,11 +278,27 @@ export const typeDefs = gql`
     updatedAt: DateTime!
   }
 
+  type Segment {
+    id: ID!
+    name: String!
+    description: String
+    mode: SegmentMode!
+    filter: JSON!
+    contactCount: Int!
+    lastEvaluatedAt: DateTime
+    tags: [String!]
+    createdBy: ID
+    organizationId: ID!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
   type VoiceCall {
     id: ID!
     activityId: ID
     activity: Activity
     platform: VoicePlatform!
+    direction: Direction!
     externalCallId: String
     fromNumber: String!
     toNumber: String!
@@ -259,6 +327,249 @@ export const typeDefs = gql`
     costUsd: Float
     costBreakdown: JSON
     metadata: JSON
+    transfers: [VoiceCallTransfer!]!
+    toolInvocations: [CallToolInvocation!]!
+    supervisorActions: [CallSupervisorAction!]!
+    organizationId: ID!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type VoicemailConfig {
+    action: VoicemailAction!
+    message: String
+    audioUrl: String
+  }
+
+  type DialerConfig {
+    lines: Int!
+    maxAttempts: Int
+    retryDelayMinutes: Int
+    budgetUsd: Float
+  }
+
+  type WhatsAppMedia {
+    type: WhatsAppMediaType!
+    url: String!
+    caption: String
+    filename: String
+  }
+
+  type WhatsAppTemplateConfig {
+    name: String!
+    language: String!
+    variables: [String!]
+    headerMedia: WhatsAppMedia
+  }
+
+  # Alternative content for part of a campaign's audience; set fields replace
+  # the campaign's own
+  type CampaignVariant {
+    id: String!
+    name: String
+    weight: Float
+    emailSubject: String
+    emailBodyHtml: String
+    emailBodyText: String
+    smsMessage: String
+    voiceScript: String
+  }
+
+  type AbTestConfig {
+    testPercent: Int!
+    testWindowHours: Float!
+    winnerMetric: AbTestMetric!
+  }
+
+  # Open and click rates are per email sent, reply and conversion rates per
+  # contact reached; all are fractions from 0 to 1
+  type CampaignVariantMetrics {
+    variantId: String!
+    name: String
+    recipients: Int!
+    sent: Int!
+    delivered: Int!
+    failed: Int!
+    opened: Int!
+    clicked: Int!
+    replied: Int!
+    converted: Int!
+    openRate: Float!
+    clickRate: Float!
+    replyRate: Float!
+    conversionRate: Float!
+    isWinner: Boolean!
+  }
+
+  # The 24-hour window after a contact's last message, during which session
+  # (non-template) messages may be sent
+  type WhatsAppSession {
+    open: Boolean!
+    expiresAt: DateTime
+  }
+
+  # A contact's conversation across email, SMS, WhatsApp and calls. Assigned
+  # to the contact's owner unless reassigned; a snooze ends when it expires or
+  # the contact writes again. New inbound messages stream as inbox:message.
+  type InboxThread {
+    contactId: ID!
+    contact: Contact
+    lastActivityId: ID!
+    lastChannel: ActivityType!
+    lastDirection: Direction
+    lastPreview: String
+    lastMessageAt: DateTime!
+    lastInboundAt: DateTime!
+    unreadCount: Int!
+    assignedTo: ID
+    snoozedUntil: DateTime
+    # Oldest first; before pages back through older messages
+    messages(limit: Int, before: DateTime): [Activity!]!
+  }
+
+  # Queue state of a dialer campaign; also streamed as campaign:progress
+  type DialerProgress {
+    campaignId: ID!
+    status: CampaignStatus!
+    lines: Int!
+    pending: Int!
+    dialing: Int!
+    retrying: Int!
+    completed: Int!
+    voicemail: Int!
+    unreached: Int!
+    failed: Int!
+    totalCostUsd: Float!
+    budgetUsd: Float
+  }
+
+  # A contact's progress through a sequence campaign (workflowConfig.sequence).
+  # history lists what each step did: [{stepId, type, at, externalId,
+  # activityId, nextStepId, error}].
+  type SequenceEnrollment {
+    id: ID!
+    campaignId: ID!
+    contactId: ID!
+    contact: Contact
+    status: SequenceEnrollmentStatus!
+    currentStepId: String
+    nextRunAt: DateTime
+    history: JSON!
+    exitReason: SequenceExitReason
+    error: String
+    startedAt: DateTime!
+    completedAt: DateTime
+  }
+
+  type CallToolInvocation {
+    id: ID!
+    voiceCallId: ID!
+    toolName: String!
+    parameters: JSON!
+    result: JSON!
+    success: Boolean!
+    error: String
+    durationMs: Int
+    createdAt: DateTime!
+  }
+
+  # Audit entry for a supervisor action on a call; details holds the whisper
+  # message or the phoneNumber the call was connected to
+  type CallSupervisorAction {
+    id: ID!
+    voiceCallId: ID!
+    userId: ID!
+    action: SupervisorAction!
+    details: JSON!
+    success: Boolean!
+    error: String
+    createdAt: DateTime!
+  }
+
+  type VoiceSettings {
+    organizationId: ID!
+    defaultPlatform: VoicePlatform!
+    fromNumber: String
+    callingHoursStart: String!
+    callingHoursEnd: String!
+    callingDays: [Int!]!
+    defaultTimezone: String!
+    maxDailyAttempts: Int!
+    transferConfig: VoiceTransferConfig
+    updatedAt: DateTime
+  }
+
+  type VoiceTransferConfig {
+    enabled: Boolean!
+    targets: [TransferTarget!]!
+    onCallUserIds: [ID!]
+    hoursStart: String
+    hoursEnd: String
+    days: [Int!]
+    fallback: TransferFallback!
+    fallbackNumber: String
+  }
+
+  # A handoff from the assistant to a person; summary is what the rep heard
+  type VoiceCallTransfer {
+    reason: TransferReason!
+    summary: String!
+    target: String!
+    userId: ID
+    phoneNumber: String!
+    transferredAt: DateTime!
+  }
+
+  type DncNumber {
+    phoneNumber: String!
+    reason: String
+    source: String!
+    addedBy: ID
+    createdAt: DateTime!
+  }
+
+  type DncImportResult {
+    imported: Int!
+    duplicates: Int!
+    invalid: Int!
+  }
+
+  type CallComplianceEvent {
+    id: ID!
+    contactId: ID
+    toNumber: String!
+    reason: CallBlockReason!
+    message: String!
+    overridden: Boolean!
+    overrideReason: String
+    userId: ID
+    createdAt: DateTime!
+  }
+
+  type CallComplianceCheck {
+    allowed: Boolean!
+    reason: CallBlockReason
+    message: String
+  }
+
+  type VoiceNumber {
+    id: ID!
+    phoneNumber: String!
+    platform: VoicePlatform!
+    label: String
+    routingStrategy: VoiceRoutingStrategy!
+    roundRobinUserIds: [ID!]!
+    ringTimeoutSeconds: Int!
+    assistantConfig: JSON
+    organizationId: ID!
+    createdAt: DateTime!
+    updatedAt: DateTime!
+  }
+
+  type VoiceAgent {
+    userId: ID!
+    phoneNumber: String!
+    available: Boolean!
     organizationId: ID!
     createdAt: DateTime!
     updatedAt: DateTime!
@@ -401,12 +712,95 @@ export const typeDefs = gql`
     cancelled
   }
 
+  enum SequenceEnrollmentStatus {
+    active
+    completed
+    exited
+    failed
+    cancelled
+  }
+
+  enum SequenceExitReason {
+    replied
+    converted
+    unsubscribed
+  }
+
+  enum AbTestMetric {
+    open_rate
+    click_rate
+    reply_rate
+    conversion_rate
+  }
+
+  enum SegmentMode {
+    static
+    dynamic
+  }
+
   enum VoicePlatform {
     vapi
     twilio
     internal
   }
 
+  enum VoiceRoutingStrategy {
+    owner
+    round_robin
+    assistant
+  }
+
+  enum VoicemailAction {
+    message
+    hangup
+  }
+
+  enum WhatsAppMediaType {
+    image
+    video
+    audio
+    document
+  }
+
+  enum InboxFilter {
+    all
+    unread
+    mine
+    unassigned
+    snoozed
+  }
+
+  enum TransferTarget {
+    owner
+    on_call
+  }
+
+  enum TransferFallback {
+    assistant
+    number
+  }
+
+  enum TransferReason {
+    buying_signal
+    requested_human
+    other
+  }
+
+  enum SupervisorAction {
+    monitor
+    whisper
+    barge
+    transfer
+  }
+
+  enum CallBlockReason {
+    contact_do_not_call
+    contact_unsubscribed
+    dnc_list
+    outside_calling_hours
+    daily_attempt_limit
+  }
+
   enum VoiceCallStatus {
     initiated
     ringing
@@ -456,6 +850,169 @@ export const typeDefs = gql`
     customFields: JSON
   }
 
+  input CreateCompanyInput {
+    name: String!
+    domain: String
+    industry: String
+    size: String
+    revenueRange: String
+    employeeCount: Int
+    foundedYear: Int
+    description: String
+    website: String
+    phone: String
+    address: AddressInput
+    socialLinks: JSON
+    ownerId: ID
+    tags: [String!]
+    customFields: JSON
+  }
+
+  input UpdateCompanyInput {
+    name: String
+    domain: String
+    industry: String
+    size: String
+    revenueRange: String
+    employeeCount: Int
+    foundedYear: Int
+    description: String
+    website: String
+    phone: String
+    address: AddressInput
+    socialLinks: JSON
+    ownerId: ID
+    tags: [String!]
+    customFields: JSON
+  }
+
+  input CreateDealInput {
+    name: String!
+    companyId: ID
+    primaryContactId: ID
+    amount: Float
+    currency: String
+    pipelineId: ID
+    stage: String
+    probability: Float
+    expectedCloseDate: DateTime
+    dealType: DealType
+    mrr: Float
+    arr: Float
+    contractTermMonths: Int
+    productsSold: [JSON!]
+    ownerId: ID
+    tags: [String!]
+    customFields: JSON
+  }
+
+  input UpdateDealInput {
+    name: String
+    companyId: ID
+    primaryContactId: ID
+    amount: Float
+    currency: String
+    probability: Float
+    expectedCloseDate: DateTime
+    dealType: DealType
+    mrr: Float
+    arr: Float
+    contractTermMonths: Int
+    productsSold: [JSON!]
+    ownerId: ID
+    tags: [String!]
+    customFields: JSON
+  }
+
+  input PipelineStageInput {
+    key: String!
+    name: String!
+    defaultProbability: Float
+    requiredFields: [String!]
+    isWon: Boolean
+    isLost: Boolean
+  }
+
+  input UpdatePipelineStageInput {
+    name: String
+    defaultProbability: Float
+    requiredFields: [String!]
+    isWon: Boolean
+    isLost: Boolean
+  }
+
+  input CreatePipelineInput {
+    name: String!
+    description: String
+    isDefault: Boolean
+    stages: [PipelineStageInput!]!
+  }
+
+  input UpdatePipelineInput {
+    name: String
+    description: String
+    isDefault: Boolean
+  }
+
+  input LogActivityInput {
+    type: ActivityType!
+    subject: String
+    body: String
+    direction: Direction
+    contactId: ID
+    companyId: ID
+    dealId: ID
+    fromNumber: String
+    toNumber: String
+    durationSeconds: Int
+    callStatus: CallStatus
+    fromEmail: String
+    toEmails: [String!]
+    ccEmails: [String!]
+    bccEmails: [String!]
+    meetingStartTime: DateTime
+    meetingEndTime: DateTime
+    meetingLocation: String
+    meetingAttendees: [JSON!]
+    meetingUrl: String
+    taskStatus: TaskStatus
+    taskPriority: TaskPriority
+    taskDueDate: DateTime
+    externalId: String
+    metadata: JSON
+    tags: [String!]
+    assignedTo: ID
+  }
+
+  input UpdateActivityInput {
+    subject: String
+    body: String
+    direction: Direction
+    contactId: ID
+    companyId: ID
+    dealId: ID
+    fromNumber: String
+    toNumber: String
+    durationSeconds: Int
+    callStatus: CallStatus
+    fromEmail: String
+    toEmails: [String!]
+    ccEmails: [String!]
+    bccEmails: [String!]
+    meetingStartTime: DateTime
+    meetingEndTime: DateTime
+    meetingLocation: String
+    meetingAttendees: [JSON!]
+    meetingUrl: String
+    taskStatus: TaskStatus
+    taskPriority: TaskPriority
+    taskDueDate: DateTime
+    externalId: String
+    metadata: JSON
+    tags: [String!]
+    assignedTo: ID
+  }
+
   input ContactFilterInput {
     companyId: ID
     leadStatus: LeadStatus
@@ -475,12 +1032,188 @@ export const typeDefs = gql`
     voiceId: String
     model: String
     tools: [VoiceToolInput!]
+    platform: VoicePlatform
+    voicemail: VoicemailConfigInput
+    # Requires the voice:compliance:override permission
+    complianceOverride: Boolean
+    overrideReason: String
   }
 
+  input CreateVoiceNumberInput {
+    phoneNumber: String!
+    platform: VoicePlatform!
+    label: String
+    routingStrategy: VoiceRoutingStrategy
+    roundRobinUserIds: [ID!]
+    ringTimeoutSeconds: Int
+    assistantConfig: JSON
+  }
+
+  input UpdateVoiceNumberInput {
+    label: String
+    routingStrategy: VoiceRoutingStrategy
+    roundRobinUserIds: [ID!]
+    ringTimeoutSeconds: Int
+    assistantConfig: JSON
+  }
+
+  input SetVoiceAgentInput {
+    userId: ID!
+    phoneNumber: String!
+    available: Boolean
+  }
+
+  input UpdateVoiceSettingsInput {
+    defaultPlatform: VoicePlatform
+    fromNumber: String
+    callingHoursStart: String
+    callingHoursEnd: String
+    callingDays: [Int!]
+    defaultTimezone: String
+    maxDailyAttempts: Int
+    # null turns transfers off
+    transferConfig: VoiceTransferConfigInput
+  }
+
+  # Targets are tried in order (owner = the contact's owner, on_call = the
+  # first available of onCallUserIds). Hours are in the default timezone; outside
+  # them or with nobody available, fallback keeps the assistant on the call or
+  # sends it to fallbackNumber.
+  input VoiceTransferConfigInput {
+    enabled: Boolean!
+    targets: [TransferTarget!]!
+    onCallUserIds: [ID!]
+    hoursStart: String
+    hoursEnd: String
+    days: [Int!]
+    fallback: TransferFallback!
+    fallbackNumber: String
+  }
+
+  # message is spoken with TTS (merge fields allowed in campaigns); audioUrl
+  # plays a recording instead (Twilio only)
+  input VoicemailConfigInput {
+    action: VoicemailAction!
+    message: String
+    audioUrl: String
+  }
+
+  # Runs a voice-outbound campaign as a power dialer: up to lines concurrent
+  # calls, busy/no-answer numbers redialed every retryDelayMinutes (default 30)
+  # up to maxAttempts tries (default 3), paused once call cost reaches budgetUsd
+  input DialerConfigInput {
+    lines: Int!
+    maxAttempts: Int
+    retryDelayMinutes: Int
+    budgetUsd: Float
+  }
+
+  input WhatsAppMediaInput {
+    type: WhatsAppMediaType!
+    url: String!
+    caption: String
+    filename: String
+  }
+
+  # An approved template; variables fill its {{1}}, {{2}}, ... body parameters
+  # in order and may use merge fields such as {{firstName}}
+  input WhatsAppTemplateConfigInput {
+    name: String!
+    language: String!
+    variables: [String!]
+    headerMedia: WhatsAppMediaInput
+  }
+
+  # weight is the variant's relative share of the test audience (default 1)
+  input CampaignVariantInput {
+    id: String!
+    name: String
+    weight: Float
+    emailSubject: String
+    emailBodyHtml: String
+    emailBodyText: String
+    smsMessage: String
+    voiceScript: String
+  }
+
+  # testPercent of the audience is split across the variants at launch; after
+  # testWindowHours the variant with the best winnerMetric is sent to the rest
+  input AbTestConfigInput {
+    testPercent: Int!
+    testWindowHours: Float!
+    winnerMetric: AbTestMetric!
+  }
+
+  # A name alone selects a built-in CRM tool (schedule_follow_up, book_meeting,
+  # update_lead_status, lookup_deal, opt_out, transfer_to_human)
   input VoiceToolInput {
     name: String!
-    description: String!
-    parameters: JSON!
+    description: String
+    parameters: JSON
+  }
+
+  input CreateCampaignInput {
+    name: String!
+    description: String
+    type: CampaignType!
+    workflowGoal: String
+    workflowConfig: JSON
+    targetSegmentId: ID
+    emailSubject: String
+    emailBodyHtml: String
+    emailBodyText: String
+    emailFromName: String
+    emailFromEmail: String
+    emailReplyTo: String
+    smsMessage: String
+    voiceScript: String
+    voiceAssistantConfig: JSON
+    voicemailConfig: VoicemailConfigInput
+    dialerConfig: DialerConfigInput
+    whatsappTemplate: WhatsAppTemplateConfigInput
+    variants: [CampaignVariantInput!]
+    abTestConfig: AbTestConfigInput
+    tags: [String!]
+    customFields: JSON
+  }
+
+  input UpdateCampaignInput {
+    name: String
+    description: String
+    workflowGoal: String
+    workflowConfig: JSON
+    targetSegmentId: ID
+    emailSubject: String
+    emailBodyHtml: String
+    emailBodyText: String
+    emailFromName: String
+    emailFromEmail: String
+    emailReplyTo: String
+    smsMessage: String
+    voiceScript: String
+    voiceAssistantConfig: JSON
+    voicemailConfig: VoicemailConfigInput
+    dialerConfig: DialerConfigInput
+    whatsappTemplate: WhatsAppTemplateConfigInput
+    variants: [CampaignVariantInput!]
+    abTestConfig: AbTestConfigInput
+    tags: [String!]
+    customFields: JSON
+  }
+
+  input CreateSegmentInput {
+    name: String!
+    description: String
+    mode: SegmentMode
+    filter: JSON!
+    tags: [String!]
+  }
+
+  input UpdateSegmentInput {
+    name: String
+    description: String
+    filter: JSON
+    tags: [String!]
   }
 
   input LaunchCampaignInput {
@@ -525,7 +1258,11 @@ export const typeDefs = gql`
 
     # Deal queries
     deal(id: ID!): Deal
-    deals(stage: String, ownerId: ID, limit: Int, offset: Int): [Deal!]!
+    deals(stage: String, pipelineId: ID, ownerId: ID, limit: Int, offset: Int): [Deal!]!
+
+    # Pipeline queries
+    pipeline(id: ID!): Pipeline
+    pipelines: [Pipeline!]!
 
     # Activity queries
     activity(id: ID!): Activity
@@ -537,14 +1274,45 @@ export const typeDefs = gql`
       limit: Int
       offset: Int
     ): [Activity!]!
+    whatsappSession(contactId: ID!): WhatsAppSession!
+
+    # Inbox queries
+    inbox(filter: InboxFilter, channel: ActivityType, limit: Int, offset: Int): [InboxThread!]!
+    inboxThread(contactId: ID!): InboxThread
+    inboxUnreadCount: Int!
+
+    # Segment queries
+    segment(id: ID!): Segment
+    segments: [Segment!]!
+    previewSegment(id: ID, filter: JSON, limit: Int): [Contact!]!
+    segmentSize(id: ID, filter: JSON): Int!
 
     # Campaign queries
     campaign(id: ID!): Campaign
     campaigns(status: CampaignStatus, limit: Int, offset: Int): [Campaign!]!
+    campaignDialerProgress(campaignId: ID!): DialerProgress!
+    campaignVariantMetrics(campaignId: ID!): [CampaignVariantMetrics!]!
+    sequenceEnrollments(
+      campaignId: ID!
+      status: SequenceEnrollmentStatus
+      limit: Int
+      offset: Int
+    ): [SequenceEnrollment!]!
 
     # Voice call queries
     voiceCall(id: ID!): VoiceCall
     voiceCalls(status: VoiceCallStatus, limit: Int, offset: Int): [VoiceCall!]!
+    voiceSettings: VoiceSettings!
+    voiceNumbers: [VoiceNumber!]!
+    voiceAgents: [VoiceAgent!]!
+    callComplianceCheck(toNumber: String!, contactId: ID): CallComplianceCheck!
+    callComplianceEvents(
+      contactId: ID
+      reason: CallBlockReason
+      limit: Int
+      offset: Int
+    ): [CallComplianceEvent!]!
+    dncNumbers(search: String, limit: Int, offset: Int): [DncNumber!]!
 
     # Health check
     health: HealthStatus!
@@ -581,11 +1349,82 @@ export const typeDefs = gql`
     deleteContact(id: ID!): Boolean!
     enrichContact(id: ID!): Contact!
 
+    # Company mutations
+    createCompany(input: CreateCompanyInput!): Company!
+    updateCompany(id: ID!, input: UpdateCompanyInput!): Company!
+    deleteCompany(id: ID!): Boolean!
+    enrichCompany(id: ID!): Company!
+
+    # Deal mutations
+    createDeal(input: CreateDealInput!): Deal!
+    updateDeal(id: ID!, input: UpdateDealInput!): Deal!
+    moveDealStage(id: ID!, stage: String!, probability: Float): Deal!
+    closeDealWon(id: ID!, closeReason: String, actualCloseDate: DateTime): Deal!
+    closeDealLost(
+      id: ID!
+      lostReason: String!
+      lostToCompetitor: String
+      actualCloseDate: DateTime
+    ): Deal!
+
+    # Pipeline mutations
+    createPipeline(input: CreatePipelineInput!): Pipeline!
+    updatePipeline(id: ID!, input: UpdatePipelineInput!): Pipeline!
+    deletePipeline(id: ID!): Boolean!
+    addPipelineStage(pipelineId: ID!, input: PipelineStageInput!): PipelineStage!
+    updatePipelineStage(id: ID!, input: UpdatePipelineStageInput!): PipelineStage!
+    removePipelineStage(id: ID!): Boolean!
+    reorderPipelineStages(pipelineId: ID!, stageIds: [ID!]!): [PipelineStage!]!
+
+    # Activity mutations
+    logActivity(input: LogActivityInput!): Activity!
+    updateActivity(id: ID!, input: UpdateActivityInput!): Activity!
+    completeTask(id: ID!): Activity!
+    deleteActivity(id: ID!): Boolean!
+    # Text a contact; replies arrive as inbound sms activities
+    sendSms(contactId: ID!, body: String!): Activity!
+    # Session messages need an open WhatsAppSession; templates can be sent any time
+    sendWhatsappMessage(contactId: ID!, text: String, media: WhatsAppMediaInput): Activity!
+    sendWhatsappTemplate(contactId: ID!, template: WhatsAppTemplateConfigInput!): Activity!
+
+    # Inbox mutations
+    markThreadRead(contactId: ID!): InboxThread!
+    markThreadUnread(contactId: ID!): InboxThread!
+    # A null userId hands the thread back to the contact's owner
+    assignThread(contactId: ID!, userId: ID): InboxThread!
+    snoozeThread(contactId: ID!, until: DateTime!): InboxThread!
+    unsnoozeThread(contactId: ID!): InboxThread!
+    # Replies on the channel of the contact's latest inbound message
+    replyInThread(contactId: ID!, body: String!): Activity!
+
+    # Segment mutations
+    createSegment(input: CreateSegmentInput!): Segment!
+    updateSegment(id: ID!, input: UpdateSegmentInput!): Segment!
+    deleteSegment(id: ID!): Boolean!
+    refreshSegment(id: ID!): Segment!
+
     # Voice calling mutations
     makeCall(input: MakeCallInput!): CallResult!
     cancelCall(callId: ID!): Boolean!
+    # Supervisor actions on a live call (monitoring is a socket event, call:monitor)
+    whisperToCall(callId: ID!, message: String!): CallSupervisorAction!
+    bargeIntoCall(callId: ID!, phoneNumber: String): CallSupervisorAction!
+    transferCall(callId: ID!, userId: ID, phoneNumber: String): CallSupervisorAction!
+    updateVoiceSettings(input: UpdateVoiceSettingsInput!): VoiceSettings!
+    createVoiceNumber(input: CreateVoiceNumberInput!): VoiceNumber!
+    updateVoiceNumber(id: ID!, input: UpdateVoiceNumberInput!): VoiceNumber!
+    deleteVoiceNumber(id: ID!): Boolean!
+    setVoiceAgent(input: SetVoiceAgentInput!): VoiceAgent!
+    removeVoiceAgent(userId: ID!): Boolean!
+    addDncNumber(phoneNumber: String!, reason: String): DncNumber!
+    removeDncNumber(phoneNumber: String!): Boolean!
+    importDncNumbers(csv: String!): DncImportResult!
 
     # Campaign mutations
+    createCampaign(input: CreateCampaignInput!): Campaign!
+    updateCampaign(id: ID!, input: UpdateCampaignInput!): Campaign!
+    cloneCampaign(id: ID!, name: String): Campaign!
+    scheduleCampaign(id: ID!, scheduledAt: DateTime!): Campaign!
     launchCampaign(input: LaunchCampaignInput!): CampaignLaunchResult!
     pauseCampaign(campaignId: ID!): Campaign!
     resumeCampaign(campaignId: ID!): Campaign!
@@ -602,6 +1441,8 @@ export const typeDefs = gql`
     campaignId: ID!
     jobsCreated: Int!
     jobs: [ID!]!
+    # Sequence campaigns enroll contacts instead of creating send jobs
+    enrollmentsCreated: Int
   }
 `;
 
@@ -0,0 +1,379 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { INBOX_CHANNELS, mapActivity } from '../activities';
+import { emailService } from '../email';
+import { smsService } from '../sms';
+import { whatsappService } from '../whatsapp';
+import { Activity, InboxChannel, InboxFilter, InboxThread } from '../types';
+
+/**
+ * Inbox Manager
+ *
+ * One conversation thread per contact over the activity stream:
+ * - Email, SMS and WhatsApp messages in both directions, plus calls (with
+ *   their AI summaries)
+ * - A contact gets a thread once they write or call in; outbound-only
+ *   campaign sends stay out of the inbox
+ * - Unread counts, assignment (the contact's owner by default) and snoozing,
+ *   kept in inbox_threads
+ * - Replies go out on the channel of the contact's latest inbound message
+ *
+ * New inbound messages are pushed as `inbox:message` by the ActivityManager.
+ * Inbound email reaches the activity stream through SendGrid Inbound Parse
+ * (see email/webhook-handler).
+ */
+
+// Channels a reply can be sent on; calls are answered by calling back
+const REPLY_CHANNELS: InboxChannel[] = ['email', 'sms', 'whatsapp'];
+
+const DEFAULT_THREAD_LIMIT = 50;
+const MAX_THREAD_LIMIT = 200;
+
+const DEFAULT_MESSAGE_LIMIT = 50;
+
+// Filter -> condition on the threads CTE; `mine` compares against the
+// current user, passed as the last parameter
+const FILTER_CONDITIONS: Record<InboxFilter, string> = {
+  all: `"snoozedUntil" IS NULL`,
+  unread: `"snoozedUntil" IS NULL AND "unreadCount" > 0`,
+  mine: `"snoozedUntil" IS NULL AND "assignedTo" = $USER`,
+  unassigned: `"snoozedUntil" IS NULL AND "assignedTo" IS NULL`,
+  snoozed: `"snoozedUntil" IS NOT NULL`,
+};
+
+export interface InboxQuery {
+  filter?: InboxFilter;
+  channel?: InboxChannel;
+  limit?: number;
+  offset?: number;
+}
+
+export class InboxManager {
+  /**
+   * List threads, most recent message first
+   */
+  async listThreads(
+    organizationId: string,
+    userId: string,
+    query: InboxQuery = {}
+  ): Promise<InboxThread[]> {
+    const filter = query.filter || 'all';
+
+    if (!FILTER_CONDITIONS[filter]) {
+      throw new Error(`Unknown inbox filter: ${filter}`);
+    }
+    if (query.channel && !INBOX_CHANNELS.includes(query.channel)) {
+      throw new Error(`Unknown inbox channel: ${query.channel}`);
+    }
+
+    const limit = Math.min(Math.max(query.limit || DEFAULT_THREAD_LIMIT, 1), MAX_THREAD_LIMIT);
+    const params: any[] = [INBOX_CHANNELS, query.channel || null, limit, query.offset || 0];
+    let condition = FILTER_CONDITIONS[filter];
+
+    if (filter === 'mine') {
+      params.push(userId);
+      condition = condition.replace('$USER', `$${params.length}`);
+    }
+
+    const result = await db.queryWithContext<InboxThread>(
+      organizationId,
+      `
+        ${this.threadsSql()}
+        SELECT * FROM threads
+        WHERE ${condition}
+        ORDER BY "lastMessageAt" DESC
+        LIMIT $3 OFFSET $4
+      `,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a contact's thread; null until the contact has written or called in
+   */
+  async getThread(organizationId: string, contactId: string): Promise<InboxThread | null> {
+    const result = await db.queryWithContext<InboxThread>(
+      organizationId,
+      `
+        ${this.threadsSql('AND a.contact_id = $3')}
+        SELECT * FROM threads
+      `,
+      [INBOX_CHANNELS, null, contactId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Threads with unread messages, excluding snoozed ones
+   */
+  async countUnread(organizationId: string): Promise<number> {
+    const result = await db.queryWithContext<{ count: number }>(
+      organizationId,
+      `
+        ${this.threadsSql()}
+        SELECT COUNT(*)::int AS count FROM threads
+        WHERE ${FILTER_CONDITIONS.unread}
+      `,
+      [INBOX_CHANNELS, null]
+    );
+
+    return result.rows[0]?.count || 0;
+  }
+
+  /**
+   * A thread's messages, oldest first
+   *
+   * `before` pages back through older messages.
+   */
+  async getMessages(
+    organizationId: string,
+    contactId: string,
+    limit: number = DEFAULT_MESSAGE_LIMIT,
+    before?: Date
+  ): Promise<Activity[]> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT * FROM nexuscrm.activities
+        WHERE contact_id = $1 AND type = ANY($2) AND deleted_at IS NULL
+          AND ($3::timestamptz IS NULL OR created_at < $3)
+        ORDER BY created_at DESC
+        LIMIT $4
+      `,
+      [contactId, INBOX_CHANNELS, before || null, Math.min(Math.max(limit, 1), MAX_THREAD_LIMIT)]
+    );
+
+    return result.rows.map(mapActivity).reverse();
+  }
+
+  /**
+   * Mark everything in a thread as read
+   */
+  async markRead(organizationId: string, contactId: string): Promise<InboxThread> {
+    await this.updateState(organizationId, contactId, 'last_read_at = CURRENT_TIMESTAMP');
+    return this.requireThread(organizationId, contactId);
+  }
+
+  /**
+   * Mark a thread's latest inbound message as unread again
+   */
+  async markUnread(organizationId: string, contactId: string): Promise<InboxThread> {
+    const thread = await this.requireThread(organizationId, contactId);
+
+    await this.updateState(organizationId, contactId, `last_read_at = $3::timestamptz - interval '1 millisecond'`, [
+      thread.lastInboundAt,
+    ]);
+
+    return this.requireThread(organizationId, contactId);
+  }
+
+  /**
+   * Assign a thread to a user; null hands it back to the contact's owner
+   */
+  async assign(organizationId: string, contactId: string, userId: string | null): Promise<InboxThread> {
+    await this.requireThread(organizationId, contactId);
+    await this.updateState(organizationId, contactId, 'assigned_to = $3', [userId]);
+
+    logger.info('Inbox thread assigned', { contactId, userId });
+
+    return this.requireThread(organizationId, contactId);
+  }
+
+  /**
+   * Hide a thread until a time, or until the contact writes again
+   */
+  async snooze(organizationId: string, contactId: string, until: Date): Promise<InboxThread> {
+    if (!(new Date(until).getTime() > Date.now())) {
+      throw new Error('Snooze time must be in the future');
+    }
+
+    await this.requireThread(organizationId, contactId);
+    await this.updateState(
+      organizationId,
+      contactId,
+      'snoozed_until = $3, snoozed_at = CURRENT_TIMESTAMP',
+      [until]
+    );
+
+    return this.requireThread(organizationId, contactId);
+  }
+
+  async unsnooze(organizationId: string, contactId: string): Promise<InboxThread> {
+    await this.updateState(organizationId, contactId, 'snoozed_until = NULL, snoozed_at = NULL');
+    return this.requireThread(organizationId, contactId);
+  }
+
+  /**
+   * Reply on the channel of the contact's latest inbound message
+   *
+   * Replying marks the thread read.
+   */
+  async replyInThread(
+    organizationId: string,
+    userId: string,
+    contactId: string,
+    body: string
+  ): Promise<Activity> {
+    if (!body.trim()) {
+      throw new Error('Reply body is required');
+    }
+
+    const original = await this.latestInbound(organizationId, contactId);
+
+    if (!original) {
+      throw new Error('Thread has no inbound message to reply to; call the contact back instead');
+    }
+
+    let reply: Activity;
+
+    switch (original.type) {
+      case 'email':
+        reply = await emailService.sendReply(organizationId, userId, original, body);
+        break;
+
+      case 'sms':
+        reply = await smsService.sendToContact(organizationId, userId, contactId, body);
+        break;
+
+      case 'whatsapp':
+        reply = await whatsappService.sendSessionMessage(organizationId, userId, contactId, { text: body });
+        break;
+
+      default:
+        throw new Error(`Cannot reply on ${original.type}`);
+    }
+
+    await this.updateState(organizationId, contactId, 'last_read_at = CURRENT_TIMESTAMP');
+
+    logger.info('Inbox reply sent', { contactId, channel: original.type, activityId: reply.id });
+
+    return reply;
+  }
+
+  /**
+   * Threads CTE over the activity stream
+   *
+   * Parameters: $1 inbox channels, $2 channel (or null for all); `scope`
+   * narrows the inbound messages considered (e.g. to one contact).
+   */
+  private threadsSql(scope: string = ''): string {
+    return `
+      WITH inbound AS (
+        SELECT
+          a.contact_id,
+          MAX(a.created_at) AS last_inbound_at
+        FROM nexuscrm.activities a
+        WHERE a.direction = 'inbound' AND a.type = ANY($1) AND a.deleted_at IS NULL
+          AND a.contact_id IS NOT NULL ${scope}
+        GROUP BY a.contact_id
+        HAVING $2::text IS NULL OR bool_or(a.type = $2::text)
+      ),
+      threads AS (
+        SELECT
+          i.contact_id AS "contactId",
+          last.id AS "lastActivityId",
+          last.type AS "lastChannel",
+          last.direction AS "lastDirection",
+          COALESCE(last.ai_summary, last.body, last.subject) AS "lastPreview",
+          last.created_at AS "lastMessageAt",
+          i.last_inbound_at AS "lastInboundAt",
+          (
+            SELECT COUNT(*)::int FROM nexuscrm.activities u
+            WHERE u.contact_id = i.contact_id AND u.direction = 'inbound'
+              AND u.type = ANY($1) AND u.deleted_at IS NULL
+              AND u.created_at > COALESCE(t.last_read_at, '-infinity'::timestamptz)
+          ) AS "unreadCount",
+          COALESCE(t.assigned_to, c.owner_id) AS "assignedTo",
+          CASE
+            WHEN t.snoozed_until > CURRENT_TIMESTAMP AND i.last_inbound_at <= t.snoozed_at
+            THEN t.snoozed_until
+          END AS "snoozedUntil"
+        FROM inbound i
+        JOIN nexuscrm.contacts c ON c.id = i.contact_id AND c.deleted_at IS NULL
+        LEFT JOIN nexuscrm.inbox_threads t ON t.contact_id = i.contact_id
+        CROSS JOIN LATERAL (
+          SELECT id, type, direction, body, subject, ai_summary, created_at
+          FROM nexuscrm.activities a
+          WHERE a.contact_id = i.contact_id AND a.type = ANY($1) AND a.deleted_at IS NULL
+          ORDER BY a.created_at DESC
+          LIMIT 1
+        ) last
+      )
+    `;
+  }
+
+  private async latestInbound(
+    organizationId: string,
+    contactId: string
+  ): Promise<(Activity & { type: InboxChannel }) | null> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT
+          id,
+          type,
+          subject,
+          contact_id AS "contactId",
+          company_id AS "companyId",
+          from_email AS "fromEmail",
+          to_emails AS "toEmails",
+          external_id AS "externalId"
+        FROM nexuscrm.activities
+        WHERE contact_id = $1 AND direction = 'inbound' AND type = ANY($2) AND deleted_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1
+      `,
+      [contactId, REPLY_CHANNELS]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Apply an assignment to the contact's inbox_threads row, creating it if needed
+   */
+  private async updateState(
+    organizationId: string,
+    contactId: string,
+    assignments: string,
+    params: any[] = []
+  ): Promise<void> {
+    await db.queryWithContext(
+      organizationId,
+      `
+        INSERT INTO nexuscrm.inbox_threads (organization_id, contact_id)
+        VALUES ($1, $2)
+        ON CONFLICT (organization_id, contact_id) DO UPDATE SET updated_at = CURRENT_TIMESTAMP
+      `,
+      [organizationId, contactId]
+    );
+
+    await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.inbox_threads
+        SET ${assignments}, updated_at = CURRENT_TIMESTAMP
+        WHERE organization_id = $1 AND contact_id = $2
+      `,
+      [organizationId, contactId, ...params]
+    );
+  }
+
+  private async requireThread(organizationId: string, contactId: string): Promise<InboxThread> {
+    const thread = await this.getThread(organizationId, contactId);
+
+    if (!thread) {
+      throw new Error('Inbox thread not found');
+    }
+
+    return thread;
+  }
+}
+
+// Export singleton instance
+export const inboxManager = new InboxManager();
+
+export default inboxManager;
@@ -0,0 +1,13 @@
+/**
+ * Inbox Module
+ *
+ * A unified inbox over the activity stream:
+ * - One conversation thread per contact across email, SMS, WhatsApp and calls
+ * - Unread, assigned and snoozed state per thread
+ * - Replies sent on the channel the contact last wrote in on
+ *
+ * Components:
+ * - InboxManager: Thread listing, thread state and replies
+ */
+
+export { inboxManager, InboxManager, InboxQuery } from './inbox-manager';
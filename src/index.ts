@@ -9,6 +9,8 @@ import { createApolloServer } from './graphql/server';
 import { healthCheckAll } from './clients';
 import { initializeWebSocketManager } from './websocket/manager';
 import { usageTrackingMiddleware, flushPendingReports } from './middleware/usage-tracking';
+import { jobQueue } from './queue';
+import { registerProcessors } from './queue/processors';
 
 /**
  * NexusCRM Service
@@ -25,6 +27,7 @@ import { usageTrackingMiddleware, flushPendingReports } from './middleware/usage
  * - Apollo GraphQL server
  * - Socket.IO WebSocket server (port 9126)
  * - PostgreSQL (shared GraphRAG database)
+ * - Redis job queue (processed by src/worker.ts)
  */
 
 async function startServer() {
@@ -74,6 +77,17 @@ async function startServer() {
       logger.info('All Nexus services are healthy');
     }
 
+    // ========================================================================
+    // Background Jobs
+    // ========================================================================
+
+    // The in-memory driver only sees jobs queued by this process, so it must
+    // run them here; with Redis, jobs normally run in src/worker.ts
+    if (config.queue.driver === 'memory' || config.queue.inlineWorker) {
+      registerProcessors(jobQueue);
+      jobQueue.start();
+    }
+
     // ========================================================================
     // Initialize Express Application
     // ========================================================================
@@ -88,8 +102,15 @@ async function startServer() {
       })
     );
 
-    // Body parser middleware
-    app.use(express.json({ limit: '10mb' }));
+    // Body parser middleware (raw bytes are kept for webhook signature checks)
+    app.use(
+      express.json({
+        limit: '10mb',
+        verify: (req, _res, buf) => {
+          (req as any).rawBody = buf;
+        },
+      })
+    );
     app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
     // Usage tracking middleware
@@ -160,8 +181,83 @@ async function startServer() {
 
     app.post('/webhooks/vapi', verifyWebhookMiddleware, handleVapiWebhook);
 
+    // Twilio voice status, recording and answering machine callbacks, and inbound calls
+    const {
+      verifyTwilioMiddleware,
+      handleTwilioWebhook,
+      handleTwilioAmd,
+      handleTwilioInboundCall,
+      handleTwilioDialFallback,
+      handleTwilioTransferSummary,
+    } = await import('./voice/twilio-webhook-handler');
+
+    app.post('/webhooks/twilio', verifyTwilioMiddleware, handleTwilioWebhook);
+    app.post('/webhooks/twilio/amd', verifyTwilioMiddleware, handleTwilioAmd);
+    app.post('/webhooks/twilio/voice', verifyTwilioMiddleware, handleTwilioInboundCall);
+    app.post('/webhooks/twilio/voice/fallback', verifyTwilioMiddleware, handleTwilioDialFallback);
+    app.post('/webhooks/twilio/transfer-summary', verifyTwilioMiddleware, handleTwilioTransferSummary);
+
+    // SMS replies and delivery receipts (same Twilio account and signature)
+    const { handleTwilioInboundSms, handleTwilioSmsStatus } = await import('./sms/webhook-handler');
+
+    app.post('/webhooks/twilio/sms', verifyTwilioMiddleware, handleTwilioInboundSms);
+    app.post('/webhooks/twilio/sms/status', verifyTwilioMiddleware, handleTwilioSmsStatus);
+
+    // Email unsubscribe confirmation page (GET) and unsubscribe (POST, incl. one-click)
+    const { showUnsubscribePage, handleUnsubscribe } = await import('./email/unsubscribe');
+
+    app.get('/email/unsubscribe', showUnsubscribePage);
+    app.post('/email/unsubscribe', handleUnsubscribe);
+
+    // Email delivery events (opens, clicks, bounces, complaints)
+    const {
+      verifySendGridMiddleware,
+      handleSendGridWebhook,
+      verifySesMiddleware,
+      handleSesWebhook,
+      verifySendGridInboundMiddleware,
+      handleSendGridInboundParse,
+    } = await import('./email/webhook-handler');
+
+    app.post('/webhooks/sendgrid', verifySendGridMiddleware, handleSendGridWebhook);
+    // SNS posts JSON with a text/plain content type
+    app.post(
+      '/webhooks/ses',
+      express.text({ type: '*/*', limit: '1mb' }),
+      verifySesMiddleware,
+      handleSesWebhook
+    );
+    // Contact replies (SendGrid Inbound Parse posts multipart forms)
+    app.post(
+      '/webhooks/sendgrid/inbound',
+      verifySendGridInboundMiddleware,
+      express.raw({ type: 'multipart/form-data', limit: '30mb' }),
+      handleSendGridInboundParse
+    );
+
+    // WhatsApp Cloud API subscription handshake, status updates and incoming messages
+    const {
+      verifyWhatsAppMiddleware,
+      handleWhatsAppVerification,
+      handleWhatsAppWebhook,
+    } = await import('./whatsapp/webhook-handler');
+
+    app.get('/webhooks/whatsapp', handleWhatsAppVerification);
+    app.post('/webhooks/whatsapp', verifyWhatsAppMiddleware, handleWhatsAppWebhook);
+
     logger.info('Webhook endpoints registered', {
       vapi: '/webhooks/vapi',
+      twilio: '/webhooks/twilio',
+      twilioAmd: '/webhooks/twilio/amd',
+      twilioInbound: '/webhooks/twilio/voice',
+      twilioTransferSummary: '/webhooks/twilio/transfer-summary',
+      twilioSms: '/webhooks/twilio/sms',
+      twilioSmsStatus: '/webhooks/twilio/sms/status',
+      sendgrid: '/webhooks/sendgrid',
+      sendgridInbound: '/webhooks/sendgrid/inbound',
+      ses: '/webhooks/ses',
+      whatsapp: '/webhooks/whatsapp',
+      unsubscribe: '/email/unsubscribe',
     });
 
     // ========================================================================
@@ -245,6 +341,8 @@ async function startServer() {
       }
     });
 
+    const { callSupervisor } = await import('./voice/call-supervisor');
+
     // WebSocket connection handler
     io.on('connection', (socket) => {
       const auth = (socket as any).auth;
@@ -269,6 +367,30 @@ async function startServer() {
         }
       });
 
+      // Supervisor monitoring: join a live call's room for its transcript and
+      // status. The ack callback gets { ok, externalCallId } or { ok, error }.
+      socket.on('call:monitor', async (data, ack) => {
+        try {
+          const call = await callSupervisor.monitor(auth.user, data?.callId);
+          socket.join(`call:${call.externalCallId}`);
+
+          if (typeof ack === 'function') {
+            ack({ ok: true, callId: call.id, externalCallId: call.externalCallId, status: call.status });
+          }
+        } catch (error: any) {
+          logger.debug('Call monitor refused', { callId: data?.callId, error: error.message });
+          if (typeof ack === 'function') {
+            ack({ ok: false, error: error.message });
+          }
+        }
+      });
+
+      socket.on('call:unmonitor', (data) => {
+        if (data?.externalCallId) {
+          socket.leave(`call:${data.externalCallId}`);
+        }
+      });
+
       // Handle campaign events
       socket.on('campaign:progress', (data) => {
         logger.debug('Campaign progress update', {
@@ -337,6 +459,9 @@ async function startServer() {
       await flushPendingReports();
       logger.info('Usage reports flushed');
 
+      // Let in-flight background jobs finish and close the queue connection
+      await jobQueue.stop();
+
       // Stop accepting new connections
       httpServer.close(() => {
         logger.info('HTTP server closed');
@@ -0,0 +1,22 @@
+/**
+ * Sales Pipelines Module
+ *
+ * Per-organization pipelines with ordered stage definitions:
+ * - Default probabilities and required fields per stage
+ * - Won/lost terminal stages
+ * - Stage transition validation for deals
+ *
+ * Components:
+ * - PipelineManager: Pipeline/stage CRUD and transition checks
+ */
+
+export {
+  pipelineManager,
+  PipelineManager,
+  LEGACY_DEFAULT_STAGE,
+  LEGACY_WON_STAGE,
+  LEGACY_LOST_STAGE,
+  DEAL_REQUIRABLE_FIELDS,
+  StageTarget,
+  ResolvedStage,
+} from './pipeline-manager';
@@ -0,0 +1,630 @@
+import { PoolClient } from 'pg';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import {
+  Deal,
+  Pipeline,
+  PipelineStage,
+  PipelineStageInput,
+  UpdatePipelineStageInput,
+  CreatePipelineInput,
+  UpdatePipelineInput,
+} from '../types';
+
+/**
+ * Pipeline Manager
+ *
+ * Manages per-organization sales pipelines and their ordered stages:
+ * - Creates and edits pipelines and stage definitions
+ * - Resolves the default pipeline for new deals
+ * - Validates deal stage transitions against the pipeline definition
+ *   (stage exists, deal not already closed, required fields present)
+ *
+ * Deals created before pipelines existed have no pipeline_id; their stage
+ * stays free-form and transitions are not validated.
+ */
+
+// Stage keys used for deals that do not belong to a pipeline
+export const LEGACY_DEFAULT_STAGE = 'prospecting';
+export const LEGACY_WON_STAGE = 'closed-won';
+export const LEGACY_LOST_STAGE = 'closed-lost';
+
+// Deal fields a stage may require before a deal can enter it
+export const DEAL_REQUIRABLE_FIELDS = [
+  'amount',
+  'currency',
+  'companyId',
+  'primaryContactId',
+  'ownerId',
+  'expectedCloseDate',
+  'actualCloseDate',
+  'dealType',
+  'mrr',
+  'arr',
+  'contractTermMonths',
+  'productsSold',
+  'closeReason',
+  'lostReason',
+  'lostToCompetitor',
+];
+
+const PIPELINE_COLUMNS = `
+  id,
+  name,
+  description,
+  is_default AS "isDefault",
+  created_by AS "createdBy",
+  organization_id AS "organizationId",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt",
+  deleted_at AS "deletedAt"
+`;
+
+// default_probability is NUMERIC, which pg returns as a string
+const STAGE_COLUMNS = `
+  id,
+  pipeline_id AS "pipelineId",
+  key,
+  name,
+  position,
+  default_probability::float AS "defaultProbability",
+  required_fields AS "requiredFields",
+  is_won AS "isWon",
+  is_lost AS "isLost",
+  organization_id AS "organizationId",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+export interface StageTarget {
+  stage?: string;
+  outcome?: 'won' | 'lost';
+}
+
+export interface ResolvedStage {
+  stage: string;
+  definition: PipelineStage | null;
+}
+
+export class PipelineManager {
+  /**
+   * List pipelines for an organization, default pipeline first
+   */
+  async listPipelines(organizationId: string): Promise<Pipeline[]> {
+    const result = await db.queryWithContext<Pipeline>(
+      organizationId,
+      `
+        SELECT ${PIPELINE_COLUMNS} FROM nexuscrm.pipelines
+        WHERE deleted_at IS NULL
+        ORDER BY is_default DESC, name ASC
+      `
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a pipeline by ID
+   */
+  async getPipeline(organizationId: string, pipelineId: string): Promise<Pipeline | null> {
+    const result = await db.queryWithContext<Pipeline>(
+      organizationId,
+      `SELECT ${PIPELINE_COLUMNS} FROM nexuscrm.pipelines WHERE id = $1 AND deleted_at IS NULL`,
+      [pipelineId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get the organization's default pipeline, if one is configured
+   */
+  async getDefaultPipeline(organizationId: string): Promise<Pipeline | null> {
+    const result = await db.queryWithContext<Pipeline>(
+      organizationId,
+      `SELECT ${PIPELINE_COLUMNS} FROM nexuscrm.pipelines WHERE is_default AND deleted_at IS NULL LIMIT 1`
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get the ordered stages of a pipeline
+   */
+  async getStages(organizationId: string, pipelineId: string): Promise<PipelineStage[]> {
+    const result = await db.queryWithContext<PipelineStage>(
+      organizationId,
+      `SELECT ${STAGE_COLUMNS} FROM nexuscrm.pipeline_stages WHERE pipeline_id = $1 ORDER BY position ASC`,
+      [pipelineId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Create a pipeline with its stages
+   *
+   * Stage order follows the order of `input.stages`. The first pipeline an
+   * organization creates becomes its default.
+   */
+  async createPipeline(
+    organizationId: string,
+    userId: string,
+    input: CreatePipelineInput
+  ): Promise<Pipeline> {
+    this.validateStageDefinitions(input.stages);
+
+    const pipeline = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      const existing = await client.query(
+        `SELECT COUNT(*) FROM nexuscrm.pipelines WHERE deleted_at IS NULL`
+      );
+      const isDefault = input.isDefault || parseInt(existing.rows[0].count, 10) === 0;
+
+      if (isDefault) {
+        await this.clearDefault(client);
+      }
+
+      const result = await client.query<Pipeline>(
+        `
+          INSERT INTO nexuscrm.pipelines (
+            name, description, is_default, created_by, organization_id
+          ) VALUES ($1, $2, $3, $4, $5)
+          RETURNING ${PIPELINE_COLUMNS}
+        `,
+        [input.name, input.description || null, isDefault, userId, organizationId]
+      );
+
+      const created = result.rows[0];
+
+      for (const [position, stage] of input.stages.entries()) {
+        await this.insertStage(client, organizationId, created.id, stage, position);
+      }
+
+      return created;
+    });
+
+    logger.info('Pipeline created', {
+      pipelineId: pipeline.id,
+      stages: input.stages.length,
+      organizationId,
+    });
+
+    return pipeline;
+  }
+
+  /**
+   * Update pipeline name, description or default flag
+   */
+  async updatePipeline(
+    organizationId: string,
+    pipelineId: string,
+    input: UpdatePipelineInput
+  ): Promise<Pipeline> {
+    const pipeline = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      if (input.isDefault) {
+        await this.clearDefault(client);
+      }
+
+      const result = await client.query<Pipeline>(
+        `
+          UPDATE nexuscrm.pipelines
+          SET
+            name = COALESCE($1, name),
+            description = COALESCE($2, description),
+            is_default = COALESCE($3, is_default),
+            updated_at = CURRENT_TIMESTAMP
+          WHERE id = $4 AND deleted_at IS NULL
+          RETURNING ${PIPELINE_COLUMNS}
+        `,
+        [input.name ?? null, input.description ?? null, input.isDefault ?? null, pipelineId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error('Pipeline not found');
+      }
+
+      return result.rows[0];
+    });
+
+    logger.info('Pipeline updated', { pipelineId });
+
+    return pipeline;
+  }
+
+  /**
+   * Soft delete a pipeline
+   *
+   * Refuses while the pipeline still has deals attached.
+   */
+  async deletePipeline(organizationId: string, pipelineId: string): Promise<boolean> {
+    const deals = await db.queryWithContext(
+      organizationId,
+      `SELECT COUNT(*) FROM nexuscrm.deals WHERE pipeline_id = $1 AND deleted_at IS NULL`,
+      [pipelineId]
+    );
+
+    if (parseInt(deals.rows[0].count, 10) > 0) {
+      throw new Error('Pipeline still has deals; move them to another pipeline first');
+    }
+
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        UPDATE nexuscrm.pipelines
+        SET deleted_at = CURRENT_TIMESTAMP, is_default = FALSE
+        WHERE id = $1 AND deleted_at IS NULL
+      `,
+      [pipelineId]
+    );
+
+    logger.info('Pipeline deleted', { pipelineId });
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Append a stage to a pipeline
+   */
+  async addStage(
+    organizationId: string,
+    pipelineId: string,
+    input: PipelineStageInput
+  ): Promise<PipelineStage> {
+    const stages = await this.getStages(organizationId, pipelineId);
+    this.validateStageDefinitions([...stages, input]);
+
+    const stage = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+      return this.insertStage(client, organizationId, pipelineId, input, stages.length);
+    });
+
+    logger.info('Pipeline stage added', { pipelineId, stage: input.key });
+
+    return stage;
+  }
+
+  /**
+   * Update a stage definition (the stage key is immutable)
+   */
+  async updateStage(
+    organizationId: string,
+    stageId: string,
+    input: UpdatePipelineStageInput
+  ): Promise<PipelineStage> {
+    const current = await db.queryWithContext<PipelineStage>(
+      organizationId,
+      `SELECT ${STAGE_COLUMNS} FROM nexuscrm.pipeline_stages WHERE id = $1`,
+      [stageId]
+    );
+
+    if (current.rows.length === 0) {
+      throw new Error('Pipeline stage not found');
+    }
+
+    const stage = current.rows[0];
+    const siblings = await this.getStages(organizationId, stage.pipelineId);
+    this.validateStageDefinitions(
+      siblings.map((s) => (s.id === stageId ? { ...s, ...input } : s))
+    );
+
+    const result = await db.queryWithContext<PipelineStage>(
+      organizationId,
+      `
+        UPDATE nexuscrm.pipeline_stages
+        SET
+          name = COALESCE($1, name),
+          default_probability = COALESCE($2, default_probability),
+          required_fields = COALESCE($3, required_fields),
+          is_won = COALESCE($4, is_won),
+          is_lost = COALESCE($5, is_lost),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $6
+        RETURNING ${STAGE_COLUMNS}
+      `,
+      [
+        input.name ?? null,
+        input.defaultProbability ?? null,
+        input.requiredFields ?? null,
+        input.isWon ?? null,
+        input.isLost ?? null,
+        stageId,
+      ]
+    );
+
+    logger.info('Pipeline stage updated', { stageId });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a stage from a pipeline
+   *
+   * Refuses while deals are sitting in the stage; remaining stages are
+   * renumbered to keep positions contiguous.
+   */
+  async removeStage(organizationId: string, stageId: string): Promise<boolean> {
+    const removed = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      const current = await client.query<PipelineStage>(
+        `SELECT ${STAGE_COLUMNS} FROM nexuscrm.pipeline_stages WHERE id = $1`,
+        [stageId]
+      );
+
+      if (current.rows.length === 0) {
+        return false;
+      }
+
+      const stage = current.rows[0];
+
+      const deals = await client.query(
+        `
+          SELECT COUNT(*) FROM nexuscrm.deals
+          WHERE pipeline_id = $1 AND stage = $2 AND deleted_at IS NULL
+        `,
+        [stage.pipelineId, stage.key]
+      );
+
+      if (parseInt(deals.rows[0].count, 10) > 0) {
+        throw new Error(`Stage ${stage.key} still has deals; move them first`);
+      }
+
+      await client.query(`DELETE FROM nexuscrm.pipeline_stages WHERE id = $1`, [stageId]);
+      await client.query(
+        `
+          UPDATE nexuscrm.pipeline_stages
+          SET position = position - 1, updated_at = CURRENT_TIMESTAMP
+          WHERE pipeline_id = $1 AND position > $2
+        `,
+        [stage.pipelineId, stage.position]
+      );
+
+      return true;
+    });
+
+    logger.info('Pipeline stage removed', { stageId, removed });
+
+    return removed;
+  }
+
+  /**
+   * Reorder a pipeline's stages
+   *
+   * `stageIds` must list every stage of the pipeline exactly once.
+   */
+  async reorderStages(
+    organizationId: string,
+    pipelineId: string,
+    stageIds: string[]
+  ): Promise<PipelineStage[]> {
+    const stages = await this.getStages(organizationId, pipelineId);
+    const known = new Set(stages.map((s) => s.id));
+
+    if (stageIds.length !== stages.length || !stageIds.every((id) => known.has(id))) {
+      throw new Error('Stage order must list every stage of the pipeline exactly once');
+    }
+
+    await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      for (const [position, stageId] of stageIds.entries()) {
+        await client.query(
+          `
+            UPDATE nexuscrm.pipeline_stages
+            SET position = $1, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $2
+          `,
+          [position, stageId]
+        );
+      }
+    });
+
+    logger.info('Pipeline stages reordered', { pipelineId });
+
+    return this.getStages(organizationId, pipelineId);
+  }
+
+  /**
+   * Resolve the initial stage for a new deal
+   *
+   * Uses the requested stage, or the pipeline's first stage, and checks the
+   * stage's required fields against the new deal's values.
+   */
+  async resolveInitialStage(
+    client: PoolClient,
+    pipelineId: string | null,
+    values: Partial<Deal>,
+    stage?: string
+  ): Promise<ResolvedStage> {
+    if (!pipelineId) {
+      return { stage: stage || LEGACY_DEFAULT_STAGE, definition: null };
+    }
+
+    const stages = await this.loadStages(client, pipelineId);
+
+    if (stages.length === 0) {
+      throw new Error('Pipeline has no stages');
+    }
+
+    const definition = stage ? stages.find((s) => s.key === stage) : stages[0];
+
+    if (!definition) {
+      throw new Error(`Stage ${stage} is not defined in this pipeline`);
+    }
+
+    this.checkRequiredFields(definition, values);
+
+    return { stage: definition.key, definition };
+  }
+
+  /**
+   * Validate a stage transition for an existing deal
+   *
+   * `target.outcome` resolves to the pipeline's won or lost stage. `values`
+   * holds fields being written alongside the transition (e.g. lostReason),
+   * which count towards the target stage's required fields.
+   */
+  async resolveTransition(
+    client: PoolClient,
+    deal: Deal,
+    target: StageTarget,
+    values: Partial<Deal> = {}
+  ): Promise<ResolvedStage> {
+    if (!deal.pipelineId) {
+      const stage =
+        target.stage || (target.outcome === 'won' ? LEGACY_WON_STAGE : LEGACY_LOST_STAGE);
+      return { stage, definition: null };
+    }
+
+    const stages = await this.loadStages(client, deal.pipelineId);
+    const current = stages.find((s) => s.key === deal.stage);
+
+    if (current && (current.isWon || current.isLost)) {
+      throw new Error(`Deal is closed in stage ${current.key}`);
+    }
+
+    let definition: PipelineStage | undefined;
+    if (target.outcome) {
+      definition = stages.find((s) => (target.outcome === 'won' ? s.isWon : s.isLost));
+      if (!definition) {
+        throw new Error(`Pipeline has no ${target.outcome} stage`);
+      }
+    } else {
+      definition = stages.find((s) => s.key === target.stage);
+      if (!definition) {
+        throw new Error(`Stage ${target.stage} is not defined in this pipeline`);
+      }
+    }
+
+    this.checkRequiredFields(definition, { ...deal, ...values });
+
+    return { stage: definition.key, definition };
+  }
+
+  /**
+   * Load stages inside an existing transaction
+   */
+  private async loadStages(client: PoolClient, pipelineId: string): Promise<PipelineStage[]> {
+    const result = await client.query<PipelineStage>(
+      `SELECT ${STAGE_COLUMNS} FROM nexuscrm.pipeline_stages WHERE pipeline_id = $1 ORDER BY position ASC`,
+      [pipelineId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Insert a single stage row
+   */
+  private async insertStage(
+    client: PoolClient,
+    organizationId: string,
+    pipelineId: string,
+    stage: PipelineStageInput,
+    position: number
+  ): Promise<PipelineStage> {
+    const result = await client.query<PipelineStage>(
+      `
+        INSERT INTO nexuscrm.pipeline_stages (
+          pipeline_id, key, name, position, default_probability,
+          required_fields, is_won, is_lost, organization_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING ${STAGE_COLUMNS}
+      `,
+      [
+        pipelineId,
+        stage.key,
+        stage.name,
+        position,
+        stage.defaultProbability ?? null,
+        stage.requiredFields || [],
+        stage.isWon ?? false,
+        stage.isLost ?? false,
+        organizationId,
+      ]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Unset the current default pipeline
+   */
+  private async clearDefault(client: PoolClient): Promise<void> {
+    await client.query(
+      `
+        UPDATE nexuscrm.pipelines
+        SET is_default = FALSE, updated_at = CURRENT_TIMESTAMP
+        WHERE is_default AND deleted_at IS NULL
+      `
+    );
+  }
+
+  /**
+   * Check a full set of stage definitions for consistency
+   */
+  private validateStageDefinitions(
+    stages: Array<Partial<PipelineStageInput> & { key: string }>
+  ): void {
+    if (stages.length === 0) {
+      throw new Error('Pipeline must have at least one stage');
+    }
+
+    const keys = new Set<string>();
+    for (const stage of stages) {
+      if (keys.has(stage.key)) {
+        throw new Error(`Duplicate stage key: ${stage.key}`);
+      }
+      keys.add(stage.key);
+
+      if (stage.isWon && stage.isLost) {
+        throw new Error(`Stage ${stage.key} cannot be both won and lost`);
+      }
+
+      if (
+        stage.defaultProbability !== undefined &&
+        stage.defaultProbability !== null &&
+        (stage.defaultProbability < 0 || stage.defaultProbability > 100)
+      ) {
+        throw new Error(`Stage ${stage.key} default probability must be between 0 and 100`);
+      }
+
+      const unknown = (stage.requiredFields || []).filter(
+        (field) => !DEAL_REQUIRABLE_FIELDS.includes(field)
+      );
+      if (unknown.length > 0) {
+        throw new Error(`Stage ${stage.key} requires unknown fields: ${unknown.join(', ')}`);
+      }
+    }
+
+    if (stages.filter((s) => s.isWon).length > 1) {
+      throw new Error('Pipeline can only have one won stage');
+    }
+    if (stages.filter((s) => s.isLost).length > 1) {
+      throw new Error('Pipeline can only have one lost stage');
+    }
+  }
+
+  /**
+   * Ensure a deal has every field the stage requires
+   */
+  private checkRequiredFields(stage: PipelineStage, values: Partial<Deal>): void {
+    const missing = (stage.requiredFields || []).filter((field) => {
+      const value = (values as Record<string, any>)[field];
+      return value === undefined || value === null || value === '';
+    });
+
+    if (missing.length > 0) {
+      throw new Error(`Stage ${stage.key} requires: ${missing.join(', ')}`);
+    }
+  }
+}
+
+// Export singleton instance
+export const pipelineManager = new PipelineManager();
+
+export default pipelineManager;
@@ -0,0 +1,26 @@
+/**
+ * Job Queue Module
+ *
+ * Durable background jobs backed by Redis (or memory for local development):
+ * - Named queues with retries, backoff and dead-lettering
+ * - Delayed/scheduled jobs
+ * - Worker entrypoint in src/worker.ts
+ *
+ * Components:
+ * - JobQueue: Producer API and polling workers
+ * - RedisQueueDriver: Redis-backed storage with worker leases
+ * - MemoryQueueDriver: In-process storage for development and tests
+ * - QUEUES: Queue names and payload types
+ */
+
+export { jobQueue, JobQueue } from './job-queue';
+export { RedisQueueDriver } from './redis-driver';
+export { MemoryQueueDriver } from './memory-driver';
+export {
+  QUEUES,
+  QueueName,
+  CallAnalysisJobData,
+  GraphRAGIndexJobData,
+  CampaignRunJobData,
+} from './queues';
+export { Job, JobOptions, JobHandler, ProcessOptions, QueueDriver } from './types';
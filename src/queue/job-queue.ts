@@ -0,0 +1,230 @@
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { MemoryQueueDriver } from './memory-driver';
+import { RedisQueueDriver } from './redis-driver';
+import { Job, JobHandler, JobOptions, ProcessOptions, QueueDriver } from './types';
+
+/**
+ * Job Queue
+ *
+ * Durable background work:
+ * - Named queues with per-queue handlers and concurrency
+ * - Delayed and scheduled jobs
+ * - Retries with exponential backoff
+ * - Dead-letter set for jobs that run out of attempts
+ *
+ * Producers call `add()` from anywhere; jobs only run in processes that have
+ * registered handlers and called `start()` (the worker entrypoint, or the API
+ * process when running the in-memory driver).
+ *
+ * Example:
+ * ```typescript
+ * await jobQueue.add(QUEUES.CALL_ANALYSIS, { callId, transcript, organizationId });
+ *
+ * jobQueue.process(QUEUES.CALL_ANALYSIS, async (job) => {
+ *   await callManager.analyzeCallTranscript(job.data.callId, ...);
+ * }, { concurrency: 2 });
+ * ```
+ */
+
+// Upper bound on the wait between attempts
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+interface RegisteredHandler {
+  handler: JobHandler;
+  concurrency: number;
+}
+
+export class JobQueue {
+  private driver: QueueDriver;
+  private handlers = new Map<string, RegisteredHandler>();
+  private workers: Promise<void>[] = [];
+  private running = false;
+
+  constructor(driver?: QueueDriver) {
+    this.driver = driver || JobQueue.createDriver();
+  }
+
+  /**
+   * Build the driver selected by QUEUE_DRIVER
+   */
+  static createDriver(): QueueDriver {
+    if (config.queue.driver === 'memory') {
+      return new MemoryQueueDriver(config.queue.leaseMs);
+    }
+
+    return new RedisQueueDriver(config.redis, config.queue.prefix, config.queue.leaseMs);
+  }
+
+  /**
+   * Add a job to a queue
+   */
+  async add<T>(queue: string, data: T, options: JobOptions = {}): Promise<Job<T>> {
+    const now = Date.now();
+    const runAt = options.runAt
+      ? options.runAt.getTime()
+      : now + (options.delayMs || 0);
+
+    const job: Job<T> = {
+      id: uuidv4(),
+      queue,
+      data,
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? config.queue.defaultMaxAttempts,
+      backoffMs: options.backoffMs ?? config.queue.defaultBackoffMs,
+      runAt,
+      createdAt: now,
+    };
+
+    await this.driver.push(job);
+
+    logger.debug('Job queued', { queue, jobId: job.id, runAt: new Date(runAt).toISOString() });
+
+    return job;
+  }
+
+  /**
+   * Register the handler for a queue
+   */
+  process<T>(queue: string, handler: JobHandler<T>, options: ProcessOptions = {}): void {
+    if (this.handlers.has(queue)) {
+      throw new Error(`Queue ${queue} already has a handler`);
+    }
+
+    this.handlers.set(queue, {
+      handler: handler as JobHandler,
+      concurrency: options.concurrency || 1,
+    });
+
+    if (this.running) {
+      this.spawnWorkers(queue);
+    }
+  }
+
+  /**
+   * Start polling every registered queue
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+
+    for (const queue of this.handlers.keys()) {
+      this.spawnWorkers(queue);
+    }
+
+    logger.info('Job queue started', {
+      driver: config.queue.driver,
+      queues: Array.from(this.handlers.keys()),
+    });
+  }
+
+  /**
+   * Stop polling, wait for in-flight jobs and close the driver
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    await Promise.all(this.workers);
+    this.workers = [];
+    await this.driver.close();
+
+    logger.info('Job queue stopped');
+  }
+
+  /**
+   * Jobs that ran out of attempts, most recent first
+   */
+  async listDeadJobs(queue: string, limit: number = 50): Promise<Job[]> {
+    return this.driver.listDead(queue, limit);
+  }
+
+  /**
+   * Give a dead job a fresh set of attempts
+   */
+  async retryDeadJob(queue: string, jobId: string): Promise<boolean> {
+    return this.driver.requeueDead(queue, jobId);
+  }
+
+  private spawnWorkers(queue: string): void {
+    const { concurrency } = this.handlers.get(queue) as RegisteredHandler;
+
+    for (let index = 0; index < concurrency; index++) {
+      this.workers.push(this.work(queue));
+    }
+  }
+
+  /**
+   * Poll one queue until stopped
+   */
+  private async work(queue: string): Promise<void> {
+    const { handler } = this.handlers.get(queue) as RegisteredHandler;
+
+    while (this.running) {
+      let job: Job | null = null;
+
+      try {
+        job = await this.driver.pop(queue);
+      } catch (error: any) {
+        logger.error('Failed to poll queue', { error: error.message, queue });
+      }
+
+      if (!job) {
+        await new Promise((resolve) => setTimeout(resolve, config.queue.pollIntervalMs));
+        continue;
+      }
+
+      try {
+        await this.runJob(job, handler);
+      } catch (error: any) {
+        // The driver could not record the outcome; the lease returns the job
+        logger.error('Failed to settle job', { error: error.message, queue, jobId: job.id });
+      }
+    }
+  }
+
+  private async runJob(job: Job, handler: JobHandler): Promise<void> {
+    job.attempts++;
+
+    try {
+      await handler(job);
+    } catch (error: any) {
+      job.lastError = error.message;
+
+      if (job.attempts >= job.maxAttempts) {
+        job.failedAt = Date.now();
+        await this.driver.bury(job);
+
+        logger.error('Job moved to dead-letter queue', {
+          queue: job.queue,
+          jobId: job.id,
+          attempts: job.attempts,
+          error: error.message,
+        });
+        return;
+      }
+
+      const delay = Math.min(job.backoffMs * 2 ** (job.attempts - 1), MAX_BACKOFF_MS);
+      job.runAt = Date.now() + delay;
+      await this.driver.retry(job);
+
+      logger.warn('Job failed, retrying', {
+        queue: job.queue,
+        jobId: job.id,
+        attempt: job.attempts,
+        retryInMs: delay,
+        error: error.message,
+      });
+      return;
+    }
+
+    await this.driver.ack(job);
+  }
+}
+
+// Export singleton instance
+export const jobQueue = new JobQueue();
+
+export default jobQueue;
@@ -0,0 +1,108 @@
+import { Job, QueueDriver } from './types';
+
+/**
+ * In-Memory Queue Driver
+ *
+ * Keeps jobs in process memory. Used for local development and tests; jobs
+ * are lost on restart and cannot be shared between processes.
+ *
+ * Like the Redis driver, a claimed job holds a lease; if it is neither acked,
+ * retried nor buried before the lease expires, the job is returned to
+ * `scheduled` on the next pop.
+ */
+export class MemoryQueueDriver implements QueueDriver {
+  private scheduled = new Map<string, Job[]>();
+  private active = new Map<string, { job: Job; leaseExpiresAt: number }>();
+  private dead = new Map<string, Job[]>();
+
+  constructor(private leaseMs: number = 300000) {}
+
+  async push(job: Job): Promise<void> {
+    this.list(this.scheduled, job.queue).push({ ...job });
+  }
+
+  async pop(queue: string): Promise<Job | null> {
+    const jobs = this.list(this.scheduled, queue);
+    const now = Date.now();
+
+    // Return expired leases
+    for (const [id, lease] of this.active) {
+      if (lease.job.queue === queue && lease.leaseExpiresAt <= now) {
+        this.active.delete(id);
+        jobs.push(lease.job);
+      }
+    }
+
+    let nextIndex = -1;
+    for (let index = 0; index < jobs.length; index++) {
+      if (jobs[index].runAt <= now && (nextIndex === -1 || jobs[index].runAt < jobs[nextIndex].runAt)) {
+        nextIndex = index;
+      }
+    }
+
+    if (nextIndex === -1) {
+      return null;
+    }
+
+    const [job] = jobs.splice(nextIndex, 1);
+    this.active.set(job.id, { job, leaseExpiresAt: now + this.leaseMs });
+
+    return { ...job };
+  }
+
+  async ack(job: Job): Promise<void> {
+    this.active.delete(job.id);
+  }
+
+  async retry(job: Job): Promise<void> {
+    this.active.delete(job.id);
+    this.list(this.scheduled, job.queue).push({ ...job });
+  }
+
+  async bury(job: Job): Promise<void> {
+    this.active.delete(job.id);
+    this.list(this.dead, job.queue).unshift({ ...job });
+  }
+
+  async listDead(queue: string, limit: number): Promise<Job[]> {
+    return this.list(this.dead, queue)
+      .slice(0, limit)
+      .map((job) => ({ ...job }));
+  }
+
+  async requeueDead(queue: string, jobId: string): Promise<boolean> {
+    const dead = this.list(this.dead, queue);
+    const index = dead.findIndex((job) => job.id === jobId);
+
+    if (index === -1) {
+      return false;
+    }
+
+    const [job] = dead.splice(index, 1);
+    this.list(this.scheduled, queue).push({
+      ...job,
+      attempts: 0,
+      runAt: Date.now(),
+      failedAt: undefined,
+    });
+
+    return true;
+  }
+
+  async close(): Promise<void> {
+    this.scheduled.clear();
+    this.active.clear();
+    this.dead.clear();
+  }
+
+  private list(store: Map<string, Job[]>, queue: string): Job[] {
+    let jobs = store.get(queue);
+    if (!jobs) {
+      jobs = [];
+      store.set(queue, jobs);
+    }
+    return jobs;
+  }
+}
+
+export default MemoryQueueDriver;
@@ -0,0 +1,60 @@
+import { graphRAGClient } from '../clients';
+import { callManager } from '../voice/call-manager';
+import { campaignEngine } from '../campaigns/campaign-engine';
+import { JobQueue } from './job-queue';
+import {
+  QUEUES,
+  CallAnalysisJobData,
+  GraphRAGIndexJobData,
+  CampaignRunJobData,
+} from './queues';
+
+/**
+ * Queue Processors
+ *
+ * Registers the handler for every named queue. Kept out of the module barrel
+ * because handlers depend on the modules that produce jobs.
+ */
+export function registerProcessors(queue: JobQueue): void {
+  queue.process<CallAnalysisJobData>(
+    QUEUES.CALL_ANALYSIS,
+    async ({ data }) => {
+      await callManager.analyzeCallTranscript(data.callId, data.transcript, data.organizationId);
+    },
+    { concurrency: 2 }
+  );
+
+  queue.process<GraphRAGIndexJobData>(
+    QUEUES.GRAPHRAG_INDEX,
+    async ({ data }) => {
+      await graphRAGClient.storeDocument(data.content, data.metadata);
+    },
+    { concurrency: 4 }
+  );
+
+  queue.process<CampaignRunJobData>(
+    QUEUES.CAMPAIGN_RUN,
+    async ({ data }) => {
+      await campaignEngine.executeBatch(data.organizationId, data.campaignId);
+    },
+    { concurrency: 4 }
+  );
+
+  queue.process<CampaignRunJobData>(
+    QUEUES.CAMPAIGN_LAUNCH,
+    async ({ data }) => {
+      await campaignEngine.launchScheduled(data.organizationId, data.campaignId);
+    },
+    { concurrency: 2 }
+  );
+
+  queue.process<CampaignRunJobData>(
+    QUEUES.CAMPAIGN_AB_TEST,
+    async ({ data }) => {
+      await campaignEngine.selectWinner(data.organizationId, data.campaignId);
+    },
+    { concurrency: 2 }
+  );
+}
+
+export default registerProcessors;
@@ -0,0 +1,39 @@
+/**
+ * Named Queues
+ *
+ * Every queue the service produces to, with the payload each one carries.
+ */
+
+export const QUEUES = {
+  CALL_ANALYSIS: 'call-analysis',
+  GRAPHRAG_INDEX: 'graphrag-index',
+  CAMPAIGN_RUN: 'campaign-run',
+  // Carries CampaignRunJobData; launches a scheduled campaign at its scheduledAt
+  CAMPAIGN_LAUNCH: 'campaign-launch',
+  // Carries CampaignRunJobData; runs once a campaign's A/B test window ends
+  CAMPAIGN_AB_TEST: 'campaign-ab-test',
+} as const;
+
+export type QueueName = (typeof QUEUES)[keyof typeof QUEUES];
+
+export interface CallAnalysisJobData {
+  callId: string;
+  transcript: string;
+  organizationId: string;
+}
+
+export interface GraphRAGIndexJobData {
+  content: string;
+  metadata: {
+    type: string;
+    source: string;
+    entityType?: 'contact' | 'company' | 'deal' | 'activity' | 'campaign';
+    entityId?: string;
+    tags?: string[];
+  };
+}
+
+export interface CampaignRunJobData {
+  organizationId: string;
+  campaignId: string;
+}
@@ -0,0 +1,153 @@
+import Redis from 'ioredis';
+import { logger } from '../utils/logger';
+import { Job, QueueDriver } from './types';
+
+/**
+ * Redis Queue Driver
+ *
+ * Keys per queue (under the configured prefix):
+ * - `<queue>:jobs`      hash of job ID -> job JSON
+ * - `<queue>:scheduled` sorted set scored by runAt
+ * - `<queue>:active`    sorted set scored by lease expiry
+ * - `<queue>:dead`      sorted set scored by failure time
+ *
+ * A claimed job holds a lease; if its worker dies without acking, the job is
+ * returned to `scheduled` once the lease expires.
+ */
+
+// Return expired leases, then claim the earliest due job
+const POP_SCRIPT = `
+  local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+  for _, id in ipairs(expired) do
+    redis.call('ZREM', KEYS[2], id)
+    redis.call('ZADD', KEYS[1], ARGV[1], id)
+  end
+
+  local ready = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)
+  if #ready == 0 then
+    return nil
+  end
+
+  local id = ready[1]
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('ZADD', KEYS[2], ARGV[2], id)
+  return redis.call('HGET', KEYS[3], id)
+`;
+
+export class RedisQueueDriver implements QueueDriver {
+  private redis: Redis;
+
+  constructor(
+    options: { host: string; port: number; password?: string },
+    private prefix: string,
+    private leaseMs: number
+  ) {
+    this.redis = new Redis({
+      host: options.host,
+      port: options.port,
+      password: options.password || undefined,
+      lazyConnect: true,
+      maxRetriesPerRequest: null,
+    });
+
+    this.redis.on('error', (error: Error) => {
+      logger.error('Queue Redis connection error', { error: error.message });
+    });
+  }
+
+  async push(job: Job): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(this.key(job.queue, 'jobs'), job.id, JSON.stringify(job))
+      .zadd(this.key(job.queue, 'scheduled'), job.runAt, job.id)
+      .exec();
+  }
+
+  async pop(queue: string): Promise<Job | null> {
+    const now = Date.now();
+
+    const raw = (await this.redis.eval(
+      POP_SCRIPT,
+      3,
+      this.key(queue, 'scheduled'),
+      this.key(queue, 'active'),
+      this.key(queue, 'jobs'),
+      now,
+      now + this.leaseMs
+    )) as string | null;
+
+    return raw ? (JSON.parse(raw) as Job) : null;
+  }
+
+  async ack(job: Job): Promise<void> {
+    await this.redis
+      .multi()
+      .zrem(this.key(job.queue, 'active'), job.id)
+      .hdel(this.key(job.queue, 'jobs'), job.id)
+      .exec();
+  }
+
+  async retry(job: Job): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(this.key(job.queue, 'jobs'), job.id, JSON.stringify(job))
+      .zrem(this.key(job.queue, 'active'), job.id)
+      .zadd(this.key(job.queue, 'scheduled'), job.runAt, job.id)
+      .exec();
+  }
+
+  async bury(job: Job): Promise<void> {
+    await this.redis
+      .multi()
+      .hset(this.key(job.queue, 'jobs'), job.id, JSON.stringify(job))
+      .zrem(this.key(job.queue, 'active'), job.id)
+      .zadd(this.key(job.queue, 'dead'), job.failedAt || Date.now(), job.id)
+      .exec();
+  }
+
+  async listDead(queue: string, limit: number): Promise<Job[]> {
+    const ids = await this.redis.zrevrange(this.key(queue, 'dead'), 0, limit - 1);
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const raw = await this.redis.hmget(this.key(queue, 'jobs'), ...ids);
+
+    return raw.filter((value): value is string => !!value).map((value) => JSON.parse(value));
+  }
+
+  async requeueDead(queue: string, jobId: string): Promise<boolean> {
+    const removed = await this.redis.zrem(this.key(queue, 'dead'), jobId);
+
+    if (removed === 0) {
+      return false;
+    }
+
+    const raw = await this.redis.hget(this.key(queue, 'jobs'), jobId);
+
+    if (!raw) {
+      return false;
+    }
+
+    const job: Job = JSON.parse(raw);
+    await this.push({ ...job, attempts: 0, runAt: Date.now(), failedAt: undefined });
+
+    return true;
+  }
+
+  async close(): Promise<void> {
+    // Never connected (lazyConnect), so there is nothing to flush
+    if (this.redis.status === 'wait') {
+      this.redis.disconnect();
+      return;
+    }
+    await this.redis.quit();
+  }
+
+  private key(queue: string, suffix: string): string {
+    return `${this.prefix}:${queue}:${suffix}`;
+  }
+}
+
+export default RedisQueueDriver;
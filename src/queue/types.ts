@@ -0,0 +1,53 @@
+/**
+ * Job Queue Types
+ */
+
+export interface Job<T = any> {
+  id: string;
+  queue: string;
+  data: T;
+  attempts: number;
+  maxAttempts: number;
+  backoffMs: number;
+  runAt: number;
+  createdAt: number;
+  lastError?: string;
+  failedAt?: number;
+}
+
+export interface JobOptions {
+  delayMs?: number;
+  runAt?: Date;
+  maxAttempts?: number;
+  backoffMs?: number;
+}
+
+export type JobHandler<T = any> = (job: Job<T>) => Promise<void>;
+
+export interface ProcessOptions {
+  concurrency?: number;
+}
+
+/**
+ * Storage backend for queued jobs
+ *
+ * Jobs move between three states: scheduled (waiting for runAt), active
+ * (claimed by a worker) and dead (out of attempts).
+ */
+export interface QueueDriver {
+  /** Store a job and schedule it for job.runAt */
+  push(job: Job): Promise<void>;
+  /** Claim the next due job, or null when none is due */
+  pop(queue: string): Promise<Job | null>;
+  /** Remove a finished job */
+  ack(job: Job): Promise<void>;
+  /** Reschedule a failed job for another attempt */
+  retry(job: Job): Promise<void>;
+  /** Move a job that is out of attempts to the dead-letter set */
+  bury(job: Job): Promise<void>;
+  /** Most recently buried jobs first */
+  listDead(queue: string, limit: number): Promise<Job[]>;
+  /** Move a dead job back to scheduled with its attempts reset */
+  requeueDead(queue: string, jobId: string): Promise<boolean>;
+  close(): Promise<void>;
+}
@@ -0,0 +1,16 @@
+/**
+ * Segments Module
+ *
+ * Saved contact audiences built from a composable filter language:
+ * - Contact fields, tags and custom fields
+ * - Activity history (e.g. "opened an email in the last 14 days")
+ * - Membership of other segments
+ * - Static (snapshot) and dynamic (live) evaluation
+ *
+ * Components:
+ * - SegmentManager: Segment CRUD, previews, counts and audience resolution
+ * - compileSegmentFilter: Filter tree to SQL predicate compiler
+ */
+
+export { segmentManager, SegmentManager, SegmentSource } from './segment-manager';
+export { compileSegmentFilter, CompiledFilter, SegmentLoader } from './segment-filter';
@@ -0,0 +1,365 @@
+import {
+  Segment,
+  SegmentFilter,
+  SegmentFilterGroup,
+  SegmentCondition,
+  SegmentActivityCriteria,
+} from '../types';
+
+/**
+ * Segment Filter Compiler
+ *
+ * Turns a segment filter tree into a parameterized SQL predicate over
+ * nexuscrm.contacts (aliased `c`). Field names and operators are checked
+ * against an allow-list; every value is bound as a query parameter.
+ *
+ * Example:
+ * ```typescript
+ * const { where, params } = await compileSegmentFilter(
+ *   {
+ *     all: [
+ *       { field: 'lifecycleStage', operator: 'in', value: ['mql', 'sql'] },
+ *       { field: 'leadScore', operator: 'gte', value: 60 },
+ *       { field: 'tags', operator: 'has_any', value: ['webinar-2026'] },
+ *       { field: 'activity', operator: 'has_not', value: { type: 'call', withinDays: 30 } },
+ *     ],
+ *   },
+ *   loadSegment
+ * );
+ * ```
+ */
+
+type FieldKind = 'text' | 'number' | 'boolean' | 'date';
+
+export type SegmentLoader = (segmentId: string) => Promise<Segment | null>;
+
+export interface CompiledFilter {
+  where: string;
+  params: any[];
+}
+
+// Contact field -> column and comparison kind
+const CONTACT_FIELDS: Record<string, { column: string; kind: FieldKind }> = {
+  firstName: { column: 'first_name', kind: 'text' },
+  lastName: { column: 'last_name', kind: 'text' },
+  email: { column: 'email', kind: 'text' },
+  phone: { column: 'phone', kind: 'text' },
+  mobile: { column: 'mobile', kind: 'text' },
+  jobTitle: { column: 'job_title', kind: 'text' },
+  department: { column: 'department', kind: 'text' },
+  seniority: { column: 'seniority', kind: 'text' },
+  timezone: { column: 'timezone', kind: 'text' },
+  language: { column: 'language', kind: 'text' },
+  leadStatus: { column: 'lead_status', kind: 'text' },
+  leadSource: { column: 'lead_source', kind: 'text' },
+  lifecycleStage: { column: 'lifecycle_stage', kind: 'text' },
+  companyId: { column: 'company_id', kind: 'text' },
+  ownerId: { column: 'owner_id', kind: 'text' },
+  leadScore: { column: 'lead_score', kind: 'number' },
+  decisionMaker: { column: 'decision_maker', kind: 'boolean' },
+  emailVerified: { column: 'email_verified', kind: 'boolean' },
+  phoneVerified: { column: 'phone_verified', kind: 'boolean' },
+  doNotCall: { column: 'do_not_call', kind: 'boolean' },
+  doNotEmail: { column: 'do_not_email', kind: 'boolean' },
+  unsubscribed: { column: 'unsubscribed', kind: 'boolean' },
+  bounced: { column: 'bounced', kind: 'boolean' },
+  createdAt: { column: 'created_at', kind: 'date' },
+  lastContactedAt: { column: 'last_contacted_at', kind: 'date' },
+  lastScoredAt: { column: 'last_scored_at', kind: 'date' },
+};
+
+const OPERATORS_BY_KIND: Record<FieldKind, string[]> = {
+  text: ['eq', 'neq', 'in', 'not_in', 'contains', 'starts_with', 'is_set', 'is_not_set'],
+  number: ['eq', 'neq', 'in', 'not_in', 'gt', 'gte', 'lt', 'lte', 'is_set', 'is_not_set'],
+  boolean: ['eq', 'neq'],
+  date: ['gt', 'gte', 'lt', 'lte', 'within_days', 'older_than_days', 'is_set', 'is_not_set'],
+};
+
+const CUSTOM_FIELD_PATTERN = /^customFields\.([A-Za-z0-9_-]+)$/;
+
+// Guards against runaway nesting and segment reference cycles
+const MAX_DEPTH = 10;
+
+class FilterCompiler {
+  readonly params: any[];
+  private loadSegment: SegmentLoader;
+  private segmentPath: string[] = [];
+
+  constructor(loadSegment: SegmentLoader, params: any[]) {
+    this.loadSegment = loadSegment;
+    this.params = params;
+  }
+
+  async compile(filter: SegmentFilter, depth: number = 0): Promise<string> {
+    if (depth > MAX_DEPTH) {
+      throw new Error(`Segment filter is nested deeper than ${MAX_DEPTH} levels`);
+    }
+
+    if (!filter || typeof filter !== 'object') {
+      throw new Error('Segment filter must be an object');
+    }
+
+    if ('field' in filter) {
+      return this.compileCondition(filter as SegmentCondition, depth);
+    }
+
+    const group = filter as SegmentFilterGroup;
+    const parts: string[] = [];
+
+    if (group.all) {
+      const clauses = await this.compileList(group.all, depth);
+      parts.push(clauses.length > 0 ? `(${clauses.join(' AND ')})` : 'TRUE');
+    }
+    if (group.any) {
+      const clauses = await this.compileList(group.any, depth);
+      parts.push(clauses.length > 0 ? `(${clauses.join(' OR ')})` : 'FALSE');
+    }
+    if (group.not) {
+      parts.push(`NOT (${await this.compile(group.not, depth + 1)})`);
+    }
+
+    // An empty filter matches every contact
+    return parts.length > 0 ? parts.join(' AND ') : 'TRUE';
+  }
+
+  private async compileList(filters: SegmentFilter[], depth: number): Promise<string[]> {
+    if (!Array.isArray(filters)) {
+      throw new Error('Segment filter groups must be arrays');
+    }
+
+    const clauses: string[] = [];
+    for (const child of filters) {
+      clauses.push(await this.compile(child, depth + 1));
+    }
+    return clauses;
+  }
+
+  private async compileCondition(condition: SegmentCondition, depth: number): Promise<string> {
+    const { field, operator, value } = condition;
+
+    if (field === 'tags') {
+      return this.compileTags(operator, value);
+    }
+
+    if (field === 'activity') {
+      return this.compileActivity(operator, value);
+    }
+
+    if (field === 'segment') {
+      return this.compileSegmentReference(operator, value, depth);
+    }
+
+    const customField = field.match(CUSTOM_FIELD_PATTERN);
+    if (customField) {
+      const key = this.bind(customField[1]);
+      const isNumeric = ['gt', 'gte', 'lt', 'lte'].includes(operator);
+      const expression = isNumeric
+        ? `(c.custom_fields->>${key})::numeric`
+        : `c.custom_fields->>${key}`;
+      return this.compileComparison(
+        expression,
+        isNumeric ? 'number' : 'text',
+        operator,
+        value,
+        field
+      );
+    }
+
+    const definition = CONTACT_FIELDS[field];
+    if (!definition) {
+      throw new Error(`Unknown segment field: ${field}`);
+    }
+
+    return this.compileComparison(
+      `c.${definition.column}`,
+      definition.kind,
+      operator,
+      value,
+      field
+    );
+  }
+
+  private compileComparison(
+    expression: string,
+    kind: FieldKind,
+    operator: string,
+    value: any,
+    field: string
+  ): string {
+    if (!OPERATORS_BY_KIND[kind].includes(operator)) {
+      throw new Error(`Operator ${operator} is not supported for ${field}`);
+    }
+
+    switch (operator) {
+      case 'eq':
+        return `${expression} = ${this.bind(value)}`;
+      case 'neq':
+        return `${expression} IS DISTINCT FROM ${this.bind(value)}`;
+      case 'in':
+        return `${expression} = ANY(${this.bind(this.requireArray(value, field))})`;
+      case 'not_in':
+        return `NOT (${expression} = ANY(${this.bind(this.requireArray(value, field))}))`;
+      case 'gt':
+        return `${expression} > ${this.bind(value)}`;
+      case 'gte':
+        return `${expression} >= ${this.bind(value)}`;
+      case 'lt':
+        return `${expression} < ${this.bind(value)}`;
+      case 'lte':
+        return `${expression} <= ${this.bind(value)}`;
+      case 'contains':
+        return `${expression} ILIKE ${this.bind(`%${this.escapeLike(String(value))}%`)}`;
+      case 'starts_with':
+        return `${expression} ILIKE ${this.bind(`${this.escapeLike(String(value))}%`)}`;
+      case 'is_set':
+        return `${expression} IS NOT NULL`;
+      case 'is_not_set':
+        return `${expression} IS NULL`;
+      case 'within_days':
+        return `${expression} >= CURRENT_TIMESTAMP - make_interval(days => ${this.bindDays(value, field)})`;
+      case 'older_than_days':
+        return `${expression} < CURRENT_TIMESTAMP - make_interval(days => ${this.bindDays(value, field)})`;
+      default:
+        throw new Error(`Unknown segment operator: ${operator}`);
+    }
+  }
+
+  private compileTags(operator: string, value: any): string {
+    switch (operator) {
+      case 'has_any':
+        return `c.tags && ${this.bind(this.requireArray(value, 'tags'))}::text[]`;
+      case 'has_all':
+        return `c.tags @> ${this.bind(this.requireArray(value, 'tags'))}::text[]`;
+      case 'has_none':
+        return `NOT (COALESCE(c.tags, '{}') && ${this.bind(this.requireArray(value, 'tags'))}::text[])`;
+      case 'is_set':
+        return `cardinality(c.tags) > 0`;
+      case 'is_not_set':
+        return `COALESCE(cardinality(c.tags), 0) = 0`;
+      default:
+        throw new Error(`Operator ${operator} is not supported for tags`);
+    }
+  }
+
+  private compileActivity(operator: string, value: SegmentActivityCriteria = {}): string {
+    if (operator !== 'has' && operator !== 'has_not') {
+      throw new Error(`Operator ${operator} is not supported for activity`);
+    }
+
+    const conditions = ['a.contact_id = c.id', 'a.deleted_at IS NULL'];
+
+    if (value.type) {
+      conditions.push(`a.type = ${this.bind(value.type)}`);
+    }
+    if (value.direction) {
+      conditions.push(`a.direction = ${this.bind(value.direction)}`);
+    }
+    if (value.callStatus) {
+      conditions.push(`a.call_status = ${this.bind(value.callStatus)}`);
+    }
+    if (value.emailOpened !== undefined) {
+      conditions.push(`a.email_opened = ${this.bind(value.emailOpened)}`);
+    }
+    if (value.emailClicked !== undefined) {
+      conditions.push(`a.email_clicked = ${this.bind(value.emailClicked)}`);
+    }
+    if (value.withinDays !== undefined) {
+      conditions.push(
+        `a.created_at >= CURRENT_TIMESTAMP - make_interval(days => ${this.bindDays(value.withinDays, 'activity.withinDays')})`
+      );
+    }
+
+    const subquery = `SELECT COUNT(*) FROM nexuscrm.activities a WHERE ${conditions.join(' AND ')}`;
+    const minCount = value.minCount ?? 1;
+    const comparison = `(${subquery}) >= ${this.bind(minCount)}`;
+
+    return operator === 'has' ? comparison : `NOT (${comparison})`;
+  }
+
+  private async compileSegmentReference(
+    operator: string,
+    segmentId: any,
+    depth: number
+  ): Promise<string> {
+    if (operator !== 'in' && operator !== 'not_in') {
+      throw new Error(`Operator ${operator} is not supported for segment`);
+    }
+    if (typeof segmentId !== 'string') {
+      throw new Error('Segment reference must be a segment ID');
+    }
+    if (this.segmentPath.includes(segmentId)) {
+      throw new Error('Segment filter references itself');
+    }
+
+    const segment = await this.loadSegment(segmentId);
+    if (!segment) {
+      throw new Error(`Referenced segment not found: ${segmentId}`);
+    }
+
+    let clause: string;
+    if (segment.mode === 'static') {
+      clause = `c.id IN (SELECT sm.contact_id FROM nexuscrm.segment_members sm WHERE sm.segment_id = ${this.bind(segmentId)})`;
+    } else {
+      this.segmentPath.push(segmentId);
+      clause = `(${await this.compile(segment.filter, depth + 1)})`;
+      this.segmentPath.pop();
+    }
+
+    return operator === 'in' ? clause : `NOT ${clause}`;
+  }
+
+  /**
+   * Seed the reference path so a segment cannot include itself
+   */
+  enterSegment(segmentId: string): void {
+    this.segmentPath.push(segmentId);
+  }
+
+  private bind(value: any): string {
+    this.params.push(value);
+    return `$${this.params.length}`;
+  }
+
+  private bindDays(value: any, field: string): string {
+    const days = Number(value);
+    if (!Number.isInteger(days) || days < 0) {
+      throw new Error(`${field} expects a whole number of days`);
+    }
+    return this.bind(days);
+  }
+
+  private requireArray(value: any, field: string): any[] {
+    if (!Array.isArray(value)) {
+      throw new Error(`${field} expects an array value`);
+    }
+    return value;
+  }
+
+  private escapeLike(value: string): string {
+    return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+  }
+}
+
+/**
+ * Compile a segment filter into a SQL predicate over contacts (alias `c`)
+ *
+ * `params` lets callers append the filter after their own parameters;
+ * `segmentId` marks the segment being compiled so self-references are caught.
+ */
+export async function compileSegmentFilter(
+  filter: SegmentFilter,
+  loadSegment: SegmentLoader,
+  options: { params?: any[]; segmentId?: string } = {}
+): Promise<CompiledFilter> {
+  const compiler = new FilterCompiler(loadSegment, options.params ? [...options.params] : []);
+
+  if (options.segmentId) {
+    compiler.enterSegment(options.segmentId);
+  }
+
+  const where = await compiler.compile(filter);
+
+  return { where, params: compiler.params };
+}
+
+export default compileSegmentFilter;
@@ -0,0 +1,406 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact } from '../utils/rows';
+import {
+  Contact,
+  Segment,
+  SegmentFilter,
+  CreateSegmentInput,
+  UpdateSegmentInput,
+} from '../types';
+import { compileSegmentFilter, CompiledFilter } from './segment-filter';
+
+/**
+ * Segment Manager
+ *
+ * Saved contact audiences:
+ * - Dynamic segments evaluate their filter whenever they are read
+ * - Static segments snapshot matching contacts into segment_members
+ * - Previews and counts for ad-hoc filters before saving
+ * - Audience resolution for campaign launches
+ */
+
+const DEFAULT_PREVIEW_LIMIT = 25;
+const MAX_PREVIEW_LIMIT = 100;
+
+// Campaign statuses that still depend on their target segment
+const ACTIVE_CAMPAIGN_STATUSES = ['scheduled', 'active', 'paused'];
+
+const SEGMENT_COLUMNS = `
+  id,
+  name,
+  description,
+  mode,
+  filter,
+  contact_count AS "contactCount",
+  last_evaluated_at AS "lastEvaluatedAt",
+  tags,
+  created_by AS "createdBy",
+  organization_id AS "organizationId",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt",
+  deleted_at AS "deletedAt"
+`;
+
+export interface SegmentSource {
+  segmentId?: string;
+  filter?: SegmentFilter;
+}
+
+export class SegmentManager {
+  /**
+   * Get a segment by ID
+   */
+  async getSegment(organizationId: string, segmentId: string): Promise<Segment | null> {
+    const result = await db.queryWithContext<Segment>(
+      organizationId,
+      `SELECT ${SEGMENT_COLUMNS} FROM nexuscrm.segments WHERE id = $1 AND deleted_at IS NULL`,
+      [segmentId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * List segments for an organization
+   */
+  async listSegments(organizationId: string): Promise<Segment[]> {
+    const result = await db.queryWithContext<Segment>(
+      organizationId,
+      `SELECT ${SEGMENT_COLUMNS} FROM nexuscrm.segments WHERE deleted_at IS NULL ORDER BY name`
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Create a segment
+   *
+   * Example:
+   * ```typescript
+   * await segmentManager.createSegment(organizationId, userId, {
+   *   name: 'Engaged VPs',
+   *   filter: {
+   *     all: [
+   *       { field: 'seniority', operator: 'in', value: ['VP', 'C-Level'] },
+   *       { field: 'activity', operator: 'has', value: { type: 'email', emailOpened: true, withinDays: 14 } },
+   *     ],
+   *   },
+   * });
+   * ```
+   */
+  async createSegment(
+    organizationId: string,
+    userId: string,
+    input: CreateSegmentInput
+  ): Promise<Segment> {
+    if (!input.name || !input.name.trim()) {
+      throw new Error('Segment name cannot be empty');
+    }
+
+    // Compile once up front so invalid filters are rejected before saving
+    await this.compile(organizationId, input.filter);
+
+    const result = await db.queryWithContext<Segment>(
+      organizationId,
+      `
+        INSERT INTO nexuscrm.segments (
+          name, description, mode, filter, tags, created_by, organization_id
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING ${SEGMENT_COLUMNS}
+      `,
+      [
+        input.name,
+        input.description,
+        input.mode || 'dynamic',
+        input.filter,
+        input.tags || [],
+        userId,
+        organizationId,
+      ]
+    );
+
+    const segment = result.rows[0];
+
+    logger.info('Segment created', { segmentId: segment.id, mode: segment.mode });
+
+    return this.refreshSegment(organizationId, segment.id);
+  }
+
+  /**
+   * Update a segment
+   *
+   * Changing a static segment's filter re-snapshots its members.
+   */
+  async updateSegment(
+    organizationId: string,
+    segmentId: string,
+    input: UpdateSegmentInput
+  ): Promise<Segment> {
+    if (input.name !== undefined && !input.name.trim()) {
+      throw new Error('Segment name cannot be empty');
+    }
+
+    if (input.filter !== undefined) {
+      await this.compile(organizationId, input.filter, [], segmentId);
+    }
+
+    const updates: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (input.name !== undefined) {
+      updates.push(`name = $${paramIndex++}`);
+      params.push(input.name);
+    }
+    if (input.description !== undefined) {
+      updates.push(`description = $${paramIndex++}`);
+      params.push(input.description);
+    }
+    if (input.filter !== undefined) {
+      updates.push(`filter = $${paramIndex++}`);
+      params.push(input.filter);
+    }
+    if (input.tags !== undefined) {
+      updates.push(`tags = $${paramIndex++}`);
+      params.push(input.tags);
+    }
+
+    params.push(segmentId);
+
+    const result = await db.queryWithContext<Segment>(
+      organizationId,
+      `
+        UPDATE nexuscrm.segments
+        SET ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+        WHERE id = $${paramIndex++} AND deleted_at IS NULL
+        RETURNING ${SEGMENT_COLUMNS}
+      `,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Segment not found');
+    }
+
+    logger.info('Segment updated', { segmentId });
+
+    if (input.filter !== undefined) {
+      return this.refreshSegment(organizationId, segmentId);
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Soft delete a segment
+   *
+   * Refused while a scheduled or running campaign targets the segment.
+   */
+  async deleteSegment(organizationId: string, segmentId: string): Promise<boolean> {
+    const campaigns = await db.queryWithContext<{ id: string }>(
+      organizationId,
+      `
+        SELECT id FROM nexuscrm.campaigns
+        WHERE target_segment_id = $1 AND status = ANY($2) AND deleted_at IS NULL
+        LIMIT 1
+      `,
+      [segmentId, ACTIVE_CAMPAIGN_STATUSES]
+    );
+
+    if (campaigns.rows.length > 0) {
+      throw new Error('Segment is targeted by a scheduled or running campaign');
+    }
+
+    const result = await db.queryWithContext(
+      organizationId,
+      `UPDATE nexuscrm.segments SET deleted_at = CURRENT_TIMESTAMP WHERE id = $1 AND deleted_at IS NULL`,
+      [segmentId]
+    );
+
+    logger.info('Segment deleted', { segmentId });
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Re-evaluate a segment
+   *
+   * Static segments replace their member snapshot; dynamic segments only
+   * refresh the cached contact count.
+   */
+  async refreshSegment(organizationId: string, segmentId: string): Promise<Segment> {
+    const segment = await this.getSegment(organizationId, segmentId);
+
+    if (!segment) {
+      throw new Error('Segment not found');
+    }
+
+    // Static snapshots bind the segment and organization ahead of the filter
+    const { where, params } = await this.compile(
+      organizationId,
+      segment.filter,
+      segment.mode === 'static' ? [segmentId, organizationId] : [],
+      segmentId
+    );
+
+    const refreshed = await db.transaction(async (client) => {
+      await db.setOrganizationContext(client, organizationId);
+
+      let contactCount: number;
+
+      if (segment.mode === 'static') {
+        await client.query(
+          `DELETE FROM nexuscrm.segment_members WHERE segment_id = $1`,
+          [segmentId]
+        );
+
+        const inserted = await client.query(
+          `
+            INSERT INTO nexuscrm.segment_members (segment_id, contact_id, organization_id)
+            SELECT $1, c.id, $2
+            FROM nexuscrm.contacts c
+            WHERE c.deleted_at IS NULL AND ${where}
+          `,
+          params
+        );
+
+        contactCount = inserted.rowCount ?? 0;
+      } else {
+        const counted = await client.query<{ count: string }>(
+          `
+            SELECT COUNT(*) AS count
+            FROM nexuscrm.contacts c
+            WHERE c.deleted_at IS NULL AND ${where}
+          `,
+          params
+        );
+
+        contactCount = parseInt(counted.rows[0].count, 10);
+      }
+
+      const result = await client.query<Segment>(
+        `
+          UPDATE nexuscrm.segments
+          SET contact_count = $1, last_evaluated_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $2
+          RETURNING ${SEGMENT_COLUMNS}
+        `,
+        [contactCount, segmentId]
+      );
+
+      return result.rows[0];
+    });
+
+    logger.info('Segment refreshed', {
+      segmentId,
+      mode: segment.mode,
+      contactCount: refreshed.contactCount,
+    });
+
+    return refreshed;
+  }
+
+  /**
+   * Preview contacts matching a saved segment or an unsaved filter
+   */
+  async previewSegment(
+    organizationId: string,
+    source: SegmentSource,
+    limit: number = DEFAULT_PREVIEW_LIMIT
+  ): Promise<Contact[]> {
+    const { where, params } = await this.buildAudienceFilter(organizationId, source);
+    const boundedLimit = Math.min(Math.max(limit, 1), MAX_PREVIEW_LIMIT);
+
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT c.*
+        FROM nexuscrm.contacts c
+        WHERE c.deleted_at IS NULL AND ${where}
+        ORDER BY c.lead_score DESC, c.created_at DESC
+        LIMIT $${params.length + 1}
+      `,
+      [...params, boundedLimit]
+    );
+
+    return result.rows.map(mapContact);
+  }
+
+  /**
+   * Count contacts matching a saved segment or an unsaved filter
+   */
+  async countContacts(organizationId: string, source: SegmentSource): Promise<number> {
+    const { where, params } = await this.buildAudienceFilter(organizationId, source);
+
+    const result = await db.queryWithContext<{ count: string }>(
+      organizationId,
+      `
+        SELECT COUNT(*) AS count
+        FROM nexuscrm.contacts c
+        WHERE c.deleted_at IS NULL AND ${where}
+      `,
+      params
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  /**
+   * Build the contact predicate (alias `c`) for a segment or ad-hoc filter
+   *
+   * Static segments resolve to their member snapshot; dynamic segments and
+   * ad-hoc filters compile to a live filter. Pass `params` to append the
+   * predicate after parameters the caller has already bound.
+   */
+  async buildAudienceFilter(
+    organizationId: string,
+    source: SegmentSource,
+    params: any[] = []
+  ): Promise<CompiledFilter> {
+    if (source.segmentId) {
+      const segment = await this.getSegment(organizationId, source.segmentId);
+
+      if (!segment) {
+        throw new Error('Segment not found');
+      }
+
+      if (segment.mode === 'static') {
+        return {
+          where: `c.id IN (SELECT sm.contact_id FROM nexuscrm.segment_members sm WHERE sm.segment_id = $${params.length + 1})`,
+          params: [...params, segment.id],
+        };
+      }
+
+      return this.compile(organizationId, segment.filter, params, segment.id);
+    }
+
+    if (source.filter) {
+      return this.compile(organizationId, source.filter, params);
+    }
+
+    throw new Error('Either segmentId or filter is required');
+  }
+
+  /**
+   * Compile a filter, loading referenced segments within the organization
+   */
+  private compile(
+    organizationId: string,
+    filter: SegmentFilter,
+    params: any[] = [],
+    segmentId?: string
+  ): Promise<CompiledFilter> {
+    return compileSegmentFilter(
+      filter,
+      (referencedId) => this.getSegment(organizationId, referencedId),
+      { params, segmentId }
+    );
+  }
+}
+
+// Export singleton instance
+export const segmentManager = new SegmentManager();
+
+export default segmentManager;
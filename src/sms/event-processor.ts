@@ -0,0 +1,264 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact } from '../utils/rows';
+import { activityManager, mapActivity } from '../activities';
+import { campaignEngine } from '../campaigns/campaign-engine';
+import { emailService } from '../email';
+import { voiceNumberManager, normalizePhoneNumber } from '../voice/voice-numbers';
+import { Activity, Contact } from '../types';
+import { InboundSms, SmsDeliveryStatus, SmsStatusEvent } from './types';
+
+/**
+ * SMS Event Processor
+ *
+ * Applies provider webhooks to the CRM:
+ * - Delivery receipts update the outbound activity's delivery status and
+ *   count campaign deliveries
+ * - Replies are logged as inbound sms activities on the contact's timeline,
+ *   threaded to the outbound message they answer
+ * - STOP-style keywords unsubscribe the contact, crediting the campaign
+ *   whose message prompted it
+ *
+ * Replies are tied to an organization by the number they were sent to (a
+ * registered voice number) or, failing that, by the last message we sent to
+ * the sender.
+ */
+
+// Contacts store numbers with or without country codes and trunk prefixes;
+// matching on the trailing digits tolerates both
+const PHONE_MATCH_DIGITS = 9;
+
+// Carrier-standard opt-out keywords, matched against the whole message
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+
+// Receipts can arrive out of order; a status never moves back to an earlier one
+const STATUS_RANK: Record<SmsDeliveryStatus, number> = {
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  undelivered: 2,
+  failed: 2,
+};
+
+interface SmsActivityRef {
+  id: string;
+  organizationId: string;
+  contactId?: string;
+  campaignId?: string;
+  deliveryStatus?: SmsDeliveryStatus;
+}
+
+export class SmsEventProcessor {
+  /**
+   * Apply a delivery receipt; returns false when no matching message is found
+   */
+  async processStatus(event: SmsStatusEvent): Promise<boolean> {
+    if (event.status === 'delivered') {
+      await campaignEngine.recordDelivery('sms', event.messageId);
+    }
+
+    const activity = await this.findOutbound(event.messageId);
+
+    if (!activity) {
+      logger.debug('No SMS activity for delivery receipt', {
+        provider: event.provider,
+        messageId: event.messageId,
+      });
+      return false;
+    }
+
+    if (activity.deliveryStatus && STATUS_RANK[activity.deliveryStatus] > STATUS_RANK[event.status]) {
+      return true;
+    }
+
+    await db.queryWithContext(
+      activity.organizationId,
+      `
+        UPDATE nexuscrm.activities
+        SET metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `,
+      [
+        activity.id,
+        JSON.stringify({
+          deliveryStatus: event.status,
+          deliveryErrorCode: event.errorCode || null,
+          deliveryUpdatedAt: event.occurredAt.toISOString(),
+        }),
+      ]
+    );
+
+    if (event.status === 'failed' || event.status === 'undelivered') {
+      logger.warn('SMS not delivered', {
+        activityId: activity.id,
+        status: event.status,
+        errorCode: event.errorCode,
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Log a reply on the sender's timeline; returns null when the sender
+   * cannot be tied to an organization or contact
+   */
+  async processInbound(message: InboundSms): Promise<Activity | null> {
+    const number = await voiceNumberManager.findByPhoneNumber(message.to);
+    const thread = await this.findThread(message.from, number?.organizationId);
+    const organizationId = number?.organizationId || thread?.organizationId;
+
+    if (!organizationId) {
+      logger.warn('Inbound SMS to an unknown number', { messageId: message.messageId });
+      return null;
+    }
+
+    // Providers retry webhooks that time out
+    const existing = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.activities WHERE external_id = $1 AND type = 'sms' AND direction = 'inbound'`,
+      [message.messageId]
+    );
+    if (existing.rows[0]) {
+      return mapActivity(existing.rows[0]);
+    }
+
+    const contact = thread?.contactId
+      ? await this.getContact(organizationId, thread.contactId)
+      : await this.findContact(organizationId, message.from);
+
+    // Activities must belong to a record; messages from unknown senders are dropped
+    if (!contact) {
+      logger.info('Inbound SMS from an unknown sender', { messageId: message.messageId });
+      return null;
+    }
+
+    const activity = await activityManager.logActivity(organizationId, contact.ownerId || null, {
+      type: 'sms',
+      direction: 'inbound',
+      body: message.body,
+      contactId: contact.id,
+      companyId: contact.companyId,
+      fromNumber: message.from,
+      toNumber: message.to,
+      externalId: message.messageId,
+      metadata: {
+        provider: message.provider,
+        inReplyTo: thread?.id,
+        campaignId: thread?.campaignId,
+        mediaUrls: message.mediaUrls.length > 0 ? message.mediaUrls : undefined,
+      },
+    });
+
+    if (this.isOptOut(message.body)) {
+      await emailService.markUnsubscribed(organizationId, contact.id, thread?.campaignId);
+    }
+
+    return activity;
+  }
+
+  private isOptOut(body: string): boolean {
+    return OPT_OUT_KEYWORDS.includes(body.trim().replace(/[.!]+$/, '').toUpperCase());
+  }
+
+  private async findOutbound(messageId: string): Promise<SmsActivityRef | null> {
+    const result = await db.query(
+      `
+        SELECT
+          id,
+          organization_id,
+          contact_id,
+          metadata->>'campaignId' AS campaign_id,
+          metadata->>'deliveryStatus' AS delivery_status
+        FROM nexuscrm.activities
+        WHERE external_id = $1 AND type = 'sms' AND direction = 'outbound' AND deleted_at IS NULL
+        LIMIT 1
+      `,
+      [messageId]
+    );
+
+    return result.rows[0] ? this.toRef(result.rows[0]) : null;
+  }
+
+  /**
+   * The latest message we sent to a number, which a reply from it answers
+   */
+  private async findThread(fromNumber: string, organizationId?: string): Promise<SmsActivityRef | null> {
+    const digits = normalizePhoneNumber(fromNumber);
+
+    // Short codes and alphanumeric senders cannot be matched reliably
+    if (digits.length < PHONE_MATCH_DIGITS) {
+      return null;
+    }
+
+    const result = await db.query(
+      `
+        SELECT
+          id,
+          organization_id,
+          contact_id,
+          metadata->>'campaignId' AS campaign_id,
+          metadata->>'deliveryStatus' AS delivery_status
+        FROM nexuscrm.activities
+        WHERE type = 'sms' AND direction = 'outbound' AND deleted_at IS NULL
+          AND right(regexp_replace(to_number, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+          AND ($2::uuid IS NULL OR organization_id = $2)
+        ORDER BY created_at DESC
+        LIMIT 1
+      `,
+      [digits.slice(-PHONE_MATCH_DIGITS), organizationId || null]
+    );
+
+    return result.rows[0] ? this.toRef(result.rows[0]) : null;
+  }
+
+  private async getContact(organizationId: string, contactId: string): Promise<Contact | null> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [contactId]
+    );
+
+    return result.rows[0] ? mapContact(result.rows[0]) : null;
+  }
+
+  private async findContact(organizationId: string, fromNumber: string): Promise<Contact | null> {
+    const digits = normalizePhoneNumber(fromNumber);
+
+    if (digits.length < PHONE_MATCH_DIGITS) {
+      return null;
+    }
+
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT * FROM nexuscrm.contacts
+        WHERE deleted_at IS NULL
+          AND (
+            right(regexp_replace(mobile, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+            OR right(regexp_replace(phone, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+          )
+        ORDER BY last_contacted_at DESC NULLS LAST, created_at DESC
+        LIMIT 1
+      `,
+      [digits.slice(-PHONE_MATCH_DIGITS)]
+    );
+
+    return result.rows[0] ? mapContact(result.rows[0]) : null;
+  }
+
+  private toRef(row: any): SmsActivityRef {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      contactId: row.contact_id || undefined,
+      campaignId: row.campaign_id || undefined,
+      deliveryStatus: row.delivery_status || undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const smsEventProcessor = new SmsEventProcessor();
+
+export default smsEventProcessor;
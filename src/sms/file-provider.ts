@@ -0,0 +1,37 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { SmsMessage, SmsProvider, SmsSendResult } from './types';
+
+/**
+ * File Sink SMS Provider
+ *
+ * Writes each message as a .json file instead of sending it. The default
+ * when Twilio is not configured, so development never texts real contacts.
+ * No delivery receipts follow, so messages stay "sent".
+ */
+export class FileSinkSmsProvider implements SmsProvider {
+  readonly name = 'file' as const;
+
+  constructor(private directory: string = config.communication.smsSinkDir) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const messageId = `SM${uuidv4().replace(/-/g, '')}`;
+    const file = path.join(this.directory, `${Date.now()}-${messageId}.json`);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      file,
+      JSON.stringify({ messageId, from: message.from, to: message.to, body: message.body }, null, 2),
+      'utf8'
+    );
+
+    logger.info('SMS written to file sink', { file, to: message.to });
+
+    return { messageId, provider: this.name, status: 'sent' };
+  }
+}
+
+export default FileSinkSmsProvider;
@@ -0,0 +1,31 @@
+/**
+ * SMS Module
+ *
+ * Two-way text messaging for campaigns and one-off sends:
+ * - Provider abstraction over Twilio and a file sink
+ * - Merge field rendering from contact data
+ * - Activity logging for every message, in both directions
+ * - Delivery receipts and replies from provider webhooks
+ * - STOP / UNSUBSCRIBE keywords unsubscribe the contact
+ *
+ * Components:
+ * - SmsService: Provider selection, rendering and activity logging
+ * - TwilioSmsProvider / FileSinkSmsProvider: Delivery backends
+ * - SmsEventProcessor: Applies receipts and replies to activities, contacts and campaigns
+ *
+ * The event processor and webhook handlers depend on the campaign engine, which
+ * depends on this module; import them from their files, not from this index.
+ */
+
+export { smsService, SmsService, CampaignSmsResult } from './sms-service';
+export { twilioSmsProvider, TwilioSmsProvider } from './twilio-provider';
+export { FileSinkSmsProvider } from './file-provider';
+export {
+  SmsMessage,
+  SmsProvider,
+  SmsProviderName,
+  SmsSendResult,
+  SmsDeliveryStatus,
+  SmsStatusEvent,
+  InboundSms,
+} from './types';
@@ -0,0 +1,248 @@
+import config from '../config';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact } from '../utils/rows';
+import { activityManager } from '../activities';
+import { buildMergeValues, renderMergeFields } from '../email';
+import { Activity, Campaign, Contact } from '../types';
+import { FileSinkSmsProvider } from './file-provider';
+import { twilioSmsProvider } from './twilio-provider';
+import { SmsMessage, SmsProvider, SmsProviderName, SmsSendResult } from './types';
+
+/**
+ * SMS Service
+ *
+ * Sends text messages through the configured provider:
+ * - Renders campaign messages with the contact's merge fields
+ * - Records every send as an outbound sms activity keyed by the provider's
+ *   message ID, so delivery receipts and replies find it again
+ * - Answers a contact from the number they last texted, keeping both sides
+ *   of a conversation on one number
+ *
+ * Provider selection: SMS_PROVIDER if set, otherwise Twilio when its
+ * credentials are configured, then the local file sink.
+ */
+
+export interface CampaignSmsResult extends SmsSendResult {
+  activityId?: string;
+}
+
+export class SmsService {
+  private provider: SmsProvider | null = null;
+
+  /**
+   * Provider used for outgoing messages
+   */
+  getProvider(): SmsProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider(this.resolveProviderName());
+      logger.info('SMS provider selected', { provider: this.provider.name });
+    }
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider (e.g. with a file sink in tests)
+   */
+  setProvider(provider: SmsProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Send a fully rendered message
+   */
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    return this.getProvider().send(message);
+  }
+
+  /**
+   * Send a campaign's SMS to one contact and log it as an activity
+   */
+  async sendCampaignSms(
+    organizationId: string,
+    campaign: Campaign,
+    contact: Contact,
+    campaignJobId?: string
+  ): Promise<CampaignSmsResult> {
+    if (!config.features.enableSmsCampaigns) {
+      throw new Error('SMS campaigns are disabled');
+    }
+
+    const toNumber = contact.mobile || contact.phone;
+    if (!toNumber) {
+      throw new Error('Contact has no phone number');
+    }
+
+    const fromNumber = this.defaultFromNumber();
+    const body = renderMergeFields(campaign.smsMessage || '', buildMergeValues(contact));
+
+    const result = await this.send({ from: fromNumber, to: toNumber, body });
+
+    const metadata: Record<string, string> = {
+      campaignId: campaign.id,
+      contactId: contact.id,
+    };
+    if (campaignJobId) {
+      metadata.campaignJobId = campaignJobId;
+    }
+
+    const activity = await this.logOutbound(organizationId, campaign.createdBy || null, contact, {
+      fromNumber,
+      toNumber,
+      body,
+      result,
+      metadata,
+    });
+
+    return { ...result, activityId: activity?.id };
+  }
+
+  /**
+   * Send a one-off message to a contact
+   *
+   * Goes out from the number the contact last exchanged messages with, so a
+   * reply to an inbound text lands in the same conversation on their phone.
+   */
+  async sendToContact(
+    organizationId: string,
+    userId: string,
+    contactId: string,
+    body: string
+  ): Promise<Activity> {
+    if (!body.trim()) {
+      throw new Error('Message body is required');
+    }
+
+    const contactResult = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [contactId]
+    );
+    const contact = contactResult.rows[0] ? mapContact(contactResult.rows[0]) : null;
+
+    if (!contact) {
+      throw new Error('Contact not found');
+    }
+
+    if (contact.unsubscribed) {
+      throw new Error('Contact has unsubscribed');
+    }
+
+    const toNumber = contact.mobile || contact.phone;
+    if (!toNumber) {
+      throw new Error('Contact has no phone number');
+    }
+
+    const fromNumber = (await this.conversationNumber(organizationId, contactId)) || this.defaultFromNumber();
+    const result = await this.send({ from: fromNumber, to: toNumber, body });
+
+    const activity = await this.logOutbound(organizationId, userId, contact, {
+      fromNumber,
+      toNumber,
+      body,
+      result,
+      metadata: { contactId },
+    });
+
+    if (!activity) {
+      throw new Error('Message sent but could not be logged');
+    }
+
+    return activity;
+  }
+
+  /**
+   * Our side of the contact's latest message, if they have one
+   */
+  private async conversationNumber(organizationId: string, contactId: string): Promise<string | null> {
+    const result = await db.queryWithContext<{ number: string | null }>(
+      organizationId,
+      `
+        SELECT CASE WHEN direction = 'inbound' THEN to_number ELSE from_number END AS number
+        FROM nexuscrm.activities
+        WHERE contact_id = $1 AND type = 'sms' AND deleted_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1
+      `,
+      [contactId]
+    );
+
+    return result.rows[0]?.number || null;
+  }
+
+  private async logOutbound(
+    organizationId: string,
+    userId: string | null,
+    contact: Contact,
+    send: {
+      fromNumber: string;
+      toNumber: string;
+      body: string;
+      result: SmsSendResult;
+      metadata: Record<string, string>;
+    }
+  ): Promise<Activity | undefined> {
+    // The message is already out; a logging failure must not turn this into a failed send
+    try {
+      return await activityManager.logActivity(organizationId, userId, {
+        type: 'sms',
+        direction: 'outbound',
+        body: send.body,
+        contactId: contact.id,
+        companyId: contact.companyId,
+        fromNumber: send.fromNumber,
+        toNumber: send.toNumber,
+        externalId: send.result.messageId,
+        metadata: {
+          ...send.metadata,
+          provider: send.result.provider,
+          deliveryStatus: send.result.status,
+        },
+      });
+    } catch (error: any) {
+      logger.error('Failed to log SMS activity', {
+        error: error.message,
+        contactId: contact.id,
+        messageId: send.result.messageId,
+      });
+      return undefined;
+    }
+  }
+
+  private resolveProviderName(): SmsProviderName {
+    const { smsProvider } = config.communication;
+    const { twilioAccountSid, twilioAuthToken } = config.voice;
+
+    if (smsProvider) {
+      return smsProvider;
+    }
+    if (twilioAccountSid && twilioAuthToken) {
+      return 'twilio';
+    }
+    return 'file';
+  }
+
+  private createProvider(name: SmsProviderName): SmsProvider {
+    switch (name) {
+      case 'twilio':
+        return twilioSmsProvider;
+      case 'file':
+        return new FileSinkSmsProvider();
+    }
+  }
+
+  private defaultFromNumber(): string {
+    const fromNumber = config.communication.smsFromNumber || config.voice.twilioPhoneNumber;
+
+    if (!fromNumber) {
+      throw new Error('No SMS sender number configured');
+    }
+
+    return fromNumber;
+  }
+}
+
+// Export singleton instance
+export const smsService = new SmsService();
+
+export default smsService;
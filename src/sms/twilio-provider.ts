@@ -0,0 +1,126 @@
+import twilio from 'twilio';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { InboundSms, SmsDeliveryStatus, SmsMessage, SmsProvider, SmsSendResult, SmsStatusEvent } from './types';
+
+/**
+ * Twilio SMS Provider
+ *
+ * Sends through Twilio Programmable Messaging with the voice account's
+ * credentials. Delivery receipts are posted to /webhooks/twilio/sms/status
+ * and replies to /webhooks/twilio/sms (the number's Messaging URL), both
+ * under TWILIO_WEBHOOK_BASE_URL.
+ */
+
+// Twilio message statuses -> delivery statuses
+const TWILIO_STATUSES: Record<string, SmsDeliveryStatus> = {
+  accepted: 'queued',
+  scheduled: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+  canceled: 'failed',
+};
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio' as const;
+  private client: twilio.Twilio | null = null;
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    const sent = await this.getClient().messages.create({
+      to: message.to,
+      from: message.from,
+      body: message.body,
+      statusCallback: message.statusCallbackUrl || this.statusCallbackUrl(),
+    });
+
+    return {
+      messageId: sent.sid,
+      provider: this.name,
+      status: TWILIO_STATUSES[sent.status] || 'queued',
+    };
+  }
+
+  /**
+   * Map a Twilio message status callback (form-encoded)
+   */
+  parseStatusEvent(payload: Record<string, string>): SmsStatusEvent | null {
+    const status = TWILIO_STATUSES[payload.MessageStatus];
+
+    if (!payload.MessageSid || !status) {
+      return null;
+    }
+
+    return {
+      provider: this.name,
+      messageId: payload.MessageSid,
+      status,
+      occurredAt: new Date(),
+      errorCode: payload.ErrorCode || undefined,
+    };
+  }
+
+  /**
+   * Map an incoming message webhook (form-encoded)
+   */
+  parseInboundMessage(payload: Record<string, string>): InboundSms | null {
+    if (!payload.MessageSid || !payload.From || !payload.To) {
+      return null;
+    }
+
+    const mediaCount = parseInt(payload.NumMedia || '0', 10) || 0;
+    const mediaUrls: string[] = [];
+    for (let index = 0; index < mediaCount; index++) {
+      if (payload[`MediaUrl${index}`]) {
+        mediaUrls.push(payload[`MediaUrl${index}`]);
+      }
+    }
+
+    return {
+      provider: this.name,
+      messageId: payload.MessageSid,
+      from: payload.From,
+      to: payload.To,
+      body: payload.Body || '',
+      mediaUrls,
+      receivedAt: new Date(),
+    };
+  }
+
+  /**
+   * Empty TwiML response: replies are answered from the CRM, not inline
+   */
+  emptyResponse(): string {
+    return new twilio.twiml.MessagingResponse().toString();
+  }
+
+  private statusCallbackUrl(): string | undefined {
+    if (!config.voice.twilioWebhookBaseUrl) {
+      logger.warn('Twilio webhook base URL not configured - SMS delivery receipts disabled');
+      return undefined;
+    }
+    return `${config.voice.twilioWebhookBaseUrl.replace(/\/$/, '')}/webhooks/twilio/sms/status`;
+  }
+
+  private getClient(): twilio.Twilio {
+    if (!this.client) {
+      const { twilioAccountSid, twilioAuthToken } = config.voice;
+
+      if (!twilioAccountSid || !twilioAuthToken) {
+        throw new Error('Twilio credentials not configured');
+      }
+
+      this.client = twilio(twilioAccountSid, twilioAuthToken);
+    }
+    return this.client;
+  }
+}
+
+// Export singleton instance
+export const twilioSmsProvider = new TwilioSmsProvider();
+
+export default twilioSmsProvider;
@@ -0,0 +1,50 @@
+/**
+ * SMS Types
+ */
+
+export interface SmsMessage {
+  from: string;
+  to: string;
+  body: string;
+  // Where the provider posts delivery receipts for this message
+  statusCallbackUrl?: string;
+}
+
+export interface SmsSendResult {
+  messageId: string;
+  provider: SmsProviderName;
+  status: SmsDeliveryStatus;
+}
+
+export type SmsProviderName = 'twilio' | 'file';
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
+
+export type SmsDeliveryStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+/**
+ * Delivery receipt for an outbound message
+ */
+export interface SmsStatusEvent {
+  provider: SmsProviderName;
+  messageId: string;
+  status: SmsDeliveryStatus;
+  occurredAt: Date;
+  errorCode?: string;
+}
+
+/**
+ * A message a contact sent to one of our numbers
+ */
+export interface InboundSms {
+  provider: SmsProviderName;
+  messageId: string;
+  from: string;
+  to: string;
+  body: string;
+  mediaUrls: string[];
+  receivedAt: Date;
+}
@@ -0,0 +1,64 @@
+import { Request, Response } from 'express';
+import { logger } from '../utils/logger';
+import { smsEventProcessor } from './event-processor';
+import { twilioSmsProvider } from './twilio-provider';
+
+/**
+ * SMS Webhook Handlers
+ *
+ * Receives Twilio Messaging callbacks (form-encoded):
+ * - Delivery receipts (POST /webhooks/twilio/sms/status)
+ * - Incoming messages (POST /webhooks/twilio/sms, the number's Messaging URL),
+ *   answered with empty TwiML
+ *
+ * Requests are verified with verifyTwilioMiddleware from the voice webhook
+ * handler, which shares the account's auth token.
+ */
+
+/**
+ * Delivery receipt handler
+ */
+export async function handleTwilioSmsStatus(req: Request, res: Response): Promise<void> {
+  try {
+    const event = twilioSmsProvider.parseStatusEvent(req.body || {});
+
+    if (event) {
+      await smsEventProcessor.processStatus(event);
+    } else {
+      logger.debug('Unhandled Twilio message status', { messageStatus: req.body?.MessageStatus });
+    }
+
+    // Always respond 200 to acknowledge receipt
+    res.status(200).json({ received: true });
+  } catch (error: any) {
+    logger.error('Failed to handle Twilio SMS status', { error: error.message });
+    // Still return 200 to avoid retries for processing errors
+    res.status(200).json({ received: true, error: error.message });
+  }
+}
+
+/**
+ * Incoming message handler
+ */
+export async function handleTwilioInboundSms(req: Request, res: Response): Promise<void> {
+  try {
+    const message = twilioSmsProvider.parseInboundMessage(req.body || {});
+
+    if (message) {
+      logger.info('Received Twilio inbound SMS', { messageSid: message.messageId });
+      await smsEventProcessor.processInbound(message);
+    }
+  } catch (error: any) {
+    logger.error('Failed to handle Twilio inbound SMS', {
+      error: error.message,
+      messageSid: req.body?.MessageSid,
+    });
+  }
+
+  res.type('text/xml').status(200).send(twilioSmsProvider.emptyResponse());
+}
+
+export default {
+  handleTwilioSmsStatus,
+  handleTwilioInboundSms,
+};
@@ -85,6 +85,7 @@ export interface Deal {
   primaryContactId?: string;
   amount?: number;
   currency: string;
+  pipelineId?: string;
   stage: string;
   stageChangedAt?: Date;
   probability?: number;
@@ -107,6 +108,48 @@ export interface Deal {
   deletedAt?: Date;
 }
 
+export interface Pipeline {
+  id: string;
+  name: string;
+  description?: string;
+  isDefault: boolean;
+  stages?: PipelineStage[];
+  createdBy?: string;
+  organizationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date;
+}
+
+export interface PipelineStage {
+  id: string;
+  pipelineId: string;
+  key: string;
+  name: string;
+  position: number;
+  defaultProbability?: number;
+  requiredFields: string[];
+  isWon: boolean;
+  isLost: boolean;
+  organizationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DealStageHistory {
+  id: string;
+  dealId: string;
+  fromStage?: string;
+  stage: string;
+  probability?: number;
+  enteredAt: Date;
+  exitedAt?: Date;
+  durationSeconds?: number;
+  changedBy?: string;
+  organizationId: string;
+  createdAt: Date;
+}
+
 export interface Activity {
   id: string;
   type: 'call' | 'email' | 'meeting' | 'task' | 'note' | 'sms' | 'whatsapp' | 'linkedin-message';
@@ -187,6 +230,13 @@ export interface Campaign {
   smsMessage?: string;
   voiceScript?: string;
   voiceAssistantConfig?: Record<string, any>;
+  voicemailConfig?: VoicemailConfig;
+  dialerConfig?: DialerConfig;
+  whatsappTemplate?: WhatsAppTemplateConfig;
+  variants?: CampaignVariant[];
+  abTestConfig?: AbTestConfig;
+  abWinnerVariantId?: string;
+  abWinnerSelectedAt?: Date;
   sentCount: number;
   deliveredCount: number;
   openedCount: number;
@@ -196,6 +246,7 @@ export interface Campaign {
   bouncedCount: number;
   unsubscribedCount: number;
   failedCount: number;
+  voicemailCount: number;
   openRate?: number;
   clickRate?: number;
   conversionRate?: number;
@@ -209,10 +260,277 @@ export interface Campaign {
   deletedAt?: Date;
 }
 
+export type CampaignChannel = 'email' | 'sms' | 'voice' | 'whatsapp';
+
+export interface CampaignJob {
+  id: string;
+  campaignId: string;
+  contactId: string;
+  channel: CampaignChannel;
+  // held: kept back from an A/B test until its winner is picked
+  status: 'pending' | 'held' | 'running' | 'sent' | 'delivered' | 'failed' | 'cancelled';
+  attempts: number;
+  // Content variant sent to the contact, on campaigns with variants
+  variantId?: string;
+  externalId?: string;
+  error?: string;
+  // How the call ended, for voice jobs
+  callOutcome?: 'completed' | 'voicemail' | 'no-answer' | 'busy' | 'failed';
+  // When a voice job waiting to be redialed becomes due
+  nextAttemptAt?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  organizationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What to do when an outbound call reaches voicemail
+ *
+ * `message` is spoken with TTS and may use merge fields; `audioUrl` plays a
+ * recording instead (Twilio only).
+ */
+export interface VoicemailConfig {
+  action: 'message' | 'hangup';
+  message?: string;
+  audioUrl?: string;
+}
+
+/**
+ * Power dialer settings for a voice-outbound campaign
+ *
+ * The dialer keeps up to `lines` calls live at once, redials busy and
+ * no-answer numbers every `retryDelayMinutes` until a contact has been tried
+ * `maxAttempts` times, and pauses the campaign once its call cost reaches
+ * `budgetUsd`.
+ */
+export interface DialerConfig {
+  lines: number;
+  maxAttempts?: number;
+  retryDelayMinutes?: number;
+  budgetUsd?: number;
+}
+
+/**
+ * Media attached to a WhatsApp message or template header
+ */
+export interface WhatsAppMedia {
+  type: 'image' | 'video' | 'audio' | 'document';
+  url: string;
+  caption?: string;
+  filename?: string;
+}
+
+/**
+ * Approved WhatsApp template sent by a whatsapp-campaign
+ *
+ * Each entry of `variables` fills the template's {{1}}, {{2}}, ... body
+ * parameters in order and may use merge fields such as `{{firstName}}`.
+ * `headerMedia` fills a media header, if the template has one.
+ */
+export interface WhatsAppTemplateConfig {
+  name: string;
+  language: string;
+  variables?: string[];
+  headerMedia?: WhatsAppMedia;
+}
+
+/**
+ * Alternative content sent to part of a campaign's audience
+ *
+ * Fields that are set replace the campaign's own. `weight` is the variant's
+ * relative share of the test audience (default 1).
+ */
+export interface CampaignVariant {
+  id: string;
+  name?: string;
+  weight?: number;
+  emailSubject?: string;
+  emailBodyHtml?: string;
+  emailBodyText?: string;
+  smsMessage?: string;
+  voiceScript?: string;
+}
+
+export type AbTestMetric = 'open_rate' | 'click_rate' | 'reply_rate' | 'conversion_rate';
+
+/**
+ * Automatic winner selection for a campaign with variants
+ *
+ * `testPercent` of the audience is split across the variants at launch and
+ * the rest is held back. After `testWindowHours` the variant with the best
+ * `winnerMetric` wins and is sent to the held-back contacts.
+ */
+export interface AbTestConfig {
+  testPercent: number;
+  testWindowHours: number;
+  winnerMetric: AbTestMetric;
+}
+
+/**
+ * Per-variant results
+ *
+ * Open and click rates are per email sent; reply and conversion rates are
+ * per contact reached.
+ */
+export interface CampaignVariantMetrics {
+  variantId: string;
+  name?: string;
+  recipients: number;
+  sent: number;
+  delivered: number;
+  failed: number;
+  opened: number;
+  clicked: number;
+  replied: number;
+  converted: number;
+  openRate: number;
+  clickRate: number;
+  replyRate: number;
+  conversionRate: number;
+  isWinner: boolean;
+}
+
+/**
+ * Queue state of a dialer campaign, streamed as `campaign:progress`
+ */
+export interface DialerProgress {
+  campaignId: string;
+  status: Campaign['status'];
+  lines: number;
+  pending: number;
+  dialing: number;
+  retrying: number;
+  completed: number;
+  voicemail: number;
+  unreached: number;
+  failed: number;
+  totalCostUsd: number;
+  budgetUsd?: number;
+}
+
+export type SequenceStepType = 'email' | 'sms' | 'call' | 'task' | 'wait' | 'wait_until' | 'branch';
+
+/**
+ * Multi-step sequence run by an email-drip or multi-channel campaign, stored
+ * as `workflowConfig.sequence`
+ *
+ * Steps run in order unless a step names its `next` step or branches. An
+ * enrollment ends after the last step, when the contact unsubscribes, or
+ * earlier when the contact replies (`exitOnReply`, default true) or converts
+ * (`exitOnConversion`, default true): becomes a customer or has a deal
+ * opened for them.
+ */
+export interface SequenceDefinition {
+  steps: SequenceStep[];
+  exitOnReply?: boolean;
+  exitOnConversion?: boolean;
+}
+
+/**
+ * One sequence step
+ *
+ * Message bodies may use merge fields. Wait steps hold the enrollment for
+ * `days`/`hours`, or until the next `waitUntil` weekday and time in the
+ * contact's timezone (UTC when unknown).
+ */
+export interface SequenceStep {
+  id: string;
+  type: SequenceStepType;
+  // Step to run after this one; defaults to the following step
+  next?: string;
+  emailSubject?: string;
+  emailBodyHtml?: string;
+  emailBodyText?: string;
+  smsMessage?: string;
+  voiceScript?: string;
+  taskSubject?: string;
+  taskBody?: string;
+  taskDueDays?: number;
+  days?: number;
+  hours?: number;
+  waitUntil?: SequenceWaitUntil;
+  branch?: SequenceBranch;
+}
+
+export interface SequenceWaitUntil {
+  // ISO weekdays: 1 = Monday ... 7 = Sunday; any day when omitted
+  weekdays?: number[];
+  // "HH:MM"; the start of the day when omitted
+  time?: string;
+}
+
+/**
+ * Branch on what happened to an earlier send step (when `stepId` is
+ * omitted, the latest one the condition applies to)
+ *
+ * Conditions are checked when the branch is reached, so a wait step usually
+ * comes first. `call_outcome` matches how the call ended against `outcomes`.
+ */
+export interface SequenceBranch {
+  condition: 'opened' | 'clicked' | 'replied' | 'call_outcome';
+  stepId?: string;
+  outcomes?: Array<NonNullable<CampaignJob['callOutcome']>>;
+  then: string;
+  else: string;
+}
+
+/**
+ * What one step did for an enrollment
+ */
+export interface SequenceStepResult {
+  stepId: string;
+  type: SequenceStepType;
+  at: Date;
+  externalId?: string;
+  activityId?: string;
+  // The branch taken, for branch steps
+  nextStepId?: string;
+  error?: string;
+}
+
+/**
+ * A contact's progress through a sequence campaign
+ */
+export interface SequenceEnrollment {
+  id: string;
+  campaignId: string;
+  contactId: string;
+  status: 'active' | 'completed' | 'exited' | 'failed' | 'cancelled';
+  currentStepId?: string;
+  nextRunAt?: Date;
+  history: SequenceStepResult[];
+  exitReason?: 'replied' | 'converted' | 'unsubscribed';
+  error?: string;
+  organizationId: string;
+  startedAt: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Segment {
+  id: string;
+  name: string;
+  description?: string;
+  mode: 'static' | 'dynamic';
+  filter: SegmentFilter;
+  contactCount: number;
+  lastEvaluatedAt?: Date;
+  tags?: string[];
+  createdBy?: string;
+  organizationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  deletedAt?: Date;
+}
+
 export interface VoiceCall {
   id: string;
   activityId?: string;
   platform: 'vapi' | 'twilio' | 'internal';
+  direction: 'inbound' | 'outbound';
   externalCallId?: string;
   fromNumber: string;
   toNumber: string;
@@ -240,12 +558,185 @@ export interface VoiceCall {
   dealScore?: number;
   costUsd?: number;
   costBreakdown?: Record<string, number>;
+  // Handoffs from the assistant to a person, in order
+  transfers?: VoiceCallTransfer[];
   metadata?: Record<string, any>;
   organizationId: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export type VoiceTransferReason = 'buying_signal' | 'requested_human' | 'other';
+
+export interface VoiceCallTransfer {
+  reason: VoiceTransferReason;
+  // Spoken to the rep before the callee is connected
+  summary: string;
+  // Who took the call: the contact's owner, an on-call rep, or the fallback number
+  target: 'owner' | 'on_call' | 'fallback';
+  userId?: string;
+  phoneNumber: string;
+  transferredAt: string;
+}
+
+export interface VoiceSettings {
+  organizationId: string;
+  defaultPlatform: 'vapi' | 'twilio';
+  fromNumber?: string;
+  // Outbound calling window, local to the contact ("HH:MM")
+  callingHoursStart: string;
+  callingHoursEnd: string;
+  // ISO weekdays: 1 = Monday ... 7 = Sunday
+  callingDays: number[];
+  // Used for contacts without a timezone
+  defaultTimezone: string;
+  // Outbound calls per number in any 24 hours
+  maxDailyAttempts: number;
+  // No config means the assistant never hands calls to a person
+  transferConfig?: VoiceTransferConfig;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+export type CallBlockReason =
+  | 'contact_do_not_call'
+  | 'contact_unsubscribed'
+  | 'dnc_list'
+  | 'outside_calling_hours'
+  | 'daily_attempt_limit';
+
+/**
+ * A number on the organization's Do-Not-Call list
+ */
+export interface DncNumber {
+  phoneNumber: string;
+  reason?: string;
+  source: 'manual' | 'import';
+  addedBy?: string;
+  organizationId: string;
+  createdAt: Date;
+}
+
+/**
+ * An outbound call the compliance gate blocked (or an admin overrode)
+ */
+export interface CallComplianceEvent {
+  id: string;
+  contactId?: string;
+  toNumber: string;
+  reason: CallBlockReason;
+  message: string;
+  overridden: boolean;
+  overrideReason?: string;
+  userId?: string;
+  organizationId: string;
+  createdAt: Date;
+}
+
+/**
+ * When and to whom the voice assistant hands a call to a person
+ *
+ * Targets are tried in order: `owner` is the contact's owner, `on_call` the
+ * first available rep in onCallUserIds. Outside the transfer hours (in the
+ * organization's default timezone), or when nobody is available, `fallback`
+ * applies: the assistant keeps the call and offers a callback, or the call
+ * goes to fallbackNumber.
+ */
+export interface VoiceTransferConfig {
+  enabled: boolean;
+  targets: Array<'owner' | 'on_call'>;
+  onCallUserIds?: string[];
+  // "HH:MM"; without them transfers are taken at any time
+  hoursStart?: string;
+  hoursEnd?: string;
+  // ISO weekdays: 1 = Monday ... 7 = Sunday
+  days?: number[];
+  fallback: 'assistant' | 'number';
+  fallbackNumber?: string;
+}
+
+export type CallSupervisorAction = 'monitor' | 'whisper' | 'barge' | 'transfer';
+
+export interface CallSupervisorActionRecord {
+  id: string;
+  voiceCallId: string;
+  userId: string;
+  action: CallSupervisorAction;
+  // The whisper text or the number the call went to
+  details: Record<string, any>;
+  success: boolean;
+  error?: string;
+  organizationId: string;
+  createdAt: Date;
+}
+
+export type VoiceRoutingStrategy = 'owner' | 'round_robin' | 'assistant';
+
+/**
+ * An inbound phone number and how its calls are routed
+ */
+export interface VoiceNumber {
+  id: string;
+  phoneNumber: string;
+  platform: 'vapi' | 'twilio';
+  label?: string;
+  routingStrategy: VoiceRoutingStrategy;
+  roundRobinUserIds: string[];
+  roundRobinCursor: number;
+  ringTimeoutSeconds: number;
+  assistantConfig: InboundAssistantConfig;
+  organizationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InboundAssistantConfig {
+  systemPrompt?: string;
+  firstMessage?: string;
+  language?: string;
+  voiceId?: string;
+  model?: string;
+}
+
+/**
+ * A user's phone for forwarded calls
+ */
+export interface VoiceAgent {
+  userId: string;
+  phoneNumber: string;
+  available: boolean;
+  organizationId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Activity types that make up inbox conversations
+ */
+export type InboxChannel = 'email' | 'sms' | 'whatsapp' | 'call';
+
+export type InboxFilter = 'all' | 'unread' | 'mine' | 'unassigned' | 'snoozed';
+
+/**
+ * A contact's conversation across channels, summarized for the inbox
+ *
+ * Threads are assigned to the contact's owner unless a rep reassigns them.
+ * A snoozed thread reappears when `snoozedUntil` passes or the contact
+ * writes again.
+ */
+export interface InboxThread {
+  contactId: string;
+  lastActivityId: string;
+  lastChannel: InboxChannel;
+  lastDirection: 'inbound' | 'outbound';
+  lastPreview?: string;
+  lastMessageAt: Date;
+  lastInboundAt: Date;
+  unreadCount: number;
+  assignedTo?: string;
+  snoozedUntil?: Date;
+}
+
 // ============================================================================
 // Supporting Types
 // ============================================================================
@@ -269,6 +760,58 @@ export interface TranscriptSegment {
   endTime: number;
 }
 
+/**
+ * Segment filter tree
+ *
+ * Groups combine rules with `all` (AND), `any` (OR) or `not`. Leaf conditions
+ * compare a contact field, a tag, a custom field (`customFields.<key>`),
+ * activity history (`activity`) or membership of another segment (`segment`).
+ */
+export type SegmentFilter = SegmentFilterGroup | SegmentCondition;
+
+export interface SegmentFilterGroup {
+  all?: SegmentFilter[];
+  any?: SegmentFilter[];
+  not?: SegmentFilter;
+}
+
+export type SegmentOperator =
+  | 'eq'
+  | 'neq'
+  | 'in'
+  | 'not_in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'starts_with'
+  | 'is_set'
+  | 'is_not_set'
+  | 'within_days'
+  | 'older_than_days'
+  | 'has_any'
+  | 'has_all'
+  | 'has_none'
+  | 'has'
+  | 'has_not';
+
+export interface SegmentCondition {
+  field: string;
+  operator: SegmentOperator;
+  value?: any;
+}
+
+export interface SegmentActivityCriteria {
+  type?: Activity['type'];
+  direction?: Activity['direction'];
+  withinDays?: number;
+  minCount?: number;
+  emailOpened?: boolean;
+  emailClicked?: boolean;
+  callStatus?: Activity['callStatus'];
+}
+
 // ============================================================================
 // API Request/Response Types
 // ============================================================================
@@ -307,6 +850,142 @@ export interface UpdateContactInput {
   customFields?: Record<string, any>;
 }
 
+export interface CreateCompanyInput {
+  name: string;
+  domain?: string;
+  industry?: string;
+  size?: string;
+  revenueRange?: string;
+  employeeCount?: number;
+  foundedYear?: number;
+  description?: string;
+  website?: string;
+  phone?: string;
+  address?: Address;
+  socialLinks?: Record<string, string>;
+  ownerId?: string;
+  tags?: string[];
+  customFields?: Record<string, any>;
+}
+
+export interface UpdateCompanyInput {
+  name?: string;
+  domain?: string;
+  industry?: string;
+  size?: string;
+  revenueRange?: string;
+  employeeCount?: number;
+  foundedYear?: number;
+  description?: string;
+  website?: string;
+  phone?: string;
+  address?: Address;
+  socialLinks?: Record<string, string>;
+  ownerId?: string;
+  tags?: string[];
+  customFields?: Record<string, any>;
+}
+
+export interface CreateDealInput {
+  name: string;
+  companyId?: string;
+  primaryContactId?: string;
+  amount?: number;
+  currency?: string;
+  pipelineId?: string;
+  stage?: string;
+  probability?: number;
+  expectedCloseDate?: Date;
+  dealType?: string;
+  mrr?: number;
+  arr?: number;
+  contractTermMonths?: number;
+  productsSold?: any[];
+  ownerId?: string;
+  tags?: string[];
+  customFields?: Record<string, any>;
+}
+
+export interface UpdateDealInput {
+  name?: string;
+  companyId?: string;
+  primaryContactId?: string;
+  amount?: number;
+  currency?: string;
+  probability?: number;
+  expectedCloseDate?: Date;
+  dealType?: string;
+  mrr?: number;
+  arr?: number;
+  contractTermMonths?: number;
+  productsSold?: any[];
+  ownerId?: string;
+  tags?: string[];
+  customFields?: Record<string, any>;
+}
+
+export interface PipelineStageInput {
+  key: string;
+  name: string;
+  defaultProbability?: number;
+  requiredFields?: string[];
+  isWon?: boolean;
+  isLost?: boolean;
+}
+
+export interface UpdatePipelineStageInput {
+  name?: string;
+  defaultProbability?: number;
+  requiredFields?: string[];
+  isWon?: boolean;
+  isLost?: boolean;
+}
+
+export interface CreatePipelineInput {
+  name: string;
+  description?: string;
+  isDefault?: boolean;
+  stages: PipelineStageInput[];
+}
+
+export interface UpdatePipelineInput {
+  name?: string;
+  description?: string;
+  isDefault?: boolean;
+}
+
+export interface LogActivityInput {
+  type: Activity['type'];
+  subject?: string;
+  body?: string;
+  direction?: Activity['direction'];
+  contactId?: string;
+  companyId?: string;
+  dealId?: string;
+  fromNumber?: string;
+  toNumber?: string;
+  durationSeconds?: number;
+  callStatus?: Activity['callStatus'];
+  fromEmail?: string;
+  toEmails?: string[];
+  ccEmails?: string[];
+  bccEmails?: string[];
+  meetingStartTime?: Date;
+  meetingEndTime?: Date;
+  meetingLocation?: string;
+  meetingAttendees?: any[];
+  meetingUrl?: string;
+  taskStatus?: Activity['taskStatus'];
+  taskPriority?: Activity['taskPriority'];
+  taskDueDate?: Date;
+  externalId?: string;
+  metadata?: Record<string, any>;
+  tags?: string[];
+  assignedTo?: string;
+}
+
+export type UpdateActivityInput = Partial<Omit<LogActivityInput, 'type'>>;
+
 export interface ContactFilter {
   companyId?: string;
   leadStatus?: string;
@@ -325,12 +1004,69 @@ export interface MakeCallInput {
   voiceId?: string;
   model?: string;
   tools?: VoiceTool[];
+  // Overrides the organization's default voice platform
+  platform?: 'vapi' | 'twilio';
+  // What to do on reaching voicemail (default: hang up)
+  voicemail?: VoicemailConfig;
+  // Dial despite a compliance block; callers must check the override permission
+  complianceOverride?: boolean;
+  overrideReason?: string;
 }
 
+export interface CreateVoiceNumberInput {
+  phoneNumber: string;
+  platform: VoiceNumber['platform'];
+  label?: string;
+  routingStrategy?: VoiceRoutingStrategy;
+  roundRobinUserIds?: string[];
+  ringTimeoutSeconds?: number;
+  assistantConfig?: InboundAssistantConfig;
+}
+
+export interface UpdateVoiceNumberInput {
+  label?: string;
+  routingStrategy?: VoiceRoutingStrategy;
+  roundRobinUserIds?: string[];
+  ringTimeoutSeconds?: number;
+  assistantConfig?: InboundAssistantConfig;
+}
+
+export interface SetVoiceAgentInput {
+  userId: string;
+  phoneNumber: string;
+  available?: boolean;
+}
+
+export interface UpdateVoiceSettingsInput {
+  defaultPlatform?: VoiceSettings['defaultPlatform'];
+  fromNumber?: string | null;
+  callingHoursStart?: string;
+  callingHoursEnd?: string;
+  callingDays?: number[];
+  defaultTimezone?: string;
+  maxDailyAttempts?: number;
+  transferConfig?: VoiceTransferConfig | null;
+}
+
+// A tool the assistant may call. A name alone refers to a built-in CRM tool
+// (see src/voice/call-tools.ts); custom tools need a description and parameters.
 export interface VoiceTool {
   name: string;
-  description: string;
+  description?: string;
+  parameters?: Record<string, any>;
+}
+
+export interface CallToolInvocation {
+  id: string;
+  voiceCallId: string;
+  toolName: string;
   parameters: Record<string, any>;
+  result: Record<string, any>;
+  success: boolean;
+  error?: string;
+  durationMs?: number;
+  organizationId: string;
+  createdAt: Date;
 }
 
 export interface CallResult {
@@ -339,6 +1075,48 @@ export interface CallResult {
   message?: string;
 }
 
+export interface CreateCampaignInput {
+  name: string;
+  description?: string;
+  type: Campaign['type'];
+  workflowGoal?: string;
+  workflowConfig?: Record<string, any>;
+  targetSegmentId?: string;
+  emailSubject?: string;
+  emailBodyHtml?: string;
+  emailBodyText?: string;
+  emailFromName?: string;
+  emailFromEmail?: string;
+  emailReplyTo?: string;
+  smsMessage?: string;
+  voiceScript?: string;
+  voiceAssistantConfig?: Record<string, any>;
+  voicemailConfig?: VoicemailConfig;
+  dialerConfig?: DialerConfig;
+  whatsappTemplate?: WhatsAppTemplateConfig;
+  variants?: CampaignVariant[];
+  abTestConfig?: AbTestConfig;
+  tags?: string[];
+  customFields?: Record<string, any>;
+}
+
+export type UpdateCampaignInput = Partial<Omit<CreateCampaignInput, 'type'>>;
+
+export interface CreateSegmentInput {
+  name: string;
+  description?: string;
+  mode?: Segment['mode'];
+  filter: SegmentFilter;
+  tags?: string[];
+}
+
+export interface UpdateSegmentInput {
+  name?: string;
+  description?: string;
+  filter?: SegmentFilter;
+  tags?: string[];
+}
+
 export interface LaunchCampaignInput {
   campaignId: string;
   segmentId: string;
@@ -348,6 +1126,8 @@ export interface CampaignLaunchResult {
   campaignId: string;
   jobsCreated: number;
   jobs: string[];
+  // Sequence campaigns enroll contacts instead of creating send jobs
+  enrollmentsCreated?: number;
 }
 
 // ============================================================================
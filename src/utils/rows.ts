@@ -0,0 +1,156 @@
+import { Contact, Deal, VoiceCall } from '../types';
+
+/**
+ * Row Mapping
+ *
+ * pg returns columns under their snake_case names. These helpers turn a row
+ * into the camelCase shape declared in src/types through an explicit
+ * field -> column map, for tables read with SELECT * or RETURNING *.
+ * Columns missing from the row, and NULLs, are left out.
+ */
+
+export type ColumnMap<T> = { [K in keyof T]-?: string };
+
+/**
+ * Map a row through a field -> column map
+ */
+export function mapRow<T>(row: Record<string, any>, columns: ColumnMap<T>): T {
+  const mapped: Record<string, any> = {};
+
+  for (const [field, column] of Object.entries(columns) as Array<[string, string]>) {
+    if (row[column] !== undefined && row[column] !== null) {
+      mapped[field] = row[column];
+    }
+  }
+
+  return mapped as T;
+}
+
+// Contact field -> contacts column
+export const CONTACT_COLUMNS: ColumnMap<Contact> = {
+  id: 'id',
+  companyId: 'company_id',
+  firstName: 'first_name',
+  lastName: 'last_name',
+  fullName: 'full_name',
+  email: 'email',
+  emailVerified: 'email_verified',
+  phone: 'phone',
+  phoneVerified: 'phone_verified',
+  mobile: 'mobile',
+  jobTitle: 'job_title',
+  department: 'department',
+  seniority: 'seniority',
+  decisionMaker: 'decision_maker',
+  linkedinUrl: 'linkedin_url',
+  twitterHandle: 'twitter_handle',
+  address: 'address',
+  timezone: 'timezone',
+  language: 'language',
+  leadScore: 'lead_score',
+  leadStatus: 'lead_status',
+  leadSource: 'lead_source',
+  lifecycleStage: 'lifecycle_stage',
+  doNotCall: 'do_not_call',
+  doNotEmail: 'do_not_email',
+  unsubscribed: 'unsubscribed',
+  unsubscribedAt: 'unsubscribed_at',
+  bounced: 'bounced',
+  bouncedAt: 'bounced_at',
+  enrichmentData: 'enrichment_data',
+  enrichmentSource: 'enrichment_source',
+  enrichmentConfidence: 'enrichment_confidence',
+  enrichedAt: 'enriched_at',
+  tags: 'tags',
+  customFields: 'custom_fields',
+  ownerId: 'owner_id',
+  organizationId: 'organization_id',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  lastContactedAt: 'last_contacted_at',
+  lastScoredAt: 'last_scored_at',
+  deletedAt: 'deleted_at',
+};
+
+export function mapContact(row: Record<string, any>): Contact {
+  return mapRow<Contact>(row, CONTACT_COLUMNS);
+}
+
+// Deal field -> deals column
+export const DEAL_COLUMNS: ColumnMap<Deal> = {
+  id: 'id',
+  name: 'name',
+  companyId: 'company_id',
+  primaryContactId: 'primary_contact_id',
+  amount: 'amount',
+  currency: 'currency',
+  pipelineId: 'pipeline_id',
+  stage: 'stage',
+  stageChangedAt: 'stage_changed_at',
+  probability: 'probability',
+  expectedCloseDate: 'expected_close_date',
+  actualCloseDate: 'actual_close_date',
+  closeReason: 'close_reason',
+  dealType: 'deal_type',
+  lostReason: 'lost_reason',
+  lostToCompetitor: 'lost_to_competitor',
+  mrr: 'mrr',
+  arr: 'arr',
+  contractTermMonths: 'contract_term_months',
+  productsSold: 'products_sold',
+  customFields: 'custom_fields',
+  tags: 'tags',
+  ownerId: 'owner_id',
+  organizationId: 'organization_id',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  deletedAt: 'deleted_at',
+};
+
+export function mapDeal(row: Record<string, any>): Deal {
+  return mapRow<Deal>(row, DEAL_COLUMNS);
+}
+
+// VoiceCall field -> voice_calls column
+export const VOICE_CALL_COLUMNS: ColumnMap<VoiceCall> = {
+  id: 'id',
+  activityId: 'activity_id',
+  platform: 'platform',
+  direction: 'direction',
+  externalCallId: 'external_call_id',
+  fromNumber: 'from_number',
+  toNumber: 'to_number',
+  status: 'status',
+  initiatedAt: 'initiated_at',
+  answeredAt: 'answered_at',
+  endedAt: 'ended_at',
+  durationSeconds: 'duration_seconds',
+  assistantConfig: 'assistant_config',
+  sttProvider: 'stt_provider',
+  ttsProvider: 'tts_provider',
+  llmModel: 'llm_model',
+  recordingUrl: 'recording_url',
+  recordingDuration: 'recording_duration',
+  transcript: 'transcript',
+  transcriptLanguage: 'transcript_language',
+  sentimentOverall: 'sentiment_overall',
+  sentimentTimeline: 'sentiment_timeline',
+  keywordsDetected: 'keywords_detected',
+  topicsDiscussed: 'topics_discussed',
+  objectionsRaised: 'objections_raised',
+  buyingSignals: 'buying_signals',
+  actionItems: 'action_items',
+  callOutcome: 'call_outcome',
+  dealScore: 'deal_score',
+  costUsd: 'cost_usd',
+  costBreakdown: 'cost_breakdown',
+  transfers: 'transfers',
+  metadata: 'metadata',
+  organizationId: 'organization_id',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+};
+
+export function mapVoiceCall(row: Record<string, any>): VoiceCall {
+  return mapRow<VoiceCall>(row, VOICE_CALL_COLUMNS);
+}
@@ -0,0 +1,484 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { CallBlockReason, CallComplianceEvent, Contact, DncNumber, VoiceSettings } from '../types';
+import { voiceSettingsManager, isValidTimezone, isWithinHours, localTimeIn } from './voice-settings';
+import { normalizePhoneNumber } from './voice-numbers';
+
+/**
+ * Call Compliance
+ *
+ * Gate in front of every outbound call. A call is blocked when:
+ * - the contact is marked Do-Not-Call or unsubscribed
+ * - the number is on the organization's Do-Not-Call list
+ * - it is outside the calling window in the contact's timezone
+ * - the number was already called the maximum number of times in 24 hours
+ *
+ * Blocks are recorded in call_compliance_events with a reason code. Users
+ * with the override permission (granted to admins) may dial anyway; the
+ * override is recorded against the same reason.
+ */
+
+export const COMPLIANCE_OVERRIDE_PERMISSION = 'voice:compliance:override';
+
+// DNC entries and dialed numbers differ in country codes and trunk prefixes;
+// matching on the trailing digits errs on the side of blocking
+const DNC_MATCH_DIGITS = 9;
+
+const MIN_PHONE_DIGITS = 7;
+const MAX_PHONE_DIGITS = 15;
+
+const MAX_IMPORT_ROWS = 100000;
+const IMPORT_CHUNK_SIZE = 1000;
+
+const DNC_COLUMNS = `
+  phone_number AS "phoneNumber",
+  reason,
+  source,
+  added_by AS "addedBy",
+  organization_id AS "organizationId",
+  created_at AS "createdAt"
+`;
+
+const EVENT_COLUMNS = `
+  id,
+  contact_id AS "contactId",
+  to_number AS "toNumber",
+  reason,
+  message,
+  overridden,
+  override_reason AS "overrideReason",
+  user_id AS "userId",
+  organization_id AS "organizationId",
+  created_at AS "createdAt"
+`;
+
+export interface ComplianceCheckInput {
+  organizationId: string;
+  toNumber: string;
+  contactId?: string;
+  userId?: string;
+  // Already authorized by the caller (see COMPLIANCE_OVERRIDE_PERMISSION)
+  override?: boolean;
+  overrideReason?: string;
+}
+
+export interface ComplianceDecision {
+  allowed: boolean;
+  reason?: CallBlockReason;
+  message?: string;
+  overridden?: boolean;
+}
+
+export interface DncImportResult {
+  imported: number;
+  duplicates: number;
+  invalid: number;
+}
+
+export class CallComplianceManager {
+  /**
+   * Decide whether an outbound call may be placed, recording any block
+   */
+  async authorizeCall(input: ComplianceCheckInput): Promise<ComplianceDecision> {
+    const block = await this.evaluate(input.organizationId, input.toNumber, input.contactId);
+
+    if (!block) {
+      return { allowed: true };
+    }
+
+    const overridden = !!input.override;
+
+    await db.queryWithContext(
+      input.organizationId,
+      `
+        INSERT INTO nexuscrm.call_compliance_events (
+          contact_id, to_number, reason, message, overridden, override_reason,
+          user_id, organization_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+      `,
+      [
+        input.contactId || null,
+        input.toNumber,
+        block.reason,
+        block.message,
+        overridden,
+        overridden ? input.overrideReason || null : null,
+        input.userId || null,
+        input.organizationId,
+      ]
+    );
+
+    if (overridden) {
+      logger.warn('Call compliance block overridden', {
+        organizationId: input.organizationId,
+        contactId: input.contactId,
+        reason: block.reason,
+        userId: input.userId,
+      });
+      return { allowed: true, reason: block.reason, message: block.message, overridden };
+    }
+
+    logger.info('Outbound call blocked', {
+      organizationId: input.organizationId,
+      contactId: input.contactId,
+      reason: block.reason,
+    });
+
+    return { allowed: false, reason: block.reason, message: block.message };
+  }
+
+  /**
+   * The first rule a call would break, or null if it may be placed
+   *
+   * Records nothing; use it to check a call before offering to place it.
+   */
+  async evaluate(
+    organizationId: string,
+    toNumber: string,
+    contactId?: string
+  ): Promise<{ reason: CallBlockReason; message: string } | null> {
+    const digits = normalizePhoneNumber(toNumber || '');
+    let contact: Pick<Contact, 'doNotCall' | 'unsubscribed' | 'timezone'> | undefined;
+
+    if (contactId) {
+      const result = await db.queryWithContext(
+        organizationId,
+        `
+          SELECT do_not_call AS "doNotCall", unsubscribed, timezone
+          FROM nexuscrm.contacts
+          WHERE id = $1 AND deleted_at IS NULL
+        `,
+        [contactId]
+      );
+      contact = result.rows[0];
+
+      if (contact?.doNotCall) {
+        return { reason: 'contact_do_not_call', message: 'Contact is marked Do-Not-Call' };
+      }
+      if (contact?.unsubscribed) {
+        return { reason: 'contact_unsubscribed', message: 'Contact has unsubscribed' };
+      }
+    }
+
+    if (await this.isOnDncList(organizationId, digits)) {
+      return { reason: 'dnc_list', message: 'Number is on the Do-Not-Call list' };
+    }
+
+    const settings = await voiceSettingsManager.getSettings(organizationId);
+
+    const outside = this.checkCallingWindow(settings, contact?.timezone);
+    if (outside) {
+      return { reason: 'outside_calling_hours', message: outside };
+    }
+
+    const attempts = await this.countRecentAttempts(organizationId, digits);
+    if (attempts >= settings.maxDailyAttempts) {
+      return {
+        reason: 'daily_attempt_limit',
+        message: `Number was already called ${attempts} times in the last 24 hours (limit ${settings.maxDailyAttempts})`,
+      };
+    }
+
+    return null;
+  }
+
+  // ==========================================================================
+  // Do-Not-Call list
+  // ==========================================================================
+
+  /**
+   * List the organization's Do-Not-Call numbers, newest first
+   */
+  async listDncNumbers(
+    organizationId: string,
+    options: { search?: string; limit?: number; offset?: number } = {}
+  ): Promise<DncNumber[]> {
+    const params: any[] = [options.limit ?? 100, options.offset ?? 0];
+    let where = '';
+
+    if (options.search) {
+      where = `WHERE phone_number LIKE $3`;
+      params.push(`%${normalizePhoneNumber(options.search)}%`);
+    }
+
+    const result = await db.queryWithContext<DncNumber>(
+      organizationId,
+      `
+        SELECT ${DNC_COLUMNS} FROM nexuscrm.dnc_numbers
+        ${where}
+        ORDER BY created_at DESC
+        LIMIT $1 OFFSET $2
+      `,
+      params
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Add a number to the Do-Not-Call list (no-op if already listed)
+   */
+  async addDncNumber(
+    organizationId: string,
+    phoneNumber: string,
+    reason: string | undefined,
+    userId: string
+  ): Promise<DncNumber> {
+    const digits = this.validateNumber(phoneNumber);
+
+    const result = await db.queryWithContext<DncNumber>(
+      organizationId,
+      `
+        INSERT INTO nexuscrm.dnc_numbers (phone_number, reason, source, added_by, organization_id)
+        VALUES ($1, $2, 'manual', $3, $4)
+        ON CONFLICT (organization_id, phone_number) DO UPDATE SET
+          reason = COALESCE(EXCLUDED.reason, nexuscrm.dnc_numbers.reason)
+        RETURNING ${DNC_COLUMNS}
+      `,
+      [digits, reason || null, userId, organizationId]
+    );
+
+    logger.info('Number added to DNC list', { organizationId, userId });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a number from the Do-Not-Call list
+   */
+  async removeDncNumber(organizationId: string, phoneNumber: string): Promise<boolean> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `DELETE FROM nexuscrm.dnc_numbers WHERE phone_number = $1`,
+      [normalizePhoneNumber(phoneNumber || '')]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Import Do-Not-Call numbers from CSV
+   *
+   * Reads the phone column (header "phone", "phone_number", "number" or
+   * "mobile"; otherwise the first column) and an optional "reason" column.
+   * Numbers already listed are counted as duplicates.
+   */
+  async importDncCsv(organizationId: string, csv: string, userId: string): Promise<DncImportResult> {
+    const rows = parseCsv(csv);
+
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new Error(`CSV has more than ${MAX_IMPORT_ROWS} rows`);
+    }
+
+    let phoneColumn = 0;
+    let reasonColumn = 1;
+
+    const header = rows[0]?.map((cell) => cell.trim().toLowerCase());
+    if (header && header.some((cell) => /[a-z]/.test(cell))) {
+      const phoneIndex = header.findIndex((cell) =>
+        ['phone', 'phone_number', 'phone number', 'number', 'mobile'].includes(cell)
+      );
+      if (phoneIndex === -1) {
+        throw new Error('CSV header has no phone column');
+      }
+      phoneColumn = phoneIndex;
+      reasonColumn = header.indexOf('reason');
+      rows.shift();
+    }
+
+    // Deduplicate within the file so the counts add up to the row count
+    const entries = new Map<string, string | null>();
+    let invalid = 0;
+    let duplicates = 0;
+
+    for (const row of rows) {
+      const digits = normalizePhoneNumber(row[phoneColumn] || '');
+
+      if (digits.length < MIN_PHONE_DIGITS || digits.length > MAX_PHONE_DIGITS) {
+        invalid++;
+      } else if (entries.has(digits)) {
+        duplicates++;
+      } else {
+        entries.set(digits, (reasonColumn >= 0 && row[reasonColumn]?.trim()) || null);
+      }
+    }
+
+    const numbers = Array.from(entries.keys());
+    let imported = 0;
+
+    for (let i = 0; i < numbers.length; i += IMPORT_CHUNK_SIZE) {
+      const chunk = numbers.slice(i, i + IMPORT_CHUNK_SIZE);
+
+      const result = await db.queryWithContext(
+        organizationId,
+        `
+          INSERT INTO nexuscrm.dnc_numbers (phone_number, reason, source, added_by, organization_id)
+          SELECT number, reason, 'import', $3, $4
+          FROM unnest($1::text[], $2::text[]) AS entry(number, reason)
+          ON CONFLICT (organization_id, phone_number) DO NOTHING
+        `,
+        [chunk, chunk.map((number) => entries.get(number)), userId, organizationId]
+      );
+
+      imported += result.rowCount ?? 0;
+    }
+
+    duplicates += numbers.length - imported;
+
+    logger.info('DNC list imported', { organizationId, imported, duplicates, invalid });
+
+    return { imported, duplicates, invalid };
+  }
+
+  /**
+   * Blocked (and overridden) calls, newest first
+   */
+  async listEvents(
+    organizationId: string,
+    options: { contactId?: string; reason?: CallBlockReason; limit?: number; offset?: number } = {}
+  ): Promise<CallComplianceEvent[]> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (options.contactId) {
+      conditions.push(`contact_id = $${paramIndex++}`);
+      params.push(options.contactId);
+    }
+    if (options.reason) {
+      conditions.push(`reason = $${paramIndex++}`);
+      params.push(options.reason);
+    }
+
+    params.push(options.limit ?? 50, options.offset ?? 0);
+
+    const result = await db.queryWithContext<CallComplianceEvent>(
+      organizationId,
+      `
+        SELECT ${EVENT_COLUMNS} FROM nexuscrm.call_compliance_events
+        ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+        ORDER BY created_at DESC
+        LIMIT $${paramIndex++} OFFSET $${paramIndex++}
+      `,
+      params
+    );
+
+    return result.rows;
+  }
+
+  private async isOnDncList(organizationId: string, digits: string): Promise<boolean> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT 1 FROM nexuscrm.dnc_numbers
+        WHERE phone_number = $1
+          OR (length($1) >= ${DNC_MATCH_DIGITS} AND right(phone_number, ${DNC_MATCH_DIGITS}) = right($1, ${DNC_MATCH_DIGITS}))
+        LIMIT 1
+      `,
+      [digits]
+    );
+
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Why now is outside the calling window, or null if calls are allowed
+   */
+  private checkCallingWindow(settings: VoiceSettings, contactTimezone?: string): string | null {
+    const timezone =
+      contactTimezone && isValidTimezone(contactTimezone) ? contactTimezone : settings.defaultTimezone;
+
+    const local = localTimeIn(timezone);
+
+    if (!settings.callingDays.includes(local.weekday)) {
+      return `Calls are not allowed on ${local.weekdayName} in ${timezone}`;
+    }
+
+    if (!isWithinHours(local.minutes, settings.callingHoursStart, settings.callingHoursEnd)) {
+      return (
+        `It is ${local.time} in ${timezone}; calls are allowed between ` +
+        `${settings.callingHoursStart.slice(0, 5)} and ${settings.callingHoursEnd.slice(0, 5)}`
+      );
+    }
+
+    return null;
+  }
+
+  private async countRecentAttempts(organizationId: string, digits: string): Promise<number> {
+    const result = await db.queryWithContext<{ count: string }>(
+      organizationId,
+      `
+        SELECT COUNT(*) AS count
+        FROM nexuscrm.voice_calls
+        WHERE direction = 'outbound'
+          AND regexp_replace(to_number, '\\D', '', 'g') = $1
+          AND created_at > CURRENT_TIMESTAMP - INTERVAL '24 hours'
+      `,
+      [digits]
+    );
+
+    return parseInt(result.rows[0].count, 10);
+  }
+
+  private validateNumber(phoneNumber: string): string {
+    const digits = normalizePhoneNumber(phoneNumber || '');
+
+    if (digits.length < MIN_PHONE_DIGITS || digits.length > MAX_PHONE_DIGITS) {
+      throw new Error(`Invalid phone number: ${phoneNumber}`);
+    }
+    return digits;
+  }
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes, CRLF or LF
+ */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+// Export singleton instance
+export const callComplianceManager = new CallComplianceManager();
+
+export default callComplianceManager;
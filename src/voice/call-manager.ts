@@ -1,36 +1,65 @@
 import { db } from '../utils/database';
 import { logger } from '../utils/logger';
-import { vapiClient, VapiAssistant } from './vapi-client';
+import { mapVoiceCall } from '../utils/rows';
+import { vapiPlatform } from './vapi-platform';
+import { twilioPlatform, AnsweringMachineResult } from './twilio-platform';
+import { voiceSettingsManager } from './voice-settings';
+import { callToolRegistry, CallToolResult } from './call-tools';
+import { callComplianceManager } from './call-compliance';
+import {
+  VoiceDialResult,
+  VoicePlatform,
+  VoicePlatformName,
+  VoiceRecording,
+  VoiceStatusUpdate,
+} from './platform';
 import { mageClient } from '../clients';
+import { jobQueue, QUEUES, CallAnalysisJobData } from '../queue';
 import { VoiceCall, Activity, MakeCallInput } from '../types';
 
+// Webhooks for one call arrive in bursts (status, transcript, tool calls);
+// a short cache saves a lookup per event without serving stale rows for long
+const CALL_CACHE_TTL_MS = 30 * 1000;
+
+const FINISHED_CALL_STATUSES: string[] = ['completed', 'no-answer', 'busy', 'failed', 'voicemail', 'cancelled'];
+
 /**
  * Call Manager
  *
  * Orchestrates voice calling operations:
  * - Creates call records in database
- * - Initiates calls via Vapi
+ * - Initiates calls via the organization's voice platform (Vapi or Twilio)
  * - Generates dynamic call scripts using MageAgent
  * - Tracks call status and updates
+ * - Looks up calls by ID or by the platform's call ID
  * - Creates activity records
  * - Analyzes call transcripts post-call
  */
 export class CallManager {
+  private platforms: Record<VoicePlatformName, VoicePlatform> = {
+    vapi: vapiPlatform,
+    twilio: twilioPlatform,
+  };
+
+  private callCache = new Map<string, { call: VoiceCall; expiresAt: number }>();
+
   /**
    * Make a call with dynamic script generation
    *
    * This is the primary method for making calls in NexusCRM.
    * It handles the complete workflow:
+   * 0. Check compliance (blocked calls throw; see call-compliance.ts)
    * 1. Generate call script using MageAgent (if needed)
-   * 2. Create database records
-   * 3. Initiate call via Vapi
-   * 4. Return call ID for tracking
+   * 2. Pick the voice platform (MakeCallInput.platform, else the org default)
+   * 3. Create database records
+   * 4. Dial via the platform
+   * 5. Return call ID for tracking
    */
   async makeCall(
     input: MakeCallInput,
     organizationId: string,
     userId: string
-  ): Promise<{ callId: string; vapiCallId: string; status: string }> {
+  ): Promise<{ callId: string; platform: VoicePlatformName; externalCallId: string; status: string }> {
     try {
       logger.info('Making call', {
         contactId: input.contactId,
@@ -38,6 +67,20 @@ export class CallManager {
         organizationId,
       });
 
+      // Step 0: Compliance gate (Do-Not-Call, calling hours, attempt cap)
+      const compliance = await callComplianceManager.authorizeCall({
+        organizationId,
+        toNumber: input.toNumber,
+        contactId: input.contactId,
+        userId,
+        override: input.complianceOverride,
+        overrideReason: input.overrideReason,
+      });
+
+      if (!compliance.allowed) {
+        throw new Error(`Call blocked (${compliance.reason}): ${compliance.message}`);
+      }
+
       // Step 1: Get contact context if contactId provided
       let contactContext: any = null;
       if (input.contactId) {
@@ -76,25 +119,18 @@ export class CallManager {
         });
       }
 
-      // Step 3: Build Vapi assistant configuration
-      const assistant = vapiClient.buildAssistant({
-        name: `Call to ${input.toNumber}`,
-        systemPrompt: finalScript,
-        firstMessage: this.extractFirstMessage(finalScript),
-        language: input.language || 'en',
-        voiceId: input.voiceId,
-        model: input.model || 'gpt-4o',
-        temperature: 0.7,
-        functions: input.tools?.map((tool) => ({
-          name: tool.name,
-          description: tool.description,
-          parameters: {
-            type: 'object' as const,
-            properties: tool.parameters,
-            required: [],
-          },
-        })),
-      });
+      // Step 3: Pick the platform (per call, else the organization's default)
+      const settings = await voiceSettingsManager.getSettings(organizationId);
+      const platform = this.getPlatform(input.platform || settings.defaultPlatform);
+
+      // Built-in tools are referenced by name; resolve before anything is stored.
+      // With transfers set up, the assistant can always hand off to a person.
+      const tools = input.tools || [];
+      const functions = callToolRegistry.resolveFunctions(
+        settings.transferConfig?.enabled && !tools.some((tool) => tool.name === 'transfer_to_human')
+          ? [...tools, { name: 'transfer_to_human' }]
+          : tools
+      );
 
       // Step 4: Create voice call record
       const callResult = await db.queryWithContext<VoiceCall>(
@@ -102,40 +138,61 @@ export class CallManager {
         `
           INSERT INTO nexuscrm.voice_calls (
             platform, from_number, to_number, status,
-            assistant_config, stt_provider, tts_provider, llm_model,
+            stt_provider, tts_provider, llm_model,
             metadata, organization_id
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
           RETURNING *
         `,
         [
-          'vapi',
-          'system', // Will be updated with actual number from Vapi
+          platform.name,
+          'system', // Will be updated with the number the platform dialed from
           input.toNumber,
           'initiated',
-          assistant,
           'deepgram',
           'elevenlabs',
           input.model || 'gpt-4o',
-          { contactId: input.contactId, script: finalScript },
+          { contactId: input.contactId, userId, script: finalScript, voicemail: input.voicemail },
           organizationId,
         ]
       );
 
       const call = callResult.rows[0];
 
-      // Step 5: Initiate call via Vapi
-      const vapiCall = await vapiClient.makeCall({
-        phoneNumber: input.toNumber,
-        assistant,
-        metadata: {
-          nexusCallId: call.id,
-          contactId: input.contactId,
+      // Step 5: Dial via the platform
+      let dialed: VoiceDialResult;
+      try {
+        dialed = await platform.dial({
+          toNumber: input.toNumber,
+          fromNumber: settings.fromNumber,
+          name: `Call to ${input.toNumber}`,
+          systemPrompt: finalScript,
+          firstMessage: this.extractFirstMessage(finalScript),
+          language: input.language || 'en',
+          voiceId: input.voiceId,
+          model: input.model || 'gpt-4o',
+          functions: functions.length > 0 ? functions : undefined,
+          voicemail: input.voicemail,
+          metadata: {
+            nexusCallId: call.id,
+            contactId: input.contactId,
+            organizationId,
+            userId,
+          },
+        });
+      } catch (error: any) {
+        await db.queryWithContext(
           organizationId,
-          userId,
-        },
-      });
+          `
+            UPDATE nexuscrm.voice_calls
+            SET status = 'failed', ended_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+          `,
+          [call.id]
+        );
+        throw error;
+      }
 
-      // Step 6: Update call record with Vapi call ID
+      // Step 6: Update call record with the platform's call ID
       await db.queryWithContext(
         organizationId,
         `
@@ -144,10 +201,17 @@ export class CallManager {
             external_call_id = $1,
             from_number = $2,
             initiated_at = $3,
+            assistant_config = $4,
             updated_at = CURRENT_TIMESTAMP
-          WHERE id = $4
+          WHERE id = $5
         `,
-        [vapiCall.id, vapiCall.phoneNumber, vapiCall.startedAt || new Date(), call.id]
+        [
+          dialed.externalCallId,
+          dialed.fromNumber,
+          dialed.startedAt || new Date(),
+          dialed.assistantConfig,
+          call.id,
+        ]
       );
 
       // Step 7: Create activity record
@@ -166,7 +230,11 @@ export class CallManager {
             input.contactId,
             input.toNumber,
             'initiated',
-            { voiceCallId: call.id, vapiCallId: vapiCall.id },
+            {
+              voiceCallId: call.id,
+              platform: platform.name,
+              externalCallId: dialed.externalCallId,
+            },
             organizationId,
             userId,
           ]
@@ -175,14 +243,16 @@ export class CallManager {
 
       logger.info('Call initiated successfully', {
         callId: call.id,
-        vapiCallId: vapiCall.id,
-        status: vapiCall.status,
+        platform: platform.name,
+        externalCallId: dialed.externalCallId,
+        status: dialed.status,
       });
 
       return {
         callId: call.id,
-        vapiCallId: vapiCall.id,
-        status: vapiCall.status,
+        platform: platform.name,
+        externalCallId: dialed.externalCallId,
+        status: dialed.status,
       };
     } catch (error: any) {
       logger.error('Failed to make call', {
@@ -193,11 +263,21 @@ export class CallManager {
     }
   }
 
+  /**
+   * Apply a status update parsed from a platform webhook
+   */
+  async applyStatusUpdate(update: VoiceStatusUpdate): Promise<VoiceCall | null> {
+    const { externalCallId, status, ...data } = update;
+    return this.updateCallStatus(externalCallId, status, data);
+  }
+
   /**
    * Update call status from webhook
+   *
+   * Returns the updated call, or null when no call has that external ID.
    */
   async updateCallStatus(
-    vapiCallId: string,
+    externalCallId: string,
     status: string,
     data: {
       answeredAt?: Date;
@@ -208,16 +288,25 @@ export class CallManager {
       cost?: number;
       costBreakdown?: Record<string, number>;
     }
-  ): Promise<void> {
+  ): Promise<VoiceCall | null> {
     try {
-      logger.info('Updating call status', { vapiCallId, status });
+      logger.info('Updating call status', { externalCallId, status });
+
+      const existing = await this.getCallByExternalId(externalCallId);
+
+      if (!existing) {
+        logger.warn('Call not found for update', { externalCallId });
+        return null;
+      }
 
       // Update voice call record
-      const updateResult = await db.query<VoiceCall>(
+      const updateResult = await db.queryWithContext(
+        existing.organizationId,
         `
           UPDATE nexuscrm.voice_calls
           SET
-            status = $1,
+            -- Voicemail is decided mid-call; the later hangup must not overwrite it
+            status = CASE WHEN status = 'voicemail' AND $1 = 'completed' THEN status ELSE $1 END,
             answered_at = COALESCE($2, answered_at),
             ended_at = COALESCE($3, ended_at),
             duration_seconds = COALESCE($4, duration_seconds),
@@ -226,7 +315,7 @@ export class CallManager {
             cost_usd = COALESCE($7, cost_usd),
             cost_breakdown = COALESCE($8, cost_breakdown),
             updated_at = CURRENT_TIMESTAMP
-          WHERE external_call_id = $9
+          WHERE id = $9
           RETURNING *
         `,
         [
@@ -238,35 +327,36 @@ export class CallManager {
           data.recordingUrl || null,
           data.cost || null,
           data.costBreakdown || null,
-          vapiCallId,
+          existing.id,
         ]
       );
 
-      if (updateResult.rows.length === 0) {
-        logger.warn('Call not found for update', { vapiCallId });
-        return;
-      }
-
-      const call = updateResult.rows[0];
+      const call = mapVoiceCall(updateResult.rows[0]);
+      this.cacheCall(call);
 
-      // If call completed and has transcript, analyze it
+      // If call completed and has transcript, queue it for analysis
       if (status === 'completed' && data.transcript) {
-        await this.analyzeCallTranscript(call.id, data.transcript, call.organizationId);
+        await jobQueue.add<CallAnalysisJobData>(QUEUES.CALL_ANALYSIS, {
+          callId: call.id,
+          transcript: data.transcript,
+          organizationId: call.organizationId,
+        });
       }
 
       // Update associated activity
-      await db.query(
+      await db.queryWithContext(
+        call.organizationId,
         `
           UPDATE nexuscrm.activities
           SET
-            call_status = $1,
+            call_status = CASE WHEN call_status = 'voicemail' AND $1 = 'completed' THEN call_status ELSE $1 END,
             duration_seconds = COALESCE($2, duration_seconds),
             transcript = COALESCE($3, transcript),
             recording_url = COALESCE($4, recording_url),
             cost_usd = COALESCE($5, cost_usd),
             completed_at = COALESCE($6, completed_at),
             updated_at = CURRENT_TIMESTAMP
-          WHERE metadata->>'vapiCallId' = $7
+          WHERE metadata->>'voiceCallId' = $7
         `,
         [
           status === 'completed' ? 'completed' : status,
@@ -275,20 +365,194 @@ export class CallManager {
           data.recordingUrl || null,
           data.cost || null,
           data.endedAt || null,
-          vapiCallId,
+          call.id,
         ]
       );
 
       logger.info('Call status updated', { callId: call.id, status });
+
+      return call;
     } catch (error: any) {
       logger.error('Failed to update call status', {
         error: error.message,
-        vapiCallId,
+        externalCallId,
       });
       throw error;
     }
   }
 
+  /**
+   * Act on an answering machine detection result (Twilio)
+   *
+   * Twilio detects asynchronously while the agent is already talking. On a
+   * machine the call is marked voicemail and the configured message is left
+   * (or the call hung up); fax lines are hung up. Returns the updated call
+   * when it reached voicemail.
+   */
+  async handleAnsweringMachine(result: AnsweringMachineResult): Promise<VoiceCall | null> {
+    const { externalCallId, answeredBy } = result;
+
+    if (answeredBy !== 'machine' && answeredBy !== 'fax') {
+      logger.debug('Call answered by a person', { externalCallId, answeredBy });
+      return null;
+    }
+
+    const call = await this.getCallByExternalId(externalCallId);
+
+    if (!call) {
+      logger.warn('Call not found for answering machine result', { externalCallId });
+      return null;
+    }
+
+    if (answeredBy === 'fax') {
+      await twilioPlatform.cancel(externalCallId);
+      return null;
+    }
+
+    const updated = await this.updateCallStatus(externalCallId, 'voicemail', {});
+
+    await twilioPlatform.dropVoicemail(
+      externalCallId,
+      call.metadata?.voicemail,
+      call.assistantConfig?.language
+    );
+
+    return updated;
+  }
+
+  /**
+   * Store a recording reported by the platform after the call
+   */
+  async attachRecording(recording: VoiceRecording): Promise<void> {
+    const existing = await this.getCallByExternalId(recording.externalCallId);
+
+    if (!existing) {
+      logger.warn('Call not found for recording', { externalCallId: recording.externalCallId });
+      return;
+    }
+
+    const result = await db.queryWithContext(
+      existing.organizationId,
+      `
+        UPDATE nexuscrm.voice_calls
+        SET
+          recording_url = $1,
+          recording_duration = COALESCE($2, recording_duration),
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $3
+        RETURNING *
+      `,
+      [recording.url, recording.durationSeconds ?? null, existing.id]
+    );
+
+    this.cacheCall(mapVoiceCall(result.rows[0]));
+
+    await db.queryWithContext(
+      existing.organizationId,
+      `
+        UPDATE nexuscrm.activities
+        SET recording_url = $1, updated_at = CURRENT_TIMESTAMP
+        WHERE metadata->>'voiceCallId' = $2
+      `,
+      [recording.url, existing.id]
+    );
+
+    logger.info('Call recording stored', { callId: existing.id });
+  }
+
+  /**
+   * Get a call by ID
+   *
+   * Without an organization the lookup runs outside tenant context; only
+   * webhook processing, which has no organization yet, should do that.
+   */
+  async getCall(callId: string, organizationId?: string): Promise<VoiceCall | null> {
+    const cached = this.getCachedCall(`id:${callId}`);
+    if (cached && (!organizationId || cached.organizationId === organizationId)) {
+      return cached;
+    }
+
+    const sql = `SELECT * FROM nexuscrm.voice_calls WHERE id = $1`;
+    const result = organizationId
+      ? await db.queryWithContext(organizationId, sql, [callId])
+      : await db.query(sql, [callId]);
+
+    const call = result.rows[0] ? mapVoiceCall(result.rows[0]) : null;
+    if (call) {
+      this.cacheCall(call);
+    }
+    return call;
+  }
+
+  /**
+   * Get a call by the platform's call ID (Vapi call ID or Twilio CallSid)
+   *
+   * Webhooks only carry the platform's ID; the call found here gives them the
+   * organization. Misses are not cached, since a webhook can arrive before
+   * makeCall has stored the external ID.
+   */
+  async getCallByExternalId(externalCallId: string): Promise<VoiceCall | null> {
+    if (!externalCallId) {
+      return null;
+    }
+
+    const cached = this.getCachedCall(`external:${externalCallId}`);
+    if (cached) {
+      return cached;
+    }
+
+    const result = await db.query(
+      `SELECT * FROM nexuscrm.voice_calls WHERE external_call_id = $1`,
+      [externalCallId]
+    );
+
+    const call = result.rows[0] ? mapVoiceCall(result.rows[0]) : null;
+    if (call) {
+      this.cacheCall(call);
+    }
+    return call;
+  }
+
+  /**
+   * Run a built-in tool the assistant called during a call
+   *
+   * Tool calls arrive with the platform's call ID; the contact and user come
+   * from the call record.
+   */
+  async runTool(
+    externalCallId: string,
+    toolName: string,
+    params: Record<string, any>
+  ): Promise<CallToolResult> {
+    const call = await this.getCallByExternalId(externalCallId);
+
+    if (!call) {
+      logger.warn('Tool called for unknown call', { externalCallId, toolName });
+      return { success: false, message: 'Call not found' };
+    }
+
+    return callToolRegistry.invoke(toolName, params || {}, {
+      organizationId: call.organizationId,
+      voiceCallId: call.id,
+      contactId: call.metadata?.contactId,
+      userId: call.metadata?.userId || call.metadata?.routing?.userId,
+      externalCallId: call.externalCallId,
+      platform: call.platform === 'internal' ? undefined : call.platform,
+    });
+  }
+
+  /**
+   * Adapter for a voice platform
+   */
+  getPlatform(name: VoicePlatformName): VoicePlatform {
+    const platform = this.platforms[name];
+
+    if (!platform) {
+      throw new Error(`Unsupported voice platform: ${name}`);
+    }
+    return platform;
+  }
+
   /**
    * Analyze call transcript using MageAgent
    *
@@ -300,8 +564,10 @@ export class CallManager {
    * - Buying signals
    * - Action items
    * - Call outcome
+   *
+   * Runs on the call-analysis queue; failures are rethrown so the job is retried.
    */
-  private async analyzeCallTranscript(
+  async analyzeCallTranscript(
     callId: string,
     transcript: string,
     organizationId: string
@@ -421,6 +687,7 @@ export class CallManager {
           callId,
         ]
       );
+      this.evictCall(callId);
 
       // Update activity with AI analysis
       await db.queryWithContext(
@@ -460,39 +727,49 @@ export class CallManager {
         error: error.message,
         callId,
       });
-      // Don't throw - analysis failure shouldn't break the workflow
+      throw error;
     }
   }
 
   /**
    * Cancel a call
+   *
+   * Hangs up on the platform that placed the call and marks it cancelled.
+   * Returns false when the call does not exist or has already ended.
    */
-  async cancelCall(callId: string, organizationId: string): Promise<void> {
+  async cancelCall(callId: string, organizationId: string): Promise<boolean> {
     try {
-      // Get call
-      const callResult = await db.queryWithContext<VoiceCall>(
-        organizationId,
-        `SELECT * FROM nexuscrm.voice_calls WHERE id = $1`,
-        [callId]
-      );
+      const call = await this.getCall(callId, organizationId);
 
-      if (callResult.rows.length === 0) {
-        throw new Error('Call not found');
+      if (!call) {
+        return false;
       }
 
-      const call = callResult.rows[0];
-
-      // Cancel via Vapi if external call ID exists
-      if (call.externalCallId) {
-        await vapiClient.cancelCall(call.externalCallId);
+      if (FINISHED_CALL_STATUSES.includes(call.status)) {
+        logger.info('Call already ended', { callId, status: call.status });
+        return false;
       }
 
-      // Update status
-      await this.updateCallStatus(call.externalCallId || '', 'cancelled', {
-        endedAt: new Date(),
-      });
+      // Calls that never reached the platform only exist here
+      if (!call.externalCallId || call.platform === 'internal') {
+        await db.queryWithContext(
+          organizationId,
+          `
+            UPDATE nexuscrm.voice_calls
+            SET status = 'cancelled', ended_at = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+            WHERE id = $1
+          `,
+          [callId]
+        );
+        this.evictCall(callId);
+      } else {
+        await this.getPlatform(call.platform).cancel(call.externalCallId);
+        await this.updateCallStatus(call.externalCallId, 'cancelled', { endedAt: new Date() });
+      }
 
       logger.info('Call cancelled', { callId });
+
+      return true;
     } catch (error: any) {
       logger.error('Failed to cancel call', {
         error: error.message,
@@ -502,6 +779,37 @@ export class CallManager {
     }
   }
 
+  private getCachedCall(key: string): VoiceCall | null {
+    const entry = this.callCache.get(key);
+
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.callCache.delete(key);
+      return null;
+    }
+    return entry.call;
+  }
+
+  private cacheCall(call: VoiceCall): void {
+    const entry = { call, expiresAt: Date.now() + CALL_CACHE_TTL_MS };
+
+    this.callCache.set(`id:${call.id}`, entry);
+    if (call.externalCallId) {
+      this.callCache.set(`external:${call.externalCallId}`, entry);
+    }
+  }
+
+  private evictCall(callId: string): void {
+    const entry = this.callCache.get(`id:${callId}`);
+
+    this.callCache.delete(`id:${callId}`);
+    if (entry?.call.externalCallId) {
+      this.callCache.delete(`external:${entry.call.externalCallId}`);
+    }
+  }
+
   /**
    * Extract first message from script
    */
@@ -0,0 +1,243 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { AuthUser, CallSupervisorAction, CallSupervisorActionRecord, VoiceCall } from '../types';
+import { callManager } from './call-manager';
+import { voiceNumberManager, normalizePhoneNumber } from './voice-numbers';
+import { VoicePlatform } from './platform';
+
+/**
+ * Call Supervisor
+ *
+ * What supervisors can do on a live call:
+ * - monitor: follow the call's transcript and status over WebSocket (the
+ *   socket joins the call's `call:<externalCallId>` room)
+ * - whisper: give the AI agent guidance the callee does not hear (Vapi only)
+ * - barge: take the call over as a human, on the supervisor's own phone
+ * - transfer: hand the call to a rep's phone
+ *
+ * Each action needs its own permission. Every attempt is recorded in
+ * call_supervisor_actions, including denied and failed ones.
+ */
+
+export const SUPERVISOR_PERMISSIONS: Record<CallSupervisorAction, string> = {
+  monitor: 'voice:call:monitor',
+  whisper: 'voice:call:whisper',
+  barge: 'voice:call:barge',
+  transfer: 'voice:call:transfer',
+};
+
+const LIVE_CALL_STATUSES: Array<VoiceCall['status']> = ['initiated', 'ringing', 'in-progress'];
+
+const MAX_WHISPER_LENGTH = 1000;
+
+const ACTION_COLUMNS = `
+  id,
+  voice_call_id AS "voiceCallId",
+  user_id AS "userId",
+  action,
+  details,
+  success,
+  error,
+  organization_id AS "organizationId",
+  created_at AS "createdAt"
+`;
+
+export interface TransferTarget {
+  // A rep in the agent directory; they must be available
+  userId?: string;
+  phoneNumber?: string;
+}
+
+export class CallSupervisor {
+  /**
+   * Authorize following a live call
+   *
+   * Returns the call so the socket can join its room.
+   */
+  async monitor(user: AuthUser, callId: string): Promise<VoiceCall> {
+    const { call } = await this.perform(user, callId, 'monitor', async () => ({}));
+    return call;
+  }
+
+  /**
+   * Pass guidance to the AI agent on a live call
+   */
+  async whisper(user: AuthUser, callId: string, message: string): Promise<CallSupervisorActionRecord> {
+    const { record } = await this.perform(user, callId, 'whisper', async (call, platform) => {
+      const text = message.trim();
+
+      if (!text) {
+        throw new Error('Whisper message is required');
+      }
+      if (text.length > MAX_WHISPER_LENGTH) {
+        throw new Error(`Whisper message exceeds ${MAX_WHISPER_LENGTH} characters`);
+      }
+
+      if (!platform.whisper) {
+        throw new Error(`Whisper is not supported on ${platform.name} calls`);
+      }
+
+      await platform.whisper(call.externalCallId as string, text);
+
+      return { message: text };
+    });
+
+    return record;
+  }
+
+  /**
+   * Take over a live call as a human
+   *
+   * The call is connected to `phoneNumber`, or else to the supervisor's phone
+   * in the agent directory.
+   */
+  async bargeIn(user: AuthUser, callId: string, phoneNumber?: string): Promise<CallSupervisorActionRecord> {
+    const { record } = await this.perform(user, callId, 'barge', async (call, platform) => {
+      let target = phoneNumber;
+
+      if (!target) {
+        const agent = await voiceNumberManager.getAgent(user.organizationId, user.id);
+        if (!agent) {
+          throw new Error('No phone number to connect; add one to the agent directory');
+        }
+        target = agent.phoneNumber;
+      }
+
+      return this.connect(call, platform, target);
+    });
+
+    return record;
+  }
+
+  /**
+   * Hand a live call to a rep
+   */
+  async transfer(user: AuthUser, callId: string, target: TransferTarget): Promise<CallSupervisorActionRecord> {
+    const { record } = await this.perform(user, callId, 'transfer', async (call, platform) => {
+      if (target.phoneNumber) {
+        return this.connect(call, platform, target.phoneNumber);
+      }
+
+      if (!target.userId) {
+        throw new Error('Transfer needs a userId or phoneNumber');
+      }
+
+      const agent = await voiceNumberManager.getAvailableAgent(user.organizationId, target.userId);
+      if (!agent) {
+        throw new Error('Rep is not available to take calls');
+      }
+
+      return { ...(await this.connect(call, platform, agent.phoneNumber)), targetUserId: target.userId };
+    });
+
+    return record;
+  }
+
+  /**
+   * Supervisor actions taken on a call, newest first
+   */
+  async listActions(organizationId: string, voiceCallId: string): Promise<CallSupervisorActionRecord[]> {
+    const result = await db.queryWithContext<CallSupervisorActionRecord>(
+      organizationId,
+      `
+        SELECT ${ACTION_COLUMNS} FROM nexuscrm.call_supervisor_actions
+        WHERE voice_call_id = $1
+        ORDER BY created_at DESC
+      `,
+      [voiceCallId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Check the permission and that the call is live, run the action, and
+   * record the attempt whatever its outcome
+   */
+  private async perform(
+    user: AuthUser,
+    callId: string,
+    action: CallSupervisorAction,
+    run: (call: VoiceCall, platform: VoicePlatform) => Promise<Record<string, any>>
+  ): Promise<{ call: VoiceCall; record: CallSupervisorActionRecord }> {
+    const call = await callManager.getCall(callId, user.organizationId);
+
+    if (!call) {
+      throw new Error('Call not found');
+    }
+
+    const permission = SUPERVISOR_PERMISSIONS[action];
+    let details: Record<string, any> = {};
+    let error: string | undefined;
+
+    try {
+      if (!user.permissions.includes(permission)) {
+        throw new Error(`Permission denied: ${permission}`);
+      }
+      if (!LIVE_CALL_STATUSES.includes(call.status) || !call.externalCallId) {
+        throw new Error(`Call is ${call.status}`);
+      }
+      if (call.platform === 'internal') {
+        throw new Error('Call is not on a voice platform');
+      }
+
+      details = await run(call, callManager.getPlatform(call.platform));
+    } catch (err: any) {
+      error = err.message;
+    }
+
+    const record = await this.record(call, user.id, action, details, error);
+
+    if (error) {
+      logger.warn('Supervisor action failed', { callId, userId: user.id, action, error });
+      throw new Error(error);
+    }
+
+    logger.info('Supervisor action on call', { callId, userId: user.id, action });
+
+    return { call, record };
+  }
+
+  /**
+   * Take the AI agent off a call and connect it to a phone number
+   */
+  private async connect(
+    call: VoiceCall,
+    platform: VoicePlatform,
+    phoneNumber: string
+  ): Promise<Record<string, any>> {
+    if (!normalizePhoneNumber(phoneNumber)) {
+      throw new Error('Phone number is required');
+    }
+
+    await platform.transfer(call.externalCallId as string, phoneNumber.trim());
+
+    return { phoneNumber: phoneNumber.trim() };
+  }
+
+  private async record(
+    call: VoiceCall,
+    userId: string,
+    action: CallSupervisorAction,
+    details: Record<string, any>,
+    error?: string
+  ): Promise<CallSupervisorActionRecord> {
+    const result = await db.queryWithContext<CallSupervisorActionRecord>(
+      call.organizationId,
+      `
+        INSERT INTO nexuscrm.call_supervisor_actions (
+          voice_call_id, user_id, action, details, success, error, organization_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING ${ACTION_COLUMNS}
+      `,
+      [call.id, userId, action, JSON.stringify(details), !error, error || null, call.organizationId]
+    );
+
+    return result.rows[0];
+  }
+}
+
+// Export singleton instance
+export const callSupervisor = new CallSupervisor();
+
+export default callSupervisor;
@@ -0,0 +1,525 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { activityManager } from '../activities';
+import { emailService } from '../email';
+import { LEGACY_WON_STAGE, LEGACY_LOST_STAGE } from '../pipelines';
+import { CallToolInvocation, Contact, Deal, VoiceTool, VoiceTransferReason } from '../types';
+import { VapiFunction } from './vapi-client';
+import { VoicePlatformName } from './platform';
+import { callTransferManager } from './call-transfer';
+
+/**
+ * Call Tools
+ *
+ * CRM actions the voice assistant can run while it is on a call. The
+ * platform posts a function call to our webhook, the tool runs against the
+ * call's organization and contact, and its result message is read back to
+ * the assistant.
+ *
+ * Built-in tools:
+ * - schedule_follow_up: Create a follow-up task
+ * - book_meeting: Put a meeting on the calendar
+ * - update_lead_status: Change the contact's lead status
+ * - lookup_deal: Read back the contact's open deals
+ * - opt_out: Stop calling and/or emailing the contact
+ * - transfer_to_human: Warm-transfer the call to a rep (see call-transfer.ts)
+ *
+ * MakeCallInput.tools references a built-in by name; every invocation is
+ * stored in call_tool_invocations.
+ */
+
+export interface CallToolContext {
+  organizationId: string;
+  voiceCallId: string;
+  contactId?: string;
+  // The user who placed the call, or the agent an inbound call was routed to
+  userId?: string;
+  // Where the call is live; tools that act on the call itself need these
+  externalCallId?: string;
+  platform?: VoicePlatformName;
+}
+
+export interface CallToolResult {
+  success: boolean;
+  // Spoken back to the assistant, so it should read as a plain sentence
+  message: string;
+  data?: Record<string, any>;
+}
+
+export interface CallTool {
+  name: string;
+  description: string;
+  parameters: VapiFunction['parameters'];
+  execute(params: Record<string, any>, context: CallToolContext): Promise<CallToolResult>;
+}
+
+const LEAD_STATUSES: Contact['leadStatus'][] = [
+  'new',
+  'contacted',
+  'qualified',
+  'unqualified',
+  'customer',
+  'churned',
+  'unsubscribed',
+];
+
+const TASK_PRIORITIES = ['low', 'medium', 'high', 'urgent'];
+
+const DEFAULT_MEETING_MINUTES = 30;
+
+const TRANSFER_REASONS: VoiceTransferReason[] = ['buying_signal', 'requested_human', 'other'];
+
+const INVOCATION_COLUMNS = `
+  id,
+  voice_call_id AS "voiceCallId",
+  tool_name AS "toolName",
+  parameters,
+  result,
+  success,
+  error,
+  duration_ms AS "durationMs",
+  organization_id AS "organizationId",
+  created_at AS "createdAt"
+`;
+
+function parseDate(value: any, field: string): Date {
+  const date = new Date(value);
+
+  if (!value || isNaN(date.getTime())) {
+    throw new Error(`${field} must be a date and time, e.g. 2024-05-01T14:00:00Z`);
+  }
+  return date;
+}
+
+function requireContact(context: CallToolContext): string {
+  if (!context.contactId) {
+    throw new Error('This call is not linked to a contact');
+  }
+  return context.contactId;
+}
+
+// ============================================================================
+// Built-in tools
+// ============================================================================
+
+const scheduleFollowUp: CallTool = {
+  name: 'schedule_follow_up',
+  description: 'Schedule a follow-up with the person on the call, e.g. when they ask to be called back later.',
+  parameters: {
+    type: 'object',
+    properties: {
+      date: { type: 'string', description: 'When to follow up, as an ISO 8601 date and time' },
+      reason: { type: 'string', description: 'What the follow-up is about' },
+      priority: { type: 'string', enum: TASK_PRIORITIES },
+    },
+    required: ['date'],
+  },
+  async execute(params, context) {
+    const dueDate = parseDate(params.date, 'date');
+    const priority = TASK_PRIORITIES.includes(params.priority) ? params.priority : 'medium';
+
+    const task = await activityManager.logActivity(context.organizationId, context.userId || null, {
+      type: 'task',
+      subject: params.reason ? `Follow up: ${params.reason}` : 'Follow up after call',
+      contactId: requireContact(context),
+      taskDueDate: dueDate,
+      taskPriority: priority,
+      taskStatus: 'pending',
+      assignedTo: context.userId,
+      metadata: { voiceCallId: context.voiceCallId },
+    });
+
+    return {
+      success: true,
+      message: `Follow-up scheduled for ${dueDate.toISOString()}.`,
+      data: { activityId: task.id },
+    };
+  },
+};
+
+const bookMeeting: CallTool = {
+  name: 'book_meeting',
+  description: 'Book a meeting with the person on the call once they have agreed to a time.',
+  parameters: {
+    type: 'object',
+    properties: {
+      startTime: { type: 'string', description: 'Meeting start, as an ISO 8601 date and time' },
+      durationMinutes: { type: 'number', description: `Length in minutes (default ${DEFAULT_MEETING_MINUTES})` },
+      subject: { type: 'string' },
+      location: { type: 'string', description: 'Address or video link' },
+    },
+    required: ['startTime'],
+  },
+  async execute(params, context) {
+    const start = parseDate(params.startTime, 'startTime');
+    const minutes = Number(params.durationMinutes) > 0 ? Number(params.durationMinutes) : DEFAULT_MEETING_MINUTES;
+    const end = new Date(start.getTime() + minutes * 60 * 1000);
+
+    const meeting = await activityManager.logActivity(context.organizationId, context.userId || null, {
+      type: 'meeting',
+      subject: params.subject || 'Meeting booked on call',
+      contactId: requireContact(context),
+      meetingStartTime: start,
+      meetingEndTime: end,
+      meetingLocation: params.location,
+      assignedTo: context.userId,
+      metadata: { voiceCallId: context.voiceCallId },
+    });
+
+    return {
+      success: true,
+      message: `Meeting booked for ${start.toISOString()} (${minutes} minutes).`,
+      data: { activityId: meeting.id },
+    };
+  },
+};
+
+const updateLeadStatus: CallTool = {
+  name: 'update_lead_status',
+  description: "Update the contact's lead status based on the conversation.",
+  parameters: {
+    type: 'object',
+    properties: {
+      status: { type: 'string', enum: LEAD_STATUSES },
+    },
+    required: ['status'],
+  },
+  async execute(params, context) {
+    if (!LEAD_STATUSES.includes(params.status)) {
+      throw new Error(`status must be one of: ${LEAD_STATUSES.join(', ')}`);
+    }
+
+    const result = await db.queryWithContext(
+      context.organizationId,
+      `
+        UPDATE nexuscrm.contacts
+        SET lead_status = $1, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $2 AND deleted_at IS NULL
+      `,
+      [params.status, requireContact(context)]
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new Error('Contact not found');
+    }
+
+    return { success: true, message: `Lead status set to ${params.status}.` };
+  },
+};
+
+const lookupDeal: CallTool = {
+  name: 'lookup_deal',
+  description:
+    "Look up the caller's open deals or orders: stage, amount and expected close date. " +
+    'Pass a name to search for a specific one.',
+  parameters: {
+    type: 'object',
+    properties: {
+      name: { type: 'string', description: 'Part of the deal or order name' },
+    },
+  },
+  async execute(params, context) {
+    const contactId = requireContact(context);
+    const conditions = [
+      'd.deleted_at IS NULL',
+      'd.stage NOT IN ($2, $3)',
+      'ps.id IS NULL',
+      '(d.primary_contact_id = $1 OR d.company_id = (SELECT company_id FROM nexuscrm.contacts WHERE id = $1))',
+    ];
+    const queryParams: any[] = [contactId, LEGACY_WON_STAGE, LEGACY_LOST_STAGE];
+
+    if (params.name) {
+      conditions.push('d.name ILIKE $4');
+      queryParams.push(`%${params.name}%`);
+    }
+
+    const result = await db.queryWithContext<Deal>(
+      context.organizationId,
+      `
+        SELECT d.id, d.name, d.stage, d.amount, d.currency, d.expected_close_date
+        FROM nexuscrm.deals d
+        -- Closed deals sit in a won or lost stage of their pipeline
+        LEFT JOIN nexuscrm.pipeline_stages ps
+          ON ps.pipeline_id = d.pipeline_id AND ps.key = d.stage AND (ps.is_won OR ps.is_lost)
+        WHERE ${conditions.join(' AND ')}
+        ORDER BY d.updated_at DESC
+        LIMIT 5
+      `,
+      queryParams
+    );
+
+    if (result.rows.length === 0) {
+      return { success: true, message: 'No open deals found for this contact.', data: { deals: [] } };
+    }
+
+    const deals = result.rows.map((row: any) => ({
+      id: row.id,
+      name: row.name,
+      stage: row.stage,
+      amount: row.amount,
+      currency: row.currency,
+      expectedCloseDate: row.expected_close_date,
+    }));
+
+    const summary = deals
+      .map((deal) => {
+        const amount = deal.amount != null ? `, ${deal.amount} ${deal.currency || ''}`.trimEnd() : '';
+        const close = deal.expectedCloseDate
+          ? `, expected to close ${new Date(deal.expectedCloseDate).toISOString().slice(0, 10)}`
+          : '';
+        return `${deal.name} (stage ${deal.stage}${amount}${close})`;
+      })
+      .join('; ');
+
+    return { success: true, message: `Open deals: ${summary}.`, data: { deals } };
+  },
+};
+
+const optOut: CallTool = {
+  name: 'opt_out',
+  description: 'Opt the contact out when they ask not to be called or emailed again.',
+  parameters: {
+    type: 'object',
+    properties: {
+      channel: { type: 'string', enum: ['call', 'email', 'all'], description: 'What to stop (default call)' },
+    },
+  },
+  async execute(params, context) {
+    const contactId = requireContact(context);
+    const channel = params.channel || 'call';
+
+    if (!['call', 'email', 'all'].includes(channel)) {
+      throw new Error('channel must be one of: call, email, all');
+    }
+
+    if (channel === 'call' || channel === 'all') {
+      await db.queryWithContext(
+        context.organizationId,
+        `
+          UPDATE nexuscrm.contacts
+          SET do_not_call = true, updated_at = CURRENT_TIMESTAMP
+          WHERE id = $1
+        `,
+        [contactId]
+      );
+    }
+
+    if (channel === 'email' || channel === 'all') {
+      await emailService.markUnsubscribed(context.organizationId, contactId);
+    }
+
+    return {
+      success: true,
+      message:
+        channel === 'all'
+          ? 'The contact will no longer be called or emailed.'
+          : `The contact will no longer be ${channel === 'call' ? 'called' : 'emailed'}.`,
+    };
+  },
+};
+
+const transferToHuman: CallTool = {
+  name: 'transfer_to_human',
+  description:
+    'Hand the call to a human sales rep when the caller shows a strong buying signal or asks ' +
+    'for a person. Tell the caller you are connecting them first. If the transfer fails, ' +
+    'offer a callback instead.',
+  parameters: {
+    type: 'object',
+    properties: {
+      reason: { type: 'string', enum: TRANSFER_REASONS, description: 'Why the call is being handed off' },
+      summary: {
+        type: 'string',
+        description: 'One or two sentences for the rep: who is calling, what they want, and where things stand',
+      },
+    },
+    required: ['reason', 'summary'],
+  },
+  async execute(params, context) {
+    if (!TRANSFER_REASONS.includes(params.reason)) {
+      throw new Error(`reason must be one of: ${TRANSFER_REASONS.join(', ')}`);
+    }
+    if (!context.externalCallId || !context.platform) {
+      throw new Error('This call cannot be transferred');
+    }
+
+    const result = await callTransferManager.warmTransfer({
+      organizationId: context.organizationId,
+      voiceCallId: context.voiceCallId,
+      externalCallId: context.externalCallId,
+      platform: context.platform,
+      contactId: context.contactId,
+      reason: params.reason,
+      summary: String(params.summary),
+    });
+
+    if (!result.transferred) {
+      return {
+        success: false,
+        message: `${result.message}. Offer to have a rep call the caller back.`,
+      };
+    }
+
+    return { success: true, message: 'Transferring the call now.', data: { transfer: result.transfer } };
+  },
+};
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+export class CallToolRegistry {
+  private tools = new Map<string, CallTool>();
+
+  constructor() {
+    [scheduleFollowUp, bookMeeting, updateLeadStatus, lookupDeal, optOut, transferToHuman].forEach((tool) =>
+      this.register(tool)
+    );
+  }
+
+  /**
+   * Register a tool (replaces a tool with the same name)
+   */
+  register(tool: CallTool): void {
+    this.tools.set(tool.name, tool);
+  }
+
+  get(name: string): CallTool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): CallTool[] {
+    return Array.from(this.tools.values());
+  }
+
+  /**
+   * Function definitions for the assistant
+   *
+   * Built-ins are referenced by name and take their definition from the
+   * registry; anything else must bring its own description and parameters.
+   */
+  resolveFunctions(tools: VoiceTool[] = []): VapiFunction[] {
+    return tools.map((tool) => {
+      const builtIn = this.tools.get(tool.name);
+
+      if (builtIn) {
+        return {
+          name: builtIn.name,
+          description: tool.description || builtIn.description,
+          parameters: builtIn.parameters,
+        };
+      }
+
+      if (!tool.description || !tool.parameters) {
+        throw new Error(`Unknown call tool: ${tool.name}`);
+      }
+
+      return {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: 'object' as const,
+          properties: tool.parameters,
+          required: [],
+        },
+      };
+    });
+  }
+
+  /**
+   * Run a built-in tool for a call and log the invocation
+   *
+   * Failures come back as an unsuccessful result (the assistant tells the
+   * caller) rather than an error.
+   */
+  async invoke(
+    name: string,
+    params: Record<string, any>,
+    context: CallToolContext
+  ): Promise<CallToolResult> {
+    const tool = this.tools.get(name);
+    const startedAt = Date.now();
+    let result: CallToolResult;
+    let error: string | undefined;
+
+    if (!tool) {
+      return { success: false, message: `Unknown tool: ${name}` };
+    }
+
+    try {
+      const missing = (tool.parameters.required || []).filter(
+        (param) => params[param] === undefined || params[param] === ''
+      );
+      if (missing.length > 0) {
+        throw new Error(`Missing required parameters: ${missing.join(', ')}`);
+      }
+
+      result = await tool.execute(params, context);
+    } catch (err: any) {
+      error = err.message;
+      result = { success: false, message: `Could not ${name.replace(/_/g, ' ')}: ${err.message}` };
+    }
+
+    const durationMs = Date.now() - startedAt;
+
+    try {
+      await db.queryWithContext(
+        context.organizationId,
+        `
+          INSERT INTO nexuscrm.call_tool_invocations (
+            voice_call_id, tool_name, parameters, result, success, error,
+            duration_ms, organization_id
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        `,
+        [
+          context.voiceCallId,
+          name,
+          params,
+          result,
+          result.success,
+          error || null,
+          durationMs,
+          context.organizationId,
+        ]
+      );
+    } catch (logError: any) {
+      // The caller is waiting on the result; a logging failure must not lose it
+      logger.error('Failed to log call tool invocation', {
+        error: logError.message,
+        callId: context.voiceCallId,
+        toolName: name,
+      });
+    }
+
+    logger.info('Call tool invoked', {
+      callId: context.voiceCallId,
+      toolName: name,
+      success: result.success,
+      durationMs,
+    });
+
+    return result;
+  }
+
+  /**
+   * Tools the assistant ran on a call, oldest first
+   */
+  async listInvocations(organizationId: string, voiceCallId: string): Promise<CallToolInvocation[]> {
+    const result = await db.queryWithContext<CallToolInvocation>(
+      organizationId,
+      `
+        SELECT ${INVOCATION_COLUMNS} FROM nexuscrm.call_tool_invocations
+        WHERE voice_call_id = $1
+        ORDER BY created_at ASC
+      `,
+      [voiceCallId]
+    );
+
+    return result.rows;
+  }
+}
+
+// Export singleton instance
+export const callToolRegistry = new CallToolRegistry();
+
+export default callToolRegistry;
@@ -0,0 +1,173 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { VoiceCallTransfer, VoiceTransferConfig, VoiceTransferReason } from '../types';
+import { voiceSettingsManager, isWithinHours, localTimeIn } from './voice-settings';
+import { voiceNumberManager } from './voice-numbers';
+import { vapiPlatform } from './vapi-platform';
+import { twilioPlatform } from './twilio-platform';
+import { VoicePlatform, VoicePlatformName } from './platform';
+
+/**
+ * Call Transfer
+ *
+ * Warm handoff from the voice assistant to a person. The assistant asks for
+ * it through the transfer_to_human tool (a function.called webhook) when it
+ * hears a strong buying signal or the caller asks for a human:
+ * 1. Check the organization's transfer config and hours
+ * 2. Find a rep: the contact's owner and/or the on-call reps, in the
+ *    configured order, skipping anyone unavailable in the agent directory
+ * 3. Fall back to the fallback number, or leave the call with the assistant
+ * 4. Transfer on the platform; the rep hears the assistant's summary before
+ *    the caller is connected
+ * 5. Append a transfer segment to voice_calls.transfers
+ */
+
+const PLATFORMS: Record<VoicePlatformName, VoicePlatform> = {
+  vapi: vapiPlatform,
+  twilio: twilioPlatform,
+};
+
+const MAX_SUMMARY_LENGTH = 500;
+
+export interface WarmTransferRequest {
+  organizationId: string;
+  voiceCallId: string;
+  externalCallId: string;
+  platform: VoicePlatformName;
+  contactId?: string;
+  reason: VoiceTransferReason;
+  summary: string;
+}
+
+export interface WarmTransferResult {
+  transferred: boolean;
+  transfer?: VoiceCallTransfer;
+  // Why the call stayed with the assistant
+  message?: string;
+}
+
+type TransferDestination = Pick<VoiceCallTransfer, 'target' | 'userId' | 'phoneNumber'>;
+
+export class CallTransferManager {
+  /**
+   * Hand a live call to a rep, or explain why it stays with the assistant
+   */
+  async warmTransfer(request: WarmTransferRequest): Promise<WarmTransferResult> {
+    const settings = await voiceSettingsManager.getSettings(request.organizationId);
+    const transferConfig = settings.transferConfig;
+
+    if (!transferConfig?.enabled) {
+      return { transferred: false, message: 'Transfers to a person are not set up' };
+    }
+
+    const inHours = this.isWithinTransferHours(transferConfig, settings.defaultTimezone);
+    const destination =
+      (inHours ? await this.findRep(request.organizationId, transferConfig, request.contactId) : null) ||
+      this.fallbackDestination(transferConfig);
+
+    if (!destination) {
+      return {
+        transferred: false,
+        message: inHours ? 'No rep is available right now' : 'Reps are not taking calls at this hour',
+      };
+    }
+
+    const summary = request.summary.trim().slice(0, MAX_SUMMARY_LENGTH);
+
+    await PLATFORMS[request.platform].transfer(request.externalCallId, destination.phoneNumber, summary);
+
+    const transfer: VoiceCallTransfer = {
+      reason: request.reason,
+      summary,
+      ...destination,
+      transferredAt: new Date().toISOString(),
+    };
+
+    await db.queryWithContext(
+      request.organizationId,
+      `
+        UPDATE nexuscrm.voice_calls
+        SET transfers = transfers || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `,
+      [request.voiceCallId, JSON.stringify([transfer])]
+    );
+
+    logger.info('Call transferred to a person', {
+      callId: request.voiceCallId,
+      reason: request.reason,
+      target: destination.target,
+      userId: destination.userId,
+    });
+
+    return { transferred: true, transfer };
+  }
+
+  private isWithinTransferHours(transferConfig: VoiceTransferConfig, timezone: string): boolean {
+    const local = localTimeIn(timezone);
+
+    if (transferConfig.days && !transferConfig.days.includes(local.weekday)) {
+      return false;
+    }
+
+    if (transferConfig.hoursStart && transferConfig.hoursEnd) {
+      return isWithinHours(local.minutes, transferConfig.hoursStart, transferConfig.hoursEnd);
+    }
+
+    return true;
+  }
+
+  /**
+   * First available rep among the configured targets
+   */
+  private async findRep(
+    organizationId: string,
+    transferConfig: VoiceTransferConfig,
+    contactId?: string
+  ): Promise<TransferDestination | null> {
+    for (const target of transferConfig.targets) {
+      if (target === 'owner') {
+        const ownerId = contactId ? await this.getContactOwner(organizationId, contactId) : null;
+        const agent = ownerId ? await voiceNumberManager.getAvailableAgent(organizationId, ownerId) : null;
+
+        if (agent) {
+          return { target, userId: agent.userId, phoneNumber: agent.phoneNumber };
+        }
+        continue;
+      }
+
+      for (const userId of transferConfig.onCallUserIds || []) {
+        const agent = await voiceNumberManager.getAvailableAgent(organizationId, userId);
+
+        if (agent) {
+          return { target, userId: agent.userId, phoneNumber: agent.phoneNumber };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private fallbackDestination(transferConfig: VoiceTransferConfig): TransferDestination | null {
+    if (transferConfig.fallback !== 'number' || !transferConfig.fallbackNumber) {
+      return null;
+    }
+
+    return { target: 'fallback', phoneNumber: transferConfig.fallbackNumber };
+  }
+
+  private async getContactOwner(organizationId: string, contactId: string): Promise<string | null> {
+    const result = await db.queryWithContext<{ ownerId: string | null }>(
+      organizationId,
+      `SELECT owner_id AS "ownerId" FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [contactId]
+    );
+
+    return result.rows[0]?.ownerId || null;
+  }
+}
+
+// Export singleton instance
+export const callTransferManager = new CallTransferManager();
+
+export default callTransferManager;
@@ -0,0 +1,364 @@
+import { v4 as uuidv4 } from 'uuid';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact, mapVoiceCall } from '../utils/rows';
+import { activityManager } from '../activities';
+import { Contact, VoiceCall, VoiceNumber } from '../types';
+import { voiceNumberManager, normalizePhoneNumber } from './voice-numbers';
+import { InboundRoute, VoiceAgentConfig, VoicePlatformName } from './platform';
+
+/**
+ * Inbound Call Router
+ *
+ * Handles calls placed to the organization's Vapi or Twilio numbers:
+ * 1. Find the number that was called (and through it, the organization)
+ * 2. Look up the caller among contacts by phone or mobile
+ * 3. Create an inbound voice call and, for known callers, an inbound activity
+ * 4. Route to the contact's owner, the next agent in a round-robin group, or
+ *    an AI assistant primed with the contact's context
+ *
+ * When no human is available the call goes to the assistant, so a configured
+ * number always answers.
+ */
+
+// Contacts store numbers with or without country codes and trunk prefixes;
+// matching on the trailing digits tolerates both
+const PHONE_MATCH_DIGITS = 9;
+
+const DEFAULT_ASSISTANT_PROMPT =
+  'You are answering inbound calls for the sales team. Be friendly and concise, ' +
+  'find out why the caller is calling, answer what you can and offer to have someone follow up.';
+
+export interface InboundCallInput {
+  platform: VoicePlatformName;
+  externalCallId: string;
+  fromNumber: string;
+  toNumber: string;
+}
+
+interface CallerContext {
+  contact: Contact;
+  companyName?: string;
+  recentActivities: Array<{ type: string; subject?: string; createdAt: Date }>;
+}
+
+export class InboundCallRouter {
+  /**
+   * Record an inbound call and decide where it goes
+   */
+  async routeCall(input: InboundCallInput): Promise<InboundRoute> {
+    const number = await voiceNumberManager.findByPhoneNumber(input.toNumber);
+
+    if (!number) {
+      logger.warn('Inbound call to unconfigured number', {
+        platform: input.platform,
+        toNumber: input.toNumber,
+      });
+      return { type: 'reject', reason: 'Number not configured' };
+    }
+
+    // Platforms retry webhooks; answer a repeat with the route already chosen
+    const existing = await this.findCall(input.externalCallId);
+    if (existing) {
+      return this.routeFor(existing, number);
+    }
+
+    const caller = await this.findCaller(number.organizationId, input.fromNumber);
+    const target = await this.pickAgent(number, caller);
+    const voiceCallId = uuidv4();
+
+    const route: Exclude<InboundRoute, { type: 'reject' }> = target
+      ? {
+          type: 'forward',
+          voiceCallId,
+          userId: target.userId,
+          phoneNumber: target.phoneNumber,
+          timeoutSeconds: number.ringTimeoutSeconds,
+        }
+      : { type: 'assistant', voiceCallId, agent: this.buildAgent(number, caller, voiceCallId) };
+
+    await this.createCall(input, number, caller, route);
+
+    logger.info('Inbound call routed', {
+      callId: voiceCallId,
+      platform: input.platform,
+      contactId: caller?.contact.id,
+      route: route.type,
+      userId: route.type === 'forward' ? route.userId : undefined,
+    });
+
+    return route;
+  }
+
+  /**
+   * Send a forwarded call that was not picked up to the assistant
+   */
+  async fallbackToAssistant(voiceCallId: string): Promise<InboundRoute> {
+    const result = await db.query(
+      `SELECT * FROM nexuscrm.voice_calls WHERE id = $1 AND direction = 'inbound'`,
+      [voiceCallId]
+    );
+    const call = result.rows[0] ? mapVoiceCall(result.rows[0]) : null;
+
+    const number = call ? await voiceNumberManager.findByPhoneNumber(call.toNumber) : null;
+
+    if (!call || !number) {
+      return { type: 'reject', reason: 'Call not found' };
+    }
+
+    const caller = await this.findCaller(number.organizationId, call.fromNumber);
+    const agent = this.buildAgent(number, caller, call.id);
+
+    await db.queryWithContext(
+      call.organizationId,
+      `
+        UPDATE nexuscrm.voice_calls
+        SET
+          assistant_config = $1,
+          metadata = metadata || $2,
+          updated_at = CURRENT_TIMESTAMP
+        WHERE id = $3
+      `,
+      [agent, { routing: { ...call.metadata?.routing, type: 'assistant', fallback: true } }, call.id]
+    );
+
+    logger.info('Inbound call fell back to assistant', { callId: call.id });
+
+    return { type: 'assistant', voiceCallId: call.id, agent };
+  }
+
+  private async pickAgent(number: VoiceNumber, caller: CallerContext | null) {
+    switch (number.routingStrategy) {
+      case 'owner':
+        if (!caller?.contact.ownerId) {
+          return null;
+        }
+        return voiceNumberManager.getAvailableAgent(number.organizationId, caller.contact.ownerId);
+
+      case 'round_robin':
+        return voiceNumberManager.nextRoundRobinAgent(number);
+
+      default:
+        return null;
+    }
+  }
+
+  private async createCall(
+    input: InboundCallInput,
+    number: VoiceNumber,
+    caller: CallerContext | null,
+    route: Exclude<InboundRoute, { type: 'reject' }>
+  ): Promise<VoiceCall> {
+    const routing = {
+      strategy: number.routingStrategy,
+      type: route.type,
+      userId: route.type === 'forward' ? route.userId : undefined,
+    };
+
+    const result = await db.queryWithContext(
+      number.organizationId,
+      `
+        INSERT INTO nexuscrm.voice_calls (
+          id, platform, direction, external_call_id, from_number, to_number, status,
+          initiated_at, assistant_config, metadata, organization_id
+        ) VALUES ($1, $2, 'inbound', $3, $4, $5, 'ringing', CURRENT_TIMESTAMP, $6, $7, $8)
+        RETURNING *
+      `,
+      [
+        route.voiceCallId,
+        input.platform,
+        input.externalCallId,
+        input.fromNumber,
+        input.toNumber,
+        route.type === 'assistant' ? route.agent : null,
+        { contactId: caller?.contact.id, voiceNumberId: number.id, routing },
+        number.organizationId,
+      ]
+    );
+
+    const call = mapVoiceCall(result.rows[0]);
+
+    // Activities must belong to a record; unknown callers only get the call
+    if (caller) {
+      try {
+        await activityManager.logActivity(number.organizationId, null, {
+          type: 'call',
+          direction: 'inbound',
+          subject: `Inbound call from ${input.fromNumber}`,
+          contactId: caller.contact.id,
+          companyId: caller.contact.companyId,
+          fromNumber: input.fromNumber,
+          toNumber: input.toNumber,
+          externalId: input.externalCallId,
+          assignedTo: routing.userId || caller.contact.ownerId,
+          metadata: {
+            voiceCallId: call.id,
+            platform: input.platform,
+            externalCallId: input.externalCallId,
+          },
+        });
+      } catch (error: any) {
+        // The caller is already ringing through; a logging failure must not drop the call
+        logger.error('Failed to log inbound call activity', {
+          error: error.message,
+          callId: call.id,
+        });
+      }
+    }
+
+    return call;
+  }
+
+  /**
+   * Rebuild the route for a call that was already recorded
+   */
+  private async routeFor(call: VoiceCall, number: VoiceNumber): Promise<InboundRoute> {
+    const routing = call.metadata?.routing || {};
+
+    if (routing.type === 'forward' && routing.userId) {
+      const agent = await voiceNumberManager.getAvailableAgent(call.organizationId, routing.userId);
+      if (agent) {
+        return {
+          type: 'forward',
+          voiceCallId: call.id,
+          userId: agent.userId,
+          phoneNumber: agent.phoneNumber,
+          timeoutSeconds: number.ringTimeoutSeconds,
+        };
+      }
+    }
+
+    const caller = await this.findCaller(number.organizationId, call.fromNumber);
+    return { type: 'assistant', voiceCallId: call.id, agent: this.buildAgent(number, caller, call.id) };
+  }
+
+  private async findCall(externalCallId: string): Promise<VoiceCall | null> {
+    const result = await db.query(
+      `SELECT * FROM nexuscrm.voice_calls WHERE external_call_id = $1 AND direction = 'inbound'`,
+      [externalCallId]
+    );
+
+    return result.rows[0] ? mapVoiceCall(result.rows[0]) : null;
+  }
+
+  /**
+   * Find the calling contact and the context the assistant needs
+   */
+  private async findCaller(organizationId: string, fromNumber: string): Promise<CallerContext | null> {
+    const digits = normalizePhoneNumber(fromNumber || '');
+
+    // Withheld and short-code callers cannot be matched reliably
+    if (digits.length < PHONE_MATCH_DIGITS) {
+      return null;
+    }
+
+    const key = digits.slice(-PHONE_MATCH_DIGITS);
+
+    const contactResult = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT c.*, co.name AS company_name
+        FROM nexuscrm.contacts c
+        LEFT JOIN nexuscrm.companies co ON co.id = c.company_id
+        WHERE c.deleted_at IS NULL
+          AND (
+            right(regexp_replace(c.phone, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+            OR right(regexp_replace(c.mobile, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+          )
+        ORDER BY c.last_contacted_at DESC NULLS LAST, c.created_at DESC
+        LIMIT 1
+      `,
+      [key]
+    );
+
+    const row = contactResult.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const contact = mapContact(row);
+
+    const activities = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT type, subject, created_at AS "createdAt"
+        FROM nexuscrm.activities
+        WHERE contact_id = $1 AND deleted_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 3
+      `,
+      [contact.id]
+    );
+
+    return {
+      contact,
+      companyName: row.company_name || undefined,
+      recentActivities: activities.rows,
+    };
+  }
+
+  /**
+   * Assistant configuration for a number, primed with what we know about the caller
+   */
+  private buildAgent(
+    number: VoiceNumber,
+    caller: CallerContext | null,
+    voiceCallId: string
+  ): VoiceAgentConfig {
+    const config = number.assistantConfig || {};
+    const contact = caller?.contact;
+
+    const firstMessage =
+      config.firstMessage ||
+      (contact?.firstName
+        ? `Hi ${contact.firstName}, thanks for calling. How can I help you today?`
+        : 'Thanks for calling. How can I help you today?');
+
+    return {
+      name: `Inbound ${number.label || number.phoneNumber}`,
+      systemPrompt: `${config.systemPrompt || DEFAULT_ASSISTANT_PROMPT}\n\n${this.describeCaller(caller)}`,
+      firstMessage,
+      language: config.language || 'en',
+      voiceId: config.voiceId,
+      model: config.model || 'gpt-4o',
+      metadata: {
+        nexusCallId: voiceCallId,
+        contactId: contact?.id,
+        organizationId: number.organizationId,
+      },
+    };
+  }
+
+  private describeCaller(caller: CallerContext | null): string {
+    if (!caller) {
+      return 'The caller is not in the CRM yet. Ask for their name, company and reason for calling.';
+    }
+
+    const { contact, companyName, recentActivities } = caller;
+    const lines = ['Caller context:', `- Name: ${contact.fullName || contact.firstName || 'Unknown'}`];
+
+    if (companyName) {
+      lines.push(`- Company: ${companyName}`);
+    }
+    if (contact.jobTitle) {
+      lines.push(`- Job title: ${contact.jobTitle}`);
+    }
+    lines.push(`- Lead status: ${contact.leadStatus}`);
+    if (contact.lastContactedAt) {
+      lines.push(`- Last contacted: ${new Date(contact.lastContactedAt).toISOString().slice(0, 10)}`);
+    }
+    for (const activity of recentActivities) {
+      lines.push(
+        `- Recent ${activity.type}: ${activity.subject || '(no subject)'} ` +
+          `(${new Date(activity.createdAt).toISOString().slice(0, 10)})`
+      );
+    }
+
+    return lines.join('\n');
+  }
+}
+
+// Export singleton instance
+export const inboundCallRouter = new InboundCallRouter();
+
+export default inboundCallRouter;
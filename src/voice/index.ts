@@ -1,7 +1,7 @@
 /**
  * Voice Calling Module
  *
- * Provides AI-powered voice calling capabilities using Vapi.ai:
+ * Provides AI-powered voice calling capabilities using Vapi.ai or Twilio:
  * - Outbound calling with dynamic scripts
  * - Real-time transcription and analysis
  * - Sentiment analysis and keyword extraction
@@ -10,11 +10,77 @@
  * - Call recording and analytics
  *
  * Components:
+ * - VoicePlatform: Interface each telephony provider implements
+ * - VapiPlatform / TwilioPlatform: Platform adapters
  * - VapiClient: Interface to Vapi.ai API
  * - CallManager: Orchestrates call workflow and analysis
+ * - VoiceSettingsManager: Per-organization platform selection
+ * - VoiceNumberManager: Inbound numbers, routing strategies and the agent directory
+ * - InboundCallRouter: Routes inbound calls to an owner, a round-robin group or an assistant
+ * - CallToolRegistry: CRM tools the assistant can run during a call
+ * - CallComplianceManager: Do-Not-Call list, calling hours and attempt caps for outbound calls
+ * - CallSupervisor: Live call monitoring, whisper, barge-in and transfer for supervisors
+ * - CallTransferManager: Warm handoff from the assistant to the contact's owner or an on-call rep
  * - WebhookHandler: Processes Vapi webhook events
+ * - TwilioWebhookHandler: Processes Twilio status, recording and answering machine callbacks
  */
 
 export { vapiClient, VapiClient, VapiAssistant, VapiFunction } from './vapi-client';
 export { callManager, CallManager } from './call-manager';
 export { verifyWebhookMiddleware, handleVapiWebhook } from './webhook-handler';
+export {
+  verifyTwilioMiddleware,
+  handleTwilioWebhook,
+  handleTwilioAmd,
+  handleTwilioInboundCall,
+  handleTwilioDialFallback,
+  handleTwilioTransferSummary,
+} from './twilio-webhook-handler';
+export { vapiPlatform, VapiPlatform } from './vapi-platform';
+export { twilioPlatform, TwilioPlatform, AnsweringMachineResult } from './twilio-platform';
+export {
+  voiceSettingsManager,
+  VoiceSettingsManager,
+  isValidTimezone,
+  isWithinHours,
+  localTimeIn,
+} from './voice-settings';
+export { voiceNumberManager, VoiceNumberManager, normalizePhoneNumber } from './voice-numbers';
+export { inboundCallRouter, InboundCallRouter, InboundCallInput } from './inbound-call-router';
+export {
+  callToolRegistry,
+  CallToolRegistry,
+  CallTool,
+  CallToolContext,
+  CallToolResult,
+} from './call-tools';
+export {
+  callComplianceManager,
+  CallComplianceManager,
+  COMPLIANCE_OVERRIDE_PERMISSION,
+  ComplianceDecision,
+  DncImportResult,
+} from './call-compliance';
+export {
+  callTransferManager,
+  CallTransferManager,
+  WarmTransferRequest,
+  WarmTransferResult,
+} from './call-transfer';
+export {
+  callSupervisor,
+  CallSupervisor,
+  SUPERVISOR_PERMISSIONS,
+  TransferTarget,
+} from './call-supervisor';
+export {
+  VoicePlatform,
+  VoicePlatformName,
+  VoiceCallStatus,
+  VoiceDialRequest,
+  VoiceDialResult,
+  VoiceStatusUpdate,
+  VoiceRecording,
+  VoiceAgentConfig,
+  InboundRoute,
+} from './platform';
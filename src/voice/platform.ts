@@ -0,0 +1,105 @@
+import { VoiceCall, VoicemailConfig } from '../types';
+import { VapiFunction } from './vapi-client';
+
+/**
+ * Voice Platform Abstraction
+ *
+ * CallManager talks to telephony providers only through this interface, so a
+ * call can be placed on Vapi or Twilio without the rest of the CRM knowing
+ * which one carried it. Each adapter covers:
+ * - Dialing an outbound call with the AI agent configuration
+ * - Cancelling a call in progress
+ * - Translating the provider's status webhooks into call status updates
+ * - Detecting answering machines and leaving the configured voicemail
+ * - Fetching the call recording
+ * - Handing a live call to a person, and (where supported) passing a
+ *   supervisor's guidance to the AI agent mid-call
+ */
+
+export type VoicePlatformName = 'vapi' | 'twilio';
+
+export type VoiceCallStatus = VoiceCall['status'] | 'cancelled';
+
+/**
+ * What the AI agent on a call says and how it behaves
+ */
+export interface VoiceAgentConfig {
+  name: string;
+  systemPrompt: string;
+  firstMessage: string;
+  language: string;
+  voiceId?: string;
+  model: string;
+  functions?: VapiFunction[];
+  metadata: Record<string, any>;
+}
+
+export interface VoiceDialRequest extends VoiceAgentConfig {
+  toNumber: string;
+  // Caller ID; each platform falls back to its configured number
+  fromNumber?: string;
+  // Merge fields already rendered; no config means hang up on voicemail
+  voicemail?: VoicemailConfig;
+}
+
+export interface VoiceDialResult {
+  externalCallId: string;
+  status: string;
+  fromNumber: string;
+  startedAt?: Date;
+  // Provider-specific agent configuration, stored on the call record
+  assistantConfig: Record<string, any>;
+}
+
+export interface VoiceStatusUpdate {
+  externalCallId: string;
+  status: VoiceCallStatus;
+  answeredAt?: Date;
+  endedAt?: Date;
+  durationSeconds?: number;
+  transcript?: string;
+  recordingUrl?: string;
+  cost?: number;
+  costBreakdown?: Record<string, number>;
+}
+
+export interface VoiceRecording {
+  externalCallId: string;
+  url: string;
+  durationSeconds?: number;
+}
+
+export interface VoicePlatform {
+  readonly name: VoicePlatformName;
+
+  dial(request: VoiceDialRequest): Promise<VoiceDialResult>;
+
+  cancel(externalCallId: string): Promise<void>;
+
+  /**
+   * Map a (verified) status webhook payload; null for events that carry no status
+   */
+  parseStatusEvent(payload: any): VoiceStatusUpdate | null;
+
+  getRecording(externalCallId: string): Promise<VoiceRecording | null>;
+
+  /**
+   * Take the AI agent off a live call and connect the callee to a phone number
+   *
+   * A summary is spoken to whoever answers before the callee is connected.
+   */
+  transfer(externalCallId: string, phoneNumber: string, summary?: string): Promise<void>;
+
+  /**
+   * Give the AI agent guidance mid-call; the callee does not hear it
+   */
+  whisper?(externalCallId: string, message: string): Promise<void>;
+}
+
+/**
+ * Where an inbound call goes; each platform renders it as its webhook response
+ */
+export type InboundRoute =
+  | { type: 'forward'; voiceCallId: string; userId: string; phoneNumber: string; timeoutSeconds: number }
+  | { type: 'assistant'; voiceCallId: string; agent: VoiceAgentConfig }
+  | { type: 'reject'; reason: string };
@@ -0,0 +1,353 @@
+import twilio from 'twilio';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { VoicemailConfig } from '../types';
+import {
+  InboundRoute,
+  VoiceAgentConfig,
+  VoiceCallStatus,
+  VoiceDialRequest,
+  VoiceDialResult,
+  VoicePlatform,
+  VoiceRecording,
+  VoiceStatusUpdate,
+} from './platform';
+
+/**
+ * Twilio Voice Platform
+ *
+ * Places calls through Twilio Programmable Voice:
+ * - The call runs inline TwiML: the opening line, then (when
+ *   TWILIO_MEDIA_STREAM_URL is set) a bidirectional media stream to the voice
+ *   agent bridge, which loads the agent config by `nexusCallId`
+ * - Status and recording callbacks are posted to /webhooks/twilio under
+ *   TWILIO_WEBHOOK_BASE_URL
+ * - Every call is recorded
+ * - Answering machine detection runs alongside the call; its result is
+ *   posted to /webhooks/twilio/amd, and on voicemail the call is redirected
+ *   to the voicemail message (or hung up)
+ * - Inbound calls hit /webhooks/twilio/voice (the number's Voice URL) and are
+ *   answered with TwiML for the route the InboundCallRouter chose
+ * - A transfer swaps the call's TwiML for a <Dial>, which ends the media
+ *   stream; a warm transfer's summary is read to the rep from
+ *   /webhooks/twilio/transfer-summary before the caller is connected.
+ *   Whispering to the agent is not supported.
+ */
+
+// Twilio call statuses -> voice call statuses
+const TWILIO_STATUSES: Record<string, VoiceCallStatus> = {
+  queued: 'initiated',
+  initiated: 'initiated',
+  ringing: 'ringing',
+  'in-progress': 'in-progress',
+  completed: 'completed',
+  busy: 'busy',
+  'no-answer': 'no-answer',
+  failed: 'failed',
+  canceled: 'cancelled',
+};
+
+// <Say> needs a locale rather than a bare language code
+const SAY_LANGUAGES: Record<string, string> = {
+  en: 'en-US',
+  th: 'th-TH',
+  es: 'es-ES',
+  fr: 'fr-FR',
+  de: 'de-DE',
+  ja: 'ja-JP',
+  zh: 'cmn-CN',
+};
+
+export interface AnsweringMachineResult {
+  externalCallId: string;
+  answeredBy: 'human' | 'machine' | 'fax' | 'unknown';
+}
+
+export class TwilioPlatform implements VoicePlatform {
+  readonly name = 'twilio' as const;
+  private client: twilio.Twilio | null = null;
+
+  async dial(request: VoiceDialRequest): Promise<VoiceDialResult> {
+    const fromNumber = request.fromNumber || config.voice.twilioPhoneNumber;
+
+    if (!fromNumber) {
+      throw new Error('Twilio phone number not configured');
+    }
+
+    const callbackUrl = this.webhookUrl();
+    const twiml = this.agentTwiml(request);
+
+    logger.info('Making outbound call via Twilio', {
+      toNumber: request.toNumber,
+      fromNumber,
+    });
+
+    const call = await this.getClient().calls.create({
+      to: request.toNumber,
+      from: fromNumber,
+      twiml,
+      statusCallback: callbackUrl,
+      statusCallbackMethod: 'POST',
+      statusCallbackEvent: ['initiated', 'ringing', 'answered', 'completed'],
+      record: true,
+      recordingStatusCallback: callbackUrl,
+      recordingStatusCallbackMethod: 'POST',
+      recordingStatusCallbackEvent: ['completed'],
+      // Wait for the beep so a dropped message is recorded from the start
+      machineDetection: 'DetectMessageEnd',
+      asyncAmd: 'true',
+      asyncAmdStatusCallback: this.webhookUrl('/webhooks/twilio/amd'),
+      asyncAmdStatusCallbackMethod: 'POST',
+    });
+
+    return {
+      externalCallId: call.sid,
+      status: call.status,
+      fromNumber,
+      startedAt: call.startTime || undefined,
+      assistantConfig: {
+        name: request.name,
+        systemPrompt: request.systemPrompt,
+        firstMessage: request.firstMessage,
+        language: request.language,
+        voiceId: request.voiceId,
+        model: request.model,
+        functions: request.functions || [],
+        mediaStreamUrl: config.voice.twilioMediaStreamUrl || undefined,
+      },
+    };
+  }
+
+  /**
+   * Cancel a call; calls that were already answered are hung up instead
+   */
+  async cancel(externalCallId: string): Promise<void> {
+    const call = await this.getClient().calls(externalCallId).fetch();
+
+    if (['completed', 'busy', 'no-answer', 'failed', 'canceled'].includes(call.status)) {
+      return;
+    }
+
+    await this.getClient()
+      .calls(externalCallId)
+      .update({ status: call.status === 'in-progress' ? 'completed' : 'canceled' });
+
+    logger.info('Twilio call cancelled', { externalCallId });
+  }
+
+  /**
+   * Map a Twilio status callback (form-encoded)
+   */
+  parseStatusEvent(payload: Record<string, string>): VoiceStatusUpdate | null {
+    const status = TWILIO_STATUSES[payload.CallStatus];
+
+    if (!payload.CallSid || !status) {
+      return null;
+    }
+
+    const timestamp = payload.Timestamp ? new Date(payload.Timestamp) : new Date();
+    const update: VoiceStatusUpdate = { externalCallId: payload.CallSid, status };
+
+    if (status === 'in-progress') {
+      update.answeredAt = timestamp;
+    }
+
+    if (!['initiated', 'ringing', 'in-progress'].includes(status)) {
+      update.endedAt = timestamp;
+      update.durationSeconds = payload.CallDuration ? parseInt(payload.CallDuration, 10) : undefined;
+    }
+
+    return update;
+  }
+
+  /**
+   * Map a Twilio recording status callback (form-encoded)
+   */
+  parseRecordingEvent(payload: Record<string, string>): VoiceRecording | null {
+    if (!payload.RecordingSid || payload.RecordingStatus !== 'completed') {
+      return null;
+    }
+
+    return {
+      externalCallId: payload.CallSid,
+      url: `${payload.RecordingUrl}.mp3`,
+      durationSeconds: payload.RecordingDuration ? parseInt(payload.RecordingDuration, 10) : undefined,
+    };
+  }
+
+  /**
+   * Map an answering machine detection callback (form-encoded)
+   */
+  parseAmdEvent(payload: Record<string, string>): AnsweringMachineResult | null {
+    if (!payload.CallSid || !payload.AnsweredBy) {
+      return null;
+    }
+
+    const answeredBy = payload.AnsweredBy.startsWith('machine')
+      ? 'machine'
+      : payload.AnsweredBy === 'human' || payload.AnsweredBy === 'fax'
+        ? payload.AnsweredBy
+        : 'unknown';
+
+    return { externalCallId: payload.CallSid, answeredBy };
+  }
+
+  /**
+   * Leave the voicemail message on a call that reached an answering machine,
+   * or hang up when there is nothing to leave
+   */
+  async dropVoicemail(
+    externalCallId: string,
+    voicemail?: VoicemailConfig,
+    language: string = 'en'
+  ): Promise<void> {
+    if (voicemail?.action !== 'message' || (!voicemail.audioUrl && !voicemail.message)) {
+      await this.getClient().calls(externalCallId).update({ status: 'completed' });
+      logger.info('Hung up on voicemail', { externalCallId });
+      return;
+    }
+
+    const response = new twilio.twiml.VoiceResponse();
+
+    if (voicemail.audioUrl) {
+      response.play(voicemail.audioUrl);
+    } else {
+      response.say({ language: (SAY_LANGUAGES[language] || 'en-US') as any }, voicemail.message as string);
+    }
+    response.hangup();
+
+    await this.getClient().calls(externalCallId).update({ twiml: response.toString() });
+
+    logger.info('Voicemail dropped', { externalCallId, audio: !!voicemail.audioUrl });
+  }
+
+  /**
+   * Connect a live call to a phone number, dropping the agent's media stream
+   */
+  async transfer(externalCallId: string, phoneNumber: string, summary?: string): Promise<void> {
+    const response = new twilio.twiml.VoiceResponse();
+    const summaryUrl = summary
+      ? this.webhookUrl(`/webhooks/twilio/transfer-summary?text=${encodeURIComponent(summary)}`)
+      : undefined;
+
+    response.dial().number(summaryUrl ? { url: summaryUrl, method: 'POST' } : {}, phoneNumber);
+
+    await this.getClient().calls(externalCallId).update({ twiml: response.toString() });
+
+    logger.info('Twilio call transferred', { externalCallId });
+  }
+
+  async getRecording(externalCallId: string): Promise<VoiceRecording | null> {
+    const [recording] = await this.getClient().recordings.list({ callSid: externalCallId, limit: 1 });
+
+    if (!recording) {
+      return null;
+    }
+
+    return {
+      externalCallId,
+      url: `https://api.twilio.com${recording.uri.replace(/\.json$/, '.mp3')}`,
+      durationSeconds: recording.duration ? parseInt(recording.duration, 10) : undefined,
+    };
+  }
+
+  /**
+   * Validate the X-Twilio-Signature header of a webhook request
+   *
+   * `url` must be the exact URL Twilio requested, including the query string.
+   */
+  validateSignature(signature: string, url: string, params: Record<string, any>): boolean {
+    return twilio.validateRequest(config.voice.twilioAuthToken, signature, url, params);
+  }
+
+  /**
+   * TwiML that puts the AI agent on the call
+   */
+  agentTwiml(agent: VoiceAgentConfig): string {
+    const response = new twilio.twiml.VoiceResponse();
+
+    response.say(
+      { language: (SAY_LANGUAGES[agent.language] || 'en-US') as any },
+      agent.firstMessage
+    );
+
+    if (config.voice.twilioMediaStreamUrl) {
+      const stream = response.connect().stream({ url: config.voice.twilioMediaStreamUrl });
+      stream.parameter({ name: 'nexusCallId', value: agent.metadata.nexusCallId });
+      stream.parameter({ name: 'organizationId', value: agent.metadata.organizationId });
+    }
+
+    return response.toString();
+  }
+
+  /**
+   * TwiML answering an inbound call
+   *
+   * Forwarded calls that are not picked up come back to the fallback URL,
+   * which hands them to the assistant.
+   */
+  inboundTwiml(route: InboundRoute): string {
+    if (route.type === 'assistant') {
+      return this.agentTwiml(route.agent);
+    }
+
+    const response = new twilio.twiml.VoiceResponse();
+
+    if (route.type === 'reject') {
+      response.reject();
+      return response.toString();
+    }
+
+    const dial = response.dial({
+      timeout: route.timeoutSeconds,
+      action: this.webhookUrl(`/webhooks/twilio/voice/fallback?voiceCallId=${route.voiceCallId}`),
+      method: 'POST',
+    });
+    dial.number(route.phoneNumber);
+
+    return response.toString();
+  }
+
+  /**
+   * TwiML read to the rep who answers a warm transfer
+   */
+  transferSummaryTwiml(summary: string, language: string = 'en'): string {
+    const response = new twilio.twiml.VoiceResponse();
+    response.say({ language: (SAY_LANGUAGES[language] || 'en-US') as any }, summary);
+    return response.toString();
+  }
+
+  /**
+   * TwiML ending a call after a completed forward
+   */
+  hangupTwiml(): string {
+    const response = new twilio.twiml.VoiceResponse();
+    response.hangup();
+    return response.toString();
+  }
+
+  private webhookUrl(path: string = '/webhooks/twilio'): string {
+    if (!config.voice.twilioWebhookBaseUrl) {
+      throw new Error('Twilio webhook base URL not configured');
+    }
+    return `${config.voice.twilioWebhookBaseUrl.replace(/\/$/, '')}${path}`;
+  }
+
+  private getClient(): twilio.Twilio {
+    if (!this.client) {
+      const { twilioAccountSid, twilioAuthToken } = config.voice;
+
+      if (!twilioAccountSid || !twilioAuthToken) {
+        throw new Error('Twilio credentials not configured');
+      }
+
+      this.client = twilio(twilioAccountSid, twilioAuthToken);
+    }
+    return this.client;
+  }
+}
+
+// Export singleton instance
+export const twilioPlatform = new TwilioPlatform();
+
+export default twilioPlatform;
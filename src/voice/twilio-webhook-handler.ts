@@ -0,0 +1,237 @@
+import { Request, Response, NextFunction } from 'express';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { callManager } from './call-manager';
+import { twilioPlatform } from './twilio-platform';
+import { inboundCallRouter } from './inbound-call-router';
+import { campaignEngine } from '../campaigns/campaign-engine';
+import { broadcastCallStatus } from '../websocket/manager';
+
+/**
+ * Twilio Webhook Handler
+ *
+ * Handles Twilio voice callbacks (form-encoded):
+ * - Status callbacks: initiated, ringing, in-progress, completed, busy,
+ *   no-answer, failed, canceled
+ * - Recording status callbacks: completed recordings
+ * - Answering machine detection results (/webhooks/twilio/amd)
+ * - Inbound calls (/webhooks/twilio/voice) and the fallback after an
+ *   unanswered forward (/webhooks/twilio/voice/fallback), answered with TwiML
+ * - The summary read to a rep taking a warm transfer
+ *   (/webhooks/twilio/transfer-summary)
+ *
+ * Requests are verified with the X-Twilio-Signature header.
+ */
+
+// Call statuses as broadcast to WebSocket clients
+const BROADCAST_STATUSES: Record<string, 'initiated' | 'ringing' | 'in-progress' | 'completed' | 'failed'> = {
+  initiated: 'initiated',
+  ringing: 'ringing',
+  'in-progress': 'in-progress',
+  completed: 'completed',
+  busy: 'failed',
+  'no-answer': 'failed',
+  failed: 'failed',
+  cancelled: 'failed',
+};
+
+/**
+ * Twilio signature verification middleware
+ *
+ * Twilio signs the full URL it requested plus the sorted POST parameters, so
+ * the URL is rebuilt from TWILIO_WEBHOOK_BASE_URL (the host seen here may be
+ * a proxy's).
+ */
+export function verifyTwilioMiddleware(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void {
+  const signature = req.headers['x-twilio-signature'] as string;
+
+  if (!config.voice.twilioAuthToken) {
+    logger.warn('Twilio auth token not configured - skipping signature verification');
+    return next();
+  }
+
+  if (!signature) {
+    logger.warn('Twilio webhook signature missing');
+    res.status(401).json({ error: 'Signature required' });
+    return;
+  }
+
+  const baseUrl = config.voice.twilioWebhookBaseUrl
+    ? config.voice.twilioWebhookBaseUrl.replace(/\/$/, '')
+    : `${req.protocol}://${req.get('host')}`;
+
+  if (!twilioPlatform.validateSignature(signature, `${baseUrl}${req.originalUrl}`, req.body || {})) {
+    logger.warn('Invalid Twilio webhook signature');
+    res.status(401).json({ error: 'Invalid signature' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Main webhook handler
+ */
+export async function handleTwilioWebhook(req: Request, res: Response): Promise<void> {
+  try {
+    const payload: Record<string, string> = req.body || {};
+
+    logger.info('Received Twilio webhook', {
+      callSid: payload.CallSid,
+      callStatus: payload.CallStatus,
+      recordingSid: payload.RecordingSid,
+    });
+
+    if (payload.RecordingSid) {
+      const recording = twilioPlatform.parseRecordingEvent(payload);
+      if (recording) {
+        await callManager.attachRecording(recording);
+      }
+    } else {
+      await handleStatusCallback(payload);
+    }
+
+    // Always respond 200 to acknowledge receipt
+    res.status(200).json({ received: true });
+  } catch (error: any) {
+    logger.error('Failed to handle Twilio webhook', { error: error.message });
+    // Still return 200 to avoid retries for processing errors
+    res.status(200).json({ received: true, error: error.message });
+  }
+}
+
+/**
+ * Answering machine detection callback
+ */
+export async function handleTwilioAmd(req: Request, res: Response): Promise<void> {
+  try {
+    const result = twilioPlatform.parseAmdEvent(req.body || {});
+
+    if (result) {
+      logger.info('Answering machine detection result', {
+        callSid: result.externalCallId,
+        answeredBy: result.answeredBy,
+      });
+
+      const call = await callManager.handleAnsweringMachine(result);
+
+      if (call) {
+        await campaignEngine.recordCallOutcome(result.externalCallId, 'voicemail');
+      }
+    }
+
+    res.status(200).json({ received: true });
+  } catch (error: any) {
+    logger.error('Failed to handle Twilio AMD callback', { error: error.message });
+    res.status(200).json({ received: true, error: error.message });
+  }
+}
+
+/**
+ * Inbound call handler (the number's Voice URL); responds with TwiML
+ */
+export async function handleTwilioInboundCall(req: Request, res: Response): Promise<void> {
+  const payload: Record<string, string> = req.body || {};
+
+  try {
+    logger.info('Received Twilio inbound call', { callSid: payload.CallSid });
+
+    const route = await inboundCallRouter.routeCall({
+      platform: 'twilio',
+      externalCallId: payload.CallSid,
+      fromNumber: payload.From,
+      toNumber: payload.To,
+    });
+
+    res.type('text/xml').status(200).send(twilioPlatform.inboundTwiml(route));
+  } catch (error: any) {
+    logger.error('Failed to route Twilio inbound call', {
+      error: error.message,
+      callSid: payload.CallSid,
+    });
+    res
+      .type('text/xml')
+      .status(200)
+      .send(twilioPlatform.inboundTwiml({ type: 'reject', reason: error.message }));
+  }
+}
+
+/**
+ * <Dial> action for forwarded calls: unanswered forwards go to the assistant
+ */
+export async function handleTwilioDialFallback(req: Request, res: Response): Promise<void> {
+  const payload: Record<string, string> = req.body || {};
+  const voiceCallId = req.query.voiceCallId as string;
+
+  try {
+    if (payload.DialCallStatus === 'completed') {
+      res.type('text/xml').status(200).send(twilioPlatform.hangupTwiml());
+      return;
+    }
+
+    logger.info('Forwarded call not answered', {
+      voiceCallId,
+      dialCallStatus: payload.DialCallStatus,
+    });
+
+    const route = await inboundCallRouter.fallbackToAssistant(voiceCallId);
+    res.type('text/xml').status(200).send(twilioPlatform.inboundTwiml(route));
+  } catch (error: any) {
+    logger.error('Failed to handle Twilio dial fallback', { error: error.message, voiceCallId });
+    res.type('text/xml').status(200).send(twilioPlatform.hangupTwiml());
+  }
+}
+
+/**
+ * <Number url> of a warm transfer: read the assistant's summary to the rep
+ */
+export async function handleTwilioTransferSummary(req: Request, res: Response): Promise<void> {
+  const summary = (req.query.text as string) || '';
+
+  res.type('text/xml').status(200).send(twilioPlatform.transferSummaryTwiml(summary));
+}
+
+/**
+ * Handle a call status callback
+ */
+async function handleStatusCallback(payload: Record<string, string>): Promise<void> {
+  const update = twilioPlatform.parseStatusEvent(payload);
+
+  if (!update) {
+    logger.debug('Unhandled Twilio call status', { callStatus: payload.CallStatus });
+    return;
+  }
+
+  const call = await callManager.applyStatusUpdate(update);
+
+  // An answered campaign call counts as delivered
+  if (update.status === 'in-progress') {
+    await campaignEngine.recordDelivery('voice', update.externalCallId);
+  }
+
+  // The stored status, which keeps a voicemail detected earlier
+  if (call && update.endedAt) {
+    await campaignEngine.recordCallOutcome(update.externalCallId, call.status);
+  }
+
+  if (call) {
+    broadcastCallStatus(update.externalCallId, call.organizationId, BROADCAST_STATUSES[update.status], {
+      answeredAt: update.answeredAt,
+      endedAt: update.endedAt,
+      durationSeconds: update.durationSeconds,
+    });
+  }
+}
+
+export default {
+  verifyTwilioMiddleware,
+  handleTwilioWebhook,
+  handleTwilioAmd,
+  handleTwilioInboundCall,
+  handleTwilioDialFallback,
+  handleTwilioTransferSummary,
+};
@@ -36,6 +36,17 @@ export interface VapiAssistant {
   recordingEnabled?: boolean;
   transcriptionProvider?: 'deepgram' | 'assemblyai';
   maxDurationSeconds?: number;
+  voicemailDetection?: {
+    provider: 'twilio';
+    enabled: boolean;
+  };
+  // Spoken when voicemail is detected; without it the call ends
+  voicemailMessage?: string;
+  // controlEnabled exposes the call's control URL for live call control
+  monitorPlan?: {
+    listenEnabled: boolean;
+    controlEnabled: boolean;
+  };
 }
 
 export interface VapiFunction {
@@ -63,6 +74,7 @@ export interface VapiCallResponse {
   endedAt?: string;
   cost?: number;
   transcript?: string;
+  recordingUrl?: string;
 }
 
 /**
@@ -207,6 +219,7 @@ export class VapiClient {
         endedAt: response.data.endedAt,
         cost: response.data.cost,
         transcript: response.data.transcript,
+        recordingUrl: response.data.recordingUrl || response.data.artifact?.recordingUrl,
       };
     } catch (error: any) {
       logger.error('Failed to get call', {
@@ -233,6 +246,42 @@ export class VapiClient {
     }
   }
 
+  /**
+   * Send a live call control command
+   *
+   * Commands go to the call's own control URL, which Vapi only issues when the
+   * assistant was created with monitorPlan.controlEnabled.
+   *
+   * Example:
+   * ```typescript
+   * await vapiClient.controlCall(callId, {
+   *   type: 'add-message',
+   *   message: { role: 'system', content: 'Offer the annual plan discount' },
+   *   triggerResponseEnabled: false,
+   * });
+   * ```
+   */
+  async controlCall(callId: string, command: Record<string, any>): Promise<void> {
+    try {
+      const call = await this.client.get(`/call/${callId}`);
+      const controlUrl = call.data.monitor?.controlUrl;
+
+      if (!controlUrl) {
+        throw new Error('Call has no control URL');
+      }
+
+      await this.client.post(controlUrl, command);
+      logger.info('Call control command sent', { callId, type: command.type });
+    } catch (error: any) {
+      logger.error('Failed to control call', {
+        error: error.message,
+        callId,
+        type: command.type,
+      });
+      throw new Error(`Failed to control call: ${error.message}`);
+    }
+  }
+
   /**
    * Create a persistent assistant
    *
@@ -0,0 +1,183 @@
+import { logger } from '../utils/logger';
+import { VoicemailConfig } from '../types';
+import { vapiClient, VapiAssistant } from './vapi-client';
+import {
+  InboundRoute,
+  VoiceAgentConfig,
+  VoiceDialRequest,
+  VoiceDialResult,
+  VoicePlatform,
+  VoiceRecording,
+  VoiceStatusUpdate,
+} from './platform';
+
+/**
+ * Vapi Voice Platform
+ *
+ * Adapts VapiClient to the VoicePlatform interface. Vapi runs the whole
+ * conversation (STT, LLM, TTS), so the dial request becomes a transient
+ * assistant. Calls go out from the Vapi phone number configured in
+ * VAPI_PHONE_NUMBER; a per-call caller ID is not supported. Inbound calls
+ * arrive as assistant-request webhook events.
+ *
+ * Vapi detects voicemail itself and speaks the voicemail message with TTS;
+ * pre-recorded audio is not supported, so such calls just hang up.
+ *
+ * Assistants are created with live call control enabled, which carries
+ * supervisor whispers (as system messages) and transfers.
+ */
+export class VapiPlatform implements VoicePlatform {
+  readonly name = 'vapi' as const;
+
+  async dial(request: VoiceDialRequest): Promise<VoiceDialResult> {
+    const assistant: VapiAssistant = {
+      ...this.buildAssistant(request),
+      ...this.voicemailSettings(request.voicemail),
+    };
+
+    const call = await vapiClient.makeCall({
+      phoneNumber: request.toNumber,
+      assistant,
+      metadata: request.metadata,
+    });
+
+    return {
+      externalCallId: call.id,
+      status: call.status,
+      fromNumber: call.phoneNumber,
+      startedAt: call.startedAt ? new Date(call.startedAt) : undefined,
+      assistantConfig: assistant as unknown as Record<string, any>,
+    };
+  }
+
+  async cancel(externalCallId: string): Promise<void> {
+    await vapiClient.cancelCall(externalCallId);
+  }
+
+  /**
+   * Map a Vapi webhook event (see webhook-handler.ts)
+   */
+  parseStatusEvent(event: any): VoiceStatusUpdate | null {
+    const timestamp = event.timestamp ? new Date(event.timestamp) : new Date();
+
+    switch (event.type) {
+      case 'call.started':
+        return { externalCallId: event.callId, status: 'ringing' };
+
+      case 'call.answered':
+        return { externalCallId: event.callId, status: 'in-progress', answeredAt: timestamp };
+
+      case 'call.ended':
+        return {
+          externalCallId: event.callId,
+          status: event.data?.endedReason === 'voicemail' ? 'voicemail' : 'completed',
+          endedAt: timestamp,
+          durationSeconds: event.data?.durationSeconds,
+          transcript: event.data?.transcript,
+          recordingUrl: event.data?.recordingUrl,
+          cost: event.data?.cost,
+          costBreakdown: event.data?.costBreakdown,
+        };
+
+      case 'call.failed':
+        return {
+          externalCallId: event.callId,
+          status: event.data?.reason === 'no-answer' ? 'no-answer' : 'failed',
+          endedAt: timestamp,
+        };
+
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Response to an assistant-request for an inbound call
+   *
+   * Vapi accepts either a transient assistant or a destination to transfer to.
+   */
+  inboundResponse(route: InboundRoute): Record<string, any> {
+    switch (route.type) {
+      case 'assistant':
+        return { assistant: this.buildAssistant(route.agent) };
+
+      case 'forward':
+        return {
+          destination: {
+            type: 'number',
+            number: route.phoneNumber,
+            message: 'Please hold while I connect you.',
+          },
+        };
+
+      case 'reject':
+        return { error: route.reason };
+    }
+  }
+
+  async transfer(externalCallId: string, phoneNumber: string, summary?: string): Promise<void> {
+    await vapiClient.controlCall(externalCallId, {
+      type: 'transfer',
+      destination: {
+        type: 'number',
+        number: phoneNumber,
+        ...(summary && { transferPlan: { mode: 'warm-transfer-say-message', message: summary } }),
+      },
+    });
+  }
+
+  async whisper(externalCallId: string, message: string): Promise<void> {
+    await vapiClient.controlCall(externalCallId, {
+      type: 'add-message',
+      message: { role: 'system', content: `Supervisor guidance: ${message}` },
+      triggerResponseEnabled: false,
+    });
+  }
+
+  async getRecording(externalCallId: string): Promise<VoiceRecording | null> {
+    const call = await vapiClient.getCall(externalCallId);
+
+    if (!call.recordingUrl) {
+      return null;
+    }
+
+    return { externalCallId, url: call.recordingUrl };
+  }
+
+  private voicemailSettings(voicemail?: VoicemailConfig): Partial<VapiAssistant> {
+    const settings: Partial<VapiAssistant> = {
+      voicemailDetection: { provider: 'twilio', enabled: true },
+    };
+
+    if (voicemail?.action === 'message') {
+      if (voicemail.message) {
+        settings.voicemailMessage = voicemail.message;
+      } else {
+        logger.warn('Vapi cannot play voicemail audio; the call will hang up on voicemail');
+      }
+    }
+
+    return settings;
+  }
+
+  private buildAssistant(agent: VoiceAgentConfig): VapiAssistant {
+    return {
+      ...vapiClient.buildAssistant({
+        name: agent.name,
+        systemPrompt: agent.systemPrompt,
+        firstMessage: agent.firstMessage,
+        language: agent.language,
+        voiceId: agent.voiceId,
+        model: agent.model,
+        temperature: 0.7,
+        functions: agent.functions,
+      }),
+      monitorPlan: { listenEnabled: false, controlEnabled: true },
+    };
+  }
+}
+
+// Export singleton instance
+export const vapiPlatform = new VapiPlatform();
+
+export default vapiPlatform;
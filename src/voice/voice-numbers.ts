@@ -0,0 +1,357 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import {
+  VoiceNumber,
+  VoiceAgent,
+  VoiceRoutingStrategy,
+  CreateVoiceNumberInput,
+  UpdateVoiceNumberInput,
+  SetVoiceAgentInput,
+} from '../types';
+
+/**
+ * Voice Number Manager
+ *
+ * Inbound routing configuration:
+ * - Phone numbers on Vapi or Twilio and the routing strategy for each
+ * - The agent directory: which phone each user takes forwarded calls on
+ * - Round-robin rotation across a number's user group
+ */
+
+const ROUTING_STRATEGIES: VoiceRoutingStrategy[] = ['owner', 'round_robin', 'assistant'];
+
+const MIN_RING_TIMEOUT_SECONDS = 5;
+const MAX_RING_TIMEOUT_SECONDS = 120;
+
+const NUMBER_COLUMNS = `
+  id,
+  phone_number AS "phoneNumber",
+  platform,
+  label,
+  routing_strategy AS "routingStrategy",
+  round_robin_user_ids AS "roundRobinUserIds",
+  round_robin_cursor AS "roundRobinCursor",
+  ring_timeout_seconds AS "ringTimeoutSeconds",
+  assistant_config AS "assistantConfig",
+  organization_id AS "organizationId",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+const AGENT_COLUMNS = `
+  user_id AS "userId",
+  phone_number AS "phoneNumber",
+  available,
+  organization_id AS "organizationId",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+/**
+ * Digits only, so "+1 (555) 010-2000" and "+15550102000" compare equal
+ */
+export function normalizePhoneNumber(phoneNumber: string): string {
+  return phoneNumber.replace(/\D/g, '');
+}
+
+export class VoiceNumberManager {
+  /**
+   * List an organization's inbound numbers
+   */
+  async listNumbers(organizationId: string): Promise<VoiceNumber[]> {
+    const result = await db.queryWithContext<VoiceNumber>(
+      organizationId,
+      `SELECT ${NUMBER_COLUMNS} FROM nexuscrm.voice_numbers ORDER BY phone_number`
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get an inbound number by ID
+   */
+  async getNumber(organizationId: string, numberId: string): Promise<VoiceNumber | null> {
+    const result = await db.queryWithContext<VoiceNumber>(
+      organizationId,
+      `SELECT ${NUMBER_COLUMNS} FROM nexuscrm.voice_numbers WHERE id = $1`,
+      [numberId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find the number a call was placed to
+   *
+   * Inbound webhooks carry no organization context; the number identifies it.
+   */
+  async findByPhoneNumber(phoneNumber: string): Promise<VoiceNumber | null> {
+    const result = await db.query<VoiceNumber>(
+      `
+        SELECT ${NUMBER_COLUMNS} FROM nexuscrm.voice_numbers
+        WHERE regexp_replace(phone_number, '\\D', '', 'g') = $1
+        LIMIT 1
+      `,
+      [normalizePhoneNumber(phoneNumber)]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Register an inbound number
+   */
+  async createNumber(organizationId: string, input: CreateVoiceNumberInput): Promise<VoiceNumber> {
+    if (!normalizePhoneNumber(input.phoneNumber || '')) {
+      throw new Error('Phone number is required');
+    }
+    if (input.platform !== 'vapi' && input.platform !== 'twilio') {
+      throw new Error(`Unsupported voice platform: ${input.platform}`);
+    }
+    this.validateRouting(input);
+
+    const result = await db.queryWithContext<VoiceNumber>(
+      organizationId,
+      `
+        INSERT INTO nexuscrm.voice_numbers (
+          phone_number, platform, label, routing_strategy, round_robin_user_ids,
+          ring_timeout_seconds, assistant_config, organization_id
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+        RETURNING ${NUMBER_COLUMNS}
+      `,
+      [
+        input.phoneNumber.trim(),
+        input.platform,
+        input.label || null,
+        input.routingStrategy || 'assistant',
+        input.roundRobinUserIds || [],
+        input.ringTimeoutSeconds ?? 20,
+        input.assistantConfig || {},
+        organizationId,
+      ]
+    );
+
+    logger.info('Voice number created', {
+      numberId: result.rows[0].id,
+      platform: input.platform,
+      routingStrategy: input.routingStrategy || 'assistant',
+    });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Update a number's label or routing
+   */
+  async updateNumber(
+    organizationId: string,
+    numberId: string,
+    input: UpdateVoiceNumberInput
+  ): Promise<VoiceNumber> {
+    this.validateRouting(input);
+
+    const updates: string[] = [];
+    const params: any[] = [];
+    let paramIndex = 1;
+
+    if (input.label !== undefined) {
+      updates.push(`label = $${paramIndex++}`);
+      params.push(input.label);
+    }
+    if (input.routingStrategy !== undefined) {
+      updates.push(`routing_strategy = $${paramIndex++}`);
+      params.push(input.routingStrategy);
+    }
+    if (input.roundRobinUserIds !== undefined) {
+      updates.push(`round_robin_user_ids = $${paramIndex++}`);
+      params.push(input.roundRobinUserIds);
+    }
+    if (input.ringTimeoutSeconds !== undefined) {
+      updates.push(`ring_timeout_seconds = $${paramIndex++}`);
+      params.push(input.ringTimeoutSeconds);
+    }
+    if (input.assistantConfig !== undefined) {
+      updates.push(`assistant_config = $${paramIndex++}`);
+      params.push(input.assistantConfig);
+    }
+
+    params.push(numberId);
+
+    const result = await db.queryWithContext<VoiceNumber>(
+      organizationId,
+      `
+        UPDATE nexuscrm.voice_numbers
+        SET ${[...updates, 'updated_at = CURRENT_TIMESTAMP'].join(', ')}
+        WHERE id = $${paramIndex++}
+        RETURNING ${NUMBER_COLUMNS}
+      `,
+      params
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('Voice number not found');
+    }
+
+    logger.info('Voice number updated', { numberId });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Stop accepting calls on a number
+   */
+  async deleteNumber(organizationId: string, numberId: string): Promise<boolean> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `DELETE FROM nexuscrm.voice_numbers WHERE id = $1`,
+      [numberId]
+    );
+
+    logger.info('Voice number deleted', { numberId });
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * List the agent directory
+   */
+  async listAgents(organizationId: string): Promise<VoiceAgent[]> {
+    const result = await db.queryWithContext<VoiceAgent>(
+      organizationId,
+      `SELECT ${AGENT_COLUMNS} FROM nexuscrm.voice_agents ORDER BY created_at`
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a user's agent entry, available or not
+   */
+  async getAgent(organizationId: string, userId: string): Promise<VoiceAgent | null> {
+    const result = await db.queryWithContext<VoiceAgent>(
+      organizationId,
+      `SELECT ${AGENT_COLUMNS} FROM nexuscrm.voice_agents WHERE user_id = $1`,
+      [userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Get a user's agent entry if they can take calls right now
+   */
+  async getAvailableAgent(organizationId: string, userId: string): Promise<VoiceAgent | null> {
+    const result = await db.queryWithContext<VoiceAgent>(
+      organizationId,
+      `SELECT ${AGENT_COLUMNS} FROM nexuscrm.voice_agents WHERE user_id = $1 AND available = true`,
+      [userId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Set the phone a user takes forwarded calls on
+   */
+  async setAgent(organizationId: string, input: SetVoiceAgentInput): Promise<VoiceAgent> {
+    if (!normalizePhoneNumber(input.phoneNumber || '')) {
+      throw new Error('Phone number is required');
+    }
+
+    const result = await db.queryWithContext<VoiceAgent>(
+      organizationId,
+      `
+        INSERT INTO nexuscrm.voice_agents (user_id, phone_number, available, organization_id)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (organization_id, user_id) DO UPDATE SET
+          phone_number = EXCLUDED.phone_number,
+          available = EXCLUDED.available,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING ${AGENT_COLUMNS}
+      `,
+      [input.userId, input.phoneNumber.trim(), input.available ?? true, organizationId]
+    );
+
+    logger.info('Voice agent set', { userId: input.userId, available: input.available ?? true });
+
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a user from the agent directory
+   */
+  async removeAgent(organizationId: string, userId: string): Promise<boolean> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `DELETE FROM nexuscrm.voice_agents WHERE user_id = $1`,
+      [userId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Next available agent in a number's round-robin group
+   *
+   * The cursor advances on every call, so concurrent calls spread across the
+   * group; unavailable agents are skipped.
+   */
+  async nextRoundRobinAgent(number: VoiceNumber): Promise<VoiceAgent | null> {
+    return db.transaction(async (client) => {
+      await db.setOrganizationContext(client, number.organizationId);
+
+      const agents = await client.query<VoiceAgent>(
+        `
+          SELECT ${AGENT_COLUMNS}
+          FROM unnest($1::uuid[]) WITH ORDINALITY AS grp(group_user_id, position)
+          JOIN nexuscrm.voice_agents ON user_id = grp.group_user_id
+          WHERE available = true
+          ORDER BY grp.position
+        `,
+        [number.roundRobinUserIds]
+      );
+
+      if (agents.rows.length === 0) {
+        return null;
+      }
+
+      const cursor = await client.query<{ round_robin_cursor: number }>(
+        `
+          UPDATE nexuscrm.voice_numbers
+          SET round_robin_cursor = round_robin_cursor + 1
+          WHERE id = $1
+          RETURNING round_robin_cursor
+        `,
+        [number.id]
+      );
+
+      const position = (cursor.rows[0].round_robin_cursor - 1) % agents.rows.length;
+      return agents.rows[position];
+    });
+  }
+
+  private validateRouting(input: UpdateVoiceNumberInput): void {
+    if (input.routingStrategy !== undefined && !ROUTING_STRATEGIES.includes(input.routingStrategy)) {
+      throw new Error(`Unsupported routing strategy: ${input.routingStrategy}`);
+    }
+
+    if (
+      input.ringTimeoutSeconds !== undefined &&
+      (input.ringTimeoutSeconds < MIN_RING_TIMEOUT_SECONDS ||
+        input.ringTimeoutSeconds > MAX_RING_TIMEOUT_SECONDS)
+    ) {
+      throw new Error(
+        `Ring timeout must be between ${MIN_RING_TIMEOUT_SECONDS} and ${MAX_RING_TIMEOUT_SECONDS} seconds`
+      );
+    }
+
+    if (input.routingStrategy === 'round_robin' && input.roundRobinUserIds?.length === 0) {
+      throw new Error('Round-robin routing needs at least one user');
+    }
+  }
+}
+
+// Export singleton instance
+export const voiceNumberManager = new VoiceNumberManager();
+
+export default voiceNumberManager;
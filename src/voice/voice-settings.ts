@@ -0,0 +1,239 @@
+import config from '../config';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { UpdateVoiceSettingsInput, VoiceSettings, VoiceTransferConfig } from '../types';
+
+/**
+ * Voice Settings Manager
+ *
+ * Per-organization voice configuration. Organizations that never saved
+ * settings get the environment defaults (VOICE_PLATFORM and the platform's
+ * configured caller ID) and the default calling window below.
+ */
+
+const DEFAULT_CALLING_RULES = {
+  callingHoursStart: '09:00',
+  callingHoursEnd: '20:00',
+  callingDays: [1, 2, 3, 4, 5],
+  defaultTimezone: 'UTC',
+  maxDailyAttempts: 3,
+};
+
+// TIME columns come back as "HH:MM:SS"; settings use "HH:MM"
+const SETTINGS_COLUMNS = `
+  organization_id AS "organizationId",
+  default_platform AS "defaultPlatform",
+  from_number AS "fromNumber",
+  to_char(calling_hours_start, 'HH24:MI') AS "callingHoursStart",
+  to_char(calling_hours_end, 'HH24:MI') AS "callingHoursEnd",
+  calling_days AS "callingDays",
+  default_timezone AS "defaultTimezone",
+  max_daily_attempts AS "maxDailyAttempts",
+  transfer_config AS "transferConfig",
+  created_at AS "createdAt",
+  updated_at AS "updatedAt"
+`;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d(:[0-5]\d)?$/;
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const TRANSFER_TARGETS: Array<VoiceTransferConfig['targets'][number]> = ['owner', 'on_call'];
+
+/**
+ * Whether a timezone name is one the runtime knows (e.g. "America/New_York")
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The current weekday (1 = Monday) and time of day in a timezone
+ */
+export function localTimeIn(
+  timezone: string,
+  at: Date = new Date()
+): { weekday: number; weekdayName: string; minutes: number; time: string } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday')) + 1,
+    weekdayName: part('weekday'),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+    time: `${part('hour')}:${part('minute')}`,
+  };
+}
+
+/**
+ * Whether a time of day (minutes since midnight) falls in an "HH:MM" window
+ */
+export function isWithinHours(minutes: number, start: string, end: string): boolean {
+  const from = minutesOfDay(start);
+  const to = minutesOfDay(end);
+  // A window like 18:00-02:00 wraps past midnight
+  return from <= to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+export class VoiceSettingsManager {
+  /**
+   * Get an organization's settings, falling back to the defaults
+   */
+  async getSettings(organizationId: string): Promise<VoiceSettings> {
+    const result = await db.queryWithContext<VoiceSettings>(
+      organizationId,
+      `SELECT ${SETTINGS_COLUMNS} FROM nexuscrm.voice_settings WHERE organization_id = $1`,
+      [organizationId]
+    );
+
+    return (
+      result.rows[0] || {
+        organizationId,
+        defaultPlatform: config.voice.defaultPlatform,
+        ...DEFAULT_CALLING_RULES,
+      }
+    );
+  }
+
+  /**
+   * Create or update an organization's settings
+   */
+  async updateSettings(
+    organizationId: string,
+    input: UpdateVoiceSettingsInput
+  ): Promise<VoiceSettings> {
+    if (
+      input.defaultPlatform !== undefined &&
+      input.defaultPlatform !== 'vapi' &&
+      input.defaultPlatform !== 'twilio'
+    ) {
+      throw new Error(`Unsupported voice platform: ${input.defaultPlatform}`);
+    }
+
+    this.validateCallingRules(input);
+    if (input.transferConfig) {
+      this.validateTransferConfig(input.transferConfig);
+    }
+
+    const current = await this.getSettings(organizationId);
+
+    const result = await db.queryWithContext<VoiceSettings>(
+      organizationId,
+      `
+        INSERT INTO nexuscrm.voice_settings (
+          organization_id, default_platform, from_number, calling_hours_start,
+          calling_hours_end, calling_days, default_timezone, max_daily_attempts,
+          transfer_config
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        ON CONFLICT (organization_id) DO UPDATE SET
+          default_platform = EXCLUDED.default_platform,
+          from_number = EXCLUDED.from_number,
+          calling_hours_start = EXCLUDED.calling_hours_start,
+          calling_hours_end = EXCLUDED.calling_hours_end,
+          calling_days = EXCLUDED.calling_days,
+          default_timezone = EXCLUDED.default_timezone,
+          max_daily_attempts = EXCLUDED.max_daily_attempts,
+          transfer_config = EXCLUDED.transfer_config,
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING ${SETTINGS_COLUMNS}
+      `,
+      [
+        organizationId,
+        input.defaultPlatform ?? current.defaultPlatform,
+        input.fromNumber !== undefined ? input.fromNumber : current.fromNumber || null,
+        input.callingHoursStart ?? current.callingHoursStart,
+        input.callingHoursEnd ?? current.callingHoursEnd,
+        input.callingDays ?? current.callingDays,
+        input.defaultTimezone ?? current.defaultTimezone,
+        input.maxDailyAttempts ?? current.maxDailyAttempts,
+        input.transferConfig !== undefined ? input.transferConfig : current.transferConfig || null,
+      ]
+    );
+
+    logger.info('Voice settings updated', {
+      organizationId,
+      defaultPlatform: result.rows[0].defaultPlatform,
+    });
+
+    return result.rows[0];
+  }
+
+  private validateCallingRules(input: UpdateVoiceSettingsInput): void {
+    for (const time of [input.callingHoursStart, input.callingHoursEnd]) {
+      if (time !== undefined && !TIME_PATTERN.test(time)) {
+        throw new Error(`Calling hours must be HH:MM, got ${time}`);
+      }
+    }
+
+    if (input.callingDays !== undefined) {
+      if (input.callingDays.some((day) => !Number.isInteger(day) || day < 1 || day > 7)) {
+        throw new Error('Calling days must be ISO weekdays (1 = Monday ... 7 = Sunday)');
+      }
+    }
+
+    if (input.defaultTimezone !== undefined && !isValidTimezone(input.defaultTimezone)) {
+      throw new Error(`Unknown timezone: ${input.defaultTimezone}`);
+    }
+
+    if (input.maxDailyAttempts !== undefined && input.maxDailyAttempts < 1) {
+      throw new Error('Max daily attempts must be at least 1');
+    }
+  }
+
+  private validateTransferConfig(transfer: VoiceTransferConfig): void {
+    if (transfer.targets.some((target) => !TRANSFER_TARGETS.includes(target))) {
+      throw new Error(`Transfer targets must be one of: ${TRANSFER_TARGETS.join(', ')}`);
+    }
+
+    if (transfer.targets.includes('on_call') && !transfer.onCallUserIds?.length) {
+      throw new Error('The on_call transfer target needs onCallUserIds');
+    }
+
+    if ((transfer.hoursStart === undefined) !== (transfer.hoursEnd === undefined)) {
+      throw new Error('Transfer hours need both hoursStart and hoursEnd');
+    }
+
+    for (const time of [transfer.hoursStart, transfer.hoursEnd]) {
+      if (time !== undefined && !TIME_PATTERN.test(time)) {
+        throw new Error(`Transfer hours must be HH:MM, got ${time}`);
+      }
+    }
+
+    if (transfer.days?.some((day) => !Number.isInteger(day) || day < 1 || day > 7)) {
+      throw new Error('Transfer days must be ISO weekdays (1 = Monday ... 7 = Sunday)');
+    }
+
+    if (transfer.fallback !== 'assistant' && transfer.fallback !== 'number') {
+      throw new Error(`Invalid transfer fallback: ${transfer.fallback}`);
+    }
+
+    if (transfer.fallback === 'number' && !transfer.fallbackNumber?.trim()) {
+      throw new Error('The number transfer fallback needs fallbackNumber');
+    }
+  }
+}
+
+/**
+ * "HH:MM" or "HH:MM:SS" to minutes past midnight
+ */
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes;
+}
+
+// Export singleton instance
+export const voiceSettingsManager = new VoiceSettingsManager();
+
+export default voiceSettingsManager;
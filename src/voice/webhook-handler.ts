@@ -3,6 +3,10 @@ import crypto from 'crypto';
 import config from '../config';
 import { logger } from '../utils/logger';
 import { callManager } from './call-manager';
+import { vapiPlatform } from './vapi-platform';
+import { inboundCallRouter } from './inbound-call-router';
+import { callToolRegistry } from './call-tools';
+import { campaignEngine } from '../campaigns/campaign-engine';
 import { broadcastTranscriptUpdate, broadcastCallStatus } from '../websocket/manager';
 
 /**
@@ -13,8 +17,9 @@ import { broadcastTranscriptUpdate, broadcastCallStatus } from '../websocket/man
  * - call.answered: Call answered by recipient
  * - call.ended: Call completed
  * - call.failed: Call failed
- * - function.called: Assistant invoked a function
+ * - function.called: Assistant invoked a function (result returned in the response)
  * - transcript.updated: Real-time transcript updates
+ * - assistant-request: Inbound call needs routing (answered in the response)
  *
  * Events are verified using HMAC signature to ensure authenticity.
  */
@@ -94,6 +99,18 @@ export async function handleVapiWebhook(req: Request, res: Response): Promise<vo
       callId: event.callId,
     });
 
+    // Inbound calls wait on the response body for their assistant or transfer
+    if (event.type === 'assistant-request') {
+      res.status(200).json(await handleAssistantRequest(event));
+      return;
+    }
+
+    // Function calls wait on the response body for the tool's result
+    if (event.type === 'function.called') {
+      res.status(200).json(await handleFunctionCalled(event));
+      return;
+    }
+
     // Handle different event types
     switch (event.type) {
       case 'call.started':
@@ -112,10 +129,6 @@ export async function handleVapiWebhook(req: Request, res: Response): Promise<vo
         await handleCallFailed(event);
         break;
 
-      case 'function.called':
-        await handleFunctionCalled(event);
-        break;
-
       case 'transcript.updated':
         await handleTranscriptUpdated(event);
         break;
@@ -133,6 +146,22 @@ export async function handleVapiWebhook(req: Request, res: Response): Promise<vo
   }
 }
 
+/**
+ * Record the call status carried by a lifecycle event
+ */
+async function applyVapiStatus(event: VapiWebhookEvent): Promise<void> {
+  const update = vapiPlatform.parseStatusEvent(event);
+  if (!update) {
+    return;
+  }
+
+  const call = await callManager.applyStatusUpdate(update);
+
+  if (call && update.endedAt) {
+    await campaignEngine.recordCallOutcome(update.externalCallId, call.status);
+  }
+}
+
 /**
  * Handle call.started event
  */
@@ -140,10 +169,10 @@ async function handleCallStarted(event: VapiWebhookEvent): Promise<void> {
   try {
     logger.info('Call started', { callId: event.callId });
 
-    await callManager.updateCallStatus(event.callId, 'ringing', {});
+    await applyVapiStatus(event);
 
     // Broadcast call status to WebSocket clients
-    const call = await callManager.getCall(event.callId);
+    const call = await callManager.getCallByExternalId(event.callId);
     if (call) {
       broadcastCallStatus(event.callId, call.organizationId, 'initiated', {
         startedAt: event.timestamp
@@ -161,12 +190,13 @@ async function handleCallAnswered(event: VapiWebhookEvent): Promise<void> {
   try {
     logger.info('Call answered', { callId: event.callId });
 
-    await callManager.updateCallStatus(event.callId, 'in-progress', {
-      answeredAt: new Date(event.timestamp),
-    });
+    await applyVapiStatus(event);
+
+    // An answered campaign call counts as delivered
+    await campaignEngine.recordDelivery('voice', event.callId);
 
     // Broadcast call status to WebSocket clients
-    const call = await callManager.getCall(event.callId);
+    const call = await callManager.getCallByExternalId(event.callId);
     if (call) {
       broadcastCallStatus(event.callId, call.organizationId, 'in-progress', {
         answeredAt: event.timestamp
@@ -187,17 +217,10 @@ async function handleCallEnded(event: VapiWebhookEvent): Promise<void> {
       duration: event.data.durationSeconds,
     });
 
-    await callManager.updateCallStatus(event.callId, 'completed', {
-      endedAt: new Date(event.timestamp),
-      durationSeconds: event.data.durationSeconds,
-      transcript: event.data.transcript,
-      recordingUrl: event.data.recordingUrl,
-      cost: event.data.cost,
-      costBreakdown: event.data.costBreakdown,
-    });
+    await applyVapiStatus(event);
 
     // Broadcast call completion to WebSocket clients
-    const call = await callManager.getCall(event.callId);
+    const call = await callManager.getCallByExternalId(event.callId);
     if (call) {
       broadcastCallStatus(event.callId, call.organizationId, 'completed', {
         endedAt: event.timestamp,
@@ -220,14 +243,10 @@ async function handleCallFailed(event: VapiWebhookEvent): Promise<void> {
       reason: event.data.reason,
     });
 
-    const status = event.data.reason === 'no-answer' ? 'no-answer' : 'failed';
-
-    await callManager.updateCallStatus(event.callId, status, {
-      endedAt: new Date(event.timestamp),
-    });
+    await applyVapiStatus(event);
 
     // Broadcast call failure to WebSocket clients
-    const call = await callManager.getCall(event.callId);
+    const call = await callManager.getCallByExternalId(event.callId);
     if (call) {
       broadcastCallStatus(event.callId, call.organizationId, 'failed', {
         endedAt: event.timestamp,
@@ -243,33 +262,57 @@ async function handleCallFailed(event: VapiWebhookEvent): Promise<void> {
  * Handle function.called event
  *
  * This is triggered when the assistant invokes a function during the call.
- * The function can be used to:
- * - Look up information
- * - Update CRM records
- * - Schedule follow-ups
- * - Transfer to human agent
+ * Built-in CRM tools (see call-tools.ts) run here and their result goes back
+ * to the assistant in the response:
+ * - Schedule follow-ups and book meetings
+ * - Update the lead status
+ * - Look up deals
+ * - Opt the contact out
+ *
+ * Custom functions are handled by whoever defined them and are only logged.
  */
-async function handleFunctionCalled(event: VapiWebhookEvent): Promise<void> {
+async function handleFunctionCalled(event: VapiWebhookEvent): Promise<Record<string, any>> {
   try {
+    const { functionName, parameters } = event.data;
+
     logger.info('Function called during call', {
       callId: event.callId,
-      functionName: event.data.functionName,
-      parameters: event.data.parameters,
+      functionName,
+      parameters,
     });
 
-    // Function calls are handled by the MageAgent or other services
-    // depending on the function configuration. This is just for logging.
-
-    // Example: If function is "schedule_follow_up", you could create a task
-    if (event.data.functionName === 'schedule_follow_up') {
-      logger.info('Follow-up scheduled during call', {
-        callId: event.callId,
-        followUpDate: event.data.parameters.date,
-      });
-      // TODO: Create task in CRM
+    if (!callToolRegistry.get(functionName)) {
+      return { result: `Function ${functionName} is not handled by the CRM` };
     }
+
+    const result = await callManager.runTool(event.callId, functionName, parameters);
+
+    return { result: result.message, data: result.data };
   } catch (error: any) {
     logger.error('Failed to handle function.called', { error: error.message });
+    return { result: 'Sorry, that could not be done right now.' };
+  }
+}
+
+/**
+ * Handle assistant-request event
+ *
+ * Sent when someone calls one of our Vapi numbers. The response tells Vapi
+ * which assistant answers or where to transfer the call.
+ */
+async function handleAssistantRequest(event: VapiWebhookEvent): Promise<Record<string, any>> {
+  try {
+    const route = await inboundCallRouter.routeCall({
+      platform: 'vapi',
+      externalCallId: event.callId,
+      fromNumber: event.data.customer?.number,
+      toNumber: event.data.phoneNumber?.number,
+    });
+
+    return vapiPlatform.inboundResponse(route);
+  } catch (error: any) {
+    logger.error('Failed to handle assistant-request', { error: error.message });
+    return vapiPlatform.inboundResponse({ type: 'reject', reason: 'Routing failed' });
   }
 }
 
@@ -289,7 +332,7 @@ async function handleTranscriptUpdated(event: VapiWebhookEvent): Promise<void> {
     });
 
     // Get call details to retrieve organization ID for multi-tenant broadcasting
-    const call = await callManager.getCall(event.callId);
+    const call = await callManager.getCallByExternalId(event.callId);
 
     if (!call) {
       logger.warn('Call not found for transcript update', { callId: event.callId });
@@ -7,6 +7,7 @@
 
 import { Server as SocketIOServer } from 'socket.io';
 import { logger } from '../utils/logger';
+import { Activity, DialerProgress } from '../types';
 
 /**
  * Singleton WebSocket server instance
@@ -64,6 +65,9 @@ export function broadcastToOrganization(
 
 /**
  * Broadcast event to specific call participants
+ *
+ * `callId` is the platform's call ID; supervisors join the room with the
+ * `call:monitor` socket event (see src/voice/call-supervisor.ts).
  */
 export function broadcastToCall(
   callId: string,
@@ -165,6 +169,53 @@ export function broadcastCallStatus(
   });
 }
 
+/**
+ * Broadcast a dialer campaign's queue state
+ */
+export function broadcastCampaignProgress(organizationId: string, progress: DialerProgress): void {
+  if (!ioInstance) {
+    logger.warn('Cannot broadcast campaign progress: WebSocket manager not initialized', {
+      campaignId: progress.campaignId,
+    });
+    return;
+  }
+
+  broadcastToOrganization(organizationId, 'campaign:progress', {
+    campaignId: progress.campaignId,
+    progress,
+    timestamp: new Date().toISOString(),
+  });
+
+  logger.debug('Broadcasted campaign progress', {
+    campaignId: progress.campaignId,
+    organizationId,
+    dialing: progress.dialing,
+  });
+}
+
+/**
+ * Broadcast a new inbound message (email, SMS, WhatsApp or call) for the inbox
+ */
+export function broadcastInboxMessage(organizationId: string, activity: Activity): void {
+  if (!ioInstance) {
+    logger.warn('Cannot broadcast inbox message: WebSocket manager not initialized', {
+      activityId: activity.id,
+    });
+    return;
+  }
+
+  broadcastToOrganization(organizationId, 'inbox:message', {
+    contactId: activity.contactId,
+    activity,
+    timestamp: new Date().toISOString(),
+  });
+
+  logger.debug('Broadcasted inbox message', {
+    activityId: activity.id,
+    organizationId,
+  });
+}
+
 /**
  * Get WebSocket statistics
  */
@@ -0,0 +1,115 @@
+import axios, { AxiosInstance } from 'axios';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { WhatsAppMedia } from '../types';
+import { WhatsAppMessage, WhatsAppProvider, WhatsAppSendResult } from './types';
+
+/**
+ * WhatsApp Cloud API Provider
+ *
+ * Sends through Meta's WhatsApp Business Cloud API from the business phone
+ * number WHATSAPP_PHONE_NUMBER_ID. Templates must be approved in WhatsApp
+ * Manager before they can be sent; free-form text and media are only
+ * accepted within 24 hours of the contact's last message.
+ */
+export class CloudApiProvider implements WhatsAppProvider {
+  readonly name = 'cloud' as const;
+  private client: AxiosInstance;
+
+  constructor(
+    accessToken: string = config.communication.whatsappAccessToken,
+    private phoneNumberId: string = config.communication.whatsappPhoneNumberId
+  ) {
+    this.client = axios.create({
+      baseURL: `https://graph.facebook.com/${config.communication.whatsappApiVersion}`,
+      timeout: 15000,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+      },
+    });
+  }
+
+  async send(message: WhatsAppMessage): Promise<WhatsAppSendResult> {
+    if (!this.phoneNumberId) {
+      throw new Error('WhatsApp phone number ID not configured');
+    }
+
+    try {
+      const response = await this.client.post(`/${this.phoneNumberId}/messages`, {
+        messaging_product: 'whatsapp',
+        recipient_type: 'individual',
+        to: message.to.replace(/\D/g, ''),
+        ...this.content(message),
+      });
+
+      const messageId = response.data?.messages?.[0]?.id;
+
+      if (!messageId) {
+        throw new Error('Cloud API response did not include a message ID');
+      }
+
+      return { messageId, provider: this.name };
+    } catch (error: any) {
+      const detail = error.response?.data?.error?.message || error.message;
+      logger.error('WhatsApp send failed', { error: detail });
+      throw new Error(`WhatsApp send failed: ${detail}`);
+    }
+  }
+
+  private content(message: WhatsAppMessage): Record<string, any> {
+    if (message.template) {
+      const { name, language, bodyParameters, headerMedia } = message.template;
+      const components: Array<Record<string, any>> = [];
+
+      if (headerMedia) {
+        // Header media carries no caption; the template supplies the text
+        components.push({
+          type: 'header',
+          parameters: [toMediaParameter({ ...headerMedia, caption: undefined })],
+        });
+      }
+      if (bodyParameters.length > 0) {
+        components.push({
+          type: 'body',
+          parameters: bodyParameters.map((text) => ({ type: 'text', text })),
+        });
+      }
+
+      return {
+        type: 'template',
+        template: { name, language: { code: language }, components },
+      };
+    }
+
+    if (message.media) {
+      return toMediaParameter({ ...message.media, caption: message.text || message.media.caption });
+    }
+
+    if (!message.text) {
+      throw new Error('WhatsApp message needs a template, text or media');
+    }
+
+    return { type: 'text', text: { body: message.text, preview_url: true } };
+  }
+}
+
+/**
+ * `{type, [type]: {link, ...}}` as used by media messages and template headers
+ *
+ * Audio takes no caption and only documents take a filename.
+ */
+function toMediaParameter(media: WhatsAppMedia): Record<string, any> {
+  const object: Record<string, any> = { link: media.url };
+
+  if (media.caption && media.type !== 'audio') {
+    object.caption = media.caption;
+  }
+  if (media.filename && media.type === 'document') {
+    object.filename = media.filename;
+  }
+
+  return { type: media.type, [media.type]: object };
+}
+
+export default CloudApiProvider;
@@ -0,0 +1,247 @@
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact } from '../utils/rows';
+import { activityManager, mapActivity } from '../activities';
+import { campaignEngine } from '../campaigns/campaign-engine';
+import { voiceNumberManager, normalizePhoneNumber } from '../voice/voice-numbers';
+import { Activity, Contact } from '../types';
+import { InboundWhatsApp, WhatsAppDeliveryStatus, WhatsAppStatusEvent } from './types';
+
+/**
+ * WhatsApp Event Processor
+ *
+ * Applies provider webhooks to the CRM:
+ * - Status updates move the outbound activity's delivery status (sent,
+ *   delivered, read, failed) and count campaign deliveries
+ * - Incoming messages are logged as inbound whatsapp activities on the
+ *   contact's timeline, which also opens the contact's session window
+ *
+ * Incoming messages are tied to an organization by the business number they
+ * were sent to (a registered voice number) or, failing that, by the last
+ * message we sent to the sender.
+ */
+
+// Contacts store numbers with or without country codes and trunk prefixes;
+// matching on the trailing digits tolerates both
+const PHONE_MATCH_DIGITS = 9;
+
+// Statuses can arrive out of order; a status never moves back to an earlier one
+const STATUS_RANK: Record<WhatsAppDeliveryStatus, number> = {
+  sent: 0,
+  delivered: 1,
+  read: 2,
+  failed: 2,
+};
+
+interface WhatsAppActivityRef {
+  id: string;
+  organizationId: string;
+  contactId?: string;
+  campaignId?: string;
+  deliveryStatus?: WhatsAppDeliveryStatus;
+}
+
+export class WhatsAppEventProcessor {
+  /**
+   * Apply a status update; returns false when no matching message is found
+   */
+  async processStatus(event: WhatsAppStatusEvent): Promise<boolean> {
+    if (event.status === 'delivered' || event.status === 'read') {
+      await campaignEngine.recordDelivery('whatsapp', event.messageId);
+    }
+
+    const activity = await this.findOutbound(event.messageId);
+
+    if (!activity) {
+      logger.debug('No WhatsApp activity for status update', {
+        provider: event.provider,
+        messageId: event.messageId,
+      });
+      return false;
+    }
+
+    if (activity.deliveryStatus && STATUS_RANK[activity.deliveryStatus] >= STATUS_RANK[event.status]) {
+      return true;
+    }
+
+    await db.queryWithContext(
+      activity.organizationId,
+      `
+        UPDATE nexuscrm.activities
+        SET metadata = COALESCE(metadata, '{}'::jsonb) || $2::jsonb, updated_at = CURRENT_TIMESTAMP
+        WHERE id = $1
+      `,
+      [
+        activity.id,
+        JSON.stringify({
+          deliveryStatus: event.status,
+          deliveryError: event.error || null,
+          deliveryUpdatedAt: event.occurredAt.toISOString(),
+        }),
+      ]
+    );
+
+    if (event.status === 'failed') {
+      logger.warn('WhatsApp message failed', { activityId: activity.id, error: event.error });
+    }
+
+    return true;
+  }
+
+  /**
+   * Log an incoming message on the sender's timeline; returns null when the
+   * sender cannot be tied to an organization or contact
+   */
+  async processInbound(message: InboundWhatsApp): Promise<Activity | null> {
+    const number = await voiceNumberManager.findByPhoneNumber(message.to);
+    const thread = await this.findThread(message.from, number?.organizationId);
+    const organizationId = number?.organizationId || thread?.organizationId;
+
+    if (!organizationId) {
+      logger.warn('Inbound WhatsApp message to an unknown number', { messageId: message.messageId });
+      return null;
+    }
+
+    // Providers retry webhooks that are not acknowledged in time
+    const existing = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.activities WHERE external_id = $1 AND type = 'whatsapp' AND direction = 'inbound'`,
+      [message.messageId]
+    );
+    if (existing.rows[0]) {
+      return mapActivity(existing.rows[0]);
+    }
+
+    const contact = thread?.contactId
+      ? await this.getContact(organizationId, thread.contactId)
+      : await this.findContact(organizationId, message.from);
+
+    // Activities must belong to a record; messages from unknown senders are dropped
+    if (!contact) {
+      logger.info('Inbound WhatsApp message from an unknown sender', { messageId: message.messageId });
+      return null;
+    }
+
+    return activityManager.logActivity(organizationId, contact.ownerId || null, {
+      type: 'whatsapp',
+      direction: 'inbound',
+      body: message.text ?? message.media?.caption,
+      contactId: contact.id,
+      companyId: contact.companyId,
+      fromNumber: message.from,
+      toNumber: message.to,
+      externalId: message.messageId,
+      metadata: {
+        provider: message.provider,
+        messageType: message.type,
+        profileName: message.profileName,
+        media: message.media,
+        inReplyTo: thread?.id,
+        campaignId: thread?.campaignId,
+      },
+    });
+  }
+
+  private async findOutbound(messageId: string): Promise<WhatsAppActivityRef | null> {
+    const result = await db.query(
+      `
+        SELECT
+          id,
+          organization_id,
+          contact_id,
+          metadata->>'campaignId' AS campaign_id,
+          metadata->>'deliveryStatus' AS delivery_status
+        FROM nexuscrm.activities
+        WHERE external_id = $1 AND type = 'whatsapp' AND direction = 'outbound' AND deleted_at IS NULL
+        LIMIT 1
+      `,
+      [messageId]
+    );
+
+    return result.rows[0] ? this.toRef(result.rows[0]) : null;
+  }
+
+  /**
+   * The latest message we sent to a number, which a message from it answers
+   */
+  private async findThread(
+    fromNumber: string,
+    organizationId?: string
+  ): Promise<WhatsAppActivityRef | null> {
+    const digits = normalizePhoneNumber(fromNumber);
+
+    if (digits.length < PHONE_MATCH_DIGITS) {
+      return null;
+    }
+
+    const result = await db.query(
+      `
+        SELECT
+          id,
+          organization_id,
+          contact_id,
+          metadata->>'campaignId' AS campaign_id,
+          metadata->>'deliveryStatus' AS delivery_status
+        FROM nexuscrm.activities
+        WHERE type = 'whatsapp' AND direction = 'outbound' AND deleted_at IS NULL
+          AND right(regexp_replace(to_number, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+          AND ($2::uuid IS NULL OR organization_id = $2)
+        ORDER BY created_at DESC
+        LIMIT 1
+      `,
+      [digits.slice(-PHONE_MATCH_DIGITS), organizationId || null]
+    );
+
+    return result.rows[0] ? this.toRef(result.rows[0]) : null;
+  }
+
+  private async getContact(organizationId: string, contactId: string): Promise<Contact | null> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [contactId]
+    );
+
+    return result.rows[0] ? mapContact(result.rows[0]) : null;
+  }
+
+  private async findContact(organizationId: string, fromNumber: string): Promise<Contact | null> {
+    const digits = normalizePhoneNumber(fromNumber);
+
+    if (digits.length < PHONE_MATCH_DIGITS) {
+      return null;
+    }
+
+    const result = await db.queryWithContext(
+      organizationId,
+      `
+        SELECT * FROM nexuscrm.contacts
+        WHERE deleted_at IS NULL
+          AND (
+            right(regexp_replace(mobile, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+            OR right(regexp_replace(phone, '\\D', '', 'g'), ${PHONE_MATCH_DIGITS}) = $1
+          )
+        ORDER BY last_contacted_at DESC NULLS LAST, created_at DESC
+        LIMIT 1
+      `,
+      [digits.slice(-PHONE_MATCH_DIGITS)]
+    );
+
+    return result.rows[0] ? mapContact(result.rows[0]) : null;
+  }
+
+  private toRef(row: any): WhatsAppActivityRef {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      contactId: row.contact_id || undefined,
+      campaignId: row.campaign_id || undefined,
+      deliveryStatus: row.delivery_status || undefined,
+    };
+  }
+}
+
+// Export singleton instance
+export const whatsappEventProcessor = new WhatsAppEventProcessor();
+
+export default whatsappEventProcessor;
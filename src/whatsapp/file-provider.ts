@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { WhatsAppMessage, WhatsAppProvider, WhatsAppSendResult } from './types';
+
+/**
+ * File Sink WhatsApp Provider
+ *
+ * Writes each message as a .json file instead of sending it. The default
+ * when no Cloud API access token is configured, so development never
+ * messages real contacts.
+ */
+export class FileSinkWhatsAppProvider implements WhatsAppProvider {
+  readonly name = 'file' as const;
+
+  constructor(private directory: string = config.communication.whatsappSinkDir) {}
+
+  async send(message: WhatsAppMessage): Promise<WhatsAppSendResult> {
+    const messageId = `wamid.${uuidv4()}`;
+    const file = path.join(this.directory, `${Date.now()}-${messageId}.json`);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ messageId, ...message }, null, 2), 'utf8');
+
+    logger.info('WhatsApp message written to file sink', { file, to: message.to });
+
+    return { messageId, provider: this.name };
+  }
+}
+
+export default FileSinkWhatsAppProvider;
@@ -0,0 +1,38 @@
+/**
+ * WhatsApp Module
+ *
+ * WhatsApp Business messaging for campaigns and one-off sends:
+ * - Provider abstraction over the WhatsApp Cloud API and a file sink
+ * - Approved templates with variables bound from contact merge fields
+ * - Session (24-hour window) text and media messages
+ * - Activity logging for every message, in both directions
+ * - Status updates and incoming messages from provider webhooks
+ *
+ * Components:
+ * - WhatsAppService: Provider selection, template binding, session checks and activity logging
+ * - CloudApiProvider / FileSinkWhatsAppProvider: Delivery backends
+ * - WhatsAppEventProcessor: Applies status updates and incoming messages to activities and campaigns
+ *
+ * The event processor and webhook handlers depend on the campaign engine, which
+ * depends on this module; import them from their files, not from this index.
+ */
+
+export {
+  whatsappService,
+  WhatsAppService,
+  WhatsAppSession,
+  WhatsAppSessionMessageInput,
+  CampaignWhatsAppResult,
+} from './whatsapp-service';
+export { CloudApiProvider } from './cloud-provider';
+export { FileSinkWhatsAppProvider } from './file-provider';
+export {
+  WhatsAppMessage,
+  WhatsAppTemplateMessage,
+  WhatsAppProvider,
+  WhatsAppProviderName,
+  WhatsAppSendResult,
+  WhatsAppDeliveryStatus,
+  WhatsAppStatusEvent,
+  InboundWhatsApp,
+} from './types';
@@ -0,0 +1,75 @@
+import { WhatsAppMedia } from '../types';
+
+/**
+ * WhatsApp Types
+ */
+
+/**
+ * A template with its parameters already bound
+ */
+export interface WhatsAppTemplateMessage {
+  name: string;
+  language: string;
+  bodyParameters: string[];
+  headerMedia?: WhatsAppMedia;
+}
+
+/**
+ * One outgoing message: a template, or a session message carrying text
+ * and/or media (media takes the text as its caption)
+ */
+export interface WhatsAppMessage {
+  to: string;
+  template?: WhatsAppTemplateMessage;
+  text?: string;
+  media?: WhatsAppMedia;
+}
+
+export interface WhatsAppSendResult {
+  messageId: string;
+  provider: WhatsAppProviderName;
+}
+
+export type WhatsAppProviderName = 'cloud' | 'file';
+
+export interface WhatsAppProvider {
+  readonly name: WhatsAppProviderName;
+  send(message: WhatsAppMessage): Promise<WhatsAppSendResult>;
+}
+
+export type WhatsAppDeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+/**
+ * Delivery status of an outbound message
+ */
+export interface WhatsAppStatusEvent {
+  provider: WhatsAppProviderName;
+  messageId: string;
+  status: WhatsAppDeliveryStatus;
+  occurredAt: Date;
+  error?: string;
+}
+
+/**
+ * A message a contact sent to our business number
+ *
+ * Inbound media is referenced by the provider's media ID; the file itself
+ * has to be fetched from the provider with the access token.
+ */
+export interface InboundWhatsApp {
+  provider: WhatsAppProviderName;
+  messageId: string;
+  from: string;
+  to: string;
+  profileName?: string;
+  type: string;
+  text?: string;
+  media?: {
+    id: string;
+    type: string;
+    mimeType?: string;
+    caption?: string;
+    filename?: string;
+  };
+  receivedAt: Date;
+}
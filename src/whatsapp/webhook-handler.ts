@@ -0,0 +1,225 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import config from '../config';
+import { logger } from '../utils/logger';
+import { whatsappEventProcessor } from './event-processor';
+import { InboundWhatsApp, WhatsAppDeliveryStatus, WhatsAppStatusEvent } from './types';
+
+/**
+ * WhatsApp Webhook Handlers
+ *
+ * Receives WhatsApp Cloud API webhooks on /webhooks/whatsapp:
+ * - GET: the subscription handshake, echoing hub.challenge when
+ *   hub.verify_token matches WHATSAPP_VERIFY_TOKEN
+ * - POST: message status updates and incoming messages, signed with the app
+ *   secret in X-Hub-Signature-256
+ *
+ * Events are normalized and handed to the WhatsAppEventProcessor.
+ */
+
+const MEDIA_TYPES = ['image', 'video', 'audio', 'document', 'sticker'];
+
+const CLOUD_STATUSES: Record<string, WhatsAppDeliveryStatus> = {
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  failed: 'failed',
+};
+
+/**
+ * Verify the X-Hub-Signature-256 header (HMAC-SHA256 of the raw body)
+ */
+export function verifyWhatsAppSignature(rawBody: Buffer, signature: string, appSecret: string): boolean {
+  const expected = `sha256=${crypto.createHmac('sha256', appSecret).update(rawBody).digest('hex')}`;
+
+  return (
+    signature.length === expected.length &&
+    crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))
+  );
+}
+
+/**
+ * WhatsApp signature verification middleware
+ */
+export function verifyWhatsAppMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const appSecret = config.communication.whatsappAppSecret;
+
+  if (!appSecret) {
+    logger.warn('WhatsApp app secret not configured - skipping signature verification');
+    return next();
+  }
+
+  const signature = req.headers['x-hub-signature-256'] as string;
+
+  if (!signature) {
+    logger.warn('WhatsApp webhook signature missing');
+    res.status(401).json({ error: 'Signature required' });
+    return;
+  }
+
+  // The signature covers the exact bytes sent, captured before JSON parsing
+  const rawBody: Buffer | undefined = (req as any).rawBody;
+
+  if (!rawBody || !verifyWhatsAppSignature(rawBody, signature, appSecret)) {
+    logger.warn('Invalid WhatsApp webhook signature');
+    res.status(401).json({ error: 'Invalid signature' });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Subscription handshake (GET)
+ */
+export function handleWhatsAppVerification(req: Request, res: Response): void {
+  const verifyToken = config.communication.whatsappVerifyToken;
+
+  if (
+    req.query['hub.mode'] === 'subscribe' &&
+    verifyToken &&
+    req.query['hub.verify_token'] === verifyToken
+  ) {
+    res.status(200).send(String(req.query['hub.challenge'] || ''));
+    return;
+  }
+
+  logger.warn('WhatsApp webhook verification failed');
+  res.status(403).json({ error: 'Verification failed' });
+}
+
+/**
+ * Cloud API webhook handler (POST)
+ */
+export async function handleWhatsAppWebhook(req: Request, res: Response): Promise<void> {
+  const { statuses, messages } = normalizeCloudPayload(req.body || {});
+
+  logger.info('Received WhatsApp webhook', { statuses: statuses.length, messages: messages.length });
+
+  for (const event of statuses) {
+    try {
+      await whatsappEventProcessor.processStatus(event);
+    } catch (error: any) {
+      logger.error('Failed to process WhatsApp status', {
+        error: error.message,
+        messageId: event.messageId,
+      });
+    }
+  }
+
+  for (const message of messages) {
+    try {
+      await whatsappEventProcessor.processInbound(message);
+    } catch (error: any) {
+      logger.error('Failed to process inbound WhatsApp message', {
+        error: error.message,
+        messageId: message.messageId,
+      });
+    }
+  }
+
+  // Always respond 200 to acknowledge receipt
+  res.status(200).json({ received: true });
+}
+
+/**
+ * Flatten a Cloud API payload (entries -> changes -> value) into events
+ */
+export function normalizeCloudPayload(payload: any): {
+  statuses: WhatsAppStatusEvent[];
+  messages: InboundWhatsApp[];
+} {
+  const statuses: WhatsAppStatusEvent[] = [];
+  const messages: InboundWhatsApp[] = [];
+
+  if (payload.object !== 'whatsapp_business_account') {
+    return { statuses, messages };
+  }
+
+  for (const entry of payload.entry || []) {
+    for (const change of entry.changes || []) {
+      if (change.field !== 'messages' || !change.value) {
+        continue;
+      }
+
+      const value = change.value;
+      const businessNumber = value.metadata?.display_phone_number || '';
+      const profiles: Record<string, string> = {};
+
+      for (const contact of value.contacts || []) {
+        profiles[contact.wa_id] = contact.profile?.name;
+      }
+
+      for (const status of value.statuses || []) {
+        const mapped = CLOUD_STATUSES[status.status];
+
+        if (!status.id || !mapped) {
+          continue;
+        }
+
+        statuses.push({
+          provider: 'cloud',
+          messageId: status.id,
+          status: mapped,
+          occurredAt: toDate(status.timestamp),
+          error: status.errors?.[0]?.message || status.errors?.[0]?.title,
+        });
+      }
+
+      for (const message of value.messages || []) {
+        if (!message.id || !message.from) {
+          continue;
+        }
+
+        messages.push({
+          provider: 'cloud',
+          messageId: message.id,
+          from: message.from,
+          to: businessNumber,
+          profileName: profiles[message.from],
+          type: message.type,
+          text: messageText(message),
+          media: MEDIA_TYPES.includes(message.type) && message[message.type]
+            ? {
+                id: message[message.type].id,
+                type: message.type,
+                mimeType: message[message.type].mime_type,
+                caption: message[message.type].caption,
+                filename: message[message.type].filename,
+              }
+            : undefined,
+          receivedAt: toDate(message.timestamp),
+        });
+      }
+    }
+  }
+
+  return { statuses, messages };
+}
+
+/**
+ * Text of a text message, quick-reply button or interactive reply
+ */
+function messageText(message: any): string | undefined {
+  switch (message.type) {
+    case 'text':
+      return message.text?.body;
+    case 'button':
+      return message.button?.text;
+    case 'interactive':
+      return message.interactive?.button_reply?.title || message.interactive?.list_reply?.title;
+    default:
+      return undefined;
+  }
+}
+
+// Cloud API timestamps are Unix seconds as strings
+function toDate(timestamp?: string): Date {
+  return timestamp ? new Date(parseInt(timestamp, 10) * 1000) : new Date();
+}
+
+export default {
+  verifyWhatsAppMiddleware,
+  handleWhatsAppVerification,
+  handleWhatsAppWebhook,
+};
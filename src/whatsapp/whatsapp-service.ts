@@ -0,0 +1,330 @@
+import config from '../config';
+import { db } from '../utils/database';
+import { logger } from '../utils/logger';
+import { mapContact } from '../utils/rows';
+import { activityManager } from '../activities';
+import { buildMergeValues, renderMergeFields } from '../email';
+import { Activity, Campaign, Contact, WhatsAppMedia, WhatsAppTemplateConfig } from '../types';
+import { CloudApiProvider } from './cloud-provider';
+import { FileSinkWhatsAppProvider } from './file-provider';
+import {
+  WhatsAppMessage,
+  WhatsAppProvider,
+  WhatsAppProviderName,
+  WhatsAppSendResult,
+  WhatsAppTemplateMessage,
+} from './types';
+
+/**
+ * WhatsApp Service
+ *
+ * Sends WhatsApp messages through the configured provider:
+ * - Approved templates, with body variables bound from the contact's merge
+ *   fields; templates may be sent at any time
+ * - Session messages (text and media), which WhatsApp only accepts within
+ *   24 hours of the contact's last inbound message
+ * - Records every send as an outbound whatsapp activity keyed by the
+ *   provider's message ID
+ *
+ * Provider selection: WHATSAPP_PROVIDER if set, otherwise the Cloud API when
+ * an access token is configured, then the local file sink.
+ */
+
+const SESSION_WINDOW_HOURS = 24;
+
+export interface WhatsAppSession {
+  open: boolean;
+  expiresAt?: Date;
+}
+
+export interface CampaignWhatsAppResult extends WhatsAppSendResult {
+  activityId?: string;
+}
+
+export interface WhatsAppSessionMessageInput {
+  text?: string;
+  media?: WhatsAppMedia;
+}
+
+export class WhatsAppService {
+  private provider: WhatsAppProvider | null = null;
+
+  /**
+   * Provider used for outgoing messages
+   */
+  getProvider(): WhatsAppProvider {
+    if (!this.provider) {
+      this.provider = this.createProvider(this.resolveProviderName());
+      logger.info('WhatsApp provider selected', { provider: this.provider.name });
+    }
+    return this.provider;
+  }
+
+  /**
+   * Replace the provider (e.g. with a file sink in tests)
+   */
+  setProvider(provider: WhatsAppProvider): void {
+    this.provider = provider;
+  }
+
+  /**
+   * Send a fully bound message
+   */
+  async send(message: WhatsAppMessage): Promise<WhatsAppSendResult> {
+    if (!config.features.enableWhatsapp) {
+      throw new Error('WhatsApp is disabled');
+    }
+
+    return this.getProvider().send(message);
+  }
+
+  /**
+   * The contact's customer service window, opened by their last message
+   */
+  async getSession(organizationId: string, contactId: string): Promise<WhatsAppSession> {
+    const result = await db.queryWithContext<{ lastInboundAt: Date }>(
+      organizationId,
+      `
+        SELECT created_at AS "lastInboundAt"
+        FROM nexuscrm.activities
+        WHERE contact_id = $1 AND type = 'whatsapp' AND direction = 'inbound' AND deleted_at IS NULL
+        ORDER BY created_at DESC
+        LIMIT 1
+      `,
+      [contactId]
+    );
+
+    const lastInboundAt = result.rows[0]?.lastInboundAt;
+
+    if (!lastInboundAt) {
+      return { open: false };
+    }
+
+    const expiresAt = new Date(new Date(lastInboundAt).getTime() + SESSION_WINDOW_HOURS * 60 * 60 * 1000);
+
+    return { open: expiresAt.getTime() > Date.now(), expiresAt };
+  }
+
+  /**
+   * Send a campaign's WhatsApp message to one contact and log it as an activity
+   *
+   * Campaigns with a whatsappTemplate send it; otherwise smsMessage goes out
+   * as a session message, which fails for contacts without an open session.
+   */
+  async sendCampaignMessage(
+    organizationId: string,
+    campaign: Campaign,
+    contact: Contact,
+    campaignJobId?: string
+  ): Promise<CampaignWhatsAppResult> {
+    const toNumber = this.contactNumber(contact);
+    const metadata: Record<string, string> = {
+      campaignId: campaign.id,
+      contactId: contact.id,
+    };
+    if (campaignJobId) {
+      metadata.campaignJobId = campaignJobId;
+    }
+
+    let message: WhatsAppMessage;
+
+    if (campaign.whatsappTemplate) {
+      message = { to: toNumber, template: this.bindTemplate(campaign.whatsappTemplate, contact) };
+    } else {
+      const session = await this.getSession(organizationId, contact.id);
+
+      if (!session.open) {
+        throw new Error('Contact has no open WhatsApp session; the campaign needs a whatsappTemplate');
+      }
+
+      message = {
+        to: toNumber,
+        text: renderMergeFields(campaign.smsMessage || '', buildMergeValues(contact)),
+      };
+    }
+
+    const result = await this.send(message);
+    const activity = await this.logOutbound(
+      organizationId,
+      campaign.createdBy || null,
+      contact,
+      message,
+      result,
+      metadata
+    );
+
+    return { ...result, activityId: activity?.id };
+  }
+
+  /**
+   * Send text and/or media to a contact inside their session window
+   */
+  async sendSessionMessage(
+    organizationId: string,
+    userId: string,
+    contactId: string,
+    input: WhatsAppSessionMessageInput
+  ): Promise<Activity> {
+    if (!input.text?.trim() && !input.media) {
+      throw new Error('Message needs text or media');
+    }
+
+    const contact = await this.getReachableContact(organizationId, contactId);
+    const session = await this.getSession(organizationId, contactId);
+
+    if (!session.open) {
+      throw new Error(
+        `Contact has no open WhatsApp session (last ${SESSION_WINDOW_HOURS} hours); send a template instead`
+      );
+    }
+
+    const message: WhatsAppMessage = {
+      to: this.contactNumber(contact),
+      text: input.text,
+      media: input.media,
+    };
+
+    const result = await this.send(message);
+    return this.requireLogged(
+      await this.logOutbound(organizationId, userId, contact, message, result, { contactId })
+    );
+  }
+
+  /**
+   * Send an approved template to a contact, binding its variables
+   */
+  async sendTemplate(
+    organizationId: string,
+    userId: string,
+    contactId: string,
+    template: WhatsAppTemplateConfig
+  ): Promise<Activity> {
+    const contact = await this.getReachableContact(organizationId, contactId);
+
+    const message: WhatsAppMessage = {
+      to: this.contactNumber(contact),
+      template: this.bindTemplate(template, contact),
+    };
+
+    const result = await this.send(message);
+    return this.requireLogged(
+      await this.logOutbound(organizationId, userId, contact, message, result, { contactId })
+    );
+  }
+
+  /**
+   * Fill a template's variables with the contact's merge fields
+   */
+  private bindTemplate(template: WhatsAppTemplateConfig, contact: Contact): WhatsAppTemplateMessage {
+    const values = buildMergeValues(contact);
+
+    return {
+      name: template.name,
+      language: template.language,
+      // WhatsApp rejects empty parameters; an unset field becomes a dash
+      bodyParameters: (template.variables || []).map(
+        (variable) => renderMergeFields(variable, values).trim() || '-'
+      ),
+      headerMedia: template.headerMedia,
+    };
+  }
+
+  private async getReachableContact(organizationId: string, contactId: string): Promise<Contact> {
+    const result = await db.queryWithContext(
+      organizationId,
+      `SELECT * FROM nexuscrm.contacts WHERE id = $1 AND deleted_at IS NULL`,
+      [contactId]
+    );
+    const contact = result.rows[0] ? mapContact(result.rows[0]) : null;
+
+    if (!contact) {
+      throw new Error('Contact not found');
+    }
+
+    if (contact.unsubscribed) {
+      throw new Error('Contact has unsubscribed');
+    }
+
+    return contact;
+  }
+
+  private contactNumber(contact: Contact): string {
+    const number = contact.mobile || contact.phone;
+
+    if (!number) {
+      throw new Error('Contact has no phone number');
+    }
+
+    return number;
+  }
+
+  private async logOutbound(
+    organizationId: string,
+    userId: string | null,
+    contact: Contact,
+    message: WhatsAppMessage,
+    result: WhatsAppSendResult,
+    metadata: Record<string, string>
+  ): Promise<Activity | undefined> {
+    // The message is already out; a logging failure must not turn this into a failed send
+    try {
+      return await activityManager.logActivity(organizationId, userId, {
+        type: 'whatsapp',
+        direction: 'outbound',
+        subject: message.template ? `Template: ${message.template.name}` : undefined,
+        body: message.template ? message.template.bodyParameters.join('\n') : message.text,
+        contactId: contact.id,
+        companyId: contact.companyId,
+        toNumber: message.to,
+        externalId: result.messageId,
+        metadata: {
+          ...metadata,
+          provider: result.provider,
+          template: message.template,
+          media: message.media,
+          deliveryStatus: 'sent',
+        },
+      });
+    } catch (error: any) {
+      logger.error('Failed to log WhatsApp activity', {
+        error: error.message,
+        contactId: contact.id,
+        messageId: result.messageId,
+      });
+      return undefined;
+    }
+  }
+
+  private requireLogged(activity: Activity | undefined): Activity {
+    if (!activity) {
+      throw new Error('Message sent but could not be logged');
+    }
+    return activity;
+  }
+
+  private resolveProviderName(): WhatsAppProviderName {
+    const { whatsappProvider, whatsappAccessToken } = config.communication;
+
+    if (whatsappProvider) {
+      return whatsappProvider;
+    }
+    if (whatsappAccessToken) {
+      return 'cloud';
+    }
+    return 'file';
+  }
+
+  private createProvider(name: WhatsAppProviderName): WhatsAppProvider {
+    switch (name) {
+      case 'cloud':
+        return new CloudApiProvider();
+      case 'file':
+        return new FileSinkWhatsAppProvider();
+    }
+  }
+}
+
+// Export singleton instance
+export const whatsappService = new WhatsAppService();
+
+export default whatsappService;
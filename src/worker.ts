@@ -0,0 +1,75 @@
+import config from './config';
+import { logger } from './utils/logger';
+import { db } from './utils/database';
+import { jobQueue } from './queue';
+import { registerProcessors } from './queue/processors';
+
+/**
+ * NexusCRM Worker
+ *
+ * Runs background jobs from the shared queue:
+ * - Call transcript analysis
+ * - GraphRAG indexing
+ * - Campaign send batches
+ * - A/B test winner selection when a campaign's test window ends
+ *
+ * Run alongside the API (`npm run worker`); scale by starting more workers.
+ */
+
+async function startWorker() {
+  try {
+    logger.info('Starting NexusCRM worker', {
+      nodeEnv: config.nodeEnv,
+      queueDriver: config.queue.driver,
+    });
+
+    if (config.queue.driver === 'memory') {
+      logger.warn('In-memory queue driver cannot share jobs with the API; set QUEUE_DRIVER=redis');
+    }
+
+    await db.connect();
+    logger.info('Database connected successfully');
+
+    registerProcessors(jobQueue);
+    jobQueue.start();
+
+    // ========================================================================
+    // Graceful Shutdown
+    // ========================================================================
+
+    const gracefulShutdown = async (signal: string) => {
+      logger.info(`Received ${signal}, starting graceful shutdown...`);
+
+      // Let in-flight jobs finish
+      await jobQueue.stop();
+
+      await db.disconnect();
+      logger.info('Database connections closed');
+
+      logger.info('Graceful shutdown complete');
+      process.exit(0);
+    };
+
+    process.on('SIGTERM', () => gracefulShutdown('SIGTERM'));
+    process.on('SIGINT', () => gracefulShutdown('SIGINT'));
+
+    process.on('unhandledRejection', (reason: any) => {
+      logger.error('Unhandled promise rejection', {
+        reason: reason?.message || reason,
+        stack: reason?.stack,
+      });
+      process.exit(1);
+    });
+
+    logger.info('NexusCRM worker started successfully');
+  } catch (error: any) {
+    logger.error('Failed to start NexusCRM worker', {
+      error: error.message,
+      stack: error.stack,
+    });
+    process.exit(1);
+  }
+}
+
+// Start the worker
+startWorker();
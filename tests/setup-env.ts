@@ -0,0 +1,3 @@
+// Settings config.ts requires; unit tests never connect with them
+process.env.POSTGRES_PASSWORD = process.env.POSTGRES_PASSWORD || 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test';
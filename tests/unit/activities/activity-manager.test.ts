@@ -0,0 +1,149 @@
+import { db } from '../../../src/utils/database';
+import { broadcastInboxMessage } from '../../../src/websocket/manager';
+import { ActivityManager } from '../../../src/activities/activity-manager';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { queryWithContext: jest.fn(), transaction: jest.fn(), setOrganizationContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/websocket/manager', () => ({
+  broadcastInboxMessage: jest.fn(),
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const USER_ID = '00000000-0000-0000-0000-0000000000b1';
+const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+
+/**
+ * Run transactions against a client that stores inserted activities and
+ * returns them as pg does, keyed by column name
+ */
+function mockTransaction() {
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      const insert = /INSERT INTO nexuscrm\.activities \(([^)]+)\)/.exec(sql);
+      if (!insert) {
+        return { rows: [], rowCount: 1 };
+      }
+
+      const row: Record<string, any> = { id: 'activity-1', created_at: new Date() };
+      insert[1].split(', ').forEach((column, index) => {
+        row[column] = params[index];
+      });
+      return { rows: [row], rowCount: 1 };
+    }),
+  };
+
+  (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+
+  return client;
+}
+
+describe('ActivityManager', () => {
+  let manager: ActivityManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new ActivityManager();
+  });
+
+  describe('logActivity', () => {
+    it('returns the stored activity under its field names', async () => {
+      mockTransaction();
+
+      const activity = await manager.logActivity(ORGANIZATION_ID, USER_ID, {
+        type: 'note',
+        body: 'Asked for a follow-up in March',
+        contactId: CONTACT_ID,
+      });
+
+      expect(activity).toMatchObject({
+        id: 'activity-1',
+        type: 'note',
+        direction: 'internal',
+        contactId: CONTACT_ID,
+        createdBy: USER_ID,
+        organizationId: ORGANIZATION_ID,
+      });
+    });
+
+    it('defaults tasks to pending and records the contact touch for calls', async () => {
+      const client = mockTransaction();
+
+      const task = await manager.logActivity(ORGANIZATION_ID, USER_ID, {
+        type: 'task',
+        subject: 'Send pricing',
+        contactId: CONTACT_ID,
+        taskDueDate: new Date('2026-11-01'),
+        taskPriority: 'high',
+      });
+      expect(task.taskStatus).toBe('pending');
+      expect(client.query).toHaveBeenCalledTimes(1);
+
+      await manager.logActivity(ORGANIZATION_ID, USER_ID, {
+        type: 'call',
+        contactId: CONTACT_ID,
+        toNumber: '+15550100001',
+      });
+      expect(client.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('SET last_contacted_at = CURRENT_TIMESTAMP'),
+        [CONTACT_ID]
+      );
+    });
+
+    it('pushes inbound messages to the inbox', async () => {
+      mockTransaction();
+
+      const activity = await manager.logActivity(ORGANIZATION_ID, null, {
+        type: 'sms',
+        direction: 'inbound',
+        body: 'Yes, call me tomorrow',
+        contactId: CONTACT_ID,
+        fromNumber: '+15550100001',
+      });
+
+      expect(broadcastInboxMessage).toHaveBeenCalledWith(ORGANIZATION_ID, activity);
+    });
+
+    it.each([
+      ['Activity must be linked to a contact, company or deal', { type: 'note', body: 'Orphan' }],
+      ['Task requires taskDueDate', { type: 'task', contactId: CONTACT_ID, taskPriority: 'low' }],
+      [
+        'Meeting end time must be after start time',
+        {
+          type: 'meeting',
+          contactId: CONTACT_ID,
+          meetingStartTime: new Date('2026-11-01T10:00:00Z'),
+          meetingEndTime: new Date('2026-11-01T09:00:00Z'),
+        },
+      ],
+      [
+        'Invalid email address: nope',
+        { type: 'email', contactId: CONTACT_ID, fromEmail: 'rep@example.com', toEmails: ['nope'] },
+      ],
+      [
+        'whatsapp activity requires fromNumber or toNumber',
+        { type: 'whatsapp', contactId: CONTACT_ID, body: 'Hi' },
+      ],
+    ])('rejects invalid input: %s', async (message, input) => {
+      await expect(manager.logActivity(ORGANIZATION_ID, USER_ID, input as any)).rejects.toThrow(
+        message
+      );
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeTask', () => {
+    it('fails when no open task matches', async () => {
+      (db.queryWithContext as jest.Mock).mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(manager.completeTask(ORGANIZATION_ID, 'activity-1')).rejects.toThrow(
+        'Task not found'
+      );
+    });
+  });
+});
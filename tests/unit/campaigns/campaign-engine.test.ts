@@ -0,0 +1,273 @@
+import { db } from '../../../src/utils/database';
+import { callManager } from '../../../src/voice/call-manager';
+import { emailService } from '../../../src/email';
+import { whatsappService } from '../../../src/whatsapp';
+import { jobQueue } from '../../../src/queue';
+import { CampaignEngine } from '../../../src/campaigns/campaign-engine';
+import { sequenceRunner } from '../../../src/campaigns/sequence-runner';
+import {
+  ORGANIZATION_ID,
+  CAMPAIGN_ID,
+  CONTACT_ID,
+  CREATOR_ID,
+  campaignRow,
+  claimedJob,
+  mockCampaignDatabase,
+} from '../helpers/campaigns';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: {
+    queryWithContext: jest.fn(),
+    transaction: jest.fn(),
+    setOrganizationContext: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/clients', () => ({
+  orchestrationClient: { execute: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/call-manager', () => ({
+  callManager: { makeCall: jest.fn() },
+}));
+
+jest.mock('../../../src/email', () => ({
+  ...jest.requireActual('../../../src/email/template'),
+  emailService: { sendCampaignEmail: jest.fn() },
+}));
+
+jest.mock('../../../src/sms', () => ({
+  smsService: { sendCampaignSms: jest.fn() },
+}));
+
+jest.mock('../../../src/whatsapp', () => ({
+  whatsappService: { sendCampaignMessage: jest.fn() },
+}));
+
+jest.mock('../../../src/segments', () => ({
+  segmentManager: {},
+}));
+
+jest.mock('../../../src/queue', () => ({
+  jobQueue: { add: jest.fn() },
+  QUEUES: { CAMPAIGN_RUN: 'campaign-run' },
+}));
+
+jest.mock('../../../src/websocket/manager', () => ({
+  broadcastCampaignProgress: jest.fn(),
+}));
+
+jest.mock('../../../src/campaigns/sequence-runner', () => ({
+  sequenceRunner: { runDue: jest.fn() },
+  REPLY_TYPES: [],
+}));
+
+describe('CampaignEngine', () => {
+  let engine: CampaignEngine;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (callManager.makeCall as jest.Mock).mockResolvedValue({ externalCallId: 'call-1' });
+    engine = new CampaignEngine();
+  });
+
+  describe('voice campaigns', () => {
+    it("leaves the campaign's voicemail, personalized for the contact", async () => {
+      mockCampaignDatabase(
+        campaignRow({ voicemail_config: { action: 'message', message: 'Hi {{firstName}}, call us back.' } }),
+        [claimedJob()]
+      );
+
+      await engine.executeBatch(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(callManager.makeCall).toHaveBeenCalledWith(
+        expect.objectContaining({
+          contactId: CONTACT_ID,
+          toNumber: '+15550100001',
+          script: 'You are calling about the spring offer.',
+          voicemail: { action: 'message', message: 'Hi Sam, call us back.' },
+        }),
+        ORGANIZATION_ID,
+        CREATOR_ID
+      );
+    });
+
+    it('queues the next batch while jobs remain', async () => {
+      mockCampaignDatabase(campaignRow(), [claimedJob()]);
+
+      await engine.executeBatch(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(jobQueue.add).toHaveBeenCalledWith('campaign-run', {
+        organizationId: ORGANIZATION_ID,
+        campaignId: CAMPAIGN_ID,
+      });
+    });
+  });
+
+  describe('campaign variants', () => {
+    it('sends each job the content of its variant', async () => {
+      (emailService.sendCampaignEmail as jest.Mock).mockResolvedValue({ messageId: 'message-1' });
+
+      mockCampaignDatabase(
+        campaignRow({
+          type: 'email-drip',
+          voice_script: null,
+          email_subject: 'Spring offer',
+          email_body_text: 'Hi {{firstName}}, spring prices are here.',
+          variants: [
+            { id: 'a', name: 'Short subject', emailSubject: 'Spring' },
+            { id: 'b', name: 'Question', emailSubject: 'Ready for spring?', emailBodyText: 'Hi {{firstName}}?' },
+          ],
+          ab_test_config: { testPercent: 20, testWindowHours: 4, winnerMetric: 'open_rate' },
+        }),
+        [
+          claimedJob({ id: 'job-a', channel: 'email', variantId: 'a' }),
+          claimedJob({ id: 'job-b', channel: 'email', variantId: 'b' }),
+          claimedJob({ id: 'job-base', channel: 'email' }),
+        ]
+      );
+
+      await engine.executeBatch(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      const sent = Object.fromEntries(
+        (emailService.sendCampaignEmail as jest.Mock).mock.calls.map(([, campaign, , jobId]) => [
+          jobId,
+          { subject: campaign.emailSubject, body: campaign.emailBodyText },
+        ])
+      );
+
+      expect(sent).toEqual({
+        'job-a': { subject: 'Spring', body: 'Hi {{firstName}}, spring prices are here.' },
+        'job-b': { subject: 'Ready for spring?', body: 'Hi {{firstName}}?' },
+        'job-base': { subject: 'Spring offer', body: 'Hi {{firstName}}, spring prices are here.' },
+      });
+    });
+  });
+
+  describe('WhatsApp campaigns', () => {
+    it("sends the campaign's approved template", async () => {
+      const template = { name: 'spring_offer', language: 'en_US', variables: ['{{firstName}}'] };
+      (whatsappService.sendCampaignMessage as jest.Mock).mockResolvedValue({ messageId: 'wamid-1' });
+
+      mockCampaignDatabase(
+        campaignRow({ type: 'whatsapp-campaign', voice_script: null, whatsapp_template: template }),
+        [claimedJob({ channel: 'whatsapp' })]
+      );
+
+      await engine.executeBatch(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(whatsappService.sendCampaignMessage).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.objectContaining({ id: CAMPAIGN_ID, whatsappTemplate: template }),
+        expect.objectContaining({ id: CONTACT_ID, firstName: 'Sam', mobile: '+15550100001' }),
+        'job-1'
+      );
+    });
+  });
+
+  describe('sequence campaigns', () => {
+    it("steps the sequence stored in the campaign's workflow config", async () => {
+      const sequence = {
+        steps: [
+          { id: 'intro', type: 'sms', smsMessage: 'Hi {{firstName}}' },
+          { id: 'pause', type: 'wait', days: 2 },
+          { id: 'follow-up', type: 'email', emailSubject: 'Following up', emailBodyText: 'Any thoughts?' },
+        ],
+      };
+      (sequenceRunner.runDue as jest.Mock).mockResolvedValue({ processed: 1, nextRunAt: null });
+
+      mockCampaignDatabase(campaignRow({ type: 'multi-channel', voice_script: null, workflow_config: { sequence } }), []);
+
+      await engine.executeBatch(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(sequenceRunner.runDue).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.objectContaining({ id: CAMPAIGN_ID, type: 'multi-channel' }),
+        sequence
+      );
+      expect(jobQueue.add).toHaveBeenCalledWith('campaign-run', {
+        organizationId: ORGANIZATION_ID,
+        campaignId: CAMPAIGN_ID,
+      });
+    });
+  });
+
+  describe('power dialer', () => {
+    it("claims jobs for the dialer's free lines and dials them", async () => {
+      const client = mockCampaignDatabase(campaignRow({ dialer_config: { lines: 2 } }), [
+        claimedJob({ id: 'job-1' }),
+        claimedJob({ id: 'job-2' }),
+      ]);
+
+      await engine.executeBatch(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(client.query).toHaveBeenCalledWith(expect.stringContaining('FOR UPDATE SKIP LOCKED'), [
+        CAMPAIGN_ID,
+        2,
+        expect.any(Number),
+      ]);
+      expect(callManager.makeCall).toHaveBeenCalledTimes(2);
+    });
+
+    it('stops dialing once the budget is spent', async () => {
+      const client = mockCampaignDatabase(
+        campaignRow({ dialer_config: { lines: 2, budgetUsd: 10 } }),
+        [claimedJob()],
+        '10.50'
+      );
+
+      await engine.executeBatch(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(client.query).not.toHaveBeenCalled();
+      expect(callManager.makeCall).not.toHaveBeenCalled();
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining("SET status = 'paused'"),
+        [CAMPAIGN_ID]
+      );
+    });
+  });
+
+  describe('scheduled launch', () => {
+    const SEGMENT_ID = '00000000-0000-0000-0000-0000000000d1';
+    const scheduled = (offsetMs: number, overrides: Record<string, any> = {}) =>
+      campaignRow({
+        status: 'scheduled',
+        scheduled_at: new Date(Date.now() + offsetMs),
+        target_segment_id: SEGMENT_ID,
+        ...overrides,
+      });
+
+    let launch: jest.SpyInstance;
+
+    beforeEach(() => {
+      launch = jest.spyOn(engine, 'launch').mockResolvedValue({
+        campaignId: CAMPAIGN_ID,
+        jobsCreated: 0,
+        jobs: [],
+      });
+    });
+
+    it('launches a due campaign against its target segment', async () => {
+      mockCampaignDatabase(scheduled(-1000), []);
+
+      await engine.launchScheduled(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(launch).toHaveBeenCalledWith(ORGANIZATION_ID, CAMPAIGN_ID, SEGMENT_ID);
+    });
+
+    it('ignores a launch job left over from an earlier schedule', async () => {
+      mockCampaignDatabase(scheduled(60 * 60 * 1000), []);
+      await engine.launchScheduled(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      mockCampaignDatabase(scheduled(-1000, { status: 'active' }), []);
+      await engine.launchScheduled(ORGANIZATION_ID, CAMPAIGN_ID);
+
+      expect(launch).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { db } from '../../../src/utils/database';
+import { jobQueue } from '../../../src/queue';
+import { CampaignManager } from '../../../src/campaigns/campaign-manager';
+import { ORGANIZATION_ID, CAMPAIGN_ID, campaignRow } from '../helpers/campaigns';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/queue', () => ({
+  jobQueue: { add: jest.fn() },
+  QUEUES: { CAMPAIGN_LAUNCH: 'campaign-launch' },
+}));
+
+const SEGMENT_ID = '00000000-0000-0000-0000-0000000000d1';
+
+// A draft email campaign aimed at a segment
+function draftCampaign(overrides: Record<string, any> = {}): Record<string, any> {
+  return campaignRow({
+    name: 'November newsletter',
+    type: 'email-drip',
+    status: 'draft',
+    voice_script: null,
+    target_segment_id: SEGMENT_ID,
+    email_subject: 'What is new in November',
+    email_body_html: '<p>Hello {{firstName}}</p>',
+    ...overrides,
+  });
+}
+
+/**
+ * Serve one campaign, applying the schedule update to it
+ */
+function mockDatabase(campaign: Record<string, any>) {
+  (db.queryWithContext as jest.Mock).mockImplementation(
+    async (_organizationId: string, sql: string, params: any[] = []) => {
+      if (sql.includes("SET status = 'scheduled'")) {
+        return {
+          rows: [{ ...campaign, status: 'scheduled', scheduled_at: params[0] }],
+          rowCount: 1,
+        };
+      }
+      return { rows: [campaign], rowCount: 1 };
+    }
+  );
+}
+
+describe('CampaignManager', () => {
+  let manager: CampaignManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new CampaignManager();
+  });
+
+  describe('scheduleCampaign', () => {
+    const scheduledAt = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+    it('queues the launch for the scheduled time', async () => {
+      mockDatabase(draftCampaign());
+      const launchAt = scheduledAt();
+
+      const campaign = await manager.scheduleCampaign(ORGANIZATION_ID, CAMPAIGN_ID, launchAt);
+
+      expect(campaign.status).toBe('scheduled');
+      expect(campaign.scheduledAt).toBe(launchAt);
+      expect(jobQueue.add).toHaveBeenCalledWith(
+        'campaign-launch',
+        { organizationId: ORGANIZATION_ID, campaignId: CAMPAIGN_ID },
+        { runAt: launchAt }
+      );
+    });
+
+    it('requires a target segment to launch against', async () => {
+      mockDatabase(draftCampaign({ target_segment_id: null }));
+
+      await expect(
+        manager.scheduleCampaign(ORGANIZATION_ID, CAMPAIGN_ID, scheduledAt())
+      ).rejects.toThrow('Scheduled campaign requires targetSegmentId');
+      expect(jobQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('rejects a time in the past', async () => {
+      mockDatabase(draftCampaign());
+
+      await expect(
+        manager.scheduleCampaign(ORGANIZATION_ID, CAMPAIGN_ID, new Date(Date.now() - 1000))
+      ).rejects.toThrow('scheduledAt must be in the future');
+      expect(jobQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('does not schedule a campaign that is already running', async () => {
+      mockDatabase(draftCampaign({ status: 'active' }));
+
+      await expect(
+        manager.scheduleCampaign(ORGANIZATION_ID, CAMPAIGN_ID, scheduledAt())
+      ).rejects.toThrow('Campaign is active; only draft and scheduled campaigns can be edited');
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { db } from '../../../src/utils/database';
+import { emailService } from '../../../src/email';
+import { SequenceRunner } from '../../../src/campaigns/sequence-runner';
+import { Campaign, SequenceDefinition } from '../../../src/types';
+import { ORGANIZATION_ID, CAMPAIGN_ID, CONTACT_ID, CONTACT_ROW } from '../helpers/campaigns';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: {
+    queryWithContext: jest.fn(),
+    transaction: jest.fn(),
+    setOrganizationContext: jest.fn(),
+  },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/activities', () => ({
+  activityManager: { logActivity: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/call-manager', () => ({
+  callManager: { makeCall: jest.fn() },
+}));
+
+jest.mock('../../../src/email', () => ({
+  ...jest.requireActual('../../../src/email/template'),
+  emailService: { sendCampaignEmail: jest.fn() },
+}));
+
+jest.mock('../../../src/sms', () => ({
+  smsService: { sendCampaignSms: jest.fn() },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CAMPAIGN = {
+  id: CAMPAIGN_ID,
+  name: 'Spring drip',
+  type: 'email-drip',
+  status: 'active',
+  organizationId: ORGANIZATION_ID,
+} as Campaign;
+
+const SEQUENCE: SequenceDefinition = {
+  steps: [
+    { id: 'intro', type: 'email', emailSubject: 'Spring offer', emailBodyText: 'Hi {{firstName}}' },
+    { id: 'pause', type: 'wait', days: 2 },
+    { id: 'follow-up', type: 'email', emailSubject: 'Following up', emailBodyText: 'Any thoughts?' },
+  ],
+};
+
+// An enrollment past its wait, as the claim query returns it
+const ENROLLMENT = {
+  id: 'enrollment-1',
+  campaignId: CAMPAIGN_ID,
+  contactId: CONTACT_ID,
+  status: 'active',
+  currentStepId: 'follow-up',
+  history: [],
+  organizationId: ORGANIZATION_ID,
+  startedAt: new Date(Date.now() - 3 * DAY_MS),
+};
+
+/**
+ * Serve one due enrollment and answer the contact state query from the
+ * contact's activities; returns the client enrollment updates go through
+ */
+function mockDatabase(activities: Array<{ type: string; direction: string; createdAt: Date }>) {
+  const client = { query: jest.fn(async () => ({ rows: [], rowCount: 1 })) };
+
+  (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+
+  (db.queryWithContext as jest.Mock).mockImplementation(
+    async (_organizationId: string, sql: string, params: any[] = []) => {
+      if (sql.includes('FOR UPDATE SKIP LOCKED')) {
+        return { rows: [ENROLLMENT], rowCount: 1 };
+      }
+      if (sql.includes('AS replied')) {
+        const [, since, replyTypes] = params;
+        const replied = activities.some(
+          (activity) =>
+            activity.direction === 'inbound' &&
+            replyTypes.includes(activity.type) &&
+            activity.createdAt > since
+        );
+        return {
+          rows: [{ unsubscribed: false, replied, converted: false, emailBlocked: false }],
+          rowCount: 1,
+        };
+      }
+      if (sql.includes('FROM nexuscrm.contacts')) {
+        return { rows: [CONTACT_ROW], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    }
+  );
+
+  return client;
+}
+
+describe('SequenceRunner', () => {
+  let runner: SequenceRunner;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    runner = new SequenceRunner();
+    (emailService.sendCampaignEmail as jest.Mock).mockResolvedValue({
+      messageId: 'message-2',
+      activityId: 'activity-2',
+    });
+  });
+
+  it('ends an email drip for a contact who replied by email', async () => {
+    const client = mockDatabase([
+      { type: 'email', direction: 'outbound', createdAt: new Date(Date.now() - 3 * DAY_MS) },
+      { type: 'email', direction: 'inbound', createdAt: new Date(Date.now() - DAY_MS) },
+    ]);
+
+    await runner.runDue(ORGANIZATION_ID, CAMPAIGN, SEQUENCE);
+
+    expect(emailService.sendCampaignEmail).not.toHaveBeenCalled();
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('UPDATE nexuscrm.sequence_enrollments'),
+      ['enrollment-1', 'exited', null, null, '[]', 'replied', null]
+    );
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('replied_count = replied_count + $4'),
+      [CAMPAIGN_ID, 0, 0, 1, 0]
+    );
+  });
+
+  it('keeps sending while the contact has not answered', async () => {
+    const client = mockDatabase([
+      { type: 'email', direction: 'outbound', createdAt: new Date(Date.now() - 3 * DAY_MS) },
+    ]);
+
+    await runner.runDue(ORGANIZATION_ID, CAMPAIGN, SEQUENCE);
+
+    expect(emailService.sendCampaignEmail).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      expect.objectContaining({ emailSubject: 'Following up' }),
+      expect.objectContaining({ id: CONTACT_ID })
+    );
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('UPDATE nexuscrm.sequence_enrollments'),
+      expect.arrayContaining(['enrollment-1', 'completed'])
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { db } from '../../../src/utils/database';
+import { activityManager } from '../../../src/activities';
+import { EmailEventProcessor } from '../../../src/email/event-processor';
+import { InboundEmail } from '../../../src/email/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/websocket/manager', () => ({
+  broadcastInboxMessage: jest.fn(),
+}));
+
+jest.mock('../../../src/activities', () => ({
+  ...jest.requireActual('../../../src/activities'),
+  activityManager: { logActivity: jest.fn() },
+}));
+
+jest.mock('../../../src/campaigns/campaign-engine', () => ({
+  campaignEngine: { recordDelivery: jest.fn() },
+}));
+
+jest.mock('../../../src/email/email-service', () => ({
+  emailService: { markUnsubscribed: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+const CAMPAIGN_ID = '00000000-0000-0000-0000-0000000000c1';
+const OWNER_ID = '00000000-0000-0000-0000-0000000000b1';
+
+// The campaign email a reply answers, as the thread lookup selects it
+const OUTBOUND_ROW = {
+  id: 'activity-out',
+  organization_id: ORGANIZATION_ID,
+  contact_id: CONTACT_ID,
+  campaign_id: CAMPAIGN_ID,
+};
+
+const CONTACT_ROW = {
+  id: CONTACT_ID,
+  first_name: 'Sam',
+  email: 'sam@example.com',
+  owner_id: OWNER_ID,
+  organization_id: ORGANIZATION_ID,
+};
+
+const MESSAGE: InboundEmail = {
+  provider: 'sendgrid',
+  messageId: 'reply-1@mail.example.com',
+  from: { email: 'sam@example.com', name: 'Sam Rivera' },
+  to: ['sales@crm.example.com'],
+  subject: 'Re: Spring offer',
+  text: 'Interested, can we talk Tuesday?',
+  references: ['spring-1@nexuscrm'],
+  receivedAt: new Date(),
+};
+
+/**
+ * Serve the thread lookup and the sender's contact
+ */
+function mockDatabase(
+  options: { outbound?: Record<string, any>; existingReply?: Record<string, any> } = {}
+) {
+  (db.query as jest.Mock).mockResolvedValue({
+    rows: options.outbound ? [options.outbound] : [],
+    rowCount: options.outbound ? 1 : 0,
+  });
+
+  (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId: string, sql: string) => {
+    if (sql.includes('FROM nexuscrm.activities WHERE external_id')) {
+      const rows = options.existingReply ? [options.existingReply] : [];
+      return { rows, rowCount: rows.length };
+    }
+    if (sql.includes('FROM nexuscrm.contacts')) {
+      return { rows: [CONTACT_ROW], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+}
+
+describe('EmailEventProcessor.processInbound', () => {
+  let processor: EmailEventProcessor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    processor = new EmailEventProcessor();
+    (activityManager.logActivity as jest.Mock).mockImplementation(async (_organizationId, _userId, input) => ({
+      id: 'activity-in',
+      ...input,
+    }));
+  });
+
+  it('logs a reply on the contact of the email it answers', async () => {
+    mockDatabase({ outbound: OUTBOUND_ROW });
+
+    const activity = await processor.processInbound(MESSAGE);
+
+    expect(activity?.id).toBe('activity-in');
+    expect(db.query).toHaveBeenCalledWith(expect.stringContaining('external_id = ANY($1)'), [
+      ['spring-1@nexuscrm'],
+      'sam@example.com',
+    ]);
+    expect(activityManager.logActivity).toHaveBeenCalledWith(ORGANIZATION_ID, OWNER_ID, {
+      type: 'email',
+      direction: 'inbound',
+      subject: 'Re: Spring offer',
+      body: 'Interested, can we talk Tuesday?',
+      contactId: CONTACT_ID,
+      companyId: undefined,
+      fromEmail: 'sam@example.com',
+      toEmails: ['sales@crm.example.com'],
+      externalId: 'reply-1@mail.example.com',
+      metadata: { provider: 'sendgrid', inReplyTo: 'activity-out', campaignId: CAMPAIGN_ID },
+    });
+  });
+
+  it('finds the contact by address when the email we sent had none', async () => {
+    mockDatabase({ outbound: { ...OUTBOUND_ROW, contact_id: null } });
+
+    await processor.processInbound({ ...MESSAGE, from: { email: 'Sam@Example.com' } });
+
+    expect(db.queryWithContext).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      expect.stringContaining('lower(email) = $1'),
+      ['sam@example.com']
+    );
+    expect(activityManager.logActivity).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      OWNER_ID,
+      expect.objectContaining({ contactId: CONTACT_ID })
+    );
+  });
+
+  it('answers a retried delivery with the reply already logged', async () => {
+    mockDatabase({
+      outbound: OUTBOUND_ROW,
+      existingReply: { id: 'activity-in', type: 'email', direction: 'inbound', contact_id: CONTACT_ID },
+    });
+
+    const activity = await processor.processInbound(MESSAGE);
+
+    expect(activity).toMatchObject({ id: 'activity-in', contactId: CONTACT_ID });
+    expect(activityManager.logActivity).not.toHaveBeenCalled();
+  });
+
+  it('drops email that answers nothing we sent', async () => {
+    mockDatabase();
+
+    await expect(processor.processInbound(MESSAGE)).resolves.toBeNull();
+    expect(db.queryWithContext).not.toHaveBeenCalled();
+    expect(activityManager.logActivity).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,52 @@
+import { buildMergeValues, renderMergeFields } from '../../../src/email/template';
+import { Contact } from '../../../src/types';
+
+function contact(overrides: Partial<Contact> = {}): Contact {
+  const fields: Partial<Contact> = {
+    id: '00000000-0000-0000-0000-0000000000a1',
+    firstName: 'Sam',
+    lastName: 'Rivera',
+    email: 'sam@example.com',
+    jobTitle: 'VP Sales',
+    customFields: { plan: 'Growth', seats: 0 },
+  };
+  return { ...fields, ...overrides } as Contact;
+}
+
+describe('renderMergeFields', () => {
+  const values = buildMergeValues(contact(), { campaignName: 'Spring outreach' });
+
+  it('fills contact, custom and extra fields', () => {
+    expect(
+      renderMergeFields(
+        'Hi {{ firstName }}, your {{customFields.plan}} plan has {{customFields.seats}} seats ({{campaignName}})',
+        values
+      )
+    ).toBe('Hi Sam, your Growth plan has 0 seats (Spring outreach)');
+  });
+
+  it('derives the full name when the contact has none', () => {
+    expect(renderMergeFields('{{fullName}}', values)).toBe('Sam Rivera');
+  });
+
+  it('uses the fallback for unknown or empty fields', () => {
+    const anonymous = buildMergeValues(contact({ firstName: '' }));
+
+    expect(renderMergeFields('Hi {{firstName | there}}', anonymous)).toBe('Hi there');
+    expect(renderMergeFields('{{customFields.region|your area}}', anonymous)).toBe('your area');
+    expect(renderMergeFields('[{{nickname}}]', anonymous)).toBe('[]');
+  });
+
+  it('escapes values for HTML bodies only when asked', () => {
+    const html = buildMergeValues(contact({ lastName: '<b>Rivera</b> & Co' }));
+
+    expect(renderMergeFields('<p>{{lastName}}</p>', html, { escapeHtml: true })).toBe(
+      '<p>&lt;b&gt;Rivera&lt;/b&gt; &amp; Co</p>'
+    );
+    expect(renderMergeFields('{{lastName}}', html)).toBe('<b>Rivera</b> & Co');
+  });
+
+  it('leaves text without placeholders untouched', () => {
+    expect(renderMergeFields('No fields {here}', values)).toBe('No fields {here}');
+  });
+});
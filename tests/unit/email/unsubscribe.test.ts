@@ -0,0 +1,97 @@
+import { Request } from 'express';
+import { emailService } from '../../../src/email/email-service';
+import {
+  buildUnsubscribeUrl,
+  createUnsubscribeToken,
+  handleUnsubscribe,
+  showUnsubscribePage,
+  verifyUnsubscribeToken,
+} from '../../../src/email/unsubscribe';
+import { mockResponse } from '../helpers/express';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/email/email-service', () => ({
+  emailService: { markUnsubscribed: jest.fn() },
+}));
+
+const PAYLOAD = {
+  organizationId: '00000000-0000-0000-0000-000000000001',
+  contactId: '00000000-0000-0000-0000-0000000000a1',
+  campaignId: '00000000-0000-0000-0000-0000000000c1',
+};
+
+describe('unsubscribe tokens', () => {
+  it('round-trips the contact and campaign', () => {
+    expect(verifyUnsubscribeToken(createUnsubscribeToken(PAYLOAD))).toEqual(PAYLOAD);
+  });
+
+  it('leaves the campaign out when there is none', () => {
+    const token = createUnsubscribeToken({ ...PAYLOAD, campaignId: undefined });
+
+    expect(verifyUnsubscribeToken(token)).toEqual({ ...PAYLOAD, campaignId: undefined });
+  });
+
+  it('rejects a token whose contact was swapped', () => {
+    const [, signature] = createUnsubscribeToken(PAYLOAD).split('.');
+    const forged = Buffer.from(
+      [PAYLOAD.organizationId, '00000000-0000-0000-0000-0000000000a2', PAYLOAD.campaignId].join('.')
+    ).toString('base64url');
+
+    expect(verifyUnsubscribeToken(`${forged}.${signature}`)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(verifyUnsubscribeToken('')).toBeNull();
+    expect(verifyUnsubscribeToken('not-a-token')).toBeNull();
+    expect(verifyUnsubscribeToken(`${createUnsubscribeToken(PAYLOAD)}x`)).toBeNull();
+  });
+
+  it('links to the unsubscribe page with a token', () => {
+    const url = new URL(buildUnsubscribeUrl(PAYLOAD));
+
+    expect(verifyUnsubscribeToken(url.searchParams.get('token') as string)).toEqual(PAYLOAD);
+  });
+});
+
+describe('unsubscribe handlers', () => {
+  const request = (token: string) => ({ query: { token }, body: {} }) as unknown as Request;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('only confirms on GET, so link scanners cannot unsubscribe anyone', async () => {
+    const res = mockResponse();
+
+    await showUnsubscribePage(request(createUnsubscribeToken(PAYLOAD)), res);
+
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(res.send).toHaveBeenCalledWith(expect.stringContaining('<form method="POST"'));
+    expect(emailService.markUnsubscribed).not.toHaveBeenCalled();
+  });
+
+  it('unsubscribes the contact on POST', async () => {
+    const res = mockResponse();
+
+    await handleUnsubscribe(request(createUnsubscribeToken(PAYLOAD)), res);
+
+    expect(emailService.markUnsubscribed).toHaveBeenCalledWith(
+      PAYLOAD.organizationId,
+      PAYLOAD.contactId,
+      PAYLOAD.campaignId
+    );
+    expect(res.status).toHaveBeenCalledWith(200);
+  });
+
+  it('refuses an invalid token', async () => {
+    const res = mockResponse();
+
+    await handleUnsubscribe(request('forged.token'), res);
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(emailService.markUnsubscribed).not.toHaveBeenCalled();
+  });
+});
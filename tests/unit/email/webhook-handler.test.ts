@@ -0,0 +1,299 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { Request } from 'express';
+import config from '../../../src/config';
+import {
+  verifySendGridMiddleware,
+  verifySesMiddleware,
+  verifySendGridInboundMiddleware,
+  handleSendGridInboundParse,
+} from '../../../src/email/webhook-handler';
+import { emailEventProcessor } from '../../../src/email/event-processor';
+import { mockResponse } from '../helpers/express';
+
+jest.mock('axios');
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/email/event-processor', () => ({
+  emailEventProcessor: { processEvent: jest.fn(), processInbound: jest.fn() },
+}));
+
+describe('verifySendGridMiddleware', () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const body = Buffer.from(JSON.stringify([{ event: 'delivered', email: 'sam@example.com' }]));
+  const timestamp = '1760000000';
+
+  const sign = (payload: Buffer) =>
+    crypto
+      .sign('sha256', Buffer.concat([Buffer.from(timestamp), payload]), privateKey)
+      .toString('base64');
+
+  const request = (signature: string | undefined, rawBody: Buffer = body) =>
+    ({
+      headers: {
+        'x-twilio-email-event-webhook-signature': signature,
+        'x-twilio-email-event-webhook-timestamp': timestamp,
+      },
+      rawBody,
+    }) as unknown as Request;
+
+  beforeEach(() => {
+    config.communication.sendgridWebhookPublicKey = publicKey
+      .export({ format: 'der', type: 'spki' })
+      .toString('base64');
+  });
+
+  afterAll(() => {
+    config.communication.sendgridWebhookPublicKey = '';
+  });
+
+  it('accepts events signed with the configured key', () => {
+    const next = jest.fn();
+
+    verifySendGridMiddleware(request(sign(body)), mockResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('rejects a body that was changed after signing', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+    const tampered = Buffer.from(JSON.stringify([{ event: 'bounce', email: 'sam@example.com' }]));
+
+    verifySendGridMiddleware(request(sign(body), tampered), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects unsigned requests', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifySendGridMiddleware(request(undefined), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe('verifySesMiddleware', () => {
+  const TOPIC_ARN = 'arn:aws:sns:us-east-1:123456789012:ses-events';
+  const CERT_URL = 'https://sns.us-east-1.amazonaws.com/SimpleNotificationService-abc.pem';
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  // A SignatureVersion 2 notification signed over the SNS notification fields
+  function notification(overrides: Record<string, any> = {}): Record<string, any> {
+    const message: Record<string, any> = {
+      Type: 'Notification',
+      MessageId: 'message-1',
+      TopicArn: TOPIC_ARN,
+      Message: JSON.stringify({ eventType: 'Delivery' }),
+      Timestamp: '2026-10-19T12:00:00.000Z',
+      SignatureVersion: '2',
+      SigningCertURL: CERT_URL,
+      ...overrides,
+    };
+
+    const stringToSign = ['Message', 'MessageId', 'Subject', 'Timestamp', 'TopicArn', 'Type']
+      .filter((field) => message[field] !== undefined)
+      .map((field) => `${field}\n${message[field]}\n`)
+      .join('');
+
+    message.Signature = crypto
+      .createSign('RSA-SHA256')
+      .update(stringToSign)
+      .sign(privateKey, 'base64');
+
+    return message;
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.communication.sesWebhookTopicArn = TOPIC_ARN;
+    (axios.get as jest.Mock).mockResolvedValue({
+      data: publicKey.export({ format: 'pem', type: 'spki' }),
+    });
+  });
+
+  afterAll(() => {
+    config.communication.sesWebhookTopicArn = '';
+  });
+
+  it('accepts a signed notification from the configured topic', async () => {
+    const message = notification();
+    const req = { body: JSON.stringify(message) } as Request;
+    const next = jest.fn();
+
+    await verifySesMiddleware(req, mockResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+    expect(req.body).toEqual(message);
+  });
+
+  it('rejects a notification changed after signing', async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+    const message = { ...notification(), Message: JSON.stringify({ eventType: 'Bounce' }) };
+
+    await verifySesMiddleware({ body: JSON.stringify(message) } as Request, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects validly signed messages from other topics', async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+    const message = notification({ TopicArn: 'arn:aws:sns:us-east-1:999999999999:attacker' });
+
+    await verifySesMiddleware({ body: JSON.stringify(message) } as Request, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects everything while no topic is configured', async () => {
+    config.communication.sesWebhookTopicArn = '';
+    const res = mockResponse();
+    const next = jest.fn();
+
+    await verifySesMiddleware({ body: JSON.stringify(notification()) } as Request, res, next);
+
+    expect(res.status).toHaveBeenCalledWith(403);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('does not fetch signing certificates from outside SNS', async () => {
+    const res = mockResponse();
+    const next = jest.fn();
+    const message = notification({ SigningCertURL: 'https://attacker.example.com/cert.pem' });
+
+    await verifySesMiddleware({ body: JSON.stringify(message) } as Request, res, next);
+
+    expect(axios.get).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
+
+describe('SendGrid Inbound Parse', () => {
+  const TOKEN = 'inbound-parse-token';
+  const BOUNDARY = 'xYzZY';
+
+  // A form as Inbound Parse posts it, attachments as file parts
+  function form(fields: Record<string, string>, attachment?: string): Buffer {
+    const parts = Object.entries(fields).map(
+      ([name, value]) =>
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="${name}"\r\n\r\n${value}\r\n`
+    );
+    if (attachment) {
+      parts.push(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="attachment1"; filename="quote.pdf"\r\n` +
+          `Content-Type: application/pdf\r\n\r\n${attachment}\r\n`
+      );
+    }
+    return Buffer.from(`${parts.join('')}--${BOUNDARY}--\r\n`);
+  }
+
+  const inboundRequest = (body: Buffer, token: string = TOKEN) =>
+    ({
+      query: { token },
+      headers: { 'content-type': `multipart/form-data; boundary=${BOUNDARY}` },
+      body,
+    }) as unknown as Request;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config.communication.sendgridInboundParseToken = TOKEN;
+  });
+
+  afterAll(() => {
+    config.communication.sendgridInboundParseToken = '';
+  });
+
+  describe('verifySendGridInboundMiddleware', () => {
+    it('accepts requests carrying the configured token', () => {
+      const next = jest.fn();
+
+      verifySendGridInboundMiddleware(inboundRequest(Buffer.alloc(0)), mockResponse(), next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('rejects a wrong token', () => {
+      const res = mockResponse();
+      const next = jest.fn();
+
+      verifySendGridInboundMiddleware(inboundRequest(Buffer.alloc(0), 'guess'), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(401);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('rejects everything while no token is configured', () => {
+      config.communication.sendgridInboundParseToken = '';
+      const res = mockResponse();
+      const next = jest.fn();
+
+      verifySendGridInboundMiddleware(inboundRequest(Buffer.alloc(0), ''), res, next);
+
+      expect(res.status).toHaveBeenCalledWith(403);
+      expect(next).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleSendGridInboundParse', () => {
+    it('hands the email to the event processor with its thread references', async () => {
+      const res = mockResponse();
+      const headers = [
+        'Message-ID: <reply-1@mail.example.com>',
+        'In-Reply-To: <spring-2@nexuscrm>',
+        'References: <spring-1@nexuscrm>',
+        ' <spring-2@nexuscrm>',
+      ].join('\r\n');
+
+      await handleSendGridInboundParse(
+        inboundRequest(
+          form(
+            {
+              headers,
+              from: '"Rivera, Sam" <Sam@Example.com>',
+              to: 'sales@crm.example.com, Ops <ops@crm.example.com>',
+              subject: 'Re: Spring offer',
+              text: 'Interested.\r\nCan we talk Tuesday?',
+            },
+            '%PDF-1.4'
+          )
+        ),
+        res
+      );
+
+      expect(emailEventProcessor.processInbound).toHaveBeenCalledWith({
+        provider: 'sendgrid',
+        messageId: 'reply-1@mail.example.com',
+        from: { email: 'sam@example.com', name: 'Rivera, Sam' },
+        to: ['sales@crm.example.com', 'ops@crm.example.com'],
+        subject: 'Re: Spring offer',
+        text: 'Interested.\r\nCan we talk Tuesday?',
+        html: undefined,
+        references: ['spring-2@nexuscrm', 'spring-1@nexuscrm'],
+        receivedAt: expect.any(Date),
+      });
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+
+    it('acknowledges email it cannot use so SendGrid does not retry it', async () => {
+      const res = mockResponse();
+
+      await handleSendGridInboundParse(inboundRequest(form({ subject: 'No headers' })), res);
+
+      expect(emailEventProcessor.processInbound).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(200);
+    });
+  });
+});
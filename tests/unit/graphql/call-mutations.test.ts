@@ -0,0 +1,65 @@
+import { resolvers } from '../../../src/graphql/resolvers';
+import { callManager } from '../../../src/voice/call-manager';
+import { MakeCallInput } from '../../../src/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/call-manager', () => ({
+  callManager: { makeCall: jest.fn() },
+}));
+
+const context = {
+  auth: {
+    user: {
+      id: '00000000-0000-0000-0000-0000000000b1',
+      organizationId: '00000000-0000-0000-0000-000000000001',
+      permissions: [],
+    },
+  },
+};
+
+const INPUT = { toNumber: '+15550100001' } as MakeCallInput;
+
+describe('Mutation.makeCall', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns the call it started', async () => {
+    (callManager.makeCall as jest.Mock).mockResolvedValue({
+      callId: 'call-1',
+      platform: 'twilio',
+      externalCallId: 'CA0000000000000000000000000000001',
+      status: 'queued',
+    });
+
+    await expect(resolvers.Mutation.makeCall(null, { input: INPUT }, context)).resolves.toEqual({
+      callId: 'call-1',
+      status: 'queued',
+      message: 'Call initiated successfully',
+    });
+  });
+
+  it('reports call manager failures without prefixing them twice', async () => {
+    (callManager.makeCall as jest.Mock).mockRejectedValue(
+      new Error('Failed to make call: Call blocked (dnc): Number is on the Do-Not-Call list')
+    );
+
+    await expect(resolvers.Mutation.makeCall(null, { input: INPUT }, context)).rejects.toThrow(
+      /^Failed to make call: Call blocked \(dnc\)/
+    );
+  });
+
+  it('requires permission to override compliance', async () => {
+    await expect(
+      resolvers.Mutation.makeCall(null, { input: { ...INPUT, complianceOverride: true } }, context)
+    ).rejects.toThrow('Overriding call compliance requires admin permission');
+    expect(callManager.makeCall).not.toHaveBeenCalled();
+  });
+});
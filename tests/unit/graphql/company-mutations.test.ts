@@ -0,0 +1,134 @@
+import { db } from '../../../src/utils/database';
+import { graphRAGClient } from '../../../src/clients';
+import { jobQueue } from '../../../src/queue';
+import { resolvers } from '../../../src/graphql/resolvers';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/clients', () => ({
+  graphRAGClient: { enrichCompany: jest.fn() },
+}));
+
+jest.mock('../../../src/queue', () => ({
+  jobQueue: { add: jest.fn() },
+  QUEUES: { GRAPHRAG_INDEX: 'graphrag-index' },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const USER_ID = '00000000-0000-0000-0000-0000000000b1';
+const COMPANY_ID = '00000000-0000-0000-0000-0000000000d1';
+
+const context = {
+  auth: { user: { id: USER_ID, organizationId: ORGANIZATION_ID } },
+};
+
+const { createCompany, updateCompany, deleteCompany, enrichCompany } = resolvers.Mutation;
+
+describe('company mutations', () => {
+  const queryWithContext = db.queryWithContext as jest.Mock;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('creates a company owned by the caller and queues it for GraphRAG indexing', async () => {
+    queryWithContext.mockResolvedValue({
+      rows: [{ id: COMPANY_ID, name: 'Acme', domain: 'acme.test', tags: ['enterprise'] }],
+      rowCount: 1,
+    });
+
+    const company = await createCompany(
+      null,
+      { input: { name: 'Acme', domain: 'acme.test', tags: ['enterprise'] } },
+      context
+    );
+
+    expect(company.id).toBe(COMPANY_ID);
+
+    const [organizationId, sql, params] = queryWithContext.mock.calls[0];
+    expect(organizationId).toBe(ORGANIZATION_ID);
+    expect(sql).toContain('INSERT INTO nexuscrm.companies');
+    expect(params[0]).toBe('Acme');
+    expect(params[12]).toBe(USER_ID);
+    expect(params[15]).toBe(ORGANIZATION_ID);
+
+    expect(jobQueue.add).toHaveBeenCalledWith('graphrag-index', {
+      content: expect.stringContaining('"name":"Acme"'),
+      metadata: expect.objectContaining({ entityType: 'company', entityId: COMPANY_ID }),
+    });
+  });
+
+  it('updates only the fields supplied', async () => {
+    queryWithContext.mockResolvedValue({
+      rows: [{ id: COMPANY_ID, name: 'Acme', industry: 'Software' }],
+      rowCount: 1,
+    });
+
+    await updateCompany(
+      null,
+      { id: COMPANY_ID, input: { industry: 'Software', employeeCount: 0 } },
+      context
+    );
+
+    const [, sql, params] = queryWithContext.mock.calls[0];
+    expect(sql).toContain('industry = $1');
+    expect(sql).toContain('employee_count = $2');
+    expect(sql).toContain('WHERE id = $3 AND deleted_at IS NULL');
+    expect(sql).not.toContain('name =');
+    expect(params).toEqual(['Software', 0, COMPANY_ID]);
+  });
+
+  it('fails to update a company that does not exist', async () => {
+    queryWithContext.mockResolvedValue({ rows: [], rowCount: 0 });
+
+    await expect(
+      updateCompany(null, { id: COMPANY_ID, input: { name: 'Gone' } }, context)
+    ).rejects.toThrow('Failed to update company');
+  });
+
+  it('reports whether a soft delete matched a company', async () => {
+    queryWithContext.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+    await expect(deleteCompany(null, { id: COMPANY_ID }, context)).resolves.toBe(true);
+
+    queryWithContext.mockResolvedValueOnce({ rows: [], rowCount: 0 });
+    await expect(deleteCompany(null, { id: COMPANY_ID }, context)).resolves.toBe(false);
+
+    expect(queryWithContext.mock.calls[0][1]).toContain('SET deleted_at = CURRENT_TIMESTAMP');
+  });
+
+  it('stores GraphRAG enrichment on the company', async () => {
+    queryWithContext
+      .mockResolvedValueOnce({ rows: [{ id: COMPANY_ID, name: 'Acme' }], rowCount: 1 })
+      .mockResolvedValueOnce({
+        rows: [{ id: COMPANY_ID, name: 'Acme', enrichment_confidence: 0.8 }],
+        rowCount: 1,
+      });
+    (graphRAGClient.enrichCompany as jest.Mock).mockResolvedValue({
+      enrichmentData: { headcount: 120 },
+      sources: ['crm', 'web'],
+      confidence: 0.8,
+    });
+
+    await enrichCompany(null, { id: COMPANY_ID }, context);
+
+    expect(graphRAGClient.enrichCompany).toHaveBeenCalledWith(COMPANY_ID);
+    const [, sql, params] = queryWithContext.mock.calls[1];
+    expect(sql).toContain('enrichment_data = $1');
+    expect(params).toEqual([{ headcount: 120 }, 'crm,web', 0.8, COMPANY_ID]);
+  });
+
+  it('does not enrich a company that does not exist', async () => {
+    queryWithContext.mockResolvedValue({ rows: [], rowCount: 0 });
+
+    await expect(enrichCompany(null, { id: COMPANY_ID }, context)).rejects.toThrow(
+      'Failed to enrich company'
+    );
+    expect(graphRAGClient.enrichCompany).not.toHaveBeenCalled();
+  });
+});
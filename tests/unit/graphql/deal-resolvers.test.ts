@@ -0,0 +1,62 @@
+import { db } from '../../../src/utils/database';
+import { resolvers } from '../../../src/graphql/resolvers';
+import { Deal } from '../../../src/types';
+import { projectRow } from '../helpers/pg-rows';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const DEAL_ID = '00000000-0000-0000-0000-0000000000e1';
+
+const context = {
+  auth: { user: { id: '00000000-0000-0000-0000-0000000000b1', organizationId: ORGANIZATION_ID } },
+};
+
+describe('Deal.stageHistory', () => {
+  it('returns history entries under their GraphQL field names', async () => {
+    const enteredAt = new Date('2026-03-02T09:00:00Z');
+    const exitedAt = new Date('2026-03-05T09:00:00Z');
+    const stored = {
+      id: 'history-1',
+      deal_id: DEAL_ID,
+      from_stage: 'qualification',
+      stage: 'proposal',
+      probability: 60,
+      entered_at: enteredAt,
+      exited_at: exitedAt,
+      duration_seconds: 259200,
+      changed_by: '00000000-0000-0000-0000-0000000000b1',
+      organization_id: ORGANIZATION_ID,
+      created_at: enteredAt,
+    };
+    (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId, sql) => ({
+      rows: [projectRow(sql, stored)],
+      rowCount: 1,
+    }));
+
+    const history = await resolvers.Deal.stageHistory({ id: DEAL_ID } as Deal, null, context);
+
+    expect(history).toEqual([
+      {
+        id: 'history-1',
+        dealId: DEAL_ID,
+        fromStage: 'qualification',
+        stage: 'proposal',
+        probability: 60,
+        enteredAt,
+        exitedAt,
+        durationSeconds: 259200,
+        changedBy: '00000000-0000-0000-0000-0000000000b1',
+        organizationId: ORGANIZATION_ID,
+        createdAt: enteredAt,
+      },
+    ]);
+    expect((db.queryWithContext as jest.Mock).mock.calls[0][2]).toEqual([DEAL_ID]);
+  });
+});
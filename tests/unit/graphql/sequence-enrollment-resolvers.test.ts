@@ -0,0 +1,54 @@
+import { db } from '../../../src/utils/database';
+import { resolvers } from '../../../src/graphql/resolvers';
+import { SequenceEnrollment } from '../../../src/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+
+const context = {
+  auth: { user: { id: '00000000-0000-0000-0000-0000000000b1', organizationId: ORGANIZATION_ID } },
+};
+
+const enrollment = { id: 'enrollment-1', contactId: CONTACT_ID } as SequenceEnrollment;
+
+describe('SequenceEnrollment.contact', () => {
+  it('returns the contact under its GraphQL field names', async () => {
+    (db.queryWithContext as jest.Mock).mockResolvedValue({
+      rows: [
+        {
+          id: CONTACT_ID,
+          first_name: 'Sam',
+          last_name: 'Rivera',
+          email: 'sam@example.com',
+          owner_id: '00000000-0000-0000-0000-0000000000b1',
+          organization_id: ORGANIZATION_ID,
+        },
+      ],
+      rowCount: 1,
+    });
+
+    const contact = await resolvers.SequenceEnrollment.contact(enrollment, null, context);
+
+    expect(contact).toMatchObject({
+      id: CONTACT_ID,
+      firstName: 'Sam',
+      lastName: 'Rivera',
+      ownerId: '00000000-0000-0000-0000-0000000000b1',
+      organizationId: ORGANIZATION_ID,
+    });
+  });
+
+  it('returns null once the contact is deleted', async () => {
+    (db.queryWithContext as jest.Mock).mockResolvedValue({ rows: [], rowCount: 0 });
+
+    await expect(resolvers.SequenceEnrollment.contact(enrollment, null, context)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,111 @@
+import { db } from '../../../src/utils/database';
+
+/**
+ * Campaign fixtures shared by the campaign tests. Test files must mock
+ * src/utils/database themselves; mockCampaignDatabase drives that mock.
+ */
+
+export const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+export const CAMPAIGN_ID = '00000000-0000-0000-0000-0000000000c1';
+export const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+export const CREATOR_ID = '00000000-0000-0000-0000-0000000000b1';
+
+// Campaign and contact rows as pg returns them for SELECT *
+export function campaignRow(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    id: CAMPAIGN_ID,
+    name: 'Spring outreach',
+    type: 'voice-outbound',
+    status: 'active',
+    voice_script: 'You are calling about the spring offer.',
+    voice_assistant_config: { language: 'en' },
+    created_by: CREATOR_ID,
+    organization_id: ORGANIZATION_ID,
+    deleted_at: null,
+    ...overrides,
+  };
+}
+
+export const CONTACT_ROW = {
+  id: CONTACT_ID,
+  first_name: 'Sam',
+  last_name: 'Rivera',
+  email: 'sam@example.com',
+  mobile: '+15550100001',
+  organization_id: ORGANIZATION_ID,
+};
+
+// Jobs come back from the claim query under their column aliases
+export function claimedJob(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    id: 'job-1',
+    campaignId: CAMPAIGN_ID,
+    contactId: CONTACT_ID,
+    channel: 'voice',
+    status: 'running',
+    attempts: 1,
+    organizationId: ORGANIZATION_ID,
+    ...overrides,
+  };
+}
+
+/**
+ * Answer the engine's queries for one campaign and its claimed jobs;
+ * returns the transaction client the jobs are claimed through
+ */
+export function mockCampaignDatabase(
+  campaign: Record<string, any>,
+  jobs: Array<Record<string, any>>,
+  totalCostUsd: string = '0'
+) {
+  const client = {
+    query: jest.fn(async (sql: string) => {
+      if (sql.includes('SELECT COUNT(*) AS count')) {
+        return { rows: [{ count: '0' }], rowCount: 1 };
+      }
+      if (sql.includes('FOR UPDATE SKIP LOCKED')) {
+        return { rows: jobs, rowCount: jobs.length };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+  };
+
+  (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+
+  (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId: string, sql: string) => {
+    if (sql.includes('SELECT * FROM nexuscrm.campaigns')) {
+      return { rows: [campaign], rowCount: 1 };
+    }
+    if (sql.includes('SELECT status FROM nexuscrm.campaigns')) {
+      return { rows: [{ status: campaign.status }], rowCount: 1 };
+    }
+    if (sql.includes('AS dialing')) {
+      return {
+        rows: [
+          {
+            status: campaign.status,
+            dialer_config: campaign.dialer_config,
+            total_cost_usd: totalCostUsd,
+            pending: String(jobs.length),
+            dialing: '0',
+            retrying: '0',
+            completed: '0',
+            voicemail: '0',
+            unreached: '0',
+            failed: '0',
+          },
+        ],
+        rowCount: 1,
+      };
+    }
+    if (sql.includes('SELECT * FROM nexuscrm.contacts')) {
+      return { rows: [CONTACT_ROW], rowCount: 1 };
+    }
+    if (sql.includes('FOR UPDATE SKIP LOCKED')) {
+      return { rows: jobs, rowCount: jobs.length };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+
+  return client;
+}
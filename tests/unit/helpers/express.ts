@@ -0,0 +1,15 @@
+import { Response } from 'express';
+
+/**
+ * A Response whose chainable methods are mocks, for asserting on handlers
+ */
+export function mockResponse(): Response {
+  const res: Partial<Response> = {};
+  res.status = jest.fn(() => res as Response);
+  res.type = jest.fn(() => res as Response);
+  res.set = jest.fn(() => res as Response);
+  res.json = jest.fn(() => res as Response);
+  res.send = jest.fn(() => res as Response);
+  res.sendStatus = jest.fn(() => res as Response);
+  return res as Response;
+}
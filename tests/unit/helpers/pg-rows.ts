@@ -0,0 +1,56 @@
+/**
+ * Answer a SELECT or RETURNING the way pg does: a stored row keyed by column
+ * name comes back with only the listed columns, under their aliases.
+ *
+ * Handles `*`, `table.*`, plain and table-qualified columns, and single-column
+ * expressions such as COALESCE(column, ...) or to_char(time_column, 'HH24:MI').
+ */
+export function projectRow(sql: string, stored: Record<string, any>): Record<string, any> {
+  const start = /\b(?:SELECT|RETURNING)\s+/.exec(sql);
+  if (!start) {
+    throw new Error(`No column list in: ${sql}`);
+  }
+
+  const row: Record<string, any> = {};
+
+  for (const item of splitColumnList(sql.slice(start.index + start[0].length))) {
+    const [, expression, alias] = /^([\s\S]+?)(?:\s+AS\s+"(\w+)")?$/.exec(item.trim()) as RegExpExecArray;
+
+    if (/^(?:\w+\.)?\*$/.test(expression)) {
+      Object.assign(row, stored);
+      continue;
+    }
+
+    const column = (/^(?:\w+\(\s*)?(?:\w+\.)?(\w+)/.exec(expression) as RegExpExecArray)[1];
+    const value = stored[column];
+
+    row[alias || column] = /^to_char\(/.test(expression) ? String(value).slice(0, 5) : value;
+  }
+
+  return row;
+}
+
+// Split on commas outside parentheses, up to the FROM that ends the list
+function splitColumnList(list: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (let index = 0; index < list.length; index++) {
+    const char = list[index];
+
+    if (depth === 0 && /^\s+FROM\b/.test(list.slice(index))) {
+      break;
+    }
+    if (char === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+
+  return [...items, current];
+}
@@ -0,0 +1,125 @@
+import { db } from '../../../src/utils/database';
+import { emailService } from '../../../src/email';
+import { InboxManager } from '../../../src/inbox/inbox-manager';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/websocket/manager', () => ({
+  broadcastInboxMessage: jest.fn(),
+}));
+
+jest.mock('../../../src/email', () => ({
+  emailService: { sendReply: jest.fn() },
+}));
+
+jest.mock('../../../src/sms', () => ({
+  smsService: { sendToContact: jest.fn() },
+}));
+
+jest.mock('../../../src/whatsapp', () => ({
+  whatsappService: { sendSessionMessage: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+const USER_ID = '00000000-0000-0000-0000-0000000000b1';
+
+describe('InboxManager', () => {
+  let manager: InboxManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new InboxManager();
+  });
+
+  describe('getMessages', () => {
+    it('returns the thread oldest first under the activity field names', async () => {
+      const sentAt = new Date('2026-10-19T09:00:00Z');
+      const repliedAt = new Date('2026-10-19T10:00:00Z');
+      (db.queryWithContext as jest.Mock).mockResolvedValue({
+        rows: [
+          {
+            id: 'activity-in',
+            type: 'email',
+            direction: 'inbound',
+            from_email: 'sam@example.com',
+            to_emails: ['sales@crm.example.com'],
+            contact_id: CONTACT_ID,
+            external_id: 'reply-1@mail.example.com',
+            created_at: repliedAt,
+          },
+          {
+            id: 'activity-out',
+            type: 'email',
+            direction: 'outbound',
+            from_email: 'sales@crm.example.com',
+            to_emails: ['sam@example.com'],
+            contact_id: CONTACT_ID,
+            created_at: sentAt,
+          },
+        ],
+        rowCount: 2,
+      });
+
+      const messages = await manager.getMessages(ORGANIZATION_ID, CONTACT_ID);
+
+      expect(messages.map((message) => message.id)).toEqual(['activity-out', 'activity-in']);
+      expect(messages[1]).toMatchObject({
+        fromEmail: 'sam@example.com',
+        toEmails: ['sales@crm.example.com'],
+        contactId: CONTACT_ID,
+        externalId: 'reply-1@mail.example.com',
+        createdAt: repliedAt,
+      });
+    });
+  });
+
+  describe('replyInThread', () => {
+    it('answers an inbound email by email', async () => {
+      const original = {
+        id: 'activity-in',
+        type: 'email',
+        subject: 'Re: Spring offer',
+        contactId: CONTACT_ID,
+        fromEmail: 'sam@example.com',
+        toEmails: ['sales@crm.example.com'],
+        externalId: 'reply-1@mail.example.com',
+      };
+      (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId, sql: string) =>
+        sql.includes("direction = 'inbound'")
+          ? { rows: [original], rowCount: 1 }
+          : { rows: [], rowCount: 1 }
+      );
+      (emailService.sendReply as jest.Mock).mockResolvedValue({ id: 'activity-reply' });
+
+      const reply = await manager.replyInThread(ORGANIZATION_ID, USER_ID, CONTACT_ID, 'Tuesday works.');
+
+      expect(reply.id).toBe('activity-reply');
+      expect(emailService.sendReply).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        USER_ID,
+        original,
+        'Tuesday works.'
+      );
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining('SET last_read_at = CURRENT_TIMESTAMP'),
+        [ORGANIZATION_ID, CONTACT_ID]
+      );
+    });
+
+    it('asks for a call back when the contact has only called', async () => {
+      (db.queryWithContext as jest.Mock).mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(
+        manager.replyInThread(ORGANIZATION_ID, USER_ID, CONTACT_ID, 'Hello')
+      ).rejects.toThrow('Thread has no inbound message to reply to; call the contact back instead');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { PoolClient } from 'pg';
+import { db } from '../../../src/utils/database';
+import { PipelineManager } from '../../../src/pipelines/pipeline-manager';
+import { Deal, PipelineStage } from '../../../src/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { queryWithContext: jest.fn(), transaction: jest.fn(), setOrganizationContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const PIPELINE_ID = '00000000-0000-0000-0000-0000000000f1';
+
+function stage(key: string, position: number, overrides: Partial<PipelineStage> = {}): PipelineStage {
+  return {
+    id: `stage-${key}`,
+    pipelineId: PIPELINE_ID,
+    key,
+    name: key,
+    position,
+    requiredFields: [],
+    isWon: false,
+    isLost: false,
+    organizationId: ORGANIZATION_ID,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+const STAGES = [
+  stage('discovery', 0),
+  stage('proposal', 1, { requiredFields: ['amount'] }),
+  stage('won', 2, { isWon: true, requiredFields: ['actualCloseDate'] }),
+  stage('lost', 3, { isLost: true, requiredFields: ['lostReason'] }),
+];
+
+function deal(overrides: Partial<Deal> = {}): Deal {
+  return {
+    id: 'deal-1',
+    name: 'Renewal',
+    currency: 'USD',
+    pipelineId: PIPELINE_ID,
+    stage: 'discovery',
+    ...overrides,
+  } as Deal;
+}
+
+// A transaction client that serves the pipeline's stages
+function stagesClient(stages: PipelineStage[] = STAGES): PoolClient {
+  return { query: jest.fn().mockResolvedValue({ rows: stages }) } as unknown as PoolClient;
+}
+
+describe('PipelineManager', () => {
+  let manager: PipelineManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new PipelineManager();
+  });
+
+  describe('resolveInitialStage', () => {
+    it('starts a deal in the first stage', async () => {
+      const resolved = await manager.resolveInitialStage(stagesClient(), PIPELINE_ID, {});
+
+      expect(resolved.stage).toBe('discovery');
+      expect(resolved.definition).toBe(STAGES[0]);
+    });
+
+    it('keeps legacy stages for deals without a pipeline', async () => {
+      const resolved = await manager.resolveInitialStage(stagesClient(), null, {});
+
+      expect(resolved).toEqual({ stage: 'prospecting', definition: null });
+    });
+
+    it('checks the requested stage against the new deal values', async () => {
+      await expect(
+        manager.resolveInitialStage(stagesClient(), PIPELINE_ID, {}, 'proposal')
+      ).rejects.toThrow('Stage proposal requires: amount');
+
+      await expect(
+        manager.resolveInitialStage(stagesClient(), PIPELINE_ID, {}, 'negotiation')
+      ).rejects.toThrow('Stage negotiation is not defined in this pipeline');
+    });
+  });
+
+  describe('resolveTransition', () => {
+    it('moves a deal to a stage whose required fields are set', async () => {
+      const resolved = await manager.resolveTransition(stagesClient(), deal({ amount: 5000 }), {
+        stage: 'proposal',
+      });
+
+      expect(resolved.stage).toBe('proposal');
+    });
+
+    it('rejects a stage whose required fields are missing', async () => {
+      await expect(
+        manager.resolveTransition(stagesClient(), deal(), { stage: 'proposal' })
+      ).rejects.toThrow('Stage proposal requires: amount');
+    });
+
+    it('counts values written with the transition towards required fields', async () => {
+      const resolved = await manager.resolveTransition(
+        stagesClient(),
+        deal(),
+        { outcome: 'lost' },
+        { lostReason: 'Budget' }
+      );
+
+      expect(resolved.stage).toBe('lost');
+    });
+
+    it('resolves outcomes to the won and lost stages', async () => {
+      const won = await manager.resolveTransition(
+        stagesClient(),
+        deal({ actualCloseDate: new Date() } as Partial<Deal>),
+        { outcome: 'won' }
+      );
+
+      expect(won.stage).toBe('won');
+      expect(won.definition?.isWon).toBe(true);
+    });
+
+    it('rejects an outcome the pipeline has no stage for', async () => {
+      await expect(
+        manager.resolveTransition(stagesClient(STAGES.slice(0, 2)), deal(), { outcome: 'won' })
+      ).rejects.toThrow('Pipeline has no won stage');
+    });
+
+    it('does not move a closed deal', async () => {
+      await expect(
+        manager.resolveTransition(stagesClient(), deal({ stage: 'lost' }), { stage: 'discovery' })
+      ).rejects.toThrow('Deal is closed in stage lost');
+    });
+
+    it('maps outcomes to legacy stages for deals without a pipeline', async () => {
+      const client = stagesClient();
+      const resolved = await manager.resolveTransition(client, deal({ pipelineId: undefined }), {
+        outcome: 'lost',
+      });
+
+      expect(resolved).toEqual({ stage: 'closed-lost', definition: null });
+      expect(client.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createPipeline', () => {
+    const create = (stages: any[]) =>
+      manager.createPipeline(ORGANIZATION_ID, 'user-1', { name: 'Sales', stages });
+
+    it('rejects inconsistent stage definitions before writing', async () => {
+      await expect(create([])).rejects.toThrow('Pipeline must have at least one stage');
+      await expect(
+        create([{ key: 'a', name: 'A' }, { key: 'a', name: 'A again' }])
+      ).rejects.toThrow('Duplicate stage key: a');
+      await expect(
+        create([
+          { key: 'a', name: 'A', isWon: true },
+          { key: 'b', name: 'B', isWon: true },
+        ])
+      ).rejects.toThrow('Pipeline can only have one won stage');
+      await expect(
+        create([{ key: 'a', name: 'A', requiredFields: ['favouriteColour'] }])
+      ).rejects.toThrow('Stage a requires unknown fields: favouriteColour');
+
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+  });
+});
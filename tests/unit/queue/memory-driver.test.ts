@@ -0,0 +1,152 @@
+import { MemoryQueueDriver } from '../../../src/queue/memory-driver';
+import { Job } from '../../../src/queue/types';
+
+const LEASE_MS = 30000;
+
+function makeJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 'job-1',
+    queue: 'test',
+    data: { value: 1 },
+    attempts: 0,
+    maxAttempts: 3,
+    backoffMs: 1000,
+    runAt: Date.now(),
+    createdAt: Date.now(),
+    ...overrides,
+  };
+}
+
+describe('MemoryQueueDriver', () => {
+  let driver: MemoryQueueDriver;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2024-01-01T00:00:00Z') });
+    driver = new MemoryQueueDriver(LEASE_MS);
+  });
+
+  afterEach(async () => {
+    await driver.close();
+    jest.useRealTimers();
+  });
+
+  describe('enqueue', () => {
+    it('returns a pushed job once it is due', async () => {
+      await driver.push(makeJob());
+
+      const job = await driver.pop('test');
+
+      expect(job).toMatchObject({ id: 'job-1', queue: 'test', data: { value: 1 } });
+    });
+
+    it('holds delayed jobs until their runAt', async () => {
+      await driver.push(makeJob({ runAt: Date.now() + 5000 }));
+
+      expect(await driver.pop('test')).toBeNull();
+
+      jest.setSystemTime(Date.now() + 5000);
+
+      expect(await driver.pop('test')).toMatchObject({ id: 'job-1' });
+    });
+
+    it('returns the earliest due job first', async () => {
+      await driver.push(makeJob({ id: 'later', runAt: Date.now() - 1000 }));
+      await driver.push(makeJob({ id: 'earlier', runAt: Date.now() - 2000 }));
+
+      expect((await driver.pop('test'))?.id).toBe('earlier');
+      expect((await driver.pop('test'))?.id).toBe('later');
+    });
+
+    it('keeps queues separate', async () => {
+      await driver.push(makeJob({ queue: 'other' }));
+
+      expect(await driver.pop('test')).toBeNull();
+      expect(await driver.pop('other')).toMatchObject({ id: 'job-1' });
+    });
+  });
+
+  describe('lease', () => {
+    it('does not hand a leased job to another worker', async () => {
+      await driver.push(makeJob());
+
+      expect(await driver.pop('test')).not.toBeNull();
+      expect(await driver.pop('test')).toBeNull();
+    });
+
+    it('drops an acked job', async () => {
+      await driver.push(makeJob());
+      const job = (await driver.pop('test')) as Job;
+
+      await driver.ack(job);
+      jest.setSystemTime(Date.now() + LEASE_MS);
+
+      expect(await driver.pop('test')).toBeNull();
+    });
+  });
+
+  describe('retry', () => {
+    it('reschedules a job at its new runAt', async () => {
+      await driver.push(makeJob());
+      const job = (await driver.pop('test')) as Job;
+
+      await driver.retry({ ...job, attempts: 1, lastError: 'boom', runAt: Date.now() + 1000 });
+
+      expect(await driver.pop('test')).toBeNull();
+
+      jest.setSystemTime(Date.now() + 1000);
+
+      expect(await driver.pop('test')).toMatchObject({ id: 'job-1', attempts: 1, lastError: 'boom' });
+    });
+
+    it('buries a job and requeues it with fresh attempts', async () => {
+      await driver.push(makeJob());
+      const job = (await driver.pop('test')) as Job;
+
+      await driver.bury({ ...job, attempts: 3, failedAt: Date.now() });
+
+      expect(await driver.listDead('test', 10)).toEqual([expect.objectContaining({ id: 'job-1', attempts: 3 })]);
+      expect(await driver.pop('test')).toBeNull();
+
+      expect(await driver.requeueDead('test', 'job-1')).toBe(true);
+      expect(await driver.requeueDead('test', 'job-1')).toBe(false);
+      expect(await driver.listDead('test', 10)).toEqual([]);
+
+      const requeued = await driver.pop('test');
+      expect(requeued).toMatchObject({ id: 'job-1', attempts: 0 });
+      expect(requeued?.failedAt).toBeUndefined();
+    });
+  });
+
+  describe('lease expiry', () => {
+    it('returns a job whose lease expired', async () => {
+      await driver.push(makeJob());
+      await driver.pop('test');
+
+      jest.setSystemTime(Date.now() + LEASE_MS - 1);
+      expect(await driver.pop('test')).toBeNull();
+
+      jest.setSystemTime(Date.now() + 1);
+      expect(await driver.pop('test')).toMatchObject({ id: 'job-1' });
+    });
+
+    it('starts a new lease when the job is claimed again', async () => {
+      await driver.push(makeJob());
+      await driver.pop('test');
+
+      jest.setSystemTime(Date.now() + LEASE_MS);
+      await driver.pop('test');
+
+      expect(await driver.pop('test')).toBeNull();
+    });
+
+    it('only returns expired leases to their own queue', async () => {
+      await driver.push(makeJob({ queue: 'other' }));
+      await driver.pop('other');
+
+      jest.setSystemTime(Date.now() + LEASE_MS);
+
+      expect(await driver.pop('test')).toBeNull();
+      expect(await driver.pop('other')).toMatchObject({ id: 'job-1' });
+    });
+  });
+});
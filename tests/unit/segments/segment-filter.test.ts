@@ -0,0 +1,143 @@
+import { compileSegmentFilter, SegmentLoader } from '../../../src/segments/segment-filter';
+import { Segment, SegmentFilter } from '../../../src/types';
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+
+function segment(id: string, overrides: Partial<Segment> = {}): Segment {
+  return {
+    id,
+    name: id,
+    mode: 'dynamic',
+    filter: {},
+    contactCount: 0,
+    organizationId: ORGANIZATION_ID,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Serve segments by ID
+function loader(...segments: Segment[]): SegmentLoader {
+  return async (segmentId) => segments.find((s) => s.id === segmentId) || null;
+}
+
+const compile = (filter: SegmentFilter, loadSegment: SegmentLoader = loader()) =>
+  compileSegmentFilter(filter, loadSegment);
+
+describe('compileSegmentFilter', () => {
+  it('matches every contact for an empty filter', async () => {
+    await expect(compile({})).resolves.toEqual({ where: 'TRUE', params: [] });
+  });
+
+  it('binds every value and combines groups', async () => {
+    const compiled = await compile({
+      all: [
+        { field: 'lifecycleStage', operator: 'in', value: ['mql', 'sql'] },
+        { field: 'leadScore', operator: 'gte', value: 60 },
+      ],
+      any: [
+        { field: 'email', operator: 'contains', value: '50%_off' },
+        { field: 'decisionMaker', operator: 'eq', value: true },
+      ],
+      not: { field: 'lastContactedAt', operator: 'within_days', value: 7 },
+    });
+
+    expect(compiled.where).toBe(
+      '(c.lifecycle_stage = ANY($1) AND c.lead_score >= $2)' +
+        ' AND (c.email ILIKE $3 OR c.decision_maker = $4)' +
+        ' AND NOT (c.last_contacted_at >= CURRENT_TIMESTAMP - make_interval(days => $5))'
+    );
+    expect(compiled.params).toEqual([['mql', 'sql'], 60, '%50\\%\\_off%', true, 7]);
+  });
+
+  it('appends after parameters the caller already bound', async () => {
+    const compiled = await compileSegmentFilter(
+      { field: 'seniority', operator: 'eq', value: 'VP' },
+      loader(),
+      { params: ['campaign-1', ORGANIZATION_ID] }
+    );
+
+    expect(compiled).toEqual({
+      where: 'c.seniority = $3',
+      params: ['campaign-1', ORGANIZATION_ID, 'VP'],
+    });
+  });
+
+  it('compiles tags, custom fields and activity conditions', async () => {
+    const compiled = await compile({
+      all: [
+        { field: 'tags', operator: 'has_any', value: ['webinar-2026'] },
+        { field: 'customFields.seats', operator: 'gt', value: 50 },
+        { field: 'activity', operator: 'has_not', value: { type: 'call', withinDays: 30 } },
+      ],
+    });
+
+    expect(compiled.where).toBe(
+      '(c.tags && $1::text[]' +
+        ' AND (c.custom_fields->>$2)::numeric > $3' +
+        ' AND NOT ((SELECT COUNT(*) FROM nexuscrm.activities a' +
+        ' WHERE a.contact_id = c.id AND a.deleted_at IS NULL AND a.type = $4' +
+        ' AND a.created_at >= CURRENT_TIMESTAMP - make_interval(days => $5)) >= $6))'
+    );
+    expect(compiled.params).toEqual([['webinar-2026'], 'seats', 50, 'call', 30, 1]);
+  });
+
+  it('inlines dynamic segments and uses the snapshot of static ones', async () => {
+    const segments = loader(
+      segment('dynamic-1', { filter: { field: 'leadStatus', operator: 'eq', value: 'open' } }),
+      segment('static-1', { mode: 'static' })
+    );
+
+    const compiled = await compile(
+      {
+        all: [
+          { field: 'segment', operator: 'in', value: 'dynamic-1' },
+          { field: 'segment', operator: 'not_in', value: 'static-1' },
+        ],
+      },
+      segments
+    );
+
+    expect(compiled.where).toBe(
+      '((c.lead_status = $1)' +
+        ' AND NOT c.id IN (SELECT sm.contact_id FROM nexuscrm.segment_members sm WHERE sm.segment_id = $2))'
+    );
+    expect(compiled.params).toEqual(['open', 'static-1']);
+  });
+
+  it('rejects segments that reference themselves', async () => {
+    const segments = loader(
+      segment('a', { filter: { field: 'segment', operator: 'in', value: 'b' } }),
+      segment('b', { filter: { field: 'segment', operator: 'in', value: 'a' } })
+    );
+
+    await expect(
+      compileSegmentFilter({ field: 'segment', operator: 'in', value: 'b' }, segments, {
+        segmentId: 'a',
+      })
+    ).rejects.toThrow('Segment filter references itself');
+  });
+
+  it.each<[string, SegmentFilter]>([
+    ['Unknown segment field: password', { field: 'password', operator: 'eq', value: 'x' }],
+    [
+      'Operator contains is not supported for leadScore',
+      { field: 'leadScore', operator: 'contains', value: 1 },
+    ],
+    [
+      'lifecycleStage expects an array value',
+      { field: 'lifecycleStage', operator: 'in', value: 'mql' },
+    ],
+    [
+      'createdAt expects a whole number of days',
+      { field: 'createdAt', operator: 'within_days', value: -1 },
+    ],
+    [
+      'Referenced segment not found: missing',
+      { field: 'segment', operator: 'in', value: 'missing' },
+    ],
+  ])('rejects invalid filters: %s', async (message, filter) => {
+    await expect(compile(filter)).rejects.toThrow(message);
+  });
+});
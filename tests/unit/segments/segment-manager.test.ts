@@ -0,0 +1,119 @@
+import { db } from '../../../src/utils/database';
+import { SegmentManager } from '../../../src/segments/segment-manager';
+import { projectRow } from '../helpers/pg-rows';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { queryWithContext: jest.fn(), transaction: jest.fn(), setOrganizationContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const SEGMENT_ID = '00000000-0000-0000-0000-0000000000d1';
+
+// A segments row keyed by column name
+const SEGMENT_ROW = {
+  id: SEGMENT_ID,
+  name: 'Engaged VPs',
+  description: null,
+  mode: 'dynamic',
+  filter: { field: 'seniority', operator: 'eq', value: 'VP' },
+  contact_count: 12,
+  last_evaluated_at: new Date('2026-10-01T00:00:00Z'),
+  tags: [],
+  created_by: '00000000-0000-0000-0000-0000000000b1',
+  organization_id: ORGANIZATION_ID,
+  created_at: new Date('2026-09-01T00:00:00Z'),
+  updated_at: new Date('2026-10-01T00:00:00Z'),
+  deleted_at: null,
+};
+
+const CONTACT_ROW = {
+  id: '00000000-0000-0000-0000-0000000000a1',
+  first_name: 'Sam',
+  last_name: 'Rivera',
+  seniority: 'VP',
+  lead_score: 80,
+  organization_id: ORGANIZATION_ID,
+};
+
+/**
+ * Serve the segment and contacts tables, projecting selected columns
+ */
+function mockDatabase(segment: Record<string, any> = SEGMENT_ROW) {
+  (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId: string, sql: string) => {
+    if (sql.includes('FROM nexuscrm.segments')) {
+      return { rows: [projectRow(sql, segment)], rowCount: 1 };
+    }
+    return { rows: [projectRow(sql, CONTACT_ROW)], rowCount: 1 };
+  });
+
+  const client = {
+    query: jest.fn(async (sql: string, params: any[] = []) => {
+      if (sql.includes('SELECT COUNT(*) AS count')) {
+        return { rows: [{ count: '3' }], rowCount: 1 };
+      }
+      if (sql.includes('UPDATE nexuscrm.segments')) {
+        return { rows: [projectRow(sql, { ...segment, contact_count: params[0] })], rowCount: 1 };
+      }
+      return { rows: [], rowCount: 0 };
+    }),
+  };
+
+  (db.transaction as jest.Mock).mockImplementation(async (callback) => callback(client));
+
+  return client;
+}
+
+describe('SegmentManager', () => {
+  let manager: SegmentManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new SegmentManager();
+  });
+
+  it('returns segments under their GraphQL field names', async () => {
+    mockDatabase();
+
+    const segment = await manager.getSegment(ORGANIZATION_ID, SEGMENT_ID);
+
+    expect(segment).toEqual({
+      id: SEGMENT_ID,
+      name: 'Engaged VPs',
+      description: null,
+      mode: 'dynamic',
+      filter: SEGMENT_ROW.filter,
+      contactCount: 12,
+      lastEvaluatedAt: SEGMENT_ROW.last_evaluated_at,
+      tags: [],
+      createdBy: SEGMENT_ROW.created_by,
+      organizationId: ORGANIZATION_ID,
+      createdAt: SEGMENT_ROW.created_at,
+      updatedAt: SEGMENT_ROW.updated_at,
+      deletedAt: null,
+    });
+  });
+
+  it('refreshes the contact count of a dynamic segment', async () => {
+    const client = mockDatabase();
+
+    const refreshed = await manager.refreshSegment(ORGANIZATION_ID, SEGMENT_ID);
+
+    expect(refreshed.contactCount).toBe(3);
+    expect(client.query).toHaveBeenCalledWith(expect.stringContaining('c.seniority = $1'), ['VP']);
+  });
+
+  it('previews matching contacts as contacts', async () => {
+    mockDatabase();
+
+    const contacts = await manager.previewSegment(ORGANIZATION_ID, { segmentId: SEGMENT_ID }, 500);
+
+    expect(contacts).toEqual([
+      expect.objectContaining({ firstName: 'Sam', lastName: 'Rivera', leadScore: 80 }),
+    ]);
+    expect((db.queryWithContext as jest.Mock).mock.calls[1][2]).toEqual(['VP', 100]);
+  });
+});
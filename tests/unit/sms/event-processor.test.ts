@@ -0,0 +1,222 @@
+import { db } from '../../../src/utils/database';
+import { activityManager } from '../../../src/activities';
+import { campaignEngine } from '../../../src/campaigns/campaign-engine';
+import { emailService } from '../../../src/email';
+import { voiceNumberManager } from '../../../src/voice/voice-numbers';
+import { SmsEventProcessor } from '../../../src/sms/event-processor';
+import { InboundSms } from '../../../src/sms/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/websocket/manager', () => ({
+  broadcastInboxMessage: jest.fn(),
+}));
+
+jest.mock('../../../src/activities', () => ({
+  ...jest.requireActual('../../../src/activities'),
+  activityManager: { logActivity: jest.fn() },
+}));
+
+jest.mock('../../../src/campaigns/campaign-engine', () => ({
+  campaignEngine: { recordDelivery: jest.fn() },
+}));
+
+jest.mock('../../../src/email', () => ({
+  emailService: { markUnsubscribed: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/voice-numbers', () => ({
+  ...jest.requireActual('../../../src/voice/voice-numbers'),
+  voiceNumberManager: { findByPhoneNumber: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+const CAMPAIGN_ID = '00000000-0000-0000-0000-0000000000c1';
+const OWNER_ID = '00000000-0000-0000-0000-0000000000b1';
+
+// The outbound message a reply answers, as the thread lookup selects it
+const OUTBOUND_ROW = {
+  id: 'activity-out',
+  organization_id: ORGANIZATION_ID,
+  contact_id: CONTACT_ID,
+  campaign_id: CAMPAIGN_ID,
+  delivery_status: 'delivered',
+};
+
+const CONTACT_ROW = {
+  id: CONTACT_ID,
+  first_name: 'Sam',
+  mobile: '555-010-0001',
+  owner_id: OWNER_ID,
+  company_id: '00000000-0000-0000-0000-0000000000e1',
+  organization_id: ORGANIZATION_ID,
+};
+
+const MESSAGE: InboundSms = {
+  provider: 'twilio',
+  messageId: 'SM0000000000000000000000000000001',
+  from: '+1 (555) 010-0001',
+  to: '+15550109999',
+  body: 'Sounds good, call me tomorrow',
+  mediaUrls: [],
+  receivedAt: new Date(),
+};
+
+/**
+ * Serve the outbound message lookups and the sender's contact
+ */
+function mockDatabase(options: { outbound?: Record<string, any>; existingReply?: Record<string, any> } = {}) {
+  (db.query as jest.Mock).mockResolvedValue({
+    rows: options.outbound ? [options.outbound] : [],
+    rowCount: options.outbound ? 1 : 0,
+  });
+
+  (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId: string, sql: string) => {
+    if (sql.includes('FROM nexuscrm.activities WHERE external_id')) {
+      const rows = options.existingReply ? [options.existingReply] : [];
+      return { rows, rowCount: rows.length };
+    }
+    if (sql.includes('FROM nexuscrm.contacts')) {
+      return { rows: [CONTACT_ROW], rowCount: 1 };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+describe('SmsEventProcessor', () => {
+  let processor: SmsEventProcessor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    processor = new SmsEventProcessor();
+    (voiceNumberManager.findByPhoneNumber as jest.Mock).mockResolvedValue({
+      organizationId: ORGANIZATION_ID,
+    });
+    (activityManager.logActivity as jest.Mock).mockImplementation(async (_organizationId, _userId, input) => ({
+      id: 'activity-in',
+      ...input,
+    }));
+  });
+
+  describe('processStatus', () => {
+    const receipt = (status: 'sent' | 'delivered' | 'failed') => ({
+      provider: 'twilio' as const,
+      messageId: 'SM-out',
+      status,
+      occurredAt: new Date('2026-10-19T12:00:00Z'),
+    });
+
+    it('records the delivery on the outbound activity and the campaign', async () => {
+      mockDatabase({ outbound: { ...OUTBOUND_ROW, delivery_status: 'sent' } });
+
+      await expect(processor.processStatus(receipt('delivered'))).resolves.toBe(true);
+
+      expect(campaignEngine.recordDelivery).toHaveBeenCalledWith('sms', 'SM-out');
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining('UPDATE nexuscrm.activities'),
+        ['activity-out', expect.stringContaining('"deliveryStatus":"delivered"')]
+      );
+    });
+
+    it('does not move a delivered message back to sent', async () => {
+      mockDatabase({ outbound: OUTBOUND_ROW });
+
+      await expect(processor.processStatus(receipt('sent'))).resolves.toBe(true);
+
+      expect(db.queryWithContext).not.toHaveBeenCalled();
+    });
+
+    it('reports receipts for messages it did not send', async () => {
+      mockDatabase();
+
+      await expect(processor.processStatus(receipt('failed'))).resolves.toBe(false);
+    });
+  });
+
+  describe('processInbound', () => {
+    it('logs a reply on the contact it answers, threaded to the campaign message', async () => {
+      mockDatabase({ outbound: OUTBOUND_ROW });
+
+      const activity = await processor.processInbound(MESSAGE);
+
+      expect(activity?.id).toBe('activity-in');
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('ORDER BY created_at DESC'), [
+        '550100001',
+        ORGANIZATION_ID,
+      ]);
+      expect(activityManager.logActivity).toHaveBeenCalledWith(ORGANIZATION_ID, OWNER_ID, {
+        type: 'sms',
+        direction: 'inbound',
+        body: 'Sounds good, call me tomorrow',
+        contactId: CONTACT_ID,
+        companyId: CONTACT_ROW.company_id,
+        fromNumber: MESSAGE.from,
+        toNumber: MESSAGE.to,
+        externalId: MESSAGE.messageId,
+        metadata: {
+          provider: 'twilio',
+          inReplyTo: 'activity-out',
+          campaignId: CAMPAIGN_ID,
+          mediaUrls: undefined,
+        },
+      });
+      expect(emailService.markUnsubscribed).not.toHaveBeenCalled();
+    });
+
+    it('unsubscribes a contact who replies STOP, crediting the campaign', async () => {
+      mockDatabase({ outbound: OUTBOUND_ROW });
+
+      await processor.processInbound({ ...MESSAGE, body: ' stop. ' });
+
+      expect(emailService.markUnsubscribed).toHaveBeenCalledWith(ORGANIZATION_ID, CONTACT_ID, CAMPAIGN_ID);
+    });
+
+    it('matches a first message to a contact by number', async () => {
+      mockDatabase();
+
+      await processor.processInbound(MESSAGE);
+
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining('regexp_replace(mobile'),
+        ['550100001']
+      );
+      expect(activityManager.logActivity).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        OWNER_ID,
+        expect.objectContaining({
+          contactId: CONTACT_ID,
+          metadata: expect.objectContaining({ inReplyTo: undefined }),
+        })
+      );
+    });
+
+    it('answers a retried webhook with the reply already logged', async () => {
+      mockDatabase({
+        outbound: OUTBOUND_ROW,
+        existingReply: { id: 'activity-in', type: 'sms', direction: 'inbound', contact_id: CONTACT_ID },
+      });
+
+      const activity = await processor.processInbound(MESSAGE);
+
+      expect(activity).toMatchObject({ id: 'activity-in', contactId: CONTACT_ID });
+      expect(activityManager.logActivity).not.toHaveBeenCalled();
+    });
+
+    it('drops messages to numbers no organization owns', async () => {
+      (voiceNumberManager.findByPhoneNumber as jest.Mock).mockResolvedValue(null);
+      mockDatabase();
+
+      await expect(processor.processInbound(MESSAGE)).resolves.toBeNull();
+      expect(activityManager.logActivity).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { db } from '../../../src/utils/database';
+import { CallComplianceManager } from '../../../src/voice/call-compliance';
+import { projectRow } from '../helpers/pg-rows';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/voice-settings', () => ({
+  ...jest.requireActual('../../../src/voice/voice-settings'),
+  voiceSettingsManager: {},
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const USER_ID = '00000000-0000-0000-0000-0000000000b1';
+
+/**
+ * The dnc_numbers and call_compliance_events tables: stores inserts keyed
+ * by number and answers selects as pg does
+ */
+function fakeComplianceTables(events: Array<Record<string, any>> = []) {
+  const dnc = new Map<string, Record<string, any>>();
+
+  (db.queryWithContext as jest.Mock).mockImplementation(
+    async (organizationId: string, sql: string, params: any[] = []) => {
+      if (sql.includes('FROM unnest(')) {
+        const [numbers, reasons, addedBy] = params;
+        let inserted = 0;
+        numbers.forEach((number: string, index: number) => {
+          if (dnc.has(number)) return;
+          dnc.set(number, {
+            phone_number: number,
+            reason: reasons[index],
+            source: 'import',
+            added_by: addedBy,
+            organization_id: organizationId,
+            created_at: new Date(),
+          });
+          inserted++;
+        });
+        return { rows: [], rowCount: inserted };
+      }
+      if (sql.includes('INSERT INTO nexuscrm.dnc_numbers')) {
+        const [number, reason, addedBy] = params;
+        const existing = dnc.get(number);
+        const row = {
+          phone_number: number,
+          reason: reason ?? existing?.reason ?? null,
+          source: existing?.source ?? 'manual',
+          added_by: existing?.added_by ?? addedBy,
+          organization_id: organizationId,
+          created_at: existing?.created_at ?? new Date(),
+        };
+        dnc.set(number, row);
+        return { rows: [projectRow(sql, row)], rowCount: 1 };
+      }
+      if (sql.includes('FROM nexuscrm.dnc_numbers')) {
+        const rows = Array.from(dnc.values()).map((row) => projectRow(sql, row));
+        return { rows, rowCount: rows.length };
+      }
+      if (sql.includes('FROM nexuscrm.call_compliance_events')) {
+        const rows = events.map((row) => projectRow(sql, row));
+        return { rows, rowCount: rows.length };
+      }
+      return { rows: [], rowCount: 0 };
+    }
+  );
+
+  return dnc;
+}
+
+describe('CallComplianceManager', () => {
+  let manager: CallComplianceManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new CallComplianceManager();
+  });
+
+  describe('Do-Not-Call list', () => {
+    it('adds a number by its digits and lists it under its GraphQL field names', async () => {
+      fakeComplianceTables();
+
+      const added = await manager.addDncNumber(ORGANIZATION_ID, '+1 (555) 010-0001', 'Asked', USER_ID);
+      const listed = await manager.listDncNumbers(ORGANIZATION_ID);
+
+      expect(added).toEqual({
+        phoneNumber: '15550100001',
+        reason: 'Asked',
+        source: 'manual',
+        addedBy: USER_ID,
+        organizationId: ORGANIZATION_ID,
+        createdAt: expect.any(Date),
+      });
+      expect(listed).toEqual([added]);
+    });
+
+    it('keeps the reason when a listed number is added again without one', async () => {
+      fakeComplianceTables();
+
+      await manager.addDncNumber(ORGANIZATION_ID, '5550100001', 'Asked', USER_ID);
+      const again = await manager.addDncNumber(ORGANIZATION_ID, '555-010-0001', undefined, USER_ID);
+
+      expect(again.reason).toBe('Asked');
+    });
+
+    it('rejects numbers that are too short to dial', async () => {
+      fakeComplianceTables();
+
+      await expect(manager.addDncNumber(ORGANIZATION_ID, '12345', undefined, USER_ID)).rejects.toThrow(
+        'Invalid phone number: 12345'
+      );
+      expect(db.queryWithContext).not.toHaveBeenCalled();
+    });
+
+    it('searches by the digits of the search term', async () => {
+      fakeComplianceTables();
+
+      await manager.listDncNumbers(ORGANIZATION_ID, { search: '(555) 010' });
+
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining('WHERE phone_number LIKE $3'),
+        [100, 0, '%555010%']
+      );
+    });
+  });
+
+  describe('importDncCsv', () => {
+    it('reads the phone and reason columns named in the header', async () => {
+      const dnc = fakeComplianceTables();
+
+      const result = await manager.importDncCsv(
+        ORGANIZATION_ID,
+        'name,Phone Number,reason\r\nSam,"+1 555 010 0001","Asked, twice"\r\nAlex,555-010-0002,\r\n',
+        USER_ID
+      );
+
+      expect(result).toEqual({ imported: 2, duplicates: 0, invalid: 0 });
+      expect(dnc.get('15550100001')).toMatchObject({ reason: 'Asked, twice', source: 'import' });
+      expect(dnc.get('5550100002')).toMatchObject({ reason: null, added_by: USER_ID });
+    });
+
+    it('counts invalid rows and duplicates within the file and the list', async () => {
+      const dnc = fakeComplianceTables();
+      await manager.addDncNumber(ORGANIZATION_ID, '5550100001', undefined, USER_ID);
+
+      const result = await manager.importDncCsv(
+        ORGANIZATION_ID,
+        ['5550100001', '5550100002', '555-010-0002', '12', 'not a number'].join('\n'),
+        USER_ID
+      );
+
+      expect(result).toEqual({ imported: 1, duplicates: 2, invalid: 2 });
+      expect(dnc.size).toBe(2);
+    });
+
+    it('rejects a header without a phone column', async () => {
+      fakeComplianceTables();
+
+      await expect(
+        manager.importDncCsv(ORGANIZATION_ID, 'name,email\nSam,sam@example.com', USER_ID)
+      ).rejects.toThrow('CSV header has no phone column');
+    });
+  });
+
+  describe('listEvents', () => {
+    it('returns events under their GraphQL field names', async () => {
+      const createdAt = new Date('2026-10-19T12:00:00Z');
+      fakeComplianceTables([
+        {
+          id: 'event-1',
+          contact_id: '00000000-0000-0000-0000-0000000000a1',
+          to_number: '+15550100001',
+          reason: 'dnc_list',
+          message: 'Number is on the Do-Not-Call list',
+          overridden: true,
+          override_reason: 'Customer called in',
+          user_id: USER_ID,
+          organization_id: ORGANIZATION_ID,
+          created_at: createdAt,
+        },
+      ]);
+
+      const events = await manager.listEvents(ORGANIZATION_ID, { reason: 'dnc_list' });
+
+      expect(events).toEqual([
+        {
+          id: 'event-1',
+          contactId: '00000000-0000-0000-0000-0000000000a1',
+          toNumber: '+15550100001',
+          reason: 'dnc_list',
+          message: 'Number is on the Do-Not-Call list',
+          overridden: true,
+          overrideReason: 'Customer called in',
+          userId: USER_ID,
+          organizationId: ORGANIZATION_ID,
+          createdAt,
+        },
+      ]);
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining('WHERE reason = $1'),
+        ['dnc_list', 50, 0]
+      );
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { db } from '../../../src/utils/database';
+import { jobQueue } from '../../../src/queue';
+import { CallManager } from '../../../src/voice/call-manager';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/vapi-platform', () => ({ vapiPlatform: {} }));
+jest.mock('../../../src/voice/twilio-platform', () => ({ twilioPlatform: {} }));
+jest.mock('../../../src/voice/voice-settings', () => ({ voiceSettingsManager: {} }));
+jest.mock('../../../src/voice/call-tools', () => ({ callToolRegistry: {} }));
+jest.mock('../../../src/voice/call-compliance', () => ({ callComplianceManager: {} }));
+jest.mock('../../../src/clients', () => ({ mageClient: {} }));
+
+jest.mock('../../../src/queue', () => ({
+  jobQueue: { add: jest.fn() },
+  QUEUES: { CALL_ANALYSIS: 'call-analysis' },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const CALL_ID = '00000000-0000-0000-0000-0000000000c1';
+const EXTERNAL_CALL_ID = 'CA0000000000000000000000000000001';
+
+// A voice_calls row as pg returns it for SELECT *
+function callRow(overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    id: CALL_ID,
+    platform: 'twilio',
+    direction: 'outbound',
+    external_call_id: EXTERNAL_CALL_ID,
+    from_number: '+15550100000',
+    to_number: '+15550100001',
+    status: 'ringing',
+    contact_id: '00000000-0000-0000-0000-0000000000a1',
+    metadata: {},
+    organization_id: ORGANIZATION_ID,
+    ...overrides,
+  };
+}
+
+describe('CallManager', () => {
+  let manager: CallManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new CallManager();
+  });
+
+  describe('getCall', () => {
+    it('returns the call under its field names and caches it', async () => {
+      (db.queryWithContext as jest.Mock).mockResolvedValue({ rows: [callRow()], rowCount: 1 });
+
+      const call = await manager.getCall(CALL_ID, ORGANIZATION_ID);
+
+      expect(call).toMatchObject({
+        id: CALL_ID,
+        externalCallId: EXTERNAL_CALL_ID,
+        fromNumber: '+15550100000',
+        toNumber: '+15550100001',
+        organizationId: ORGANIZATION_ID,
+      });
+
+      await expect(manager.getCall(CALL_ID, ORGANIZATION_ID)).resolves.toBe(call);
+      await expect(manager.getCallByExternalId(EXTERNAL_CALL_ID)).resolves.toBe(call);
+      expect(db.queryWithContext).toHaveBeenCalledTimes(1);
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it("does not serve another organization's call from the cache", async () => {
+      (db.queryWithContext as jest.Mock)
+        .mockResolvedValueOnce({ rows: [callRow()], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 });
+
+      await manager.getCall(CALL_ID, ORGANIZATION_ID);
+      const other = await manager.getCall(CALL_ID, '00000000-0000-0000-0000-000000000002');
+
+      expect(other).toBeNull();
+      expect(db.queryWithContext).toHaveBeenLastCalledWith(
+        '00000000-0000-0000-0000-000000000002',
+        expect.stringContaining('FROM nexuscrm.voice_calls WHERE id = $1'),
+        [CALL_ID]
+      );
+    });
+  });
+
+  describe('getCallByExternalId', () => {
+    it('looks calls up outside tenant context and does not cache misses', async () => {
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+        .mockResolvedValueOnce({ rows: [callRow()], rowCount: 1 });
+
+      await expect(manager.getCallByExternalId(EXTERNAL_CALL_ID)).resolves.toBeNull();
+      const call = await manager.getCallByExternalId(EXTERNAL_CALL_ID);
+
+      expect(call?.id).toBe(CALL_ID);
+      expect(db.query).toHaveBeenCalledTimes(2);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE external_call_id = $1'),
+        [EXTERNAL_CALL_ID]
+      );
+    });
+
+    it('ignores an empty ID', async () => {
+      await expect(manager.getCallByExternalId('')).resolves.toBeNull();
+      expect(db.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateCallStatus', () => {
+    it('stores the update, refreshes the cache and queues transcript analysis', async () => {
+      (db.query as jest.Mock).mockResolvedValue({ rows: [callRow()], rowCount: 1 });
+      (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId, sql: string) =>
+        sql.includes('UPDATE nexuscrm.voice_calls')
+          ? { rows: [callRow({ status: 'completed', duration_seconds: 95 })], rowCount: 1 }
+          : { rows: [], rowCount: 1 }
+      );
+
+      const call = await manager.updateCallStatus(EXTERNAL_CALL_ID, 'completed', {
+        durationSeconds: 95,
+        transcript: 'Agent: Hello...',
+      });
+
+      expect(call).toMatchObject({ id: CALL_ID, status: 'completed', durationSeconds: 95 });
+      await expect(manager.getCall(CALL_ID)).resolves.toBe(call);
+      expect(jobQueue.add).toHaveBeenCalledWith('call-analysis', {
+        callId: CALL_ID,
+        transcript: 'Agent: Hello...',
+        organizationId: ORGANIZATION_ID,
+      });
+    });
+
+    it('returns null for calls it does not know', async () => {
+      (db.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 0 });
+
+      await expect(manager.updateCallStatus('CA-unknown', 'completed', {})).resolves.toBeNull();
+      expect(db.queryWithContext).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,151 @@
+import { db } from '../../../src/utils/database';
+import { callManager } from '../../../src/voice/call-manager';
+import { CallSupervisor } from '../../../src/voice/call-supervisor';
+import { VoicePlatform } from '../../../src/voice/platform';
+import { AuthUser } from '../../../src/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+
+const SUPERVISOR: AuthUser = {
+  id: '00000000-0000-0000-0000-0000000000b1',
+  email: 'supervisor@example.com',
+  organizationId: ORGANIZATION_ID,
+  role: 'admin',
+  permissions: ['voice:call:monitor', 'voice:call:whisper'],
+};
+
+// A voice_calls row as pg returns it for SELECT *
+function callRow(id: string, overrides: Record<string, any> = {}): Record<string, any> {
+  return {
+    id,
+    platform: 'vapi',
+    direction: 'outbound',
+    external_call_id: `ext-${id}`,
+    from_number: '+15550100000',
+    to_number: '+15550100001',
+    status: 'in-progress',
+    metadata: {},
+    organization_id: ORGANIZATION_ID,
+    ...overrides,
+  };
+}
+
+/**
+ * Serve one call and store supervisor actions, returning them under the
+ * column aliases the insert selects
+ */
+function mockDatabase(call: Record<string, any>) {
+  (db.queryWithContext as jest.Mock).mockImplementation(
+    async (_organizationId: string, sql: string, params: any[] = []) => {
+      if (sql.includes('FROM nexuscrm.voice_calls')) {
+        return { rows: params[0] === call.id ? [call] : [], rowCount: 1 };
+      }
+
+      if (sql.includes('INSERT INTO nexuscrm.call_supervisor_actions')) {
+        const [voiceCallId, userId, action, details, success, error, organizationId] = params;
+        return {
+          rows: [
+            {
+              id: 'action-1',
+              voiceCallId,
+              userId,
+              action,
+              details: JSON.parse(details),
+              success,
+              error,
+              organizationId,
+              createdAt: new Date(),
+            },
+          ],
+          rowCount: 1,
+        };
+      }
+
+      return { rows: [], rowCount: 0 };
+    }
+  );
+}
+
+describe('CallSupervisor', () => {
+  let supervisor: CallSupervisor;
+  let platform: jest.Mocked<VoicePlatform>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    platform = {
+      name: 'vapi',
+      dial: jest.fn(),
+      cancel: jest.fn(),
+      parseStatusEvent: jest.fn(),
+      getRecording: jest.fn(),
+      transfer: jest.fn(),
+      whisper: jest.fn(),
+    };
+    jest.spyOn(callManager, 'getPlatform').mockReturnValue(platform);
+
+    supervisor = new CallSupervisor();
+  });
+
+  it('returns a monitored call with the external ID its socket room is named for', async () => {
+    mockDatabase(callRow('call-monitor'));
+
+    const call = await supervisor.monitor(SUPERVISOR, 'call-monitor');
+
+    expect(call).toMatchObject({
+      id: 'call-monitor',
+      externalCallId: 'ext-call-monitor',
+      organizationId: ORGANIZATION_ID,
+      status: 'in-progress',
+    });
+  });
+
+  it('whispers to the live call and records the action', async () => {
+    mockDatabase(callRow('call-whisper'));
+
+    const record = await supervisor.whisper(SUPERVISOR, 'call-whisper', '  Offer the annual plan  ');
+
+    expect(platform.whisper).toHaveBeenCalledWith('ext-call-whisper', 'Offer the annual plan');
+    expect(db.queryWithContext).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      expect.stringContaining('INSERT INTO nexuscrm.call_supervisor_actions'),
+      ['call-whisper', SUPERVISOR.id, 'whisper', '{"message":"Offer the annual plan"}', true, null, ORGANIZATION_ID]
+    );
+    expect(record).toMatchObject({
+      voiceCallId: 'call-whisper',
+      action: 'whisper',
+      success: true,
+      details: { message: 'Offer the annual plan' },
+    });
+  });
+
+  it('records a denied attempt without touching the call', async () => {
+    mockDatabase(callRow('call-barge'));
+
+    await expect(supervisor.bargeIn(SUPERVISOR, 'call-barge', '+15550100002')).rejects.toThrow(
+      'Permission denied: voice:call:barge'
+    );
+
+    expect(platform.transfer).not.toHaveBeenCalled();
+    expect(db.queryWithContext).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      expect.stringContaining('INSERT INTO nexuscrm.call_supervisor_actions'),
+      expect.arrayContaining(['call-barge', 'barge', false, 'Permission denied: voice:call:barge'])
+    );
+  });
+
+  it('refuses calls that have ended', async () => {
+    mockDatabase(callRow('call-ended', { status: 'completed' }));
+
+    await expect(supervisor.whisper(SUPERVISOR, 'call-ended', 'Wrap up')).rejects.toThrow('Call is completed');
+    expect(platform.whisper).not.toHaveBeenCalled();
+  });
+});
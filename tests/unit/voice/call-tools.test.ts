@@ -0,0 +1,115 @@
+import { db } from '../../../src/utils/database';
+import { CallToolRegistry, CallToolContext } from '../../../src/voice/call-tools';
+import { projectRow } from '../helpers/pg-rows';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/activities', () => ({
+  activityManager: { logActivity: jest.fn() },
+}));
+
+jest.mock('../../../src/email', () => ({
+  emailService: {},
+}));
+
+jest.mock('../../../src/voice/call-transfer', () => ({
+  callTransferManager: {},
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const VOICE_CALL_ID = '00000000-0000-0000-0000-0000000000c1';
+
+const CONTEXT: CallToolContext = {
+  organizationId: ORGANIZATION_ID,
+  voiceCallId: VOICE_CALL_ID,
+  contactId: '00000000-0000-0000-0000-0000000000a1',
+};
+
+const INSERT_COLUMNS = [
+  'voice_call_id',
+  'tool_name',
+  'parameters',
+  'result',
+  'success',
+  'error',
+  'duration_ms',
+  'organization_id',
+];
+
+/**
+ * A call_tool_invocations table: stores inserts, answers selects as pg does,
+ * and reports every contact update as matched
+ */
+function fakeInvocationsTable() {
+  const stored: Array<Record<string, any>> = [];
+
+  (db.queryWithContext as jest.Mock).mockImplementation(
+    async (_organizationId: string, sql: string, params: any[] = []) => {
+      if (sql.includes('INSERT INTO nexuscrm.call_tool_invocations')) {
+        const row: Record<string, any> = { id: `invocation-${stored.length + 1}`, created_at: new Date() };
+        INSERT_COLUMNS.forEach((column, index) => {
+          row[column] = params[index];
+        });
+        stored.push(row);
+        return { rows: [], rowCount: 1 };
+      }
+      if (sql.includes('FROM nexuscrm.call_tool_invocations')) {
+        const rows = stored.filter((row) => row.voice_call_id === params[0]);
+        return { rows: rows.map((row) => projectRow(sql, row)), rowCount: rows.length };
+      }
+      return { rows: [], rowCount: 1 };
+    }
+  );
+}
+
+describe('CallToolRegistry', () => {
+  let registry: CallToolRegistry;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    fakeInvocationsTable();
+    registry = new CallToolRegistry();
+  });
+
+  it('lists the invocations of a call under their GraphQL field names', async () => {
+    await registry.invoke('update_lead_status', { status: 'qualified' }, CONTEXT);
+
+    const invocations = await registry.listInvocations(ORGANIZATION_ID, VOICE_CALL_ID);
+
+    expect(invocations).toEqual([
+      {
+        id: 'invocation-1',
+        voiceCallId: VOICE_CALL_ID,
+        toolName: 'update_lead_status',
+        parameters: { status: 'qualified' },
+        result: expect.objectContaining({ success: true }),
+        success: true,
+        error: null,
+        durationMs: expect.any(Number),
+        organizationId: ORGANIZATION_ID,
+        createdAt: expect.any(Date),
+      },
+    ]);
+  });
+
+  it('records a failed invocation and tells the assistant why', async () => {
+    const result = await registry.invoke('update_lead_status', {}, CONTEXT);
+
+    expect(result).toEqual({
+      success: false,
+      message: 'Could not update lead status: Missing required parameters: status',
+    });
+
+    const [invocation] = await registry.listInvocations(ORGANIZATION_ID, VOICE_CALL_ID);
+    expect(invocation).toMatchObject({
+      success: false,
+      error: 'Missing required parameters: status',
+    });
+  });
+});
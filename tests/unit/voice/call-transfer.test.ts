@@ -0,0 +1,155 @@
+import { db } from '../../../src/utils/database';
+import { voiceSettingsManager } from '../../../src/voice/voice-settings';
+import { voiceNumberManager } from '../../../src/voice/voice-numbers';
+import { twilioPlatform } from '../../../src/voice/twilio-platform';
+import { CallTransferManager, WarmTransferRequest } from '../../../src/voice/call-transfer';
+import { VoiceTransferConfig } from '../../../src/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/voice-settings', () => ({
+  ...jest.requireActual('../../../src/voice/voice-settings'),
+  voiceSettingsManager: { getSettings: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/voice-numbers', () => ({
+  voiceNumberManager: { getAvailableAgent: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/vapi-platform', () => ({
+  vapiPlatform: { transfer: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/twilio-platform', () => ({
+  twilioPlatform: { transfer: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const OWNER_ID = '00000000-0000-0000-0000-0000000000b1';
+const ON_CALL_ID = '00000000-0000-0000-0000-0000000000b2';
+
+const REQUEST: WarmTransferRequest = {
+  organizationId: ORGANIZATION_ID,
+  voiceCallId: '00000000-0000-0000-0000-0000000000c1',
+  externalCallId: 'CA0000000000000000000000000000001',
+  platform: 'twilio',
+  contactId: '00000000-0000-0000-0000-0000000000a1',
+  reason: 'buying_signal',
+  summary: '  Wants pricing for 40 seats.  ',
+};
+
+function mockSettings(transferConfig: Partial<VoiceTransferConfig>) {
+  (voiceSettingsManager.getSettings as jest.Mock).mockResolvedValue({
+    defaultTimezone: 'UTC',
+    transferConfig: {
+      enabled: true,
+      targets: ['owner', 'on_call'],
+      onCallUserIds: [ON_CALL_ID],
+      fallback: 'assistant',
+      ...transferConfig,
+    },
+  });
+}
+
+// Reps with a forwarding number are available
+function mockAgents(available: Record<string, string>) {
+  (voiceNumberManager.getAvailableAgent as jest.Mock).mockImplementation(
+    async (_organizationId: string, userId: string) =>
+      available[userId] ? { userId, phoneNumber: available[userId] } : null
+  );
+}
+
+describe('CallTransferManager', () => {
+  let manager: CallTransferManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new CallTransferManager();
+    (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId, sql: string) =>
+      sql.includes('FROM nexuscrm.contacts')
+        ? { rows: [{ ownerId: OWNER_ID }], rowCount: 1 }
+        : { rows: [], rowCount: 1 }
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("hands the call to the contact's owner with the assistant's summary", async () => {
+    mockSettings({});
+    mockAgents({ [OWNER_ID]: '+15550102222', [ON_CALL_ID]: '+15550103333' });
+
+    const result = await manager.warmTransfer(REQUEST);
+
+    expect(result).toEqual({
+      transferred: true,
+      transfer: {
+        reason: 'buying_signal',
+        summary: 'Wants pricing for 40 seats.',
+        target: 'owner',
+        userId: OWNER_ID,
+        phoneNumber: '+15550102222',
+        transferredAt: expect.any(String),
+      },
+    });
+    expect(twilioPlatform.transfer).toHaveBeenCalledWith(
+      REQUEST.externalCallId,
+      '+15550102222',
+      'Wants pricing for 40 seats.'
+    );
+    expect(db.queryWithContext).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      expect.stringContaining('SET transfers = transfers || $2::jsonb'),
+      [REQUEST.voiceCallId, JSON.stringify([result.transfer])]
+    );
+  });
+
+  it('falls through to the on-call reps when the owner is unavailable', async () => {
+    mockSettings({});
+    mockAgents({ [ON_CALL_ID]: '+15550103333' });
+
+    const result = await manager.warmTransfer(REQUEST);
+
+    expect(result.transfer).toMatchObject({ target: 'on_call', userId: ON_CALL_ID });
+  });
+
+  it('dials the fallback number outside transfer hours', async () => {
+    // A Saturday
+    jest.useFakeTimers().setSystemTime(new Date('2026-10-17T15:00:00Z'));
+    mockSettings({ days: [1, 2, 3, 4, 5], fallback: 'number', fallbackNumber: '+15550109999' });
+    mockAgents({ [OWNER_ID]: '+15550102222' });
+
+    const result = await manager.warmTransfer(REQUEST);
+
+    expect(voiceNumberManager.getAvailableAgent).not.toHaveBeenCalled();
+    expect(result.transfer).toMatchObject({ target: 'fallback', phoneNumber: '+15550109999' });
+  });
+
+  it('keeps the call with the assistant when nobody can take it', async () => {
+    mockSettings({});
+    mockAgents({});
+
+    await expect(manager.warmTransfer(REQUEST)).resolves.toEqual({
+      transferred: false,
+      message: 'No rep is available right now',
+    });
+    expect(twilioPlatform.transfer).not.toHaveBeenCalled();
+  });
+
+  it('does nothing while transfers are disabled', async () => {
+    mockSettings({ enabled: false });
+
+    await expect(manager.warmTransfer(REQUEST)).resolves.toEqual({
+      transferred: false,
+      message: 'Transfers to a person are not set up',
+    });
+    expect(twilioPlatform.transfer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,232 @@
+import { db } from '../../../src/utils/database';
+import { activityManager } from '../../../src/activities';
+import { voiceNumberManager } from '../../../src/voice/voice-numbers';
+import { InboundCallRouter, InboundCallInput } from '../../../src/voice/inbound-call-router';
+import { VoiceNumber } from '../../../src/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/activities', () => ({
+  activityManager: { logActivity: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/voice-numbers', () => ({
+  ...jest.requireActual('../../../src/voice/voice-numbers'),
+  voiceNumberManager: {
+    findByPhoneNumber: jest.fn(),
+    getAvailableAgent: jest.fn(),
+    nextRoundRobinAgent: jest.fn(),
+  },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const OWNER_ID = '00000000-0000-0000-0000-0000000000b1';
+const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+
+const INPUT: InboundCallInput = {
+  platform: 'twilio',
+  externalCallId: 'CA0000000000000000000000000000001',
+  fromNumber: '+1 (555) 010-0001',
+  toNumber: '+15550109999',
+};
+
+function voiceNumber(overrides: Partial<VoiceNumber> = {}): VoiceNumber {
+  return {
+    id: 'number-1',
+    phoneNumber: '+15550109999',
+    platform: 'twilio',
+    label: 'Sales line',
+    routingStrategy: 'owner',
+    roundRobinUserIds: [],
+    roundRobinCursor: 0,
+    ringTimeoutSeconds: 20,
+    assistantConfig: {},
+    organizationId: ORGANIZATION_ID,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// The caller's contacts row, joined with the company name
+const CALLER_ROW = {
+  id: CONTACT_ID,
+  first_name: 'Sam',
+  full_name: 'Sam Rivera',
+  mobile: '555-010-0001',
+  job_title: 'VP Sales',
+  lead_status: 'qualified',
+  owner_id: OWNER_ID,
+  company_name: 'Acme',
+  organization_id: ORGANIZATION_ID,
+};
+
+/**
+ * Serve the caller lookup and store inserted calls as pg returns them
+ */
+function mockDatabase(options: { caller?: Record<string, any>; existingCall?: Record<string, any> } = {}) {
+  (db.query as jest.Mock).mockResolvedValue({
+    rows: options.existingCall ? [options.existingCall] : [],
+    rowCount: options.existingCall ? 1 : 0,
+  });
+
+  (db.queryWithContext as jest.Mock).mockImplementation(
+    async (_organizationId: string, sql: string, params: any[] = []) => {
+      if (sql.includes('FROM nexuscrm.contacts c')) {
+        return { rows: options.caller ? [options.caller] : [], rowCount: options.caller ? 1 : 0 };
+      }
+      if (sql.includes('INSERT INTO nexuscrm.voice_calls')) {
+        const [id, platform, externalCallId, fromNumber, toNumber, , metadata, organizationId] = params;
+        return {
+          rows: [
+            {
+              id,
+              platform,
+              direction: 'inbound',
+              external_call_id: externalCallId,
+              from_number: fromNumber,
+              to_number: toNumber,
+              status: 'ringing',
+              metadata,
+              organization_id: organizationId,
+            },
+          ],
+          rowCount: 1,
+        };
+      }
+      return { rows: [], rowCount: 0 };
+    }
+  );
+}
+
+describe('InboundCallRouter', () => {
+  let router: InboundCallRouter;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    router = new InboundCallRouter();
+    (voiceNumberManager.findByPhoneNumber as jest.Mock).mockResolvedValue(voiceNumber());
+  });
+
+  it('rejects calls to numbers that are not configured', async () => {
+    (voiceNumberManager.findByPhoneNumber as jest.Mock).mockResolvedValue(null);
+
+    await expect(router.routeCall(INPUT)).resolves.toEqual({
+      type: 'reject',
+      reason: 'Number not configured',
+    });
+  });
+
+  it('forwards a known caller to their owner and logs the call on the contact', async () => {
+    mockDatabase({ caller: CALLER_ROW });
+    (voiceNumberManager.getAvailableAgent as jest.Mock).mockResolvedValue({
+      userId: OWNER_ID,
+      phoneNumber: '+15550102222',
+    });
+
+    const route = await router.routeCall(INPUT);
+
+    expect(route).toEqual({
+      type: 'forward',
+      voiceCallId: expect.any(String),
+      userId: OWNER_ID,
+      phoneNumber: '+15550102222',
+      timeoutSeconds: 20,
+    });
+    expect(voiceNumberManager.getAvailableAgent).toHaveBeenCalledWith(ORGANIZATION_ID, OWNER_ID);
+    expect(db.queryWithContext).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      expect.stringContaining('FROM nexuscrm.contacts c'),
+      ['550100001']
+    );
+    expect(activityManager.logActivity).toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      null,
+      expect.objectContaining({
+        type: 'call',
+        direction: 'inbound',
+        contactId: CONTACT_ID,
+        assignedTo: OWNER_ID,
+        metadata: expect.objectContaining({ voiceCallId: (route as any).voiceCallId }),
+      })
+    );
+  });
+
+  it('primes the assistant with the caller when the owner is unavailable', async () => {
+    mockDatabase({ caller: CALLER_ROW });
+    (voiceNumberManager.getAvailableAgent as jest.Mock).mockResolvedValue(null);
+
+    const route = await router.routeCall(INPUT);
+
+    expect(route.type).toBe('assistant');
+    if (route.type !== 'assistant') return;
+    expect(route.agent.firstMessage).toBe('Hi Sam, thanks for calling. How can I help you today?');
+    expect(route.agent.systemPrompt).toContain('- Name: Sam Rivera');
+    expect(route.agent.systemPrompt).toContain('- Company: Acme');
+    expect(route.agent.systemPrompt).toContain('- Job title: VP Sales');
+    expect(route.agent.metadata).toEqual({
+      nexusCallId: route.voiceCallId,
+      contactId: CONTACT_ID,
+      organizationId: ORGANIZATION_ID,
+    });
+  });
+
+  it('sends withheld numbers to the assistant without logging an activity', async () => {
+    mockDatabase();
+
+    const route = await router.routeCall({ ...INPUT, fromNumber: 'anonymous' });
+
+    expect(route.type).toBe('assistant');
+    if (route.type !== 'assistant') return;
+    expect(route.agent.systemPrompt).toContain('The caller is not in the CRM yet.');
+    expect(activityManager.logActivity).not.toHaveBeenCalled();
+  });
+
+  it('takes the next agent of a round-robin number', async () => {
+    mockDatabase();
+    const number = voiceNumber({ routingStrategy: 'round_robin' });
+    (voiceNumberManager.findByPhoneNumber as jest.Mock).mockResolvedValue(number);
+    (voiceNumberManager.nextRoundRobinAgent as jest.Mock).mockResolvedValue({
+      userId: 'agent-2',
+      phoneNumber: '+15550103333',
+    });
+
+    const route = await router.routeCall(INPUT);
+
+    expect(voiceNumberManager.nextRoundRobinAgent).toHaveBeenCalledWith(number);
+    expect(route).toMatchObject({ type: 'forward', userId: 'agent-2' });
+  });
+
+  it('answers a retried webhook with the route already chosen', async () => {
+    mockDatabase({
+      existingCall: {
+        id: 'call-1',
+        direction: 'inbound',
+        external_call_id: INPUT.externalCallId,
+        from_number: INPUT.fromNumber,
+        to_number: INPUT.toNumber,
+        metadata: { routing: { type: 'forward', userId: OWNER_ID } },
+        organization_id: ORGANIZATION_ID,
+      },
+    });
+    (voiceNumberManager.getAvailableAgent as jest.Mock).mockResolvedValue({
+      userId: OWNER_ID,
+      phoneNumber: '+15550102222',
+    });
+
+    const route = await router.routeCall(INPUT);
+
+    expect(route).toMatchObject({ type: 'forward', voiceCallId: 'call-1', userId: OWNER_ID });
+    expect(db.queryWithContext).not.toHaveBeenCalledWith(
+      ORGANIZATION_ID,
+      expect.stringContaining('INSERT INTO nexuscrm.voice_calls'),
+      expect.anything()
+    );
+  });
+});
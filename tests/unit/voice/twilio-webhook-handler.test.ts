@@ -0,0 +1,102 @@
+import twilio from 'twilio';
+import { Request } from 'express';
+import config from '../../../src/config';
+import { verifyTwilioMiddleware } from '../../../src/voice/twilio-webhook-handler';
+import { mockResponse } from '../helpers/express';
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/call-manager', () => ({
+  callManager: {},
+}));
+
+jest.mock('../../../src/voice/inbound-call-router', () => ({
+  inboundCallRouter: {},
+}));
+
+jest.mock('../../../src/campaigns/campaign-engine', () => ({
+  campaignEngine: {},
+}));
+
+jest.mock('../../../src/websocket/manager', () => ({
+  broadcastCallStatus: jest.fn(),
+}));
+
+const AUTH_TOKEN = 'twilio-auth-token';
+const BASE_URL = 'https://crm.example.com';
+const PATH = '/webhooks/twilio/status?campaign=spring';
+
+const PARAMS = {
+  CallSid: 'CA0000000000000000000000000000001',
+  CallStatus: 'completed',
+  CallDuration: '42',
+};
+
+function request(signature: string | undefined, body: Record<string, string> = PARAMS): Request {
+  return {
+    headers: { 'x-twilio-signature': signature },
+    protocol: 'http',
+    originalUrl: PATH,
+    body,
+    get: () => 'internal-proxy:9125',
+  } as unknown as Request;
+}
+
+describe('verifyTwilioMiddleware', () => {
+  const sign = (url: string, params: Record<string, string> = PARAMS) =>
+    twilio.getExpectedTwilioSignature(AUTH_TOKEN, url, params);
+
+  beforeEach(() => {
+    config.voice.twilioAuthToken = AUTH_TOKEN;
+    config.voice.twilioWebhookBaseUrl = `${BASE_URL}/`;
+  });
+
+  afterAll(() => {
+    config.voice.twilioAuthToken = '';
+    config.voice.twilioWebhookBaseUrl = '';
+  });
+
+  it('accepts callbacks signed for the public webhook URL', () => {
+    const next = jest.fn();
+
+    verifyTwilioMiddleware(request(sign(`${BASE_URL}${PATH}`)), mockResponse(), next);
+
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('rejects parameters changed after signing', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifyTwilioMiddleware(
+      request(sign(`${BASE_URL}${PATH}`), { ...PARAMS, CallDuration: '4200' }),
+      res,
+      next
+    );
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects signatures for the host the proxy forwarded to', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifyTwilioMiddleware(request(sign(`http://internal-proxy:9125${PATH}`)), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects unsigned callbacks', () => {
+    const res = mockResponse();
+    const next = jest.fn();
+
+    verifyTwilioMiddleware(request(undefined), res, next);
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(next).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+import { db } from '../../../src/utils/database';
+import { VoiceSettingsManager } from '../../../src/voice/voice-settings';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+
+const INSERT_COLUMNS = [
+  'organization_id',
+  'default_platform',
+  'from_number',
+  'calling_hours_start',
+  'calling_hours_end',
+  'calling_days',
+  'default_timezone',
+  'max_daily_attempts',
+  'transfer_config',
+];
+
+/**
+ * A voice_settings table that answers like pg: rows are stored under their
+ * column names, TIME values come back as "HH:MM:SS", and only the selected
+ * columns are returned, under their aliases
+ */
+function fakeSettingsTable() {
+  let stored: Record<string, any> | null = null;
+
+  const project = (sql: string): Record<string, any> => {
+    const list = /(?:SELECT|RETURNING)\s+([\s\S]+?)(?:\s+FROM\b|\s*$)/.exec(sql.trim());
+    const row: Record<string, any> = {};
+
+    for (const item of (list as RegExpExecArray)[1].split(/,\s*\n/)) {
+      const [, expression, alias] = /^\s*([\s\S]+?)(?:\s+AS\s+"(\w+)")?\s*$/.exec(item) as RegExpExecArray;
+
+      if (expression === '*') {
+        Object.assign(row, stored);
+        continue;
+      }
+
+      const toChar = /^to_char\((\w+), 'HH24:MI'\)$/.exec(expression);
+      const column = toChar ? toChar[1] : expression;
+      const value = (stored as Record<string, any>)[column];
+
+      row[alias || column] = toChar ? String(value).slice(0, 5) : value;
+    }
+
+    return row;
+  };
+
+  return jest.fn(async (_organizationId: string, sql: string, params: any[] = []) => {
+    if (/^\s*INSERT/.test(sql)) {
+      stored = { created_at: new Date(), updated_at: new Date() };
+      INSERT_COLUMNS.forEach((column, index) => {
+        (stored as Record<string, any>)[column] = params[index];
+      });
+
+      for (const column of ['calling_hours_start', 'calling_hours_end']) {
+        const time = stored[column] as string;
+        stored[column] = time.length === 5 ? `${time}:00` : time;
+      }
+    }
+
+    return { rows: stored ? [project(sql)] : [], rowCount: stored ? 1 : 0 };
+  });
+}
+
+describe('VoiceSettingsManager', () => {
+  let manager: VoiceSettingsManager;
+
+  beforeEach(() => {
+    (db.queryWithContext as jest.Mock).mockImplementation(fakeSettingsTable());
+    manager = new VoiceSettingsManager();
+  });
+
+  it('returns the defaults for an organization without settings', async () => {
+    const settings = await manager.getSettings(ORGANIZATION_ID);
+
+    expect(settings).toMatchObject({
+      organizationId: ORGANIZATION_ID,
+      callingHoursStart: '09:00',
+      callingHoursEnd: '20:00',
+      callingDays: [1, 2, 3, 4, 5],
+      defaultTimezone: 'UTC',
+      maxDailyAttempts: 3,
+    });
+  });
+
+  it('reads back saved settings as camelCase', async () => {
+    const transferConfig = {
+      enabled: true,
+      targets: ['owner' as const],
+      fallback: 'assistant' as const,
+    };
+
+    const saved = await manager.updateSettings(ORGANIZATION_ID, {
+      defaultPlatform: 'twilio',
+      fromNumber: '+15550100000',
+      callingHoursStart: '08:30',
+      callingHoursEnd: '18:00',
+      callingDays: [1, 2, 3],
+      defaultTimezone: 'America/New_York',
+      maxDailyAttempts: 2,
+      transferConfig,
+    });
+
+    const expected = {
+      organizationId: ORGANIZATION_ID,
+      defaultPlatform: 'twilio',
+      fromNumber: '+15550100000',
+      callingHoursStart: '08:30',
+      callingHoursEnd: '18:00',
+      callingDays: [1, 2, 3],
+      defaultTimezone: 'America/New_York',
+      maxDailyAttempts: 2,
+      transferConfig,
+    };
+
+    expect(saved).toMatchObject(expected);
+    expect(await manager.getSettings(ORGANIZATION_ID)).toMatchObject(expected);
+  });
+
+  it('keeps saved values that an update leaves out', async () => {
+    await manager.updateSettings(ORGANIZATION_ID, {
+      defaultPlatform: 'twilio',
+      callingDays: [6, 7],
+      maxDailyAttempts: 5,
+    });
+
+    const updated = await manager.updateSettings(ORGANIZATION_ID, { defaultTimezone: 'Europe/Berlin' });
+
+    expect(updated).toMatchObject({
+      defaultPlatform: 'twilio',
+      callingHoursStart: '09:00',
+      callingDays: [6, 7],
+      defaultTimezone: 'Europe/Berlin',
+      maxDailyAttempts: 5,
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { db } from '../../../src/utils/database';
+import { activityManager } from '../../../src/activities';
+import { campaignEngine } from '../../../src/campaigns/campaign-engine';
+import { voiceNumberManager } from '../../../src/voice/voice-numbers';
+import { WhatsAppEventProcessor } from '../../../src/whatsapp/event-processor';
+import { InboundWhatsApp, WhatsAppDeliveryStatus } from '../../../src/whatsapp/types';
+
+jest.mock('../../../src/utils/database', () => ({
+  db: { query: jest.fn(), queryWithContext: jest.fn() },
+}));
+
+jest.mock('../../../src/utils/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+jest.mock('../../../src/websocket/manager', () => ({
+  broadcastInboxMessage: jest.fn(),
+}));
+
+jest.mock('../../../src/activities', () => ({
+  ...jest.requireActual('../../../src/activities'),
+  activityManager: { logActivity: jest.fn() },
+}));
+
+jest.mock('../../../src/campaigns/campaign-engine', () => ({
+  campaignEngine: { recordDelivery: jest.fn() },
+}));
+
+jest.mock('../../../src/voice/voice-numbers', () => ({
+  ...jest.requireActual('../../../src/voice/voice-numbers'),
+  voiceNumberManager: { findByPhoneNumber: jest.fn() },
+}));
+
+const ORGANIZATION_ID = '00000000-0000-0000-0000-000000000001';
+const CONTACT_ID = '00000000-0000-0000-0000-0000000000a1';
+const CAMPAIGN_ID = '00000000-0000-0000-0000-0000000000c1';
+const OWNER_ID = '00000000-0000-0000-0000-0000000000b1';
+
+// The template message an incoming message answers, as the thread lookup selects it
+const OUTBOUND_ROW = {
+  id: 'activity-out',
+  organization_id: ORGANIZATION_ID,
+  contact_id: CONTACT_ID,
+  campaign_id: CAMPAIGN_ID,
+  delivery_status: 'delivered',
+};
+
+const CONTACT_ROW = {
+  id: CONTACT_ID,
+  first_name: 'Sam',
+  mobile: '555-010-0001',
+  owner_id: OWNER_ID,
+  organization_id: ORGANIZATION_ID,
+};
+
+const MESSAGE: InboundWhatsApp = {
+  provider: 'cloud',
+  messageId: 'wamid.inbound-1',
+  from: '15550100001',
+  to: '+15550109999',
+  profileName: 'Sam',
+  type: 'text',
+  text: 'Yes, send me the offer',
+  receivedAt: new Date(),
+};
+
+/**
+ * Serve the outbound message lookups and the sender's contact
+ */
+function mockDatabase(options: { outbound?: Record<string, any>; contact?: Record<string, any> } = {}) {
+  (db.query as jest.Mock).mockResolvedValue({
+    rows: options.outbound ? [options.outbound] : [],
+    rowCount: options.outbound ? 1 : 0,
+  });
+
+  (db.queryWithContext as jest.Mock).mockImplementation(async (_organizationId: string, sql: string) => {
+    if (sql.includes('FROM nexuscrm.contacts')) {
+      const rows = options.contact ? [options.contact] : [];
+      return { rows, rowCount: rows.length };
+    }
+    return { rows: [], rowCount: 0 };
+  });
+}
+
+describe('WhatsAppEventProcessor', () => {
+  let processor: WhatsAppEventProcessor;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    processor = new WhatsAppEventProcessor();
+    (voiceNumberManager.findByPhoneNumber as jest.Mock).mockResolvedValue({
+      organizationId: ORGANIZATION_ID,
+    });
+    (activityManager.logActivity as jest.Mock).mockImplementation(async (_organizationId, _userId, input) => ({
+      id: 'activity-in',
+      ...input,
+    }));
+  });
+
+  describe('processStatus', () => {
+    const status = (value: WhatsAppDeliveryStatus) => ({
+      provider: 'cloud' as const,
+      messageId: 'wamid.outbound-1',
+      status: value,
+      occurredAt: new Date('2026-10-19T12:00:00Z'),
+    });
+
+    it('counts a read message as delivered to the campaign', async () => {
+      mockDatabase({ outbound: OUTBOUND_ROW });
+
+      await expect(processor.processStatus(status('read'))).resolves.toBe(true);
+
+      expect(campaignEngine.recordDelivery).toHaveBeenCalledWith('whatsapp', 'wamid.outbound-1');
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining('UPDATE nexuscrm.activities'),
+        ['activity-out', expect.stringContaining('"deliveryStatus":"read"')]
+      );
+    });
+
+    it('ignores a status that arrives after a later one', async () => {
+      mockDatabase({ outbound: { ...OUTBOUND_ROW, delivery_status: 'read' } });
+
+      await expect(processor.processStatus(status('delivered'))).resolves.toBe(true);
+
+      expect(db.queryWithContext).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processInbound', () => {
+    it("logs the message on the contact's timeline, threaded to the campaign message", async () => {
+      mockDatabase({ outbound: OUTBOUND_ROW, contact: CONTACT_ROW });
+
+      await processor.processInbound(MESSAGE);
+
+      expect(activityManager.logActivity).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        OWNER_ID,
+        expect.objectContaining({
+          type: 'whatsapp',
+          direction: 'inbound',
+          body: 'Yes, send me the offer',
+          contactId: CONTACT_ID,
+          externalId: 'wamid.inbound-1',
+          metadata: expect.objectContaining({
+            messageType: 'text',
+            profileName: 'Sam',
+            inReplyTo: 'activity-out',
+            campaignId: CAMPAIGN_ID,
+          }),
+        })
+      );
+    });
+
+    it('uses the caption as the body of a media message', async () => {
+      mockDatabase({ outbound: OUTBOUND_ROW, contact: CONTACT_ROW });
+      const media = { id: 'media-1', type: 'image', mimeType: 'image/jpeg', caption: 'Our floor plan' };
+
+      await processor.processInbound({ ...MESSAGE, type: 'image', text: undefined, media });
+
+      expect(activityManager.logActivity).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        OWNER_ID,
+        expect.objectContaining({ body: 'Our floor plan', metadata: expect.objectContaining({ media }) })
+      );
+    });
+
+    it('drops messages from senders who are not contacts', async () => {
+      mockDatabase();
+
+      await expect(processor.processInbound(MESSAGE)).resolves.toBeNull();
+
+      expect(db.queryWithContext).toHaveBeenCalledWith(
+        ORGANIZATION_ID,
+        expect.stringContaining('regexp_replace(mobile'),
+        ['550100001']
+      );
+      expect(activityManager.logActivity).not.toHaveBeenCalled();
+    });
+  });
+});